@@ -0,0 +1,170 @@
+/*
+ * DESIGN: Neo-Brutalist Terminal
+ * Morning Bell settings: scheduled briefings and the podcast feed URL
+ * New schedules use the browser's time zone
+ */
+
+import { useState } from "react";
+import { Copy, RefreshCw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { BRIEFING_LANGUAGES, BRIEFING_LANGUAGE_NAMES, type BriefingLanguage } from "@shared/briefingLanguages";
+import { DEFAULT_VOICE } from "@shared/voiceSettings";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+
+type Cadence = "daily" | "hourly";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+interface BriefingScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function BriefingScheduleDialog({ open, onOpenChange }: BriefingScheduleDialogProps) {
+  const [cadence, setCadence] = useState<Cadence>("daily");
+  const [time, setTime] = useState("08:00");
+  const [voice, setVoice] = useState(DEFAULT_VOICE);
+  const [language, setLanguage] = useState<BriefingLanguage>("en");
+  const [watchlistId, setWatchlistId] = useState<number | null>(null);
+  const utils = trpc.useUtils();
+
+  const schedulesQuery = trpc.briefings.schedules.useQuery(undefined, { enabled: open });
+  const feedQuery = trpc.briefings.feed.useQuery(undefined, { enabled: open });
+  const watchlistsQuery = trpc.watchlists.list.useQuery(undefined, { enabled: open });
+  const voicesQuery = trpc.ai.getVoiceOptions.useQuery({ language }, { enabled: open });
+
+  const onError = (error: { message: string }) => toast.error(error.message);
+  const refresh = () => utils.briefings.schedules.invalidate();
+  const createSchedule = trpc.briefings.createSchedule.useMutation({ onSuccess: refresh, onError });
+  const updateSchedule = trpc.briefings.updateSchedule.useMutation({ onSuccess: refresh, onError });
+  const deleteSchedule = trpc.briefings.deleteSchedule.useMutation({ onSuccess: refresh, onError });
+  const rotateFeed = trpc.briefings.rotateFeed.useMutation({
+    onSuccess: () => {
+      utils.briefings.feed.invalidate();
+      toast("New feed URL created; resubscribe in your podcast app");
+    },
+    onError,
+  });
+
+  const handleAdd = () => {
+    const [hour, minute] = time.split(":").map(Number);
+    createSchedule.mutate({
+      cadence,
+      hour,
+      minute,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      voice,
+      language,
+      watchlistId,
+    });
+  };
+
+  const copyFeed = async () => {
+    if (!feedQuery.data) return;
+    await navigator.clipboard.writeText(feedQuery.data.url);
+    toast.success("Feed URL copied");
+  };
+
+  const watchlistName = (id: number | null) =>
+    id === null ? "Top markets" : watchlistsQuery.data?.find((list) => list.id === id)?.name ?? "Watchlist";
+
+  const voiceName = (id: string) => voicesQuery.data?.find((option) => option.id === id)?.name ?? id;
+
+  const fieldClass = "px-2 py-1.5 rounded bg-white/5 border border-white/10 font-mono text-xs text-white outline-none focus:border-[#00FFA3]/50";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#0B0E11] border-2 border-white/10 text-white">
+        <DialogHeader>
+          <DialogTitle className="font-display font-bold tracking-tight">MORNING BELL</DialogTitle>
+          <DialogDescription className="font-mono text-xs text-white/50">
+            Briefings built on a schedule, delivered to any podcast app.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Podcast feed */}
+        <div className="space-y-2">
+          <span className="font-mono text-[10px] text-white/40">PODCAST FEED</span>
+          <div className="flex items-center gap-2">
+            <input readOnly value={feedQuery.data?.url ?? "Loading..."} className={`${fieldClass} flex-1 truncate`} />
+            <button onClick={copyFeed} className="p-2 rounded bg-white/5 hover:bg-white/10" aria-label="Copy feed URL">
+              <Copy className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => rotateFeed.mutate()}
+              disabled={rotateFeed.isPending}
+              className="p-2 rounded bg-white/5 hover:bg-white/10"
+              aria-label="Create a new feed URL"
+            >
+              <RefreshCw className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <p className="font-mono text-[10px] text-white/30">Keep this URL private: anyone with it can listen.</p>
+        </div>
+
+        {/* Schedules */}
+        <div className="space-y-2">
+          <span className="font-mono text-[10px] text-white/40">SCHEDULES</span>
+          {(schedulesQuery.data ?? []).map((schedule) => (
+            <div key={schedule.id} className="flex items-center gap-2 px-3 py-2 rounded bg-white/5">
+              <input
+                type="checkbox"
+                checked={schedule.enabled}
+                onChange={(e) => updateSchedule.mutate({ id: schedule.id, changes: { enabled: e.target.checked } })}
+                aria-label="Enabled"
+              />
+              <span className="flex-1 font-mono text-xs">
+                {schedule.cadence === "daily"
+                  ? `Daily at ${pad(schedule.hour)}:${pad(schedule.minute)}`
+                  : `Hourly at :${pad(schedule.minute)}`}
+                <span className="text-white/40"> · {watchlistName(schedule.watchlistId)} · {voiceName(schedule.voice)} · {BRIEFING_LANGUAGE_NAMES[schedule.language]}</span>
+              </span>
+              <span className="font-mono text-[10px] text-white/30" title={schedule.timezone}>
+                next {new Date(schedule.nextRunAt).toLocaleString([], { weekday: "short", hour: "2-digit", minute: "2-digit" })}
+              </span>
+              <button
+                onClick={() => deleteSchedule.mutate({ id: schedule.id })}
+                className="p-1 rounded text-white/40 hover:text-[#FF007A]"
+                aria-label="Delete schedule"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2 flex-wrap pt-1">
+            <select value={cadence} onChange={(e) => setCadence(e.target.value as Cadence)} className={fieldClass}>
+              <option value="daily">Daily</option>
+              <option value="hourly">Hourly</option>
+            </select>
+            <input type="time" value={time} onChange={(e) => setTime(e.target.value)} className={fieldClass} />
+            <select
+              value={watchlistId ?? ""}
+              onChange={(e) => setWatchlistId(e.target.value ? Number(e.target.value) : null)}
+              className={fieldClass}
+            >
+              <option value="">Top markets</option>
+              {(watchlistsQuery.data ?? []).map((list) => (
+                <option key={list.id} value={list.id}>{list.name}</option>
+              ))}
+            </select>
+            <select value={voice} onChange={(e) => setVoice(e.target.value)} className={fieldClass}>
+              {(voicesQuery.data ?? []).map((option) => <option key={option.id} value={option.id}>{option.name}</option>)}
+            </select>
+            <select value={language} onChange={(e) => setLanguage(e.target.value as BriefingLanguage)} className={fieldClass}>
+              {BRIEFING_LANGUAGES.map((id) => <option key={id} value={id}>{BRIEFING_LANGUAGE_NAMES[id]}</option>)}
+            </select>
+            <button
+              onClick={handleAdd}
+              disabled={createSchedule.isPending}
+              className="px-3 py-1.5 rounded bg-[#00FFA3] text-[#0B0E11] font-display font-semibold text-xs hover:bg-[#00CC82]"
+            >
+              ADD
+            </button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,13 +4,26 @@
  * Triggers Live Briefing with Gemini script + ElevenLabs voice
  * Features: 'Generating Audio...' spinner + pulsing green waveform during playback
  * Voice: Bill (pMsXg8qnD5Ets9xZ9T2o) as default with Flash v2.5 model
+ * Voices come from the server's voice profiles; signed-in users keep their
+ * chosen voice and speech settings
+ * Briefings can be written and spoken in English, Spanish, German or Japanese
+ * Can cover the user's watchlist instead of the global top markets
+ * History menu replays briefings archived for the signed-in user
+ * Audio streams through MediaSource where supported, falling back to the
+ * buffered briefing; the indicator shows time to first audio
  */
 
 import { useState, useRef, useEffect } from "react";
-import { Volume2, VolumeX, Loader2, Mic, Radio } from "lucide-react";
+import { Volume2, VolumeX, Loader2, Mic, Radio, Star, History, CalendarClock, SlidersHorizontal } from "lucide-react";
 import { toast } from "sonner";
+import { BRIEFING_LANGUAGES, BRIEFING_LANGUAGE_NAMES, type BriefingLanguage } from "@shared/briefingLanguages";
+import { DEFAULT_VOICE } from "@shared/voiceSettings";
+import { useAuth } from "@/_core/hooks/useAuth";
 import { trpc } from "@/lib/trpc";
+import { canStreamAudio, playStreamingAudio } from "@/lib/streamingAudio";
 import AudioWaveform from "./AudioWaveform";
+import BriefingScheduleDialog from "./BriefingScheduleDialog";
+import VoiceSettingsDialog from "./VoiceSettingsDialog";
 
 interface MarketData {
   topic: string;
@@ -23,33 +36,118 @@ interface MarketData {
 
 interface ListenToAlphaButtonProps {
   markets: MarketData[];
+  // Top markets of the active watchlist
+  watchlistMarkets?: MarketData[];
+  watchlistName?: string;
   className?: string;
 }
 
-type VoiceOption = "bill" | "charlotte" | "rachel" | "adam" | "josh";
-
-export default function ListenToAlphaButton({ markets, className = "" }: ListenToAlphaButtonProps) {
+export default function ListenToAlphaButton({ markets, watchlistMarkets = [], watchlistName, className = "" }: ListenToAlphaButtonProps) {
   const [isGenerating, setIsGenerating] = useState(false);
+  const [useWatchlist, setUseWatchlist] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [selectedVoice, setSelectedVoice] = useState<VoiceOption>("bill");
+  const [selectedVoice, setSelectedVoice] = useState(DEFAULT_VOICE);
+  const [language, setLanguage] = useState<BriefingLanguage>("en");
   const [showVoiceMenu, setShowVoiceMenu] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSchedules, setShowSchedules] = useState(false);
+  const [showVoiceSettings, setShowVoiceSettings] = useState(false);
   const [generationProgress, setGenerationProgress] = useState("");
+  // Time from the click to the first audible audio, in ms
+  const [firstAudioMs, setFirstAudioMs] = useState<number | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
+  const { isAuthenticated } = useAuth();
+  const utils = trpc.useUtils();
+
+  const generateBriefingMutation = trpc.ai.generateLiveHypeBriefing.useMutation({
+    onSuccess: () => utils.briefings.list.invalidate(),
+  });
+  const prepareBriefingMutation = trpc.ai.prepareLiveHypeBriefing.useMutation();
+  const historyQuery = trpc.briefings.list.useQuery(undefined, {
+    enabled: isAuthenticated && showHistory,
+  });
+  const voicesQuery = trpc.ai.getVoiceOptions.useQuery({ language });
+  const preferencesQuery = trpc.voices.preferences.useQuery(undefined, { enabled: isAuthenticated });
+  const savePreferencesMutation = trpc.voices.savePreferences.useMutation({
+    onSuccess: (saved) => utils.voices.preferences.setData(undefined, saved),
+    onError: (error) => toast.error(error.message),
+  });
+
+  // Follow the saved voice, including changes made in the settings dialog
+  useEffect(() => {
+    if (preferencesQuery.data) setSelectedVoice(preferencesQuery.data.voice);
+  }, [preferencesQuery.data]);
+
+  const handleSelectVoice = (voice: string) => {
+    setSelectedVoice(voice);
+    setShowVoiceMenu(false);
+    if (preferencesQuery.data && preferencesQuery.data.voice !== voice) {
+      savePreferencesMutation.mutate({ ...preferencesQuery.data, voice });
+    }
+  };
 
-  const generateBriefingMutation = trpc.ai.generateLiveHypeBriefing.useMutation();
+  const voiceName = (id: string) => voicesQuery.data?.find((voice) => voice.id === id)?.name ?? id;
 
-  // Close voice menu when clicking outside
+  // Close menus when clicking outside
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
       if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
         setShowVoiceMenu(false);
+        setShowHistory(false);
       }
     }
     document.addEventListener("mousedown", handleClickOutside);
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
+  // Replace whatever is playing with a new audio element
+  const createAudio = (requestedAt: number) => {
+    if (audioRef.current) {
+      audioRef.current.pause();
+    }
+
+    const audio = new Audio();
+    audioRef.current = audio;
+    setFirstAudioMs(null);
+
+    audio.onplaying = () => {
+      setFirstAudioMs((current) => current ?? Math.round(performance.now() - requestedAt));
+    };
+    audio.onplay = () => {
+      setIsPlaying(true);
+      setIsGenerating(false);
+    };
+    audio.onended = () => setIsPlaying(false);
+    audio.onerror = () => {
+      setIsPlaying(false);
+      setIsGenerating(false);
+      toast.error("Failed to play audio");
+    };
+    return audio;
+  };
+
+  const playAudio = async (url: string, requestedAt = performance.now()) => {
+    const audio = createAudio(requestedAt);
+    audio.src = url;
+    await audio.play();
+  };
+
+  const handleReplay = async (id: number) => {
+    setShowHistory(false);
+    setIsGenerating(true);
+    setGenerationProgress("Loading briefing...");
+    try {
+      // Fetched per replay: the signed audio URL expires
+      const briefing = await utils.briefings.get.fetch({ id }, { staleTime: 0 });
+      await playAudio(briefing.audioUrl);
+    } catch (error) {
+      console.error("Failed to replay briefing:", error);
+      toast.error("Failed to load briefing");
+      setIsGenerating(false);
+    }
+  };
+
   const handlePlay = async () => {
     if (isPlaying && audioRef.current) {
       audioRef.current.pause();
@@ -58,17 +156,19 @@ export default function ListenToAlphaButton({ markets, className = "" }: ListenT
       return;
     }
 
-    if (markets.length === 0) {
+    const briefingMarkets = useWatchlist && watchlistMarkets.length > 0 ? watchlistMarkets : markets;
+    if (briefingMarkets.length === 0) {
       toast.error("No markets available for briefing");
       return;
     }
 
+    const requestedAt = performance.now();
     setIsGenerating(true);
     setGenerationProgress("Fetching market data...");
 
     try {
       // Get top 3 markets for the briefing
-      const topMarkets = markets.slice(0, 3).map(m => ({
+      const topMarkets = briefingMarkets.slice(0, 3).map(m => ({
         topic: m.topic,
         momentum: m.momentum,
         change24h: m.change24h,
@@ -78,34 +178,46 @@ export default function ListenToAlphaButton({ markets, className = "" }: ListenT
       }));
 
       setGenerationProgress("Generating script...");
-      
+
+      // Stream the speech as it is synthesized where the browser can
+      if (canStreamAudio()) {
+        const audio = createAudio(requestedAt);
+        try {
+          const prepared = await prepareBriefingMutation.mutateAsync({
+            markets: topMarkets,
+            voice: selectedVoice,
+            language,
+          });
+          setGenerationProgress("Streaming audio...");
+          await playStreamingAudio(prepared.streamUrl, audio);
+          utils.briefings.list.invalidate();
+          toast.success(
+            <div className="space-y-1">
+              <p className="font-semibold">Briefing Live</p>
+              <p className="text-xs opacity-70">
+                {prepared.wordCount} words · ~{prepared.estimatedDuration}s · streamed
+              </p>
+            </div>,
+            { duration: 4000 }
+          );
+          return;
+        } catch (error) {
+          // Part of it already played: a buffered retry would start over
+          if (audio.currentTime > 0) throw error;
+          audio.onerror = null;
+          audio.pause();
+          console.warn("Streaming briefing failed, using buffered audio:", error);
+        }
+      }
+
       const result = await generateBriefingMutation.mutateAsync({
         markets: topMarkets,
         voice: selectedVoice,
+        language,
       });
 
-      setGenerationProgress("Streaming audio...");
-
-      // Create and play audio
-      if (audioRef.current) {
-        audioRef.current.pause();
-      }
-
-      const audio = new Audio(result.audioUrl);
-      audioRef.current = audio;
-
-      audio.onplay = () => {
-        setIsPlaying(true);
-        setIsGenerating(false);
-      };
-      audio.onended = () => setIsPlaying(false);
-      audio.onerror = () => {
-        setIsPlaying(false);
-        setIsGenerating(false);
-        toast.error("Failed to play audio");
-      };
-
-      await audio.play();
+      setGenerationProgress("Loading audio...");
+      await playAudio(result.audioUrl, requestedAt);
 
       toast.success(
         <div className="space-y-1">
@@ -123,47 +235,131 @@ export default function ListenToAlphaButton({ markets, className = "" }: ListenT
     }
   };
 
-  const voiceOptions: Array<{ id: VoiceOption; name: string; desc: string }> = [
-    { id: "bill", name: "Bill", desc: "Authoritative male" },
-    { id: "charlotte", name: "Charlotte", desc: "Professional female" },
-    { id: "rachel", name: "Rachel", desc: "Warm female" },
-    { id: "adam", name: "Adam", desc: "Deep male" },
-    { id: "josh", name: "Josh", desc: "Energetic male" },
-  ];
-
   return (
     <div className={`relative flex items-center gap-2 ${className}`} ref={menuRef}>
+      {/* Past briefings */}
+      {isAuthenticated && (
+        <button
+          onClick={() => {
+            setShowHistory(!showHistory);
+            setShowVoiceMenu(false);
+          }}
+          className="flex items-center px-2 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 transition-colors"
+          title="Past briefings"
+        >
+          <History className="w-3 h-3 text-white/50" />
+        </button>
+      )}
+
+      {showHistory && (
+        <div className="absolute top-full left-0 mt-2 w-72 max-h-80 overflow-y-auto rounded-lg bg-[#1a1d21] border border-white/10 shadow-xl z-50">
+          <button
+            onClick={() => {
+              setShowHistory(false);
+              setShowSchedules(true);
+            }}
+            className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-white/5 transition-colors border-b border-white/10"
+          >
+            <CalendarClock className="w-3.5 h-3.5 text-[#00FFA3]" />
+            <span className="font-mono text-xs text-[#00FFA3]">MORNING BELL SCHEDULE & PODCAST</span>
+          </button>
+          {(historyQuery.data ?? []).length === 0 ? (
+            <p className="px-3 py-4 font-mono text-xs text-white/40 text-center">
+              {historyQuery.isLoading ? "Loading..." : "No briefings yet"}
+            </p>
+          ) : (
+            historyQuery.data!.map((briefing) => (
+              <button
+                key={briefing.id}
+                onClick={() => handleReplay(briefing.id)}
+                className="w-full px-3 py-2 text-left hover:bg-white/5 transition-colors border-b border-white/5"
+              >
+                <span className="font-mono text-xs text-white block truncate">{briefing.topics.join(" · ")}</span>
+                <span className="font-mono text-[10px] text-white/40">
+                  {new Date(briefing.createdAt).toLocaleString()} · {voiceName(briefing.voice)}
+                  {briefing.language !== "en" && <> · {briefing.language.toUpperCase()}</>} · ~{briefing.estimatedDuration}s
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      {isAuthenticated && <BriefingScheduleDialog open={showSchedules} onOpenChange={setShowSchedules} />}
+      {isAuthenticated && <VoiceSettingsDialog open={showVoiceSettings} onOpenChange={setShowVoiceSettings} />}
+
       {/* Voice selector */}
       <button
-        onClick={() => setShowVoiceMenu(!showVoiceMenu)}
+        onClick={() => {
+          setShowVoiceMenu(!showVoiceMenu);
+          setShowHistory(false);
+        }}
         className="flex items-center gap-1 px-2 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 transition-colors"
-        title="Select voice"
+        title="Select voice and language"
       >
         <Mic className="w-3 h-3 text-white/50" />
-        <span className="font-mono text-xs text-white/70 capitalize">{selectedVoice}</span>
+        <span className="font-mono text-xs text-white/70">{voiceName(selectedVoice)}</span>
+        {language !== "en" && <span className="font-mono text-[10px] text-[#00FFA3]">{language.toUpperCase()}</span>}
       </button>
 
       {/* Voice dropdown menu */}
       {showVoiceMenu && (
-        <div className="absolute top-full left-0 mt-2 w-52 rounded-lg bg-[#1a1d21] border border-white/10 shadow-xl z-50 overflow-hidden">
-          {voiceOptions.map((voice) => (
+        <div className="absolute top-full left-0 mt-2 w-52 max-h-96 overflow-y-auto rounded-lg bg-[#1a1d21] border border-white/10 shadow-xl z-50 overflow-hidden">
+          <div className="flex border-b border-white/10">
+            {BRIEFING_LANGUAGES.map((id) => (
+              <button
+                key={id}
+                onClick={() => setLanguage(id)}
+                className={`flex-1 py-1.5 font-mono text-xs transition-colors ${
+                  language === id ? "bg-[#00FFA3]/10 text-[#00FFA3]" : "text-white/50 hover:bg-white/5"
+                }`}
+                title={BRIEFING_LANGUAGE_NAMES[id]}
+              >
+                {id.toUpperCase()}
+              </button>
+            ))}
+          </div>
+          {(voicesQuery.data ?? []).map((voice) => (
             <button
               key={voice.id}
-              onClick={() => {
-                setSelectedVoice(voice.id);
-                setShowVoiceMenu(false);
-              }}
+              onClick={() => handleSelectVoice(voice.id)}
               className={`w-full px-3 py-2 text-left hover:bg-white/5 transition-colors ${
                 selectedVoice === voice.id ? "bg-[#00FFA3]/10 border-l-2 border-[#00FFA3]" : ""
               }`}
             >
               <span className="font-mono text-sm text-white block">{voice.name}</span>
-              <span className="font-mono text-xs text-white/40">{voice.desc}</span>
+              <span className="font-mono text-xs text-white/40 block truncate">{voice.description}</span>
             </button>
           ))}
+          {isAuthenticated && (
+            <button
+              onClick={() => {
+                setShowVoiceMenu(false);
+                setShowVoiceSettings(true);
+              }}
+              className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-white/5 transition-colors border-t border-white/10"
+            >
+              <SlidersHorizontal className="w-3.5 h-3.5 text-[#00FFA3]" />
+              <span className="font-mono text-xs text-[#00FFA3]">VOICE SETTINGS</span>
+            </button>
+          )}
         </div>
       )}
 
+      {/* Briefing source: global top markets or the active watchlist */}
+      {watchlistMarkets.length > 0 && (
+        <button
+          onClick={() => setUseWatchlist(!useWatchlist)}
+          className={`flex items-center gap-1 px-2 py-1.5 rounded-lg transition-colors ${
+            useWatchlist ? "bg-yellow-400/10 text-yellow-400" : "bg-white/5 text-white/50 hover:bg-white/10"
+          }`}
+          title={useWatchlist ? `Briefing covers ${watchlistName ?? "your watchlist"}` : "Briefing covers the top 3 markets"}
+        >
+          <Star className="w-3 h-3" fill={useWatchlist ? "currentColor" : "none"} />
+          <span className="font-mono text-xs">{useWatchlist ? "WATCHLIST" : "TOP 3"}</span>
+        </button>
+      )}
+
       {/* Main button */}
       <button
         onClick={handlePlay}
@@ -202,6 +398,11 @@ export default function ListenToAlphaButton({ markets, className = "" }: ListenT
         <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-[#00FFA3]/10 border border-[#00FFA3]/30 animate-pulse">
           <AudioWaveform isPlaying={isPlaying} barCount={7} color="#00FFA3" />
           <span className="font-mono text-xs text-[#00FFA3] font-semibold">AI SPEAKING</span>
+          {firstAudioMs !== null && (
+            <span className="font-mono text-[10px] text-[#00FFA3]/60" title="Time to first audio">
+              TTFA {firstAudioMs}ms
+            </span>
+          )}
         </div>
       )}
 
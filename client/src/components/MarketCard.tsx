@@ -2,19 +2,20 @@
  * DESIGN: Neo-Brutalist Terminal
  * Glassmorphic market card with velocity sparkline
  * Shows topic, momentum %, velocity chart, trading volume, and AI vibe analysis
+ * Star toggles the market on the active watchlist
  */
 
-import { TrendingUp, TrendingDown, Clock, Users } from "lucide-react";
+import { TrendingUp, TrendingDown, Clock, Users, Star, ChevronLeft, ChevronRight } from "lucide-react";
 import VelocitySparkline from "./VelocitySparkline";
 import VibeRadarChart from "./VibeRadarChart";
-import { VibeAlertBadge, getVibeAlertType } from "./VibeAlert";
+import { VibeAlertBadge, getVibeAlertType, type VibeAlertType } from "./VibeAlert";
 
 export interface VibeData {
   joy: number;
   anxiety: number;
   anticipation?: number;
   surprise?: number;
-  alertType: "volatility_trap" | "hype_train" | null;
+  alertType: VibeAlertType | null;
   alertIntensity: number;
 }
 
@@ -22,6 +23,7 @@ export interface MarketData {
   id: string;
   topic: string;
   category: string;
+  categorySlug: string;
   momentum: number;
   change24h: number;
   volume: string;
@@ -40,13 +42,18 @@ interface MarketCardProps {
   market: MarketData;
   index: number;
   onSelect: (market: MarketData) => void;
+  // Watchlist controls, shown only for signed-in users
+  watched?: boolean;
+  onToggleWatch?: (market: MarketData) => void;
+  // Moves the market within the watchlist being shown
+  onMove?: (offset: -1 | 1) => void;
 }
 
-export default function MarketCard({ market, index, onSelect }: MarketCardProps) {
+export default function MarketCard({ market, index, onSelect, watched = false, onToggleWatch, onMove }: MarketCardProps) {
   const isPositive = market.change24h >= 0;
   const trend = market.change24h > 2 ? "up" : market.change24h < -2 ? "down" : "neutral";
 
-  // Calculate alert from vibe data using updated thresholds
+  // Calculate alert from vibe data with the shared alert rules
   const vibeAlert = market.vibe 
     ? getVibeAlertType(market.vibe.joy, market.vibe.anxiety)
     : { type: null, intensity: 0 };
@@ -70,7 +77,7 @@ export default function MarketCard({ market, index, onSelect }: MarketCardProps)
                 {market.timeRemaining}
               </span>
             )}
-            {/* Vibe Alert Badge - using calculated alert with new thresholds */}
+            {/* Vibe Alert Badge - from the shared alert rules */}
             {vibeAlert.type && (
               <VibeAlertBadge 
                 type={vibeAlert.type} 
@@ -83,6 +90,36 @@ export default function MarketCard({ market, index, onSelect }: MarketCardProps)
           </h3>
         </div>
         
+        {/* Watchlist controls */}
+        {onMove && (
+          <div className="flex items-center mr-1">
+            <button
+              onClick={(e) => { e.stopPropagation(); onMove(-1); }}
+              className="p-1 rounded text-white/30 hover:text-white hover:bg-white/5"
+              aria-label="Move earlier"
+            >
+              <ChevronLeft className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onMove(1); }}
+              className="p-1 rounded text-white/30 hover:text-white hover:bg-white/5"
+              aria-label="Move later"
+            >
+              <ChevronRight className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
+        {onToggleWatch && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onToggleWatch(market); }}
+            className={`p-1 mr-1 rounded transition-colors ${watched ? "text-yellow-400" : "text-white/30 hover:text-white"}`}
+            aria-label={watched ? "Remove from watchlist" : "Add to watchlist"}
+            aria-pressed={watched}
+          >
+            <Star className="w-4 h-4" fill={watched ? "currentColor" : "none"} />
+          </button>
+        )}
+
         {/* Momentum Badge */}
         <div className={`
           flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-mono font-semibold
@@ -3,18 +3,30 @@
  * Navigation bar with brutalist typography and glassmorphic background
  * Categories: Trending, Crypto, Tech, Culture
  * Now includes Live Hype Briefing button powered by Gemini + ElevenLabs
+ * Signed-in users also get a WATCHLIST tab
  */
 
-import { Activity, Flame, Zap, Code, Sparkles } from "lucide-react";
+import { useMemo } from "react";
+import { Link } from "wouter";
+import { Activity, Flame, Zap, Code, Sparkles, Briefcase, Star, type LucideIcon } from "lucide-react";
 import { toast } from "sonner";
+import { trpc } from "@/lib/trpc";
 import ListenToAlphaButton from "./ListenToAlphaButton";
+import NotificationBell from "./NotificationBell";
 
-const categories = [
-  { id: "trending", label: "TRENDING", icon: Flame },
-  { id: "crypto", label: "CRYPTO", icon: Activity },
-  { id: "tech", label: "TECH", icon: Code },
-  { id: "culture", label: "CULTURE", icon: Sparkles },
-];
+// Icons a market category may reference by name from the catalog
+const categoryIcons: Record<string, LucideIcon> = {
+  Activity,
+  Code,
+  Flame,
+  Sparkles,
+  Zap,
+};
+
+// Trending is a virtual tab that shows every market
+const trendingCategory = { id: "trending", label: "TRENDING", icon: Flame };
+// The user's active watchlist, also virtual
+const watchlistCategory = { id: "watchlist", label: "WATCHLIST", icon: Star };
 
 interface MarketData {
   topic: string;
@@ -29,9 +41,34 @@ interface NavigationProps {
   activeCategory: string;
   onCategoryChange: (category: string) => void;
   topMarkets?: MarketData[];
+  showWatchlist?: boolean;
+  // Offered to the briefing as an alternative to the top markets
+  watchlistMarkets?: MarketData[];
+  watchlistName?: string;
 }
 
-export default function Navigation({ activeCategory, onCategoryChange, topMarkets = [] }: NavigationProps) {
+export default function Navigation({
+  activeCategory,
+  onCategoryChange,
+  topMarkets = [],
+  showWatchlist = false,
+  watchlistMarkets = [],
+  watchlistName,
+}: NavigationProps) {
+  const categoriesQuery = trpc.markets.categories.useQuery(undefined, {
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const categories = useMemo(() => [
+    trendingCategory,
+    ...(showWatchlist ? [watchlistCategory] : []),
+    ...(categoriesQuery.data ?? []).map((cat) => ({
+      id: cat.id,
+      label: cat.label,
+      icon: (cat.icon && categoryIcons[cat.icon]) || Activity,
+    })),
+  ], [categoriesQuery.data, showWatchlist]);
+
   return (
     <header className="fixed top-0 left-0 right-0 z-50">
       <div className="glass-card border-b border-white/5">
@@ -78,9 +115,23 @@ export default function Navigation({ activeCategory, onCategoryChange, topMarket
             <div className="flex items-center gap-3">
               {/* Live Hype Briefing Button */}
               <div className="hidden lg:block">
-                <ListenToAlphaButton markets={topMarkets} />
+                <ListenToAlphaButton
+                  markets={topMarkets}
+                  watchlistMarkets={watchlistMarkets}
+                  watchlistName={watchlistName}
+                />
               </div>
               
+              <Link
+                href="/portfolio"
+                className="hidden sm:flex items-center gap-1.5 px-3 py-1.5 rounded-lg font-mono text-xs text-white/60 hover:text-white hover:bg-white/5 transition-colors"
+              >
+                <Briefcase className="w-3.5 h-3.5" />
+                PORTFOLIO
+              </Link>
+
+              <NotificationBell />
+
               <div className="hidden sm:flex items-center gap-2 px-3 py-1.5 rounded-full bg-[#00FFA3]/10 border border-[#00FFA3]/20">
                 <span className="w-2 h-2 rounded-full bg-[#00FFA3] pulse-indicator" />
                 <span className="font-mono text-xs text-[#00FFA3]">LIVE</span>
@@ -0,0 +1,109 @@
+/*
+ * DESIGN: Neo-Brutalist Terminal
+ * Inbox bell for the navigation bar: unread badge plus a popover listing
+ * the alerts delivered to the signed-in user
+ */
+
+import { useState } from "react";
+import { Bell, CheckCheck } from "lucide-react";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { trpc } from "@/lib/trpc";
+
+const UNREAD_POLL_MS = 30_000;
+
+const severityColors: Record<string, string> = {
+  critical: "#FF007A",
+  warning: "#FFB800",
+  info: "#00FFA3",
+};
+
+// "12s", "4m", "2h" since a timestamp
+const formatAge = (timestamp: number, now: number): string => {
+  const seconds = Math.max(0, Math.floor((now - timestamp) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+};
+
+export default function NotificationBell() {
+  const { isAuthenticated } = useAuth();
+  const [open, setOpen] = useState(false);
+  const utils = trpc.useUtils();
+
+  const unreadQuery = trpc.notifications.unreadCount.useQuery(undefined, {
+    enabled: isAuthenticated,
+    refetchInterval: UNREAD_POLL_MS,
+  });
+  const inboxQuery = trpc.notifications.inbox.useQuery({ limit: 20 }, {
+    enabled: isAuthenticated && open,
+  });
+  const markRead = trpc.notifications.markRead.useMutation({
+    onSuccess: () => utils.notifications.invalidate(),
+  });
+
+  if (!isAuthenticated) return null;
+
+  const unread = unreadQuery.data?.count ?? 0;
+  const items = inboxQuery.data ?? [];
+  const now = Date.now();
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          aria-label={unread > 0 ? `${unread} unread notifications` : "Notifications"}
+          className="relative p-2 rounded-lg text-white/60 hover:text-white hover:bg-white/5 transition-colors"
+        >
+          <Bell className="w-4 h-4" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-[#FF007A] text-white font-mono text-[10px] font-bold leading-4 text-center">
+              {unread > 99 ? "99+" : unread}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+
+      <PopoverContent align="end" className="w-80 p-0 bg-[#0B0E11] border-2 border-white/10">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+          <span className="font-display font-bold text-sm text-white">INBOX</span>
+          <button
+            onClick={() => markRead.mutate({})}
+            disabled={unread === 0 || markRead.isPending}
+            className="flex items-center gap-1 font-mono text-[10px] text-white/50 hover:text-[#00FFA3] disabled:opacity-30 disabled:hover:text-white/50"
+          >
+            <CheckCheck className="w-3 h-3" />
+            MARK ALL READ
+          </button>
+        </div>
+
+        <div className="max-h-96 overflow-y-auto">
+          {items.length === 0 ? (
+            <p className="px-4 py-6 font-mono text-xs text-white/40 text-center">
+              {inboxQuery.isLoading ? "Loading..." : "No alerts yet"}
+            </p>
+          ) : (
+            items.map(item => (
+              <button
+                key={item.id}
+                onClick={() => !item.read && markRead.mutate({ ids: [item.id] })}
+                className={`w-full text-left px-4 py-3 border-b border-white/5 hover:bg-white/5 transition-colors ${item.read ? "opacity-50" : ""}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span
+                    className="w-2 h-2 rounded-full shrink-0"
+                    style={{ backgroundColor: severityColors[item.severity] ?? "#FFFFFF" }}
+                  />
+                  <span className="flex-1 font-mono text-xs font-bold text-white truncate">{item.title}</span>
+                  <span className="font-mono text-[10px] text-white/30">{formatAge(item.createdAt, now)}</span>
+                </div>
+                <p className="mt-1 pl-4 font-mono text-[11px] text-white/60 line-clamp-2">{item.body}</p>
+              </button>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -3,99 +3,78 @@
  * Oracle Feed sidebar showing live aggregate of X, Reddit, and HN
  * Pulsing signal icons indicating data freshness
  * Now with Gemini AI analysis for each signal
+ * Filters to the selected market's matched signals, with an ALL toggle
  */
 
 import { useState, useEffect } from "react";
-import { Radio, MessageCircle, Newspaper, TrendingUp, TrendingDown, Sparkles, Loader2 } from "lucide-react";
+import { Radio, MessageCircle, Newspaper, Sparkles, Loader2 } from "lucide-react";
 import { trpc } from "@/lib/trpc";
 
-interface SignalSource {
-  id: string;
-  name: string;
-  icon: React.ReactNode;
-  status: "live" | "delayed" | "offline";
-  lastUpdate: string;
-  signalStrength: number;
-}
+type SignalSourceId = "twitter" | "reddit" | "hackernews" | "news";
 
-interface TrendingSignal {
-  id: string;
-  source: "twitter" | "reddit" | "hackernews" | "news";
-  content: string;
-  sentiment: "bullish" | "bearish" | "neutral";
-  velocity: number;
-  timestamp: string;
-  // Gemini analysis
-  analysis?: {
-    core_event: string;
-    main_actors: string[];
-    hype_summary: string;
-    is_bot_noise: boolean;
-    confidence: number;
-  };
+interface SignalAnalysis {
+  core_event: string;
+  main_actors: string[];
+  hype_summary: string;
+  is_bot_noise: boolean;
+  confidence: number;
 }
 
-const sources: SignalSource[] = [
-  { 
-    id: "x", 
-    name: "X / Twitter", 
-    icon: <span className="font-bold text-sm">𝕏</span>,
-    status: "live",
-    lastUpdate: "2s ago",
-    signalStrength: 94
-  },
-  { 
-    id: "reddit", 
-    name: "Reddit", 
-    icon: <MessageCircle className="w-4 h-4" />,
-    status: "live",
-    lastUpdate: "5s ago",
-    signalStrength: 87
-  },
-  { 
-    id: "hn", 
-    name: "Hacker News", 
-    icon: <span className="font-bold text-sm">Y</span>,
-    status: "live",
-    lastUpdate: "12s ago",
-    signalStrength: 72
-  },
-  { 
-    id: "news", 
-    name: "News Feeds", 
-    icon: <Newspaper className="w-4 h-4" />,
-    status: "delayed",
-    lastUpdate: "1m ago",
-    signalStrength: 65
-  },
-];
+const sourceIcons: Record<SignalSourceId, React.ReactNode> = {
+  twitter: <span className="font-bold text-sm">𝕏</span>,
+  reddit: <MessageCircle className="w-4 h-4" />,
+  hackernews: <span className="font-bold text-sm">Y</span>,
+  news: <Newspaper className="w-4 h-4" />,
+};
 
-// Initial signals (will be enhanced with Gemini analysis)
-const initialSignals: TrendingSignal[] = [
-  { id: "1", source: "twitter", content: "OpenAI announces GPT-5 with revolutionary reasoning capabilities", sentiment: "bullish", velocity: 847, timestamp: "12s" },
-  { id: "2", source: "reddit", content: "r/wallstreetbets on NVDA earnings beat expectations", sentiment: "bullish", velocity: 523, timestamp: "34s" },
-  { id: "3", source: "hackernews", content: "New Rust framework trending on GitHub with 10k stars", sentiment: "neutral", velocity: 312, timestamp: "1m" },
-  { id: "4", source: "twitter", content: "Crypto market dip reactions - BTC drops below key support", sentiment: "bearish", velocity: 678, timestamp: "2m" },
-  { id: "5", source: "news", content: "Fed rate decision coverage - markets await announcement", sentiment: "neutral", velocity: 445, timestamp: "3m" },
-];
+// "12s", "4m", "2h" since a timestamp
+const formatAge = (timestamp: number, now: number): string => {
+  const seconds = Math.max(0, Math.floor((now - timestamp) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+};
 
-export default function OracleFeed() {
+interface OracleFeedProps {
+  market?: { id: string; topic: string } | null;
+}
+
+export default function OracleFeed({ market }: OracleFeedProps) {
   const [pulsePhase, setPulsePhase] = useState(0);
-  const [signals, setSignals] = useState<TrendingSignal[]>(initialSignals);
+  const [showAll, setShowAll] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [analyses, setAnalyses] = useState<Record<string, SignalAnalysis>>({});
   const [analyzingId, setAnalyzingId] = useState<string | null>(null);
 
+  // Ingested signals and connector health from the server
+  const marketFilter = market && !showAll ? market : null;
+  const signalsQuery = trpc.signals.recent.useQuery(
+    { limit: 8, marketId: marketFilter?.id },
+    { refetchInterval: 30_000 }
+  );
+  const sourcesQuery = trpc.signals.sources.useQuery(undefined, { refetchInterval: 30_000 });
+  const signals = signalsQuery.data ?? [];
+  const sources = (sourcesQuery.data ?? []).filter((source) => source.enabled);
+
   const analyzeSignalMutation = trpc.ai.analyzeSignal.useMutation();
 
+  // Follow a newly selected market
+  useEffect(() => {
+    setShowAll(false);
+  }, [market?.id]);
+
   useEffect(() => {
     const interval = setInterval(() => {
       setPulsePhase((prev) => (prev + 1) % 4);
+      setNow(Date.now());
     }, 500);
     return () => clearInterval(interval);
   }, []);
 
   // Analyze a signal using Gemini
-  const analyzeSignal = async (signal: TrendingSignal) => {
-    if (signal.analysis || analyzingId === signal.id) return;
+  const analyzeSignal = async (signal: (typeof signals)[number]) => {
+    if (analyses[signal.id] || analyzingId === signal.id) return;
     
     setAnalyzingId(signal.id);
     try {
@@ -103,16 +82,15 @@ export default function OracleFeed() {
         id: signal.id,
         source: signal.source,
         content: signal.content,
-        timestamp: Date.now(),
+        timestamp: signal.publishedAt,
       });
 
-      setSignals((prev) =>
-        prev.map((s) =>
-          s.id === signal.id
-            ? { ...s, analysis: result }
-            : s
-        )
-      );
+      // Leave failed analyses uncached so a click retries them
+      if (result.failureReason) {
+        console.warn(`Analysis of signal ${signal.id} failed: ${result.failureReason}`);
+        return;
+      }
+      setAnalyses((prev) => ({ ...prev, [signal.id]: result }));
     } catch (error) {
       console.error("Failed to analyze signal:", error);
     } finally {
@@ -120,15 +98,22 @@ export default function OracleFeed() {
     }
   };
 
-  // Auto-analyze first signal on mount
+  // Auto-analyze the newest signal once it arrives
+  const newestSignal = signals[0];
   useEffect(() => {
+    if (!newestSignal) return;
     const timer = setTimeout(() => {
-      if (signals[0] && !signals[0].analysis) {
-        analyzeSignal(signals[0]);
-      }
+      analyzeSignal(newestSignal);
     }, 1000);
     return () => clearTimeout(timer);
-  }, []);
+  }, [newestSignal?.id]);
+
+  // Aggregate strength across enabled sources, in tenths
+  const aggregateStrength = sources.length > 0
+    ? sources.reduce((total, source) => total + source.signalStrength, 0) / sources.length
+    : 0;
+  const aggregateBars = Math.round(aggregateStrength / 10);
+  const aggregateLabel = aggregateStrength >= 70 ? "STRONG" : aggregateStrength >= 40 ? "MODERATE" : "WEAK";
 
   const getSourceLabel = (source: string) => {
     switch (source) {
@@ -159,7 +144,7 @@ export default function OracleFeed() {
                 ${source.status === "live" ? "bg-[#00FFA3]/10" : "bg-white/5"}
               `}>
                 <span className={source.status === "live" ? "text-[#00FFA3]" : "text-white/40"}>
-                  {source.icon}
+                  {sourceIcons[source.id]}
                 </span>
                 {source.status === "live" && (
                   <span 
@@ -177,7 +162,7 @@ export default function OracleFeed() {
                   <span className="font-mono text-xs text-white truncate">{source.name}</span>
                   <span className={`
                     font-mono text-[10px]
-                    ${source.status === "live" ? "text-[#00FFA3]" : "text-yellow-400"}
+                    ${source.status === "live" ? "text-[#00FFA3]" : source.status === "delayed" ? "text-yellow-400" : "text-[#FF007A]"}
                   `}>
                     {source.status.toUpperCase()}
                   </span>
@@ -192,7 +177,9 @@ export default function OracleFeed() {
                       style={{ width: `${source.signalStrength}%` }}
                     />
                   </div>
-                  <span className="font-mono text-[10px] text-white/40">{source.lastUpdate}</span>
+                  <span className="font-mono text-[10px] text-white/40">
+                    {source.lastUpdate ? `${formatAge(source.lastUpdate, now)} ago` : "never"}
+                  </span>
                 </div>
               </div>
             </div>
@@ -203,7 +190,9 @@ export default function OracleFeed() {
         <div className="mt-4 pt-4 border-t border-white/5">
           <div className="flex items-center justify-between mb-2">
             <span className="font-mono text-xs text-white/50">AGGREGATE SIGNAL</span>
-            <span className="font-mono text-xs text-[#00FFA3] font-semibold">STRONG</span>
+            <span className={`font-mono text-xs font-semibold ${
+              aggregateLabel === "STRONG" ? "text-[#00FFA3]" : aggregateLabel === "MODERATE" ? "text-yellow-400" : "text-[#FF007A]"
+            }`}>{aggregateLabel}</span>
           </div>
           <div className="flex gap-1">
             {[...Array(10)].map((_, i) => (
@@ -211,8 +200,8 @@ export default function OracleFeed() {
                 key={i}
                 className={`
                   flex-1 h-3 rounded-sm transition-all duration-300
-                  ${i < 8 ? "bg-[#00FFA3]" : "bg-white/10"}
-                  ${i < 8 && pulsePhase === i % 4 ? "opacity-60" : "opacity-100"}
+                  ${i < aggregateBars ? "bg-[#00FFA3]" : "bg-white/10"}
+                  ${i < aggregateBars && pulsePhase === i % 4 ? "opacity-60" : "opacity-100"}
                 `}
               />
             ))}
@@ -227,40 +216,64 @@ export default function OracleFeed() {
             <h3 className="font-display font-bold text-sm text-white">LIVE SIGNALS</h3>
             <Sparkles className="w-3 h-3 text-[#00FFA3]" />
           </div>
-          <span className="font-mono text-[10px] text-white/40">LAST 5M</span>
+          {market ? (
+            <button
+              onClick={() => setShowAll((prev) => !prev)}
+              className="font-mono text-[10px] text-white/40 hover:text-[#00FFA3] transition-colors"
+            >
+              {showAll ? "THIS MARKET" : "ALL"}
+            </button>
+          ) : (
+            <span className="font-mono text-[10px] text-white/40">NEWEST</span>
+          )}
         </div>
 
+        {marketFilter && (
+          <p className="font-mono text-[10px] text-[#00FFA3]/70 mb-3 truncate">
+            {marketFilter.topic.toUpperCase()}
+          </p>
+        )}
+
+        {signals.length === 0 && (
+          <p className="font-mono text-[10px] text-white/40 text-center py-4">
+            {signalsQuery.isLoading
+              ? "Loading signals..."
+              : marketFilter ? "No signals matched to this market yet" : "No signals ingested yet"}
+          </p>
+        )}
+
         <div className="space-y-3">
-          {signals.map((signal) => (
+          {signals.map((signal) => {
+            const analysis = analyses[signal.id];
+            return (
             <div 
               key={signal.id} 
               className="group cursor-pointer"
               onClick={() => analyzeSignal(signal)}
             >
               <div className="flex items-start gap-2">
-                {/* Sentiment indicator */}
+                {/* Bot noise indicator; sentiment is neutral until analysed */}
                 <div className={`
                   mt-1 w-1.5 h-1.5 rounded-full shrink-0
-                  ${signal.sentiment === "bullish" ? "bg-[#00FFA3]" : 
-                    signal.sentiment === "bearish" ? "bg-[#FF007A]" : "bg-white/40"}
+                  ${analysis?.is_bot_noise ? "bg-[#FF007A]" : analysis ? "bg-[#00FFA3]" : "bg-white/40"}
                 `} />
                 
                 <div className="flex-1 min-w-0">
                   {/* Show analysis if available, otherwise show raw content */}
-                  {signal.analysis ? (
+                  {analysis ? (
                     <>
                       <p className="font-mono text-xs text-white/90 leading-tight">
-                        {signal.analysis.core_event}
+                        {analysis.core_event}
                       </p>
-                      {signal.analysis.main_actors.length > 0 && (
+                      {analysis.main_actors.length > 0 && (
                         <p className="font-mono text-[10px] text-[#00FFA3]/70 mt-0.5">
-                          {signal.analysis.main_actors.slice(0, 2).join(", ")}
+                          {analysis.main_actors.slice(0, 2).join(", ")}
                         </p>
                       )}
                     </>
                   ) : (
                     <p className="font-mono text-xs text-white/80 leading-tight truncate group-hover:text-white transition-colors">
-                      {signal.content}
+                      {signal.title ?? signal.content}
                     </p>
                   )}
                   
@@ -269,24 +282,26 @@ export default function OracleFeed() {
                       {getSourceLabel(signal.source)}
                     </span>
                     <span className="text-white/20">·</span>
-                    <span className={`
-                      flex items-center gap-0.5 font-mono text-[10px]
-                      ${signal.sentiment === "bullish" ? "text-[#00FFA3]" : 
-                        signal.sentiment === "bearish" ? "text-[#FF007A]" : "text-white/40"}
-                    `}>
-                      {signal.sentiment === "bullish" ? <TrendingUp className="w-2.5 h-2.5" /> : 
-                       signal.sentiment === "bearish" ? <TrendingDown className="w-2.5 h-2.5" /> : null}
+                    <span className="flex items-center gap-0.5 font-mono text-[10px] text-white/40">
                       {signal.velocity}/min
                     </span>
                     <span className="text-white/20">·</span>
-                    <span className="font-mono text-[10px] text-white/30">{signal.timestamp}</span>
+                    <span className="font-mono text-[10px] text-white/30">{formatAge(signal.publishedAt, now)}</span>
+                    {signal.matchConfidence !== null && (
+                      <>
+                        <span className="text-white/20">·</span>
+                        <span className="font-mono text-[10px] text-[#00FFA3]/50">
+                          {Math.round(signal.matchConfidence * 100)}% MATCH
+                        </span>
+                      </>
+                    )}
                     
                     {/* Analysis indicator */}
                     {analyzingId === signal.id ? (
                       <Loader2 className="w-2.5 h-2.5 text-[#00FFA3] animate-spin ml-auto" />
-                    ) : signal.analysis ? (
+                    ) : analysis ? (
                       <span className="font-mono text-[9px] text-[#00FFA3]/50 ml-auto">
-                        {signal.analysis.confidence}%
+                        {analysis.confidence}%
                       </span>
                     ) : (
                       <Sparkles className="w-2.5 h-2.5 text-white/20 ml-auto group-hover:text-[#00FFA3] transition-colors" />
@@ -295,7 +310,8 @@ export default function OracleFeed() {
                 </div>
               </div>
             </div>
-          ))}
+            );
+          })}
         </div>
       </div>
 
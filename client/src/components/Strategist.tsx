@@ -1,95 +1,120 @@
 /**
  * Strategist Component
  * Displays AI-recommended trading strategy with scanning animation
- * Uses Gemini Flash to analyze vibe and momentum for duration recommendations
+ * Uses Gemini Flash on the market's matched signals for duration recommendations,
+ * falling back to local momentum/vibe rules when no signals have been routed
  */
 
 import { useState, useEffect } from "react";
 import { Brain, Clock, AlertTriangle, TrendingUp, Zap } from "lucide-react";
 import { trpc } from "@/lib/trpc";
+import { HYPE_TRAIN_THRESHOLD, VOLATILITY_TRAP_THRESHOLD } from "@shared/alertRules";
+
+type Duration = "30M" | "1H" | "3H";
+type RiskLevel = "low" | "medium" | "high";
 
 interface StrategistProps {
+  marketId: string;
   topic: string;
   momentum: number;
   vibeData?: {
     joy: number;
     anxiety: number;
   };
-  onRecommendation?: (duration: "30M" | "1H" | "3H") => void;
+  onRecommendation?: (duration: Duration) => void;
+}
+
+interface Recommendation {
+  duration: Duration;
+  rationale: string;
+  riskLevel: RiskLevel;
+  signalCount: number;
+}
+
+// Local rules from momentum and vibe alone
+function localRecommendation(momentum: number, vibeData?: StrategistProps["vibeData"]): Recommendation {
+  let duration: Duration = "1H";
+  let rationale = "";
+  let riskLevel: RiskLevel = "medium";
+
+  if (vibeData) {
+    const { joy, anxiety } = vibeData;
+    
+    // High anxiety = short window (volatile)
+    if (anxiety > VOLATILITY_TRAP_THRESHOLD) {
+      duration = "30M";
+      rationale = "High volatility detected. Short window recommended to minimize exposure.";
+      riskLevel = "high";
+    }
+    // High joy + high momentum = ride the wave
+    else if (joy > HYPE_TRAIN_THRESHOLD && momentum > 80) {
+      duration = "1H";
+      rationale = "Strong momentum with positive sentiment. Medium window to capture gains.";
+      riskLevel = "medium";
+    }
+    // Stable sentiment = longer window
+    else if (anxiety < 40 && joy > 50) {
+      duration = "3H";
+      rationale = "Stable trend with low volatility. Extended window for maximum returns.";
+      riskLevel = "low";
+    }
+    // Default moderate
+    else {
+      duration = "1H";
+      rationale = "Mixed signals suggest moderate exposure. Standard window recommended.";
+      riskLevel = "medium";
+    }
+  } else {
+    // No vibe data - use momentum only
+    if (momentum > 85) {
+      duration = "30M";
+      rationale = "Extreme momentum may reverse quickly. Short window advised.";
+      riskLevel = "high";
+    } else if (momentum > 60) {
+      duration = "1H";
+      rationale = "Healthy momentum trend. Standard window recommended.";
+      riskLevel = "medium";
+    } else {
+      duration = "3H";
+      rationale = "Lower momentum suggests developing trend. Extended window for confirmation.";
+      riskLevel = "low";
+    }
+  }
+
+  return { duration, rationale, riskLevel, signalCount: 0 };
 }
 
-export default function Strategist({ topic, momentum, vibeData, onRecommendation }: StrategistProps) {
-  const [isScanning, setIsScanning] = useState(true);
-  const [recommendation, setRecommendation] = useState<{
-    duration: "30M" | "1H" | "3H";
-    rationale: string;
-    riskLevel: "low" | "medium" | "high";
-  } | null>(null);
+export default function Strategist({ marketId, topic, momentum, vibeData, onRecommendation }: StrategistProps) {
+  const [recommendation, setRecommendation] = useState<Recommendation | null>(null);
+
+  // Gemini strategy over this market's recent matched signals
+  const strategyQuery = trpc.ai.marketStrategy.useQuery(
+    { marketId, vibeData },
+    { staleTime: 5 * 60 * 1000, retry: false }
+  );
+  const isScanning = strategyQuery.isLoading;
 
-  // Simulate AI analysis with local logic (to avoid API rate limits)
   useEffect(() => {
-    setIsScanning(true);
-    setRecommendation(null);
-
-    const timer = setTimeout(() => {
-      // Calculate recommendation based on momentum and vibe
-      let duration: "30M" | "1H" | "3H" = "1H";
-      let rationale = "";
-      let riskLevel: "low" | "medium" | "high" = "medium";
-
-      if (vibeData) {
-        const { joy, anxiety } = vibeData;
-        
-        // High anxiety = short window (volatile)
-        if (anxiety > 75) {
-          duration = "30M";
-          rationale = "High volatility detected. Short window recommended to minimize exposure.";
-          riskLevel = "high";
-        }
-        // High joy + high momentum = ride the wave
-        else if (joy > 80 && momentum > 80) {
-          duration = "1H";
-          rationale = "Strong momentum with positive sentiment. Medium window to capture gains.";
-          riskLevel = "medium";
-        }
-        // Stable sentiment = longer window
-        else if (anxiety < 40 && joy > 50) {
-          duration = "3H";
-          rationale = "Stable trend with low volatility. Extended window for maximum returns.";
-          riskLevel = "low";
-        }
-        // Default moderate
-        else {
-          duration = "1H";
-          rationale = "Mixed signals suggest moderate exposure. Standard window recommended.";
-          riskLevel = "medium";
-        }
-      } else {
-        // No vibe data - use momentum only
-        if (momentum > 85) {
-          duration = "30M";
-          rationale = "Extreme momentum may reverse quickly. Short window advised.";
-          riskLevel = "high";
-        } else if (momentum > 60) {
-          duration = "1H";
-          rationale = "Healthy momentum trend. Standard window recommended.";
-          riskLevel = "medium";
-        } else {
-          duration = "3H";
-          rationale = "Lower momentum suggests developing trend. Extended window for confirmation.";
-          riskLevel = "low";
-        }
-      }
+    if (strategyQuery.isLoading) {
+      setRecommendation(null);
+      return;
+    }
 
-      setRecommendation({ duration, rationale, riskLevel });
-      setIsScanning(false);
-      onRecommendation?.(duration);
-    }, 1500 + Math.random() * 1000); // 1.5-2.5s delay for realism
+    const strategy = strategyQuery.data?.strategy;
+    const next: Recommendation = strategy
+      ? {
+          duration: strategy.recommended_duration,
+          rationale: strategy.rationale,
+          riskLevel: strategy.risk_level,
+          signalCount: strategyQuery.data?.signalCount ?? 0,
+        }
+      : localRecommendation(momentum, vibeData);
 
-    return () => clearTimeout(timer);
-  }, [topic, momentum, vibeData?.joy, vibeData?.anxiety]);
+    setRecommendation(next);
+    onRecommendation?.(next.duration);
+  }, [strategyQuery.isLoading, strategyQuery.data, topic, momentum, vibeData?.joy, vibeData?.anxiety]);
 
-  const getRiskColor = (risk: "low" | "medium" | "high") => {
+  const getRiskColor = (risk: RiskLevel) => {
     switch (risk) {
       case "low": return "text-[#00FFA3]";
       case "medium": return "text-yellow-400";
@@ -97,7 +122,7 @@ export default function Strategist({ topic, momentum, vibeData, onRecommendation
     }
   };
 
-  const getRiskBg = (risk: "low" | "medium" | "high") => {
+  const getRiskBg = (risk: RiskLevel) => {
     switch (risk) {
       case "low": return "bg-[#00FFA3]/10 border-[#00FFA3]/20";
       case "medium": return "bg-yellow-400/10 border-yellow-400/20";
@@ -177,6 +202,11 @@ export default function Strategist({ topic, momentum, vibeData, onRecommendation
           <div className="text-[10px] font-mono text-white/50 leading-relaxed">
             {recommendation.rationale}
           </div>
+          <div className="text-[9px] font-mono text-white/30">
+            {recommendation.signalCount > 0
+              ? `BASED ON ${recommendation.signalCount} MATCHED SIGNALS`
+              : "NO MATCHED SIGNALS · MOMENTUM RULES"}
+          </div>
         </div>
       )}
     </div>
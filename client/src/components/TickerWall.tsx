@@ -2,20 +2,43 @@
  * DESIGN: Neo-Brutalist Terminal
  * Central feed of Live Momentum Markets
  * Grid of MarketCards with staggered animations
+ * Header shows the state of the live tick feed
+ * The watchlist tab shows the active list's markets in its order
  */
 
+import type { FeedStatus } from "@/hooks/useMarketTicks";
+import type { Watchlists } from "@/hooks/useWatchlists";
 import MarketCard, { MarketData } from "./MarketCard";
+import WatchlistBar from "./WatchlistBar";
+
+const feedStatusLabel: Record<FeedStatus, { text: string; dot: string }> = {
+  live: { text: "Updated in real-time", dot: "bg-[#00FFA3] animate-pulse" },
+  connecting: { text: "Connecting to live feed...", dot: "bg-yellow-400" },
+  offline: { text: "Live feed offline · Reconnecting", dot: "bg-[#FF007A]" },
+};
 
 interface TickerWallProps {
   markets: MarketData[];
   onSelectMarket: (market: MarketData) => void;
   category: string;
+  isLoading?: boolean;
+  feedStatus?: FeedStatus;
+  watchlists?: Watchlists;
 }
 
-export default function TickerWall({ markets, onSelectMarket, category }: TickerWallProps) {
-  const filteredMarkets = category === "trending" 
-    ? markets 
-    : markets.filter(m => m.category.toLowerCase() === category);
+export default function TickerWall({ markets, onSelectMarket, category, isLoading = false, feedStatus = "connecting", watchlists }: TickerWallProps) {
+  const showingWatchlist = category === "watchlist" && !!watchlists;
+  const filteredMarkets = category === "trending"
+    ? markets
+    : showingWatchlist
+      ? (watchlists.active?.marketIds ?? []).flatMap(id => markets.filter(m => m.id === id))
+      : markets.filter(m => m.categorySlug === category);
+
+  const emptyMessage = isLoading
+    ? "Loading markets..."
+    : showingWatchlist
+      ? watchlists.active ? "Star markets to add them to this list" : "Star a market to start a watchlist"
+      : "No markets in this category";
 
   return (
     <div className="flex-1">
@@ -25,8 +48,9 @@ export default function TickerWall({ markets, onSelectMarket, category }: Ticker
           <h2 className="font-display font-bold text-2xl tracking-tight text-white mb-1">
             LIVE MOMENTUM MARKETS
           </h2>
-          <p className="font-mono text-xs text-white/50">
-            {filteredMarkets.length} active markets · Updated in real-time
+          <p className="flex items-center gap-2 font-mono text-xs text-white/50">
+            <span className={`w-1.5 h-1.5 rounded-full ${feedStatusLabel[feedStatus].dot}`} />
+            {filteredMarkets.length} active markets · {feedStatusLabel[feedStatus].text}
           </p>
         </div>
         <div className="flex items-center gap-2">
@@ -36,6 +60,8 @@ export default function TickerWall({ markets, onSelectMarket, category }: Ticker
         </div>
       </div>
 
+      {showingWatchlist && <WatchlistBar watchlists={watchlists} />}
+
       {/* Market Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {filteredMarkets.map((market, index) => (
@@ -44,13 +70,18 @@ export default function TickerWall({ markets, onSelectMarket, category }: Ticker
             market={market} 
             index={index}
             onSelect={onSelectMarket}
+            watched={watchlists?.isWatched(market.id)}
+            onToggleWatch={watchlists?.enabled ? (m) => watchlists.toggle(m.id) : undefined}
+            onMove={showingWatchlist ? (offset) => watchlists.moveMarket(market.id, offset) : undefined}
           />
         ))}
       </div>
 
       {filteredMarkets.length === 0 && (
         <div className="glass-card rounded-xl p-12 text-center">
-          <p className="font-mono text-white/50">No markets in this category</p>
+          <p className="font-mono text-white/50">
+            {emptyMessage}
+          </p>
         </div>
       )}
     </div>
@@ -3,14 +3,19 @@
  * Right-hand trade panel with short-window contracts
  * Features: Trade Momentum button, Hype Score meter, contract durations
  * Now with AI Strategist for recommended duration
+ * Shows a live AMM quote (price, shares, slippage) before confirming
  */
 
-import { useState, useEffect } from "react";
-import { TrendingUp, TrendingDown, Zap, AlertCircle, Loader2, CheckCircle } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { TrendingUp, TrendingDown, Zap, AlertCircle, Loader2, CheckCircle, Wallet } from "lucide-react";
 import { toast } from "sonner";
 import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { useLocation } from "wouter";
+import { TRPCClientError } from "@trpc/client";
 import { MarketData } from "./MarketCard";
 import Strategist from "./Strategist";
+import VibeTrendChart from "./VibeTrendChart";
 
 interface TradeSidebarProps {
   selectedMarket: MarketData | null;
@@ -24,21 +29,85 @@ const contractDurations = [
 
 type DurationId = typeof contractDurations[number]["id"];
 
+// Paper funds added per DEPOSIT click
+const PAPER_DEPOSIT_AMOUNT = 1000;
+
+// How far the fill may move past the displayed quote before it is rejected
+const SLIPPAGE_TOLERANCE = 0.01;
+
 export default function TradeSidebar({ selectedMarket }: TradeSidebarProps) {
   const [selectedDuration, setSelectedDuration] = useState<DurationId>("1h");
   const [tradeDirection, setTradeDirection] = useState<"long" | "short">("long");
   const [amount, setAmount] = useState("100");
   const [isMarketConfirmed, setIsMarketConfirmed] = useState(false);
+  // One key per trade intent: retries and double-clicks reuse it so the
+  // server returns the original trade instead of opening a second position
+  const idempotencyKeyRef = useRef<string | null>(null);
+
+  const { isAuthenticated } = useAuth();
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+
+  // Paper USDC balance (only fetched once signed in)
+  const balanceQuery = trpc.account.balance.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+  const availableBalance = balanceQuery.data?.available ?? 0;
+
+  // Re-quote shortly after the amount stops changing
+  const [quotedAmount, setQuotedAmount] = useState(parseFloat(amount));
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuotedAmount(parseFloat(amount)), 300);
+    return () => clearTimeout(timeout);
+  }, [amount]);
+
+  const quoteQuery = trpc.trading.quote.useQuery(
+    {
+      marketId: selectedMarket?.id ?? "",
+      direction: tradeDirection,
+      duration: selectedDuration,
+      amount: quotedAmount,
+    },
+    {
+      enabled: !!selectedMarket && quotedAmount >= 1,
+      refetchInterval: 5000,
+      placeholderData: previous => previous,
+    }
+  );
+  const quote = quoteQuery.data;
 
   // tRPC mutations
   const selectMarketMutation = trpc.trading.selectMarket.useMutation();
-  const placeTradeMutation = trpc.trading.placeTrade.useMutation();
+  const placeTradeMutation = trpc.trading.placeTrade.useMutation({
+    onSuccess: () => {
+      utils.account.balance.invalidate();
+      utils.portfolio.invalidate();
+    },
+  });
+  const depositMutation = trpc.account.deposit.useMutation({
+    onSuccess: () => utils.account.balance.invalidate(),
+  });
+
+  const handleDeposit = async () => {
+    try {
+      await depositMutation.mutateAsync({ amount: PAPER_DEPOSIT_AMOUNT });
+      toast.success(`Deposited ${PAPER_DEPOSIT_AMOUNT.toLocaleString()} paper USDC`);
+    } catch (error) {
+      console.error("Failed to deposit:", error);
+      toast.error("Deposit failed. Please try again.");
+    }
+  };
 
   // Reset confirmation when market changes
   useEffect(() => {
     setIsMarketConfirmed(false);
   }, [selectedMarket?.id]);
 
+  // A changed order is a new trade intent
+  useEffect(() => {
+    idempotencyKeyRef.current = null;
+  }, [selectedMarket?.id, tradeDirection, selectedDuration, amount]);
+
   // Handle AI strategist recommendation
   const handleStrategyRecommendation = (duration: "30M" | "1H" | "3H") => {
     const durationMap: Record<string, DurationId> = {
@@ -57,15 +126,7 @@ export default function TradeSidebar({ selectedMarket }: TradeSidebarProps) {
     }
 
     try {
-      const result = await selectMarketMutation.mutateAsync({
-        marketId: selectedMarket.id,
-        topic: selectedMarket.topic,
-        category: selectedMarket.category,
-        momentum: selectedMarket.momentum,
-        change24h: selectedMarket.change24h,
-        volume: selectedMarket.volume,
-        hypeScore: selectedMarket.hypeScore,
-      });
+      const result = await selectMarketMutation.mutateAsync({ marketId: selectedMarket.id });
 
       if (result.success) {
         setIsMarketConfirmed(true);
@@ -98,41 +159,59 @@ export default function TradeSidebar({ selectedMarket }: TradeSidebarProps) {
       return;
     }
 
+    if (isAuthenticated && amountNum > availableBalance) {
+      toast.error(`Insufficient balance: ${availableBalance.toFixed(2)} USDC available`);
+      return;
+    }
+
+    if (!idempotencyKeyRef.current) {
+      idempotencyKeyRef.current = crypto.randomUUID();
+    }
+
     try {
       const result = await placeTradeMutation.mutateAsync({
         marketId: selectedMarket.id,
-        topic: selectedMarket.topic,
-        category: selectedMarket.category,
-        momentum: selectedMarket.momentum,
-        change24h: selectedMarket.change24h,
-        volume: selectedMarket.volume,
-        hypeScore: selectedMarket.hypeScore,
         direction: tradeDirection,
         duration: selectedDuration,
         amount: amountNum,
+        idempotencyKey: idempotencyKeyRef.current,
+        // Only hold the fill to a quote that matches this exact order
+        maxPrice: quote && !quoteQuery.isPlaceholderData && quote.amount === amountNum
+          ? Math.min(1, quote.avgPrice * (1 + SLIPPAGE_TOLERANCE))
+          : undefined,
       });
 
       if (result.success) {
+        utils.trading.quote.invalidate();
         toast.success(
           <div className="space-y-1">
             <p className="font-semibold">{result.message}</p>
             <p className="text-xs opacity-70">
               Trade ID: {result.tradeId}
             </p>
+            {result.details.entryPrice != null && (
+              <p className="text-xs opacity-70">
+                Filled: {result.details.shares?.toFixed(2)} shares @ {result.details.entryPrice.toFixed(4)}
+              </p>
+            )}
             <p className="text-xs opacity-70">
               Est. Return: ${result.details.estimatedReturn} USDC
             </p>
           </div>,
-          { duration: 5000 }
+          {
+            duration: 5000,
+            action: { label: "PORTFOLIO", onClick: () => setLocation("/portfolio") },
+          }
         );
         
         // Reset state after successful trade
+        idempotencyKeyRef.current = null;
         setIsMarketConfirmed(false);
         setAmount("100");
       }
     } catch (error) {
       console.error("Failed to place trade:", error);
-      toast.error("Failed to place trade. Please try again.");
+      toast.error(error instanceof TRPCClientError ? error.message : "Failed to place trade. Please try again.");
     }
   };
 
@@ -180,6 +259,7 @@ export default function TradeSidebar({ selectedMarket }: TradeSidebarProps) {
       {/* AI Strategist - Shows when market is selected */}
       {selectedMarket && (
         <Strategist
+          marketId={selectedMarket.id}
           topic={selectedMarket.topic}
           momentum={selectedMarket.momentum}
           vibeData={selectedMarket.vibe ? {
@@ -190,6 +270,9 @@ export default function TradeSidebar({ selectedMarket }: TradeSidebarProps) {
         />
       )}
 
+      {/* Vibe history over the momentum sparkline */}
+      {selectedMarket && <VibeTrendChart marketId={selectedMarket.id} />}
+
       {/* Trade Panel */}
       <div className="glass-card rounded-xl p-4">
         <div className="flex items-center gap-2 mb-4">
@@ -283,7 +366,22 @@ export default function TradeSidebar({ selectedMarket }: TradeSidebarProps) {
 
         {/* Amount Input */}
         <div className="mb-4">
-          <label className="font-mono text-xs text-white/50 block mb-2">AMOUNT (USDC)</label>
+          <div className="flex items-center justify-between mb-2">
+            <label className="font-mono text-xs text-white/50">AMOUNT (USDC)</label>
+            {isAuthenticated && (
+              <div className="flex items-center gap-2 font-mono text-[10px]">
+                <Wallet className="w-3 h-3 text-white/40" />
+                <span className="text-white/60">{availableBalance.toFixed(2)}</span>
+                <button
+                  onClick={handleDeposit}
+                  disabled={depositMutation.isPending}
+                  className="text-[#00FFA3] hover:text-[#00CC82] disabled:opacity-50"
+                >
+                  +DEPOSIT
+                </button>
+              </div>
+            )}
+          </div>
           <div className="relative">
             <input
               type="text"
@@ -298,7 +396,7 @@ export default function TradeSidebar({ selectedMarket }: TradeSidebarProps) {
             {["25", "50", "100", "MAX"].map((preset) => (
               <button
                 key={preset}
-                onClick={() => setAmount(preset === "MAX" ? "1000" : preset)}
+                onClick={() => setAmount(preset === "MAX" ? String(Math.floor(availableBalance)) : preset)}
                 className="flex-1 py-1 rounded bg-white/5 font-mono text-xs text-white/50 hover:bg-white/10 hover:text-white transition-colors"
               >
                 {preset}
@@ -307,6 +405,38 @@ export default function TradeSidebar({ selectedMarket }: TradeSidebarProps) {
           </div>
         </div>
 
+        {/* Live Quote */}
+        {selectedMarket && quote && (
+          <div className="bg-white/5 rounded-lg p-3 mb-4 space-y-1 font-mono text-xs">
+            <div className="flex items-center justify-between">
+              <span className="text-white/50">{tradeDirection.toUpperCase()} PRICE</span>
+              <span className="text-white">{quote.spotPrice.toFixed(4)}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-white/50">AVG FILL</span>
+              <span className="text-white">{quote.avgPrice.toFixed(4)}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-white/50">SHARES</span>
+              <span className="text-white">{quote.shares.toFixed(2)}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-white/50">SLIPPAGE</span>
+              <span className="text-white/70">{(quote.slippage * 100).toFixed(2)}%</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-white/50">PAYOUT IF WIN</span>
+              <span className="text-[#00FFA3]">{quote.estimatedReturn.toFixed(2)} USDC</span>
+            </div>
+            {quote.warning && (
+              <div className="flex gap-2 pt-2 text-yellow-400">
+                <AlertCircle className="w-3 h-3 shrink-0 mt-0.5" />
+                <span className="text-[10px] leading-relaxed">{quote.warning}</span>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Trade Button */}
         <button
           onClick={handleTrade}
@@ -1,20 +1,20 @@
 /**
  * VibeAlert Component
  * Displays pulsing alerts based on Hume AI vibe analysis:
- * - Volatility Trap (red pulse) when Anxiety > 75%
- * - Hype Train (green glow) when Joy > 80%
- * 
- * Updated thresholds for more accurate signal detection
+ * - Volatility Trap (red pulse) when anxiety is high
+ * - Hype Train (green glow) when joy is high
+ *
+ * Thresholds come from the shared alert rules (shared/alertRules.ts), the
+ * same ones the server's vibe alerts use
  */
 
 import { AlertTriangle, Zap } from "lucide-react";
+import { getVibeAlert, type AlertKind } from "@shared/alertRules";
 
-// Alert threshold constants
-export const VOLATILITY_TRAP_THRESHOLD = 75; // ANX > 75%
-export const HYPE_TRAIN_THRESHOLD = 80; // JOY > 80%
+export type VibeAlertType = Exclude<AlertKind, "custom">;
 
 interface VibeAlertProps {
-  type: "volatility_trap" | "hype_train" | null;
+  type: VibeAlertType | null;
   intensity: number;
   className?: string;
 }
@@ -82,7 +82,7 @@ export function VibeAlertBadge({
   type,
   intensity,
 }: {
-  type: "volatility_trap" | "hype_train" | null;
+  type: VibeAlertType | null;
   intensity: number;
 }) {
   if (!type) return null;
@@ -127,19 +127,15 @@ export function VibeAlertBadge({
 
 /**
  * Determine alert type based on vibe scores
- * Uses updated thresholds: ANX > 75% = Volatility Trap, JOY > 80% = Hype Train
+ * Volatility Trap takes priority over Hype Train (risk warning)
  */
 export function getVibeAlertType(
   joy: number,
   anxiety: number
-): { type: "volatility_trap" | "hype_train" | null; intensity: number } {
-  // Volatility Trap takes priority (risk warning)
-  if (anxiety > VOLATILITY_TRAP_THRESHOLD) {
-    return { type: "volatility_trap", intensity: Math.round(anxiety) };
+): { type: VibeAlertType | null; intensity: number } {
+  const alert = getVibeAlert(joy, anxiety);
+  if (!alert || alert.kind === "custom") {
+    return { type: null, intensity: 0 };
   }
-  // Hype Train for high joy
-  if (joy > HYPE_TRAIN_THRESHOLD) {
-    return { type: "hype_train", intensity: Math.round(joy) };
-  }
-  return { type: null, intensity: 0 };
+  return { type: alert.kind, intensity: alert.intensity };
 }
@@ -0,0 +1,171 @@
+/*
+ * DESIGN: Neo-Brutalist Terminal
+ * Momentum sparkline with joy/anxiety history overlaid on one 0-100 scale
+ * Trend badges call out streaks and sentiment regime shifts
+ */
+
+import { useMemo, useState } from "react";
+import { Activity, TrendingDown, TrendingUp } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+
+type Range = "1h" | "6h" | "24h" | "7d";
+
+const RANGES: Range[] = ["1h", "6h", "24h", "7d"];
+
+const LINES = [
+  { key: "momentum", label: "MOMENTUM", stroke: "#FFFFFF", width: 2, opacity: 0.8 },
+  { key: "joy", label: "JOY", stroke: "#00FFA3", width: 1.5, opacity: 1 },
+  { key: "anxiety", label: "ANXIETY", stroke: "#FF007A", width: 1.5, opacity: 1 },
+] as const;
+
+const REGIME_COLORS: Record<string, string> = {
+  euphoria: "text-[#00FFA3] bg-[#00FFA3]/10 border-[#00FFA3]/20",
+  fear: "text-[#FF007A] bg-[#FF007A]/10 border-[#FF007A]/20",
+  frenzy: "text-yellow-400 bg-yellow-400/10 border-yellow-400/20",
+  calm: "text-white/60 bg-white/5 border-white/10",
+};
+
+interface VibeTrendChartProps {
+  marketId: string;
+  width?: number;
+  height?: number;
+}
+
+// One SVG path per run of windows with data, so empty windows show as gaps
+function toPath(values: Array<number | null>, width: number, height: number): string {
+  const step = width / Math.max(values.length - 1, 1);
+  let path = "";
+  let drawing = false;
+
+  values.forEach((value, index) => {
+    if (value === null) {
+      drawing = false;
+      return;
+    }
+    const x = index * step;
+    const y = height - (Math.min(Math.max(value, 0), 100) / 100) * (height - 8) - 4;
+    path += `${drawing ? "L" : "M"} ${x},${y} `;
+    drawing = true;
+  });
+
+  return path.trim();
+}
+
+export default function VibeTrendChart({ marketId, width = 256, height = 72 }: VibeTrendChartProps) {
+  const [range, setRange] = useState<Range>("24h");
+
+  const historyQuery = trpc.vibe.history.useQuery(
+    { marketId, range },
+    { staleTime: 60 * 1000, refetchInterval: 60 * 1000, retry: false }
+  );
+  const history = historyQuery.data;
+
+  const paths = useMemo(() => {
+    if (!history) return [];
+    return LINES.map(line => ({
+      ...line,
+      d: toPath(history.points.map(point => point[line.key]), width, height),
+    }));
+  }, [history, width, height]);
+
+  const hasVibes = history?.points.some(point => point.joy !== null) ?? false;
+  const metrics = history?.metrics;
+
+  return (
+    <div className="glass-card rounded-lg p-3 border border-white/5">
+      {/* Header */}
+      <div className="flex items-center gap-2 mb-3">
+        <Activity className="w-4 h-4 text-white/60" />
+        <span className="font-mono text-[10px] uppercase tracking-wider text-white/60">
+          VIBE TREND
+        </span>
+        <div className="ml-auto flex gap-1">
+          {RANGES.map(option => (
+            <button
+              key={option}
+              onClick={() => setRange(option)}
+              className={`px-1.5 py-0.5 rounded text-[9px] font-mono uppercase transition-colors ${
+                range === option
+                  ? "bg-[#00FFA3]/20 text-[#00FFA3]"
+                  : "text-white/40 hover:text-white/70"
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Chart */}
+      <svg width="100%" height={height} viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="overflow-visible">
+        {[25, 50, 75].map(level => (
+          <line
+            key={level}
+            x1={0}
+            x2={width}
+            y1={height - (level / 100) * (height - 8) - 4}
+            y2={height - (level / 100) * (height - 8) - 4}
+            stroke="rgba(255, 255, 255, 0.05)"
+            strokeDasharray="2 4"
+          />
+        ))}
+        {paths.map(line => (
+          <path
+            key={line.key}
+            d={line.d}
+            fill="none"
+            stroke={line.stroke}
+            strokeWidth={line.width}
+            strokeOpacity={line.opacity}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex gap-3 mt-2">
+        {LINES.map(line => (
+          <div key={line.key} className="flex items-center gap-1">
+            <span className="w-2 h-0.5" style={{ backgroundColor: line.stroke }} />
+            <span className="text-[9px] font-mono text-white/40">{line.label}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Derived metrics */}
+      {historyQuery.isLoading ? (
+        <div className="mt-2 text-[9px] font-mono text-white/30 animate-pulse">LOADING HISTORY...</div>
+      ) : !hasVibes ? (
+        <div className="mt-2 text-[9px] font-mono text-white/30">NO VIBE READINGS IN THIS RANGE</div>
+      ) : metrics && (
+        <div className="mt-3 space-y-2">
+          <div className="flex items-center gap-2">
+            {metrics.regime && (
+              <span className={`px-1.5 py-0.5 rounded border text-[9px] font-mono uppercase ${REGIME_COLORS[metrics.regime]}`}>
+                {metrics.regime}
+              </span>
+            )}
+            <span className="flex items-center gap-1 text-[9px] font-mono text-white/50">
+              {metrics.anxiety.change > 0 ? (
+                <TrendingUp className="w-3 h-3 text-[#FF007A]" />
+              ) : (
+                <TrendingDown className="w-3 h-3 text-[#00FFA3]" />
+              )}
+              ANXIETY {metrics.anxiety.change > 0 ? "+" : ""}{metrics.anxiety.change}
+            </span>
+            <span className="text-[9px] font-mono text-white/50">
+              JOY {metrics.joy.change > 0 ? "+" : ""}{metrics.joy.change}
+            </span>
+          </div>
+          {metrics.messages.map(message => (
+            <div key={message} className="text-[10px] font-mono text-yellow-400/80">
+              {message}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
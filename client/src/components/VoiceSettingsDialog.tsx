@@ -0,0 +1,191 @@
+/*
+ * DESIGN: Neo-Brutalist Terminal
+ * Voice settings: the signed-in user's saved voice, speed, stability,
+ * similarity and speech model for every briefing they generate
+ * Admins also sync the ElevenLabs voice library and pick which voices show
+ */
+
+import { useEffect, useState } from "react";
+import { RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DEFAULT_VOICE,
+  DEFAULT_VOICE_SETTINGS,
+  VOICE_MODELS,
+  VOICE_SETTING_RANGES,
+  type VoicePreferences,
+} from "@shared/voiceSettings";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { trpc } from "@/lib/trpc";
+
+const SLIDERS = [
+  { key: "speed", label: "SPEED", format: (value: number) => `${value.toFixed(2)}x` },
+  { key: "stability", label: "STABILITY", format: (value: number) => `${Math.round(value * 100)}%` },
+  { key: "similarity", label: "SIMILARITY", format: (value: number) => `${Math.round(value * 100)}%` },
+] as const;
+
+const MODEL_LABELS: Record<(typeof VOICE_MODELS)[number], string> = {
+  flash: "FLASH · fastest",
+  turbo: "TURBO · richer",
+};
+
+interface VoiceSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function VoiceSettingsDialog({ open, onOpenChange }: VoiceSettingsDialogProps) {
+  const [draft, setDraft] = useState<VoicePreferences>({ voice: DEFAULT_VOICE, ...DEFAULT_VOICE_SETTINGS });
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+  const utils = trpc.useUtils();
+
+  const preferencesQuery = trpc.voices.preferences.useQuery(undefined, { enabled: open });
+  const voicesQuery = trpc.ai.getVoiceOptions.useQuery(undefined, { enabled: open });
+  const libraryQuery = trpc.voices.library.useQuery(undefined, { enabled: open && isAdmin });
+
+  // Start from the saved settings each time the dialog opens
+  useEffect(() => {
+    if (open && preferencesQuery.data) setDraft(preferencesQuery.data);
+  }, [open, preferencesQuery.data]);
+
+  const onError = (error: { message: string }) => toast.error(error.message);
+  const refreshVoices = () => {
+    utils.voices.library.invalidate();
+    utils.ai.getVoiceOptions.invalidate();
+  };
+  const savePreferences = trpc.voices.savePreferences.useMutation({
+    onSuccess: (saved) => {
+      utils.voices.preferences.setData(undefined, saved);
+      toast.success("Voice settings saved");
+      onOpenChange(false);
+    },
+    onError,
+  });
+  const syncLibrary = trpc.voices.sync.useMutation({
+    onSuccess: ({ synced, removed }) => {
+      refreshVoices();
+      toast.success(`Synced ${synced} voice(s)${removed > 0 ? `, removed ${removed}` : ""}`);
+    },
+    onError,
+  });
+  const setEnabled = trpc.voices.setEnabled.useMutation({ onSuccess: refreshVoices, onError });
+
+  const fieldClass = "px-2 py-1.5 rounded bg-white/5 border border-white/10 font-mono text-xs text-white outline-none focus:border-[#00FFA3]/50";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#0B0E11] border-2 border-white/10 text-white">
+        <DialogHeader>
+          <DialogTitle className="font-display font-bold tracking-tight">VOICE SETTINGS</DialogTitle>
+          <DialogDescription className="font-mono text-xs text-white/50">
+            Used for every briefing you generate, including scheduled ones.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <label className="flex items-center gap-2">
+            <span className="w-24 font-mono text-[10px] text-white/40">VOICE</span>
+            <select
+              value={draft.voice}
+              onChange={(e) => setDraft({ ...draft, voice: e.target.value })}
+              className={`${fieldClass} flex-1`}
+            >
+              {(voicesQuery.data ?? []).map((option) => (
+                <option key={option.id} value={option.id}>{option.name} · {option.description}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex items-center gap-2">
+            <span className="w-24 font-mono text-[10px] text-white/40">MODEL</span>
+            {VOICE_MODELS.map((model) => (
+              <button
+                key={model}
+                onClick={() => setDraft({ ...draft, model })}
+                className={`flex-1 py-1.5 rounded font-mono text-xs transition-colors ${
+                  draft.model === model ? "bg-[#00FFA3]/10 text-[#00FFA3] border border-[#00FFA3]/30" : "bg-white/5 text-white/50 hover:bg-white/10"
+                }`}
+              >
+                {MODEL_LABELS[model]}
+              </button>
+            ))}
+          </div>
+
+          {SLIDERS.map(({ key, label, format }) => (
+            <div key={key} className="flex items-center gap-2">
+              <span className="w-24 font-mono text-[10px] text-white/40">{label}</span>
+              <Slider
+                value={[draft[key]]}
+                onValueChange={([value]) => setDraft({ ...draft, [key]: value })}
+                {...VOICE_SETTING_RANGES[key]}
+                className="flex-1"
+              />
+              <span className="w-12 text-right font-mono text-xs text-white/70">{format(draft[key])}</span>
+            </div>
+          ))}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setDraft({ ...draft, ...DEFAULT_VOICE_SETTINGS })}
+              className="px-3 py-1.5 rounded bg-white/5 font-mono text-xs text-white/60 hover:bg-white/10"
+            >
+              RESET
+            </button>
+            <button
+              onClick={() => savePreferences.mutate(draft)}
+              disabled={savePreferences.isPending}
+              className="px-3 py-1.5 rounded bg-[#00FFA3] text-[#0B0E11] font-display font-semibold text-xs hover:bg-[#00CC82]"
+            >
+              SAVE
+            </button>
+          </div>
+        </div>
+
+        {/* Admin: ElevenLabs voice library */}
+        {isAdmin && (
+          <div className="space-y-2 pt-2 border-t border-white/10">
+            <div className="flex items-center justify-between">
+              <span className="font-mono text-[10px] text-white/40">VOICE LIBRARY</span>
+              <button
+                onClick={() => syncLibrary.mutate()}
+                disabled={syncLibrary.isPending}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-white/5 font-mono text-[10px] text-[#00FFA3] hover:bg-white/10"
+              >
+                <RefreshCw className={`w-3 h-3 ${syncLibrary.isPending ? "animate-spin" : ""}`} />
+                SYNC VOICE LIBRARY
+              </button>
+            </div>
+            <div className="max-h-48 overflow-y-auto space-y-1">
+              {(libraryQuery.data ?? []).length === 0 ? (
+                <p className="py-2 font-mono text-xs text-white/40 text-center">
+                  {libraryQuery.isLoading ? "Loading..." : "No synced voices"}
+                </p>
+              ) : (
+                libraryQuery.data!.map((profile) => (
+                  <div key={profile.profileId} className="flex items-center gap-2 px-3 py-1.5 rounded bg-white/5">
+                    <span className="flex-1 min-w-0 font-mono text-xs truncate">
+                      {profile.name}
+                      <span className="text-white/40">
+                        {" "}· {profile.category}
+                        {profile.languages.length > 0 && <> · {profile.languages.join(" ").toUpperCase()}</>}
+                      </span>
+                    </span>
+                    <Switch
+                      checked={profile.enabled}
+                      onCheckedChange={(enabled) => setEnabled.mutate({ id: profile.profileId, enabled })}
+                      aria-label={`Offer ${profile.name}`}
+                    />
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,106 @@
+/*
+ * DESIGN: Neo-Brutalist Terminal
+ * Watchlist switcher shown above the Ticker Wall on the WATCHLIST tab
+ * Tabs per named list, plus create, rename, reorder and delete
+ */
+
+import { useState } from "react";
+import { ChevronLeft, ChevronRight, Pencil, Plus, Trash2 } from "lucide-react";
+import type { Watchlists } from "@/hooks/useWatchlists";
+
+interface WatchlistBarProps {
+  watchlists: Watchlists;
+}
+
+export default function WatchlistBar({ watchlists }: WatchlistBarProps) {
+  const { lists, active } = watchlists;
+  // null: not editing; "new" or a list id: naming that list
+  const [editing, setEditing] = useState<"new" | number | null>(null);
+  const [name, setName] = useState("");
+
+  const startEditing = (target: "new" | number, initial = "") => {
+    setEditing(target);
+    setName(initial);
+  };
+
+  const submit = () => {
+    const trimmed = name.trim();
+    if (trimmed) {
+      if (editing === "new") watchlists.create(trimmed);
+      else if (editing !== null) watchlists.rename(editing, trimmed);
+    }
+    setEditing(null);
+  };
+
+  return (
+    <div className="flex items-center gap-2 mb-4 flex-wrap">
+      {lists.map((list) => {
+        const isActive = active?.id === list.id;
+        return (
+          <button
+            key={list.id}
+            onClick={() => watchlists.select(list.id)}
+            className={`
+              px-3 py-1.5 rounded-lg font-mono text-xs font-medium transition-all duration-200
+              ${isActive
+                ? "bg-yellow-400/10 text-yellow-400 border border-yellow-400/30"
+                : "text-white/60 hover:text-white hover:bg-white/5 border border-transparent"
+              }
+            `}
+          >
+            {list.name.toUpperCase()} · {list.marketIds.length}
+          </button>
+        );
+      })}
+
+      {editing !== null ? (
+        <form
+          onSubmit={(e) => { e.preventDefault(); submit(); }}
+          className="flex items-center gap-1"
+        >
+          <input
+            autoFocus
+            value={name}
+            maxLength={64}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={submit}
+            onKeyDown={(e) => e.key === "Escape" && setEditing(null)}
+            placeholder="List name"
+            className="w-32 px-2 py-1 rounded bg-white/5 border border-white/10 font-mono text-xs text-white outline-none focus:border-yellow-400/50"
+          />
+        </form>
+      ) : (
+        <button
+          onClick={() => startEditing("new")}
+          className="flex items-center gap-1 px-2 py-1.5 rounded-lg font-mono text-xs text-white/40 hover:text-white hover:bg-white/5"
+        >
+          <Plus className="w-3 h-3" />
+          NEW LIST
+        </button>
+      )}
+
+      {active && editing === null && (
+        <div className="ml-auto flex items-center gap-1 text-white/40">
+          <button onClick={() => watchlists.moveList(active.id, -1)} className="p-1 rounded hover:text-white hover:bg-white/5" aria-label="Move list earlier">
+            <ChevronLeft className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => watchlists.moveList(active.id, 1)} className="p-1 rounded hover:text-white hover:bg-white/5" aria-label="Move list later">
+            <ChevronRight className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => startEditing(active.id, active.name)} className="p-1 rounded hover:text-white hover:bg-white/5" aria-label="Rename list">
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => {
+              if (window.confirm(`Delete "${active.name}"?`)) watchlists.remove(active.id);
+            }}
+            className="p-1 rounded hover:text-[#FF007A] hover:bg-white/5"
+            aria-label="Delete list"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
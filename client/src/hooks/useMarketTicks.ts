@@ -0,0 +1,77 @@
+import { useEffect, useMemo, useState } from "react";
+import { SPARKLINE_POINTS } from "@shared/const";
+import { trpc } from "@/lib/trpc";
+import type { MarketData } from "@/components/MarketCard";
+import { getVibeAlertType } from "@/components/VibeAlert";
+
+export type FeedStatus = "live" | "connecting" | "offline";
+
+type LiveFields = Partial<Pick<MarketData, "momentum" | "change24h" | "volume" | "participants" | "hypeScore" | "sparklineData" | "vibe">>;
+
+/**
+ * Merge live markets.onTick ticks into the fetched market list
+ * Market ticks update the headline numbers and append to the sparkline;
+ * vibe ticks replace joy/anxiety. Overrides are dropped whenever a fresh
+ * list arrives, since it already includes the ticked snapshots.
+ */
+export function useMarketTicks(markets: MarketData[]) {
+  const [live, setLive] = useState<Record<string, LiveFields>>({});
+
+  useEffect(() => {
+    setLive({});
+  }, [markets]);
+
+  const subscription = trpc.markets.onTick.useSubscription(undefined, {
+    onData: ({ data: tick }) => {
+      setLive(current => {
+        const base = markets.find(m => m.id === tick.marketId);
+        if (!base) return current;
+        const previous = current[tick.marketId] ?? {};
+
+        if (tick.type === "market") {
+          const sparkline = previous.sparklineData ?? base.sparklineData;
+          return {
+            ...current,
+            [tick.marketId]: {
+              ...previous,
+              momentum: tick.momentum,
+              change24h: tick.change24h,
+              volume: tick.volume,
+              participants: tick.participants,
+              hypeScore: tick.hypeScore,
+              sparklineData: [...sparkline, tick.momentum].slice(-SPARKLINE_POINTS),
+            },
+          };
+        }
+
+        const alert = getVibeAlertType(tick.joy, tick.anxiety);
+        return {
+          ...current,
+          [tick.marketId]: {
+            ...previous,
+            vibe: {
+              ...(previous.vibe ?? base.vibe),
+              joy: tick.joy,
+              anxiety: tick.anxiety,
+              alertType: alert.type,
+              alertIntensity: alert.intensity,
+            },
+          },
+        };
+      });
+    },
+    onError: error => {
+      console.error("[Markets] Live feed error:", error);
+    },
+  });
+
+  const merged = useMemo(
+    () => markets.map(m => (live[m.id] ? { ...m, ...live[m.id] } : m)),
+    [markets, live]
+  );
+
+  const status: FeedStatus =
+    subscription.status === "pending" ? "live" : subscription.status === "error" ? "offline" : "connecting";
+
+  return { markets: merged, status };
+}
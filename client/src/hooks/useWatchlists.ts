@@ -0,0 +1,90 @@
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+
+/**
+ * The signed-in user's watchlists and the one the dashboard is showing
+ * Stars on market cards toggle membership of the active list; without any
+ * list yet, the server creates "Favorites" on the first star.
+ */
+export function useWatchlists() {
+  const { isAuthenticated } = useAuth();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const utils = trpc.useUtils();
+
+  const listsQuery = trpc.watchlists.list.useQuery(undefined, {
+    enabled: isAuthenticated,
+    staleTime: 60_000,
+  });
+  const lists = listsQuery.data ?? [];
+  const active = lists.find(list => list.id === selectedId) ?? lists[0] ?? null;
+
+  const onError = (error: { message: string }) => toast.error(error.message);
+  const refresh = () => utils.watchlists.list.invalidate();
+
+  const toggle = trpc.watchlists.toggleMarket.useMutation({
+    onSuccess: ({ watchlist, watching }) => {
+      setSelectedId(watchlist.id);
+      toast(watching ? `Added to ${watchlist.name}` : `Removed from ${watchlist.name}`);
+      refresh();
+    },
+    onError,
+  });
+  const create = trpc.watchlists.create.useMutation({
+    onSuccess: watchlist => {
+      setSelectedId(watchlist.id);
+      refresh();
+    },
+    onError,
+  });
+  const rename = trpc.watchlists.rename.useMutation({ onSuccess: refresh, onError });
+  const remove = trpc.watchlists.delete.useMutation({
+    onSuccess: () => {
+      setSelectedId(null);
+      refresh();
+    },
+    onError,
+  });
+  const reorderMarkets = trpc.watchlists.reorderMarkets.useMutation({ onSuccess: refresh, onError });
+  const reorder = trpc.watchlists.reorder.useMutation({ onSuccess: refresh, onError });
+
+  const watched = useMemo(() => new Set(active?.marketIds ?? []), [active]);
+
+  // Swap a market with its neighbour in the active list
+  const moveMarket = (marketId: string, offset: -1 | 1) => {
+    if (!active) return;
+    const ids = [...active.marketIds];
+    const from = ids.indexOf(marketId);
+    const to = from + offset;
+    if (from === -1 || to < 0 || to >= ids.length) return;
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+    reorderMarkets.mutate({ id: active.id, marketIds: ids });
+  };
+
+  // Swap a list with its neighbour in the tab order
+  const moveList = (id: number, offset: -1 | 1) => {
+    const ids = lists.map(list => list.id);
+    const from = ids.indexOf(id);
+    const to = from + offset;
+    if (from === -1 || to < 0 || to >= ids.length) return;
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+    reorder.mutate({ ids });
+  };
+
+  return {
+    enabled: isAuthenticated,
+    lists,
+    active,
+    select: setSelectedId,
+    isWatched: (marketId: string) => watched.has(marketId),
+    toggle: (marketId: string) => toggle.mutate({ marketId, id: active?.id }),
+    create: (name: string) => create.mutate({ name }),
+    rename: (id: number, name: string) => rename.mutate({ id, name }),
+    remove: (id: number) => remove.mutate({ id }),
+    moveMarket,
+    moveList,
+  };
+}
+
+export type Watchlists = ReturnType<typeof useWatchlists>;
@@ -0,0 +1,58 @@
+/**
+ * Play MP3 audio while it downloads, through MediaSource
+ * Chunks are appended as they arrive and playback starts with the first
+ * one, instead of after the whole file like `new Audio(url)` on a
+ * buffered response.
+ */
+
+const MIME_TYPE = "audio/mpeg";
+
+export function canStreamAudio(): boolean {
+  return typeof window !== "undefined" && "MediaSource" in window && MediaSource.isTypeSupported(MIME_TYPE);
+}
+
+function waitFor(target: EventTarget, event: string): Promise<void> {
+  return new Promise(resolve => target.addEventListener(event, () => resolve(), { once: true }));
+}
+
+async function append(sourceBuffer: SourceBuffer, chunk: Uint8Array): Promise<void> {
+  const done = waitFor(sourceBuffer, "updateend");
+  sourceBuffer.appendBuffer(chunk as BufferSource);
+  await done;
+}
+
+/**
+ * Stream `url` into `audio` and start playing as soon as audio arrives
+ * Resolves once the whole response has been appended. Throws when the
+ * request fails; `audio.currentTime > 0` tells whether any of it played.
+ */
+export async function playStreamingAudio(url: string, audio: HTMLAudioElement, signal?: AbortSignal): Promise<void> {
+  const mediaSource = new MediaSource();
+  const objectUrl = URL.createObjectURL(mediaSource);
+  audio.src = objectUrl;
+  audio.addEventListener("emptied", () => URL.revokeObjectURL(objectUrl), { once: true });
+  await waitFor(mediaSource, "sourceopen");
+
+  const response = await fetch(url, { signal });
+  if (!response.ok || !response.body) {
+    throw new Error(`Briefing stream failed (${response.status})`);
+  }
+
+  const sourceBuffer = mediaSource.addSourceBuffer(MIME_TYPE);
+  const reader = response.body.getReader();
+  let started = false;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    await append(sourceBuffer, value);
+    if (!started) {
+      started = true;
+      await audio.play();
+    }
+  }
+
+  if (mediaSource.readyState === "open") {
+    mediaSource.endOfStream();
+  }
+}
@@ -0,0 +1,189 @@
+/*
+ * DESIGN: Neo-Brutalist Terminal
+ * Portfolio page: open positions marked to momentum + settled history
+ * Open positions count down live to expiry and refresh their mark every 15s
+ */
+
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { Activity, ArrowLeft, Clock, TrendingDown, TrendingUp, Wallet } from "lucide-react";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+
+// Format milliseconds left as "1:02:05" / "4:05"
+const formatCountdown = (ms: number): string => {
+  if (ms <= 0) return "SETTLING";
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mm = hours > 0 ? minutes.toString().padStart(2, "0") : minutes.toString();
+  return `${hours > 0 ? `${hours}:` : ""}${mm}:${seconds.toString().padStart(2, "0")}`;
+};
+
+const formatPnl = (value: number): string =>
+  `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+
+const pnlColor = (value: number): string =>
+  value > 0 ? "text-[#00FFA3]" : value < 0 ? "text-[#FF007A]" : "text-white/60";
+
+export default function Portfolio() {
+  const { isAuthenticated } = useAuth({ redirectOnUnauthenticated: true });
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second for the expiry countdowns
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const openQuery = trpc.portfolio.openPositions.useQuery(undefined, {
+    enabled: isAuthenticated,
+    refetchInterval: 15_000,
+  });
+  const historyQuery = trpc.portfolio.history.useQuery(undefined, {
+    enabled: isAuthenticated,
+    refetchInterval: 60_000,
+  });
+  const summaryQuery = trpc.portfolio.summary.useQuery(undefined, {
+    enabled: isAuthenticated,
+    refetchInterval: 15_000,
+  });
+  const balanceQuery = trpc.account.balance.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+
+  const summary = summaryQuery.data;
+  const openPositions = openQuery.data ?? [];
+  const history = historyQuery.data ?? [];
+
+  return (
+    <div className="min-h-screen bg-[#0B0E11]">
+      <header className="glass-card border-b border-white/5">
+        <div className="container flex items-center justify-between h-16">
+          <Link href="/" className="flex items-center gap-2 font-mono text-xs text-white/60 hover:text-white">
+            <ArrowLeft className="w-4 h-4" />
+            MARKETS
+          </Link>
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-[#00FFA3] to-[#00CC82] flex items-center justify-center">
+              <Activity className="w-5 h-5 text-[#0B0E11]" />
+            </div>
+            <h1 className="font-display font-bold text-lg tracking-tight text-white">PORTFOLIO</h1>
+          </div>
+          <div className="flex items-center gap-2 font-mono text-xs text-white/60">
+            <Wallet className="w-4 h-4" />
+            {(balanceQuery.data?.available ?? 0).toFixed(2)} USDC
+          </div>
+        </div>
+      </header>
+
+      <main className="container py-8 space-y-6">
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            { label: "OPEN POSITIONS", value: String(summary?.openCount ?? 0), color: "text-white" },
+            { label: "UNREALIZED P&L", value: formatPnl(summary?.unrealizedPnl ?? 0), color: pnlColor(summary?.unrealizedPnl ?? 0) },
+            { label: "REALIZED P&L", value: formatPnl(summary?.realizedPnl ?? 0), color: pnlColor(summary?.realizedPnl ?? 0) },
+            { label: "WIN RATE", value: summary?.winRate != null ? `${summary.winRate}%` : "—", color: "text-white" },
+          ].map((stat) => (
+            <div key={stat.label} className="glass-card rounded-xl p-4">
+              <span className="font-mono text-[10px] text-white/40 block mb-1">{stat.label}</span>
+              <span className={`font-display font-bold text-2xl ${stat.color}`}>{stat.value}</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Open Positions */}
+        <section className="glass-card rounded-xl p-4">
+          <h2 className="font-display font-bold text-sm text-white mb-4">OPEN POSITIONS</h2>
+          {openPositions.length === 0 ? (
+            <p className="font-mono text-xs text-white/40 text-center py-6">
+              {openQuery.isLoading ? "Loading positions..." : "No open positions"}
+            </p>
+          ) : (
+            <table className="w-full font-mono text-xs">
+              <thead>
+                <tr className="text-white/40 text-left">
+                  <th className="pb-2 font-normal">MARKET</th>
+                  <th className="pb-2 font-normal">SIDE</th>
+                  <th className="pb-2 font-normal text-right">STAKE</th>
+                  <th className="pb-2 font-normal text-right">ENTRY → NOW</th>
+                  <th className="pb-2 font-normal text-right">P&L</th>
+                  <th className="pb-2 font-normal text-right">EXPIRES</th>
+                </tr>
+              </thead>
+              <tbody>
+                {openPositions.map((position) => (
+                  <tr key={position.tradeId} className="border-t border-white/5">
+                    <td className="py-2 text-white truncate max-w-[200px]">{position.topic ?? position.marketId}</td>
+                    <td className="py-2">
+                      <span className={`flex items-center gap-1 ${position.direction === "long" ? "text-[#00FFA3]" : "text-[#FF007A]"}`}>
+                        {position.direction === "long" ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+                        {position.direction.toUpperCase()} {position.duration.toUpperCase()}
+                      </span>
+                    </td>
+                    <td className="py-2 text-right text-white">{position.amount.toFixed(2)}</td>
+                    <td className="py-2 text-right text-white/70">
+                      {Math.round(position.entryMomentum)} → {Math.round(position.currentMomentum)}
+                    </td>
+                    <td className={`py-2 text-right font-semibold ${pnlColor(position.unrealizedPnl)}`}>
+                      {formatPnl(position.unrealizedPnl)}
+                    </td>
+                    <td className="py-2 text-right text-white/70">
+                      <span className="inline-flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {formatCountdown(position.expiresAt - now)}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        {/* Settled History */}
+        <section className="glass-card rounded-xl p-4">
+          <h2 className="font-display font-bold text-sm text-white mb-4">SETTLED HISTORY</h2>
+          {history.length === 0 ? (
+            <p className="font-mono text-xs text-white/40 text-center py-6">
+              {historyQuery.isLoading ? "Loading history..." : "No settled trades yet"}
+            </p>
+          ) : (
+            <table className="w-full font-mono text-xs">
+              <thead>
+                <tr className="text-white/40 text-left">
+                  <th className="pb-2 font-normal">MARKET</th>
+                  <th className="pb-2 font-normal">SIDE</th>
+                  <th className="pb-2 font-normal">RESULT</th>
+                  <th className="pb-2 font-normal text-right">ENTRY → EXIT</th>
+                  <th className="pb-2 font-normal text-right">PAYOUT</th>
+                  <th className="pb-2 font-normal text-right">P&L</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map((position) => (
+                  <tr key={position.tradeId} className="border-t border-white/5">
+                    <td className="py-2 text-white truncate max-w-[200px]">{position.topic ?? position.marketId}</td>
+                    <td className="py-2 text-white/70">{position.direction.toUpperCase()} {position.duration.toUpperCase()}</td>
+                    <td className={`py-2 font-semibold ${position.outcome === "win" ? "text-[#00FFA3]" : position.outcome === "loss" ? "text-[#FF007A]" : "text-white/60"}`}>
+                      {position.outcome.toUpperCase()}
+                    </td>
+                    <td className="py-2 text-right text-white/70">
+                      {Math.round(position.entryMomentum)} → {Math.round(position.exitMomentum)}
+                    </td>
+                    <td className="py-2 text-right text-white">{position.payout.toFixed(2)}</td>
+                    <td className={`py-2 text-right font-semibold ${pnlColor(position.realizedPnl)}`}>
+                      {formatPnl(position.realizedPnl)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
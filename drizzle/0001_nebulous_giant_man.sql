@@ -0,0 +1,38 @@
+CREATE TABLE `market_categories` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`slug` varchar(64) NOT NULL,
+	`label` varchar(64) NOT NULL,
+	`icon` varchar(64),
+	`sortOrder` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `market_categories_id` PRIMARY KEY(`id`),
+	CONSTRAINT `market_categories_slug_unique` UNIQUE(`slug`)
+);
+--> statement-breakpoint
+CREATE TABLE `market_snapshots` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`marketId` int NOT NULL,
+	`momentum` double NOT NULL,
+	`change24h` double NOT NULL,
+	`volumeUsd` double NOT NULL,
+	`participants` int NOT NULL DEFAULT 0,
+	`hypeScore` int NOT NULL,
+	`capturedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `market_snapshots_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `markets` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`slug` varchar(128) NOT NULL,
+	`topic` varchar(255) NOT NULL,
+	`categoryId` int NOT NULL,
+	`hypeSummary` text,
+	`status` enum('active','paused','closed') NOT NULL DEFAULT 'active',
+	`closesAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `markets_id` PRIMARY KEY(`id`),
+	CONSTRAINT `markets_slug_unique` UNIQUE(`slug`)
+);
+--> statement-breakpoint
+CREATE INDEX `market_snapshots_market_captured_idx` ON `market_snapshots` (`marketId`,`capturedAt`);
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE `trades` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`tradeRef` varchar(32) NOT NULL,
+	`userId` int NOT NULL,
+	`marketId` int NOT NULL,
+	`direction` enum('long','short') NOT NULL,
+	`duration` enum('30m','1h','3h') NOT NULL,
+	`stakeCents` bigint NOT NULL,
+	`entryMomentum` double NOT NULL,
+	`entrySnapshotId` int NOT NULL,
+	`estimatedReturnCents` bigint NOT NULL,
+	`status` enum('open','settled','cancelled') NOT NULL DEFAULT 'open',
+	`idempotencyKey` varchar(64) NOT NULL,
+	`expiresAt` timestamp NOT NULL,
+	`settledAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `trades_id` PRIMARY KEY(`id`),
+	CONSTRAINT `trades_tradeRef_unique` UNIQUE(`tradeRef`),
+	CONSTRAINT `trades_user_idempotency_idx` UNIQUE(`userId`,`idempotencyKey`)
+);
+--> statement-breakpoint
+CREATE INDEX `trades_status_expires_idx` ON `trades` (`status`,`expiresAt`);
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE `balances` (
+	`userId` int NOT NULL,
+	`availableCents` bigint NOT NULL DEFAULT 0,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `balances_userId` PRIMARY KEY(`userId`)
+);
+--> statement-breakpoint
+CREATE TABLE `settlements` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`tradeId` int NOT NULL,
+	`userId` int NOT NULL,
+	`entrySnapshotId` int NOT NULL,
+	`exitSnapshotId` int NOT NULL,
+	`entryMomentum` double NOT NULL,
+	`exitMomentum` double NOT NULL,
+	`outcome` enum('win','loss','push') NOT NULL,
+	`stakeCents` bigint NOT NULL,
+	`grossPayoutCents` bigint NOT NULL,
+	`vigCents` bigint NOT NULL,
+	`netPayoutCents` bigint NOT NULL,
+	`engineVersion` int NOT NULL,
+	`settledAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `settlements_id` PRIMARY KEY(`id`),
+	CONSTRAINT `settlements_tradeId_unique` UNIQUE(`tradeId`)
+);
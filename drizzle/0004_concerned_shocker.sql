@@ -0,0 +1,15 @@
+CREATE TABLE `ledger_entries` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`transactionId` varchar(32) NOT NULL,
+	`userId` int,
+	`account` enum('available','locked','house','external') NOT NULL,
+	`amountCents` bigint NOT NULL,
+	`kind` enum('deposit','withdrawal','margin_lock','margin_release','payout','vig','stake_loss') NOT NULL,
+	`tradeId` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `ledger_entries_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `balances` ADD `lockedCents` bigint DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX `ledger_entries_user_idx` ON `ledger_entries` (`userId`,`createdAt`);--> statement-breakpoint
+CREATE INDEX `ledger_entries_transaction_idx` ON `ledger_entries` (`transactionId`);
\ No newline at end of file
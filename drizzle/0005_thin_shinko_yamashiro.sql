@@ -0,0 +1,14 @@
+CREATE TABLE `amm_pools` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`marketId` int NOT NULL,
+	`duration` enum('30m','1h','3h') NOT NULL,
+	`longShares` double NOT NULL DEFAULT 0,
+	`shortShares` double NOT NULL DEFAULT 0,
+	`liquidity` double NOT NULL,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `amm_pools_id` PRIMARY KEY(`id`),
+	CONSTRAINT `amm_pools_market_duration_idx` UNIQUE(`marketId`,`duration`)
+);
+--> statement-breakpoint
+ALTER TABLE `trades` ADD `shares` double;--> statement-breakpoint
+ALTER TABLE `trades` ADD `entryPrice` double;
\ No newline at end of file
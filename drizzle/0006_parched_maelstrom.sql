@@ -0,0 +1,31 @@
+CREATE TABLE `connector_cursors` (
+	`connectorId` varchar(64) NOT NULL,
+	`cursor` varchar(255),
+	`lastRunAt` timestamp,
+	`lastSuccessAt` timestamp,
+	`lastSignalCount` int NOT NULL DEFAULT 0,
+	`lastError` text,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `connector_cursors_connectorId` PRIMARY KEY(`connectorId`)
+);
+--> statement-breakpoint
+CREATE TABLE `signals` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`externalId` varchar(255) NOT NULL,
+	`connectorId` varchar(64) NOT NULL,
+	`source` enum('twitter','reddit','hackernews','news') NOT NULL,
+	`content` text NOT NULL,
+	`title` text,
+	`url` varchar(1024),
+	`author` varchar(128),
+	`likes` int NOT NULL DEFAULT 0,
+	`retweets` int NOT NULL DEFAULT 0,
+	`comments` int NOT NULL DEFAULT 0,
+	`contentHash` varchar(64) NOT NULL,
+	`publishedAt` timestamp NOT NULL,
+	`ingestedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `signals_id` PRIMARY KEY(`id`),
+	CONSTRAINT `signals_contentHash_unique` UNIQUE(`contentHash`)
+);
+--> statement-breakpoint
+CREATE INDEX `signals_published_idx` ON `signals` (`publishedAt`);
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `signal_market_matches` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`signalId` int NOT NULL,
+	`marketId` int NOT NULL,
+	`confidence` double NOT NULL,
+	`matchedTerms` json NOT NULL,
+	`publishedAt` timestamp NOT NULL,
+	`matchedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `signal_market_matches_id` PRIMARY KEY(`id`),
+	CONSTRAINT `signal_market_matches_pair_idx` UNIQUE(`signalId`,`marketId`)
+);
+--> statement-breakpoint
+ALTER TABLE `markets` ADD `aliases` json;--> statement-breakpoint
+ALTER TABLE `markets` ADD `keywords` json;--> statement-breakpoint
+CREATE INDEX `signal_market_matches_market_idx` ON `signal_market_matches` (`marketId`,`publishedAt`);
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE `rate_limit_buckets` (
+	`bucketKey` varchar(64) NOT NULL,
+	`tokens` double NOT NULL,
+	`refilledAt` bigint NOT NULL,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `rate_limit_buckets_bucketKey` PRIMARY KEY(`bucketKey`)
+);
@@ -0,0 +1,10 @@
+CREATE TABLE `analysis_cache` (
+	`cacheKey` varchar(64) NOT NULL,
+	`kind` enum('signal','strategy','vibe') NOT NULL,
+	`value` json NOT NULL,
+	`expiresAt` timestamp NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `analysis_cache_cacheKey` PRIMARY KEY(`cacheKey`)
+);
+--> statement-breakpoint
+CREATE INDEX `analysis_cache_expires_idx` ON `analysis_cache` (`expiresAt`);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `vibe_snapshots` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`marketId` int NOT NULL,
+	`joy` int NOT NULL,
+	`anxiety` int NOT NULL,
+	`confidence` int NOT NULL,
+	`dominantEmotion` varchar(32) NOT NULL,
+	`sampleSize` int NOT NULL DEFAULT 1,
+	`capturedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `vibe_snapshots_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `vibe_snapshots_market_captured_idx` ON `vibe_snapshots` (`marketId`,`capturedAt`);
\ No newline at end of file
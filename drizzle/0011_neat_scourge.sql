@@ -0,0 +1,31 @@
+CREATE TABLE `alert_events` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`ruleId` int NOT NULL,
+	`userId` int NOT NULL,
+	`marketId` int NOT NULL,
+	`severity` enum('info','warning','critical') NOT NULL,
+	`intensity` int NOT NULL,
+	`message` varchar(512) NOT NULL,
+	`triggeredAt` timestamp NOT NULL,
+	CONSTRAINT `alert_events_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `alert_rules` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`marketId` int,
+	`name` varchar(64) NOT NULL,
+	`severity` enum('info','warning','critical') NOT NULL DEFAULT 'warning',
+	`when` json NOT NULL,
+	`cooldownMinutes` int NOT NULL DEFAULT 15,
+	`intensityMetric` enum('momentum','change24h','hypeScore','joy','anxiety') NOT NULL,
+	`message` varchar(255),
+	`enabled` boolean NOT NULL DEFAULT true,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `alert_rules_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `alert_events_user_idx` ON `alert_events` (`userId`,`triggeredAt`);--> statement-breakpoint
+CREATE INDEX `alert_events_rule_market_idx` ON `alert_events` (`ruleId`,`marketId`,`triggeredAt`);--> statement-breakpoint
+CREATE INDEX `alert_rules_user_idx` ON `alert_rules` (`userId`);
\ No newline at end of file
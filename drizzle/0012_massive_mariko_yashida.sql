@@ -0,0 +1,46 @@
+CREATE TABLE `notification_channels` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`type` enum('webhook','email') NOT NULL,
+	`target` varchar(512) NOT NULL,
+	`secret` varchar(128),
+	`minSeverity` enum('info','warning','critical') NOT NULL DEFAULT 'info',
+	`enabled` boolean NOT NULL DEFAULT true,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `notification_channels_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `notification_deliveries` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`notificationId` int NOT NULL,
+	`channelId` int NOT NULL,
+	`userId` int NOT NULL,
+	`status` enum('pending','delivered','failed') NOT NULL DEFAULT 'pending',
+	`attempts` int NOT NULL DEFAULT 0,
+	`responseCode` int,
+	`lastError` varchar(512),
+	`nextAttemptAt` timestamp,
+	`deliveredAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `notification_deliveries_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `notifications` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`alertEventId` int,
+	`marketId` int,
+	`severity` enum('info','warning','critical') NOT NULL,
+	`title` varchar(128) NOT NULL,
+	`body` varchar(1024) NOT NULL,
+	`readAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `notifications_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `notification_channels_user_idx` ON `notification_channels` (`userId`);--> statement-breakpoint
+CREATE INDEX `notification_deliveries_due_idx` ON `notification_deliveries` (`status`,`nextAttemptAt`);--> statement-breakpoint
+CREATE INDEX `notification_deliveries_user_idx` ON `notification_deliveries` (`userId`,`createdAt`);--> statement-breakpoint
+CREATE INDEX `notifications_user_read_idx` ON `notifications` (`userId`,`readAt`);
\ No newline at end of file
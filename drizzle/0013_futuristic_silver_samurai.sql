@@ -0,0 +1,12 @@
+CREATE TABLE `watchlists` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(64) NOT NULL,
+	`position` int NOT NULL DEFAULT 0,
+	`marketIds` json NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `watchlists_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `watchlists_user_position_idx` ON `watchlists` (`userId`,`position`);
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `briefings` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int,
+	`storageKey` varchar(255) NOT NULL,
+	`script` text NOT NULL,
+	`markets` json NOT NULL,
+	`voice` varchar(32) NOT NULL,
+	`model` varchar(64) NOT NULL,
+	`wordCount` int NOT NULL,
+	`estimatedDuration` int NOT NULL,
+	`sizeBytes` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `briefings_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `briefings_user_created_idx` ON `briefings` (`userId`,`createdAt`);
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TABLE `briefing_schedules` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`cadence` enum('daily','hourly') NOT NULL DEFAULT 'daily',
+	`hour` int NOT NULL DEFAULT 8,
+	`minute` int NOT NULL DEFAULT 0,
+	`timezone` varchar(64) NOT NULL DEFAULT 'UTC',
+	`voice` varchar(32) NOT NULL DEFAULT 'bill',
+	`watchlistId` int,
+	`enabled` boolean NOT NULL DEFAULT true,
+	`lastRunAt` timestamp,
+	`nextRunAt` timestamp NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `briefing_schedules_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `podcast_feeds` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`token` varchar(64) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `podcast_feeds_id` PRIMARY KEY(`id`),
+	CONSTRAINT `podcast_feeds_userId_unique` UNIQUE(`userId`),
+	CONSTRAINT `podcast_feeds_token_unique` UNIQUE(`token`)
+);
+--> statement-breakpoint
+ALTER TABLE `briefings` ADD `scheduleId` int;--> statement-breakpoint
+CREATE INDEX `briefing_schedules_user_idx` ON `briefing_schedules` (`userId`);--> statement-breakpoint
+CREATE INDEX `briefing_schedules_due_idx` ON `briefing_schedules` (`enabled`,`nextRunAt`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `briefing_schedules` ADD `language` enum('en','es','de','ja') DEFAULT 'en' NOT NULL;--> statement-breakpoint
+ALTER TABLE `briefings` ADD `language` enum('en','es','de','ja') DEFAULT 'en' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TABLE `voice_preferences` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`voice` varchar(32) NOT NULL DEFAULT 'bill',
+	`model` enum('flash','turbo') NOT NULL DEFAULT 'flash',
+	`speed` double NOT NULL DEFAULT 1,
+	`stability` double NOT NULL DEFAULT 0.4,
+	`similarity` double NOT NULL DEFAULT 0.6,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `voice_preferences_id` PRIMARY KEY(`id`),
+	CONSTRAINT `voice_preferences_userId_unique` UNIQUE(`userId`)
+);
+--> statement-breakpoint
+CREATE TABLE `voice_profiles` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`voiceId` varchar(32) NOT NULL,
+	`name` varchar(64) NOT NULL,
+	`description` varchar(255) NOT NULL,
+	`category` varchar(32) NOT NULL,
+	`languages` json NOT NULL,
+	`previewUrl` varchar(512),
+	`enabled` boolean NOT NULL DEFAULT true,
+	`syncedAt` timestamp NOT NULL DEFAULT (now()),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `voice_profiles_id` PRIMARY KEY(`id`),
+	CONSTRAINT `voice_profiles_voiceId_unique` UNIQUE(`voiceId`)
+);
@@ -1,4 +1,20 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+import {
+  bigint,
+  boolean,
+  double,
+  index,
+  int,
+  json,
+  mysqlEnum,
+  mysqlTable,
+  text,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/mysql-core";
+import type { AlertConditionGroup } from "../shared/alertRules";
+import { BRIEFING_LANGUAGES, type BriefingLanguage } from "../shared/briefingLanguages";
+import { VOICE_MODELS } from "../shared/voiceSettings";
 
 /**
  * Core user table backing auth flow.
@@ -25,4 +41,630 @@ export const users = mysqlTable("users", {
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
-// TODO: Add your tables here
\ No newline at end of file
+/**
+ * Market categories drive the category tabs in the navigation bar.
+ * `icon` is a lucide-react icon name resolved on the client.
+ */
+export const marketCategories = mysqlTable("market_categories", {
+  id: int("id").autoincrement().primaryKey(),
+  /** URL-safe identifier used by the client, e.g. "crypto". */
+  slug: varchar("slug", { length: 64 }).notNull().unique(),
+  label: varchar("label", { length: 64 }).notNull(),
+  icon: varchar("icon", { length: 64 }),
+  sortOrder: int("sortOrder").default(0).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type MarketCategory = typeof marketCategories.$inferSelect;
+export type InsertMarketCategory = typeof marketCategories.$inferInsert;
+
+/**
+ * Attention markets listed on the Ticker Wall.
+ * Live figures (momentum, volume, hype) live in `market_snapshots`.
+ */
+export const markets = mysqlTable("markets", {
+  id: int("id").autoincrement().primaryKey(),
+  slug: varchar("slug", { length: 128 }).notNull().unique(),
+  topic: varchar("topic", { length: 255 }).notNull(),
+  categoryId: int("categoryId").notNull(),
+  hypeSummary: text("hypeSummary"),
+  /** Names the topic goes by, e.g. "OpenAI", "Sam Altman"; a mention is strong evidence. */
+  aliases: json("aliases").$type<string[]>(),
+  /** Supporting terms, e.g. "IPO", "valuation"; several are needed for a match. */
+  keywords: json("keywords").$type<string[]>(),
+  status: mysqlEnum("status", ["active", "paused", "closed"])
+    .default("active")
+    .notNull(),
+  /** When the current trading window closes; drives the card countdown. */
+  closesAt: timestamp("closesAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Market = typeof markets.$inferSelect;
+export type InsertMarket = typeof markets.$inferInsert;
+
+/**
+ * Point-in-time readings for a market. The newest row is the market's
+ * current state; the trailing rows feed the velocity sparkline.
+ */
+export const marketSnapshots = mysqlTable(
+  "market_snapshots",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    marketId: int("marketId").notNull(),
+    momentum: double("momentum").notNull(),
+    change24h: double("change24h").notNull(),
+    /** Notional traded volume in USD. */
+    volumeUsd: double("volumeUsd").notNull(),
+    participants: int("participants").default(0).notNull(),
+    hypeScore: int("hypeScore").notNull(),
+    capturedAt: timestamp("capturedAt").defaultNow().notNull(),
+  },
+  table => [
+    index("market_snapshots_market_captured_idx").on(
+      table.marketId,
+      table.capturedAt
+    ),
+  ]
+);
+
+export type MarketSnapshot = typeof marketSnapshots.$inferSelect;
+export type InsertMarketSnapshot = typeof marketSnapshots.$inferInsert;
+
+/**
+ * Momentum contracts placed through trading.placeTrade.
+ * Money columns are integer USDC cents to keep arithmetic exact.
+ */
+export const trades = mysqlTable(
+  "trades",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    /** Public trade reference shown to users, e.g. "TRD-M0X1Y2-AB12CD34". */
+    tradeRef: varchar("tradeRef", { length: 32 }).notNull().unique(),
+    userId: int("userId").notNull(),
+    marketId: int("marketId").notNull(),
+    direction: mysqlEnum("direction", ["long", "short"]).notNull(),
+    duration: mysqlEnum("duration", ["30m", "1h", "3h"]).notNull(),
+    stakeCents: bigint("stakeCents", { mode: "number" }).notNull(),
+    /** Momentum of the snapshot the trade was priced against. */
+    entryMomentum: double("entryMomentum").notNull(),
+    entrySnapshotId: int("entrySnapshotId").notNull(),
+    estimatedReturnCents: bigint("estimatedReturnCents", { mode: "number" }).notNull(),
+    /** AMM shares bought; each pays 1 USDC on a win. Null for trades placed before the AMM. */
+    shares: double("shares"),
+    /** Average price paid per share (0-1). */
+    entryPrice: double("entryPrice"),
+    status: mysqlEnum("status", ["open", "settled", "cancelled"])
+      .default("open")
+      .notNull(),
+    /** Client-generated key so retried submissions map to the same trade. */
+    idempotencyKey: varchar("idempotencyKey", { length: 64 }).notNull(),
+    expiresAt: timestamp("expiresAt").notNull(),
+    settledAt: timestamp("settledAt"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  table => [
+    uniqueIndex("trades_user_idempotency_idx").on(
+      table.userId,
+      table.idempotencyKey
+    ),
+    index("trades_status_expires_idx").on(table.status, table.expiresAt),
+  ]
+);
+
+export type Trade = typeof trades.$inferSelect;
+export type InsertTrade = typeof trades.$inferInsert;
+
+/**
+ * Outcome of a settled trade, with every input needed to replay it.
+ * One row per trade; `engineVersion` pins the payout rules used.
+ */
+export const settlements = mysqlTable("settlements", {
+  id: int("id").autoincrement().primaryKey(),
+  tradeId: int("tradeId").notNull().unique(),
+  userId: int("userId").notNull(),
+  entrySnapshotId: int("entrySnapshotId").notNull(),
+  exitSnapshotId: int("exitSnapshotId").notNull(),
+  entryMomentum: double("entryMomentum").notNull(),
+  exitMomentum: double("exitMomentum").notNull(),
+  outcome: mysqlEnum("outcome", ["win", "loss", "push"]).notNull(),
+  stakeCents: bigint("stakeCents", { mode: "number" }).notNull(),
+  grossPayoutCents: bigint("grossPayoutCents", { mode: "number" }).notNull(),
+  vigCents: bigint("vigCents", { mode: "number" }).notNull(),
+  netPayoutCents: bigint("netPayoutCents", { mode: "number" }).notNull(),
+  engineVersion: int("engineVersion").notNull(),
+  settledAt: timestamp("settledAt").defaultNow().notNull(),
+});
+
+export type Settlement = typeof settlements.$inferSelect;
+export type InsertSettlement = typeof settlements.$inferInsert;
+
+/**
+ * Per-user USDC balances. This is a running total of the user's
+ * `ledger_entries` and is only ever updated alongside them.
+ */
+export const balances = mysqlTable("balances", {
+  userId: int("userId").primaryKey(),
+  /** Spendable funds. */
+  availableCents: bigint("availableCents", { mode: "number" }).default(0).notNull(),
+  /** Margin held against open trades. */
+  lockedCents: bigint("lockedCents", { mode: "number" }).default(0).notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Balance = typeof balances.$inferSelect;
+
+/**
+ * Double-entry ledger. Every movement of funds is one `transactionId`
+ * whose entries sum to zero across accounts:
+ * - available / locked: a user's spendable funds and trade margin
+ * - house: the platform's side of trades, including the vig
+ * - external: paper money entering or leaving via deposit/withdraw
+ */
+export const ledgerEntries = mysqlTable(
+  "ledger_entries",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    transactionId: varchar("transactionId", { length: 32 }).notNull(),
+    /** Owner of user accounts; null for house and external. */
+    userId: int("userId"),
+    account: mysqlEnum("account", ["available", "locked", "house", "external"]).notNull(),
+    /** Signed: positive credits the account, negative debits it. */
+    amountCents: bigint("amountCents", { mode: "number" }).notNull(),
+    kind: mysqlEnum("kind", [
+      "deposit",
+      "withdrawal",
+      "margin_lock",
+      "margin_release",
+      "payout",
+      "vig",
+      "stake_loss",
+    ]).notNull(),
+    tradeId: int("tradeId"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  table => [
+    index("ledger_entries_user_idx").on(table.userId, table.createdAt),
+    index("ledger_entries_transaction_idx").on(table.transactionId),
+  ]
+);
+
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type InsertLedgerEntry = typeof ledgerEntries.$inferInsert;
+
+/**
+ * LMSR share pools, one per market and contract duration.
+ * Shares of trades still open set the LONG/SHORT price for the next trade;
+ * settlement releases them.
+ */
+export const ammPools = mysqlTable(
+  "amm_pools",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    marketId: int("marketId").notNull(),
+    duration: mysqlEnum("duration", ["30m", "1h", "3h"]).notNull(),
+    longShares: double("longShares").default(0).notNull(),
+    shortShares: double("shortShares").default(0).notNull(),
+    /** LMSR liquidity parameter b. */
+    liquidity: double("liquidity").notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  table => [
+    uniqueIndex("amm_pools_market_duration_idx").on(table.marketId, table.duration),
+  ]
+);
+
+export type AmmPool = typeof ammPools.$inferSelect;
+export type InsertAmmPool = typeof ammPools.$inferInsert;
+
+/**
+ * Social/news signals ingested by the connectors.
+ * contentHash (sha256 of normalised text) dedups repeats across sources.
+ */
+export const signals = mysqlTable(
+  "signals",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    /** Upstream id, prefixed by source, e.g. "hn:4211" or "reddit:t3_abc". */
+    externalId: varchar("externalId", { length: 255 }).notNull(),
+    connectorId: varchar("connectorId", { length: 64 }).notNull(),
+    source: mysqlEnum("source", ["twitter", "reddit", "hackernews", "news"]).notNull(),
+    content: text("content").notNull(),
+    title: text("title"),
+    url: varchar("url", { length: 1024 }),
+    author: varchar("author", { length: 128 }),
+    likes: int("likes").default(0).notNull(),
+    retweets: int("retweets").default(0).notNull(),
+    comments: int("comments").default(0).notNull(),
+    contentHash: varchar("contentHash", { length: 64 }).notNull().unique(),
+    publishedAt: timestamp("publishedAt").notNull(),
+    ingestedAt: timestamp("ingestedAt").defaultNow().notNull(),
+  },
+  table => [index("signals_published_idx").on(table.publishedAt)]
+);
+
+export type Signal = typeof signals.$inferSelect;
+export type InsertSignal = typeof signals.$inferInsert;
+
+/**
+ * Per-connector polling state, so restarts resume where they left off.
+ */
+export const connectorCursors = mysqlTable("connector_cursors", {
+  connectorId: varchar("connectorId", { length: 64 }).primaryKey(),
+  cursor: varchar("cursor", { length: 255 }),
+  lastRunAt: timestamp("lastRunAt"),
+  lastSuccessAt: timestamp("lastSuccessAt"),
+  /** Signals stored (after dedup) by the last successful run. */
+  lastSignalCount: int("lastSignalCount").default(0).notNull(),
+  lastError: text("lastError"),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type ConnectorCursor = typeof connectorCursors.$inferSelect;
+export type InsertConnectorCursor = typeof connectorCursors.$inferInsert;
+
+/**
+ * Which markets a signal is about. A signal may route to several markets
+ * or none; confidence is in [0, 1] and only rises as analysis comes in.
+ */
+export const signalMarketMatches = mysqlTable(
+  "signal_market_matches",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    signalId: int("signalId").notNull(),
+    marketId: int("marketId").notNull(),
+    confidence: double("confidence").notNull(),
+    /** The aliases/keywords that produced the match. */
+    matchedTerms: json("matchedTerms").$type<string[]>().notNull(),
+    /** Signal publish time, copied so a market's feed is one index scan. */
+    publishedAt: timestamp("publishedAt").notNull(),
+    matchedAt: timestamp("matchedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  table => [
+    uniqueIndex("signal_market_matches_pair_idx").on(table.signalId, table.marketId),
+    index("signal_market_matches_market_idx").on(table.marketId, table.publishedAt),
+  ]
+);
+
+export type SignalMarketMatch = typeof signalMarketMatches.$inferSelect;
+export type InsertSignalMarketMatch = typeof signalMarketMatches.$inferInsert;
+
+/**
+ * Token bucket levels for the AI provider rate limiter, shared by every
+ * server process. A missing row is a full bucket.
+ */
+export const rateLimitBuckets = mysqlTable("rate_limit_buckets", {
+  /** provider:unit, e.g. "gemini:requests" */
+  bucketKey: varchar("bucketKey", { length: 64 }).primaryKey(),
+  tokens: double("tokens").notNull(),
+  /** Epoch ms the level was last brought up to date. */
+  refilledAt: bigint("refilledAt", { mode: "number" }).notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+
+/**
+ * Validated analysis results keyed by a hash of normalised content, prompt
+ * version and provider (see server/cache). Rows past expiresAt are ignored
+ * and pruned periodically.
+ */
+export const analysisCache = mysqlTable(
+  "analysis_cache",
+  {
+    /** sha256 hex */
+    cacheKey: varchar("cacheKey", { length: 64 }).primaryKey(),
+    kind: mysqlEnum("kind", ["signal", "strategy", "vibe"]).notNull(),
+    value: json("value").notNull(),
+    expiresAt: timestamp("expiresAt").notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  table => [index("analysis_cache_expires_idx").on(table.expiresAt)]
+);
+
+export type AnalysisCacheEntry = typeof analysisCache.$inferSelect;
+export type InsertAnalysisCacheEntry = typeof analysisCache.$inferInsert;
+
+/**
+ * One vibe reading per market per analysis: from ingestion (aggregated over
+ * the newly matched signals) or an on-demand ai.analyzeMarketVibe call.
+ * vibe.history buckets these into windows alongside market_snapshots.
+ */
+export const vibeSnapshots = mysqlTable(
+  "vibe_snapshots",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    marketId: int("marketId").notNull(),
+    /** 0-100 */
+    joy: int("joy").notNull(),
+    /** 0-100 */
+    anxiety: int("anxiety").notNull(),
+    confidence: int("confidence").notNull(),
+    dominantEmotion: varchar("dominantEmotion", { length: 32 }).notNull(),
+    /** Texts the reading was aggregated from. */
+    sampleSize: int("sampleSize").default(1).notNull(),
+    capturedAt: timestamp("capturedAt").defaultNow().notNull(),
+  },
+  table => [index("vibe_snapshots_market_captured_idx").on(table.marketId, table.capturedAt)]
+);
+
+export type VibeSnapshot = typeof vibeSnapshots.$inferSelect;
+export type InsertVibeSnapshot = typeof vibeSnapshots.$inferInsert;
+
+/**
+ * User-defined alert rules (see shared/alertRules.ts), evaluated on every
+ * live tick of the markets they apply to.
+ */
+export const alertRules = mysqlTable(
+  "alert_rules",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(),
+    /** Null applies the rule to every market. */
+    marketId: int("marketId"),
+    name: varchar("name", { length: 64 }).notNull(),
+    severity: mysqlEnum("severity", ["info", "warning", "critical"]).default("warning").notNull(),
+    /** Condition tree joined with and/or. */
+    when: json("when").$type<AlertConditionGroup>().notNull(),
+    cooldownMinutes: int("cooldownMinutes").default(15).notNull(),
+    intensityMetric: mysqlEnum("intensityMetric", ["momentum", "change24h", "hypeScore", "joy", "anxiety"]).notNull(),
+    /** "{intensity}" is replaced; null describes the conditions instead. */
+    message: varchar("message", { length: 255 }),
+    enabled: boolean("enabled").default(true).notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  table => [index("alert_rules_user_idx").on(table.userId)]
+);
+
+export type AlertRuleRow = typeof alertRules.$inferSelect;
+export type InsertAlertRule = typeof alertRules.$inferInsert;
+
+/**
+ * Every time a user's rule fired on a market. The latest per (rule,
+ * market) also carries the rule's cooldown across restarts.
+ */
+export const alertEvents = mysqlTable(
+  "alert_events",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    ruleId: int("ruleId").notNull(),
+    userId: int("userId").notNull(),
+    marketId: int("marketId").notNull(),
+    severity: mysqlEnum("severity", ["info", "warning", "critical"]).notNull(),
+    intensity: int("intensity").notNull(),
+    message: varchar("message", { length: 512 }).notNull(),
+    triggeredAt: timestamp("triggeredAt").notNull(),
+  },
+  table => [
+    index("alert_events_user_idx").on(table.userId, table.triggeredAt),
+    index("alert_events_rule_market_idx").on(table.ruleId, table.marketId, table.triggeredAt),
+  ]
+);
+
+export type AlertEvent = typeof alertEvents.$inferSelect;
+export type InsertAlertEvent = typeof alertEvents.$inferInsert;
+
+/**
+ * Where a user's alerts are delivered besides the in-app inbox.
+ */
+export const notificationChannels = mysqlTable(
+  "notification_channels",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(),
+    type: mysqlEnum("type", ["webhook", "email"]).notNull(),
+    /** Webhook URL or email address. */
+    target: varchar("target", { length: 512 }).notNull(),
+    /** HMAC-SHA256 key for webhook signatures; null for email. */
+    secret: varchar("secret", { length: 128 }),
+    /** Alerts below this severity stay in the inbox only. */
+    minSeverity: mysqlEnum("minSeverity", ["info", "warning", "critical"]).default("info").notNull(),
+    enabled: boolean("enabled").default(true).notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  table => [index("notification_channels_user_idx").on(table.userId)]
+);
+
+export type NotificationChannel = typeof notificationChannels.$inferSelect;
+export type InsertNotificationChannel = typeof notificationChannels.$inferInsert;
+
+/**
+ * The in-app inbox: one row per alert a user received.
+ */
+export const notifications = mysqlTable(
+  "notifications",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(),
+    alertEventId: int("alertEventId"),
+    marketId: int("marketId"),
+    severity: mysqlEnum("severity", ["info", "warning", "critical"]).notNull(),
+    title: varchar("title", { length: 128 }).notNull(),
+    body: varchar("body", { length: 1024 }).notNull(),
+    readAt: timestamp("readAt"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  table => [index("notifications_user_read_idx").on(table.userId, table.readAt)]
+);
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+
+/**
+ * One row per (notification, channel). Failed attempts are retried with
+ * backoff until delivered or out of attempts.
+ */
+export const notificationDeliveries = mysqlTable(
+  "notification_deliveries",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    notificationId: int("notificationId").notNull(),
+    channelId: int("channelId").notNull(),
+    userId: int("userId").notNull(),
+    status: mysqlEnum("status", ["pending", "delivered", "failed"]).default("pending").notNull(),
+    attempts: int("attempts").default(0).notNull(),
+    /** HTTP status or SMTP reply code of the last attempt. */
+    responseCode: int("responseCode"),
+    lastError: varchar("lastError", { length: 512 }),
+    /** Null once delivered or failed for good. */
+    nextAttemptAt: timestamp("nextAttemptAt"),
+    deliveredAt: timestamp("deliveredAt"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  table => [
+    index("notification_deliveries_due_idx").on(table.status, table.nextAttemptAt),
+    index("notification_deliveries_user_idx").on(table.userId, table.createdAt),
+  ]
+);
+
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+export type InsertNotificationDelivery = typeof notificationDeliveries.$inferInsert;
+
+/**
+ * Named, ordered lists of markets a user keeps an eye on. Lists are
+ * ordered by position; markets within a list by their place in marketIds.
+ */
+export const watchlists = mysqlTable(
+  "watchlists",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(),
+    name: varchar("name", { length: 64 }).notNull(),
+    position: int("position").default(0).notNull(),
+    marketIds: json("marketIds").$type<number[]>().notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  table => [index("watchlists_user_position_idx").on(table.userId, table.position)]
+);
+
+export type Watchlist = typeof watchlists.$inferSelect;
+export type InsertWatchlist = typeof watchlists.$inferInsert;
+
+/** A market as it was read into a briefing. */
+export interface BriefingMarket {
+  topic: string;
+  momentum: number;
+  change24h: number;
+  volume: string;
+  hypeScore: number;
+  hypeSummary?: string;
+}
+
+/**
+ * Generated audio briefings. The MP3 lives in object storage under
+ * storageKey; rows keep what went into it so it can be replayed.
+ */
+export const briefings = mysqlTable(
+  "briefings",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    /** Null for briefings generated while signed out. */
+    userId: int("userId"),
+    storageKey: varchar("storageKey", { length: 255 }).notNull(),
+    script: text("script").notNull(),
+    markets: json("markets").$type<BriefingMarket[]>().notNull(),
+    voice: varchar("voice", { length: 32 }).notNull(),
+    language: mysqlEnum("language", BRIEFING_LANGUAGES).default("en").notNull(),
+    model: varchar("model", { length: 64 }).notNull(),
+    wordCount: int("wordCount").notNull(),
+    estimatedDuration: int("estimatedDuration").notNull(),
+    sizeBytes: int("sizeBytes").notNull(),
+    /** Set for briefings made by a schedule; these make up the podcast feed. */
+    scheduleId: int("scheduleId"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  table => [index("briefings_user_created_idx").on(table.userId, table.createdAt)]
+);
+
+export type Briefing = typeof briefings.$inferSelect;
+export type InsertBriefing = typeof briefings.$inferInsert;
+
+/**
+ * When to build a briefing for a user without anyone pressing BRIEF.
+ * Daily schedules run at hour:minute in the user's time zone, hourly ones
+ * at :minute past every hour.
+ */
+export const briefingSchedules = mysqlTable(
+  "briefing_schedules",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(),
+    cadence: mysqlEnum("cadence", ["daily", "hourly"]).default("daily").notNull(),
+    hour: int("hour").default(8).notNull(),
+    minute: int("minute").default(0).notNull(),
+    /** IANA zone, e.g. "America/New_York". */
+    timezone: varchar("timezone", { length: 64 }).default("UTC").notNull(),
+    voice: varchar("voice", { length: 32 }).default("bill").notNull(),
+    language: mysqlEnum("language", BRIEFING_LANGUAGES).default("en").notNull(),
+    /** Cover this watchlist; null covers the global top markets. */
+    watchlistId: int("watchlistId"),
+    enabled: boolean("enabled").default(true).notNull(),
+    lastRunAt: timestamp("lastRunAt"),
+    nextRunAt: timestamp("nextRunAt").notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  table => [
+    index("briefing_schedules_user_idx").on(table.userId),
+    index("briefing_schedules_due_idx").on(table.enabled, table.nextRunAt),
+  ]
+);
+
+export type BriefingSchedule = typeof briefingSchedules.$inferSelect;
+export type InsertBriefingSchedule = typeof briefingSchedules.$inferInsert;
+
+/**
+ * Secret per-user token in the podcast feed URL; podcast apps can't send
+ * session cookies.
+ */
+export const podcastFeeds = mysqlTable("podcast_feeds", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull().unique(),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type PodcastFeed = typeof podcastFeeds.$inferSelect;
+
+/**
+ * Voices synced from the ElevenLabs account (premade voices and any added
+ * from the Voice Library). The five built-in voices live in code
+ * (server/services/voiceProfiles.ts) and are not stored here.
+ */
+export const voiceProfiles = mysqlTable("voice_profiles", {
+  id: int("id").autoincrement().primaryKey(),
+  /** ElevenLabs voice_id; also the voice's id in the API. */
+  voiceId: varchar("voiceId", { length: 32 }).notNull().unique(),
+  name: varchar("name", { length: 64 }).notNull(),
+  description: varchar("description", { length: 255 }).notNull(),
+  /** ElevenLabs category: premade, cloned, professional, generated. */
+  category: varchar("category", { length: 32 }).notNull(),
+  /** Briefing languages the voice is verified for; empty when unknown. */
+  languages: json("languages").$type<BriefingLanguage[]>().notNull(),
+  previewUrl: varchar("previewUrl", { length: 512 }),
+  /** Admins hide voices from the pickers without deleting them. */
+  enabled: boolean("enabled").default(true).notNull(),
+  syncedAt: timestamp("syncedAt").defaultNow().notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type VoiceProfile = typeof voiceProfiles.$inferSelect;
+export type InsertVoiceProfile = typeof voiceProfiles.$inferInsert;
+
+export const voicePreferences = mysqlTable("voice_preferences", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull().unique(),
+  voice: varchar("voice", { length: 32 }).default("bill").notNull(),
+  model: mysqlEnum("model", VOICE_MODELS).default("flash").notNull(),
+  speed: double("speed").default(1).notNull(),
+  stability: double("stability").default(0.4).notNull(),
+  similarity: double("similarity").default(0.6).notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type VoicePreference = typeof voicePreferences.$inferSelect;
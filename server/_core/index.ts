@@ -4,9 +4,17 @@ import { createServer } from "http";
 import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
+import { registerBriefingStreamRoutes } from "../services/briefingStream";
+import { registerPodcastRoutes } from "../services/podcastFeed";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
+import { ENV } from "./env";
+import { startIngestionWorker } from "../workers/ingestion";
+import { startSettlementWorker } from "../workers/settlement";
+import { startAlertWorker } from "../workers/alerts";
+import { startNotificationWorker } from "../workers/notifications";
+import { startBriefingWorker } from "../workers/briefings";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -35,7 +43,11 @@ async function startServer() {
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
-  // tRPC API
+  // Streaming briefing audio under /api/briefings/stream/:id
+  registerBriefingStreamRoutes(app);
+  // Per-user podcast RSS of scheduled briefings under /api/podcast/:token
+  registerPodcastRoutes(app);
+  // tRPC API; subscriptions (markets.onTick) stream over SSE on the same route
   app.use(
     "/api/trpc",
     createExpressMiddleware({
@@ -60,6 +72,15 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  // Background workers need the database
+  if (ENV.databaseUrl) {
+    startSettlementWorker();
+    startIngestionWorker();
+    startAlertWorker();
+    startNotificationWorker();
+    startBriefingWorker();
+  }
 }
 
 startServer().catch(console.error);
@@ -5,6 +5,11 @@ import type { TrpcContext } from "./context";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
+  sse: {
+    // Keep-alive pings let clients spot a dead connection and reconnect
+    ping: { enabled: true, intervalMs: 15_000 },
+    client: { reconnectAfterInactivityMs: 20_000 },
+  },
 });
 
 export const router = t.router;
@@ -0,0 +1,281 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TrpcContext } from "./_core/context";
+import type { AlertRuleRow } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  countAlertRulesForUser: vi.fn(),
+  createAlertRule: vi.fn(),
+  createNotifications: vi.fn(),
+  enqueueDeliveries: vi.fn(),
+  getLastAlertTimes: vi.fn(),
+  listEnabledAlertRules: vi.fn(),
+  listEnabledChannelsForUsers: vi.fn(),
+  listMarketSnapshotsSince: vi.fn(),
+  listMarketTopics: vi.fn(),
+  listMarkets: vi.fn(),
+  listVibeSnapshots: vi.fn(),
+  recordAlertEvents: vi.fn(),
+  recordVibeSnapshot: vi.fn(),
+}));
+
+import {
+  DEFAULT_ALERT_RULES,
+  HYPE_TRAIN_THRESHOLD,
+  VOLATILITY_TRAP_THRESHOLD,
+  describeGroup,
+  evaluateRules,
+  getVibeAlert,
+  type AlertRule,
+  type MetricSample,
+} from "@shared/alertRules";
+import {
+  countAlertRulesForUser,
+  createAlertRule,
+  createNotifications,
+  getLastAlertTimes,
+  listEnabledAlertRules,
+  listEnabledChannelsForUsers,
+  listMarketSnapshotsSince,
+  listMarketTopics,
+  listMarkets,
+  listVibeSnapshots,
+  recordAlertEvents,
+  recordVibeSnapshot,
+} from "./db";
+import { appRouter } from "./routers";
+import { historyFromSnapshots } from "./services/alerts";
+import { generateVibeAlert } from "./services/hume";
+import { handleTick, stopAlertWorker } from "./workers/alerts";
+
+/**
+ * Test the shared alert rules engine and the worker that runs user rules
+ * on live ticks. The database layer is mocked.
+ */
+
+const MINUTE = 60 * 1000;
+
+function rule(overrides: Partial<AlertRule> = {}): AlertRule {
+  return {
+    id: "1",
+    name: "Fear spike",
+    kind: "custom",
+    severity: "warning",
+    when: { op: "and", conditions: [{ metric: "anxiety", operator: "above", value: 60 }] },
+    cooldownMinutes: 10,
+    intensityMetric: "anxiety",
+    ...overrides,
+  };
+}
+
+// One sample per minute, oldest first
+function samples(values: Array<Omit<MetricSample, "at">>): MetricSample[] {
+  return values.map((value, index) => ({ at: index * MINUTE, ...value }));
+}
+
+describe("Alert Rules", () => {
+  describe("engine", () => {
+    it("should join conditions with and/or, including nested groups", () => {
+      const history = samples([{ anxiety: 70, joy: 30, momentum: 15 }]);
+      const when = (op: "and" | "or") => ({
+        op,
+        conditions: [
+          { metric: "anxiety" as const, operator: "above" as const, value: 60 },
+          { op: "or" as const, conditions: [
+            { metric: "joy" as const, operator: "above" as const, value: 50 },
+            { metric: "momentum" as const, operator: "below" as const, value: 20 },
+          ] },
+        ],
+      });
+
+      expect(evaluateRules([rule({ when: when("and") })], history)).toHaveLength(1);
+      expect(evaluateRules([rule({ when: when("and") })], samples([{ anxiety: 70, joy: 30, momentum: 40 }]))).toEqual([]);
+      expect(describeGroup(when("and"))).toBe("anxiety above 60 and (joy above 50 or momentum below 20)");
+    });
+
+    it("should fire crosses only on the reading that crosses", () => {
+      const crosses = rule({ when: { op: "and", conditions: [{ metric: "momentum", operator: "crosses_above", value: 80 }] } });
+
+      expect(evaluateRules([crosses], samples([{ momentum: 75 }, { momentum: 85 }]))).toHaveLength(1);
+      expect(evaluateRules([crosses], samples([{ momentum: 85 }, { momentum: 90 }]))).toEqual([]);
+      expect(evaluateRules([crosses], samples([{ momentum: 85 }]))).toEqual([]);
+    });
+
+    it("should require sustained conditions to hold for the whole window", () => {
+      const sustained = rule({
+        when: { op: "and", conditions: [{ metric: "anxiety", operator: "above", value: 60, sustainedMinutes: 3 }] },
+      });
+      const history = samples([{ anxiety: 50 }, { anxiety: 65 }, { anxiety: 70 }, { anxiety: 72 }]);
+
+      // Above 60 since minute 1
+      expect(evaluateRules([sustained], history, new Map(), 3 * MINUTE)).toEqual([]);
+      expect(evaluateRules([sustained], history, new Map(), 4 * MINUTE)).toHaveLength(1);
+      expect(evaluateRules([sustained], [...history, { at: 5 * MINUTE, anxiety: 55 }])).toEqual([]);
+    });
+
+    it("should respect cooldowns and report intensity and message", () => {
+      const history = samples([{ anxiety: 82 }]);
+
+      expect(evaluateRules([rule()], history, new Map([["1", -5 * MINUTE]]))).toEqual([]);
+      expect(evaluateRules([rule()], history, new Map([["1", -10 * MINUTE]]))).toEqual([
+        {
+          ruleId: "1",
+          kind: "custom",
+          name: "Fear spike",
+          severity: "warning",
+          intensity: 82,
+          message: "Fear spike: anxiety above 60",
+          triggeredAt: 0,
+        },
+      ]);
+    });
+
+    it("should give market cards and server vibe alerts the same thresholds", () => {
+      const readings = [
+        [VOLATILITY_TRAP_THRESHOLD + 1, VOLATILITY_TRAP_THRESHOLD + 1],
+        [HYPE_TRAIN_THRESHOLD + 1, 10],
+        [HYPE_TRAIN_THRESHOLD, VOLATILITY_TRAP_THRESHOLD],
+        [72, 72],
+      ];
+
+      for (const [joy, anxiety] of readings) {
+        const alert = getVibeAlert(joy, anxiety);
+        const vibe = generateVibeAlert({ joy, anxiety, confidence: 80, dominant_emotion: "joy", all_emotions: {} });
+        expect(vibe.type).toBe(alert?.kind ?? null);
+      }
+      // The risk warning wins when both fire
+      expect(getVibeAlert(90, 90)?.kind).toBe("volatility_trap");
+      expect(getVibeAlert(72, 72)).toBeNull();
+      expect(DEFAULT_ALERT_RULES.map(r => r.id)).toEqual(["volatility_trap", "hype_train"]);
+    });
+  });
+
+  describe("worker", () => {
+    const NOW = Date.UTC(2026, 0, 15, 12);
+    const storedRule: AlertRuleRow = {
+      id: 7,
+      userId: 3,
+      marketId: 2,
+      name: "Panic",
+      severity: "critical",
+      when: { op: "and", conditions: [{ metric: "anxiety", operator: "above", value: 60, sustainedMinutes: 10 }] },
+      cooldownMinutes: 30,
+      intensityMetric: "anxiety",
+      message: null,
+      enabled: true,
+      createdAt: new Date(NOW),
+      updatedAt: new Date(NOW),
+    };
+
+    beforeEach(() => {
+      vi.mocked(listEnabledAlertRules).mockResolvedValue([storedRule]);
+      vi.mocked(getLastAlertTimes).mockResolvedValue([]);
+      vi.mocked(listMarketSnapshotsSince).mockResolvedValue([]);
+      vi.mocked(listVibeSnapshots).mockResolvedValue([
+        { id: 1, marketId: 2, joy: 20, anxiety: 65, confidence: 80, dominantEmotion: "fear", sampleSize: 2, capturedAt: new Date(NOW - 15 * MINUTE) },
+      ]);
+      vi.mocked(recordAlertEvents).mockReset().mockResolvedValue([41]);
+      vi.mocked(listMarketTopics).mockResolvedValue([{ id: 2, topic: "OpenAI IPO Hype", aliases: [], keywords: [] }]);
+      vi.mocked(createNotifications).mockImplementation(async items =>
+        items.map((item, index) => ({ ...item, id: index + 1 }) as never)
+      );
+      vi.mocked(listEnabledChannelsForUsers).mockResolvedValue([]);
+    });
+
+    afterEach(() => {
+      stopAlertWorker();
+      vi.restoreAllMocks();
+    });
+
+    const vibeTick = (anxiety: number, at: number) =>
+      ({ type: "vibe", marketId: "2", joy: 20, anxiety, capturedAt: at }) as const;
+
+    it("should seed history from snapshots and record fired alerts once per cooldown", async () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+
+      expect(await handleTick(vibeTick(70, NOW))).toBe(1);
+      expect(recordAlertEvents).toHaveBeenCalledWith([{
+        ruleId: 7,
+        userId: 3,
+        marketId: 2,
+        severity: "critical",
+        intensity: 70,
+        message: "Panic: anxiety above 60 for 10m",
+        triggeredAt: new Date(NOW),
+      }]);
+      expect(createNotifications).toHaveBeenCalledWith([expect.objectContaining({
+        userId: 3,
+        title: "Panic: OpenAI IPO Hype",
+        alertEventId: 41,
+      })]);
+
+      expect(await handleTick(vibeTick(75, NOW + 5 * MINUTE))).toBe(0);
+      expect(await handleTick({ ...vibeTick(75, NOW), marketId: "9" })).toBe(0);
+    });
+
+    it("should resume cooldowns from recorded events", async () => {
+      vi.mocked(getLastAlertTimes).mockResolvedValue([{ ruleId: 7, marketId: 2, triggeredAt: new Date(NOW - MINUTE) }]);
+
+      expect(await handleTick(vibeTick(70, NOW))).toBe(0);
+      expect(recordAlertEvents).not.toHaveBeenCalled();
+    });
+
+    it("should carry the latest value of every metric forward", () => {
+      const history = historyFromSnapshots(
+        [{ momentum: 80, change24h: 5, hypeScore: 60, capturedAt: new Date(NOW) }],
+        [{ joy: 40, anxiety: 30, capturedAt: new Date(NOW + MINUTE) }]
+      );
+
+      expect(history).toEqual([
+        { at: NOW, momentum: 80, change24h: 5, hypeScore: 60 },
+        { at: NOW + MINUTE, momentum: 80, change24h: 5, hypeScore: 60, joy: 40, anxiety: 30 },
+      ]);
+    });
+  });
+
+  describe("alerts router", () => {
+    const callerFor = (role: "user" | "admin") => appRouter.createCaller({
+      user: {
+        id: 3,
+        openId: "sample-user",
+        email: "sample@example.com",
+        name: "Sample User",
+        loginMethod: "manus",
+        role,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        lastSignedIn: new Date(),
+      },
+      req: { protocol: "https", headers: {} } as TrpcContext["req"],
+      res: { clearCookie: () => {} } as TrpcContext["res"],
+    });
+    const caller = callerFor("user");
+
+    it("should reject sustained crosses and cap rules per user", async () => {
+      vi.mocked(countAlertRulesForUser).mockResolvedValue(0);
+
+      await expect(caller.alerts.createRule({
+        name: "Breakout",
+        intensityMetric: "momentum",
+        when: { op: "and", conditions: [{ metric: "momentum", operator: "crosses_above", value: 80, sustainedMinutes: 5 }] },
+      })).rejects.toThrow("sustainedMinutes only applies to above/below");
+
+      vi.mocked(countAlertRulesForUser).mockResolvedValue(50);
+      await expect(caller.alerts.createRule({
+        name: "Breakout",
+        intensityMetric: "momentum",
+        when: { op: "and", conditions: [{ metric: "momentum", operator: "crosses_above", value: 80 }] },
+      })).rejects.toThrow("At most 50 alert rules per user");
+      expect(createAlertRule).not.toHaveBeenCalled();
+    });
+
+    it("should keep vibe readings that feed alerts to admins and known markets", async () => {
+      await expect(caller.ai.analyzeMarketVibe({ hypeSummary: "Panic!", marketId: "2" }))
+        .rejects.toMatchObject({ code: "FORBIDDEN" });
+
+      vi.mocked(listMarkets).mockResolvedValue([]);
+      await expect(callerFor("admin").ai.analyzeMarketVibe({ hypeSummary: "Panic!", marketId: "999" }))
+        .rejects.toMatchObject({ code: "NOT_FOUND" });
+      expect(recordVibeSnapshot).not.toHaveBeenCalled();
+    });
+  });
+});
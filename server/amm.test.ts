@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  PRICE_IMPACT_WARNING_THRESHOLD,
+  SlippageExceededError,
+  applyTrade,
+  emptyPool,
+  poolCost,
+  quoteTrade,
+  releaseShares,
+  sharesForAmount,
+  spotPrice,
+} from "./services/amm";
+
+/**
+ * Test the LMSR market maker
+ * Prices must come from the outstanding pools and charge exactly the stake
+ */
+
+describe("LMSR AMM", () => {
+  it("should price an empty pool at even odds", () => {
+    const pool = emptyPool();
+
+    expect(spotPrice(pool, "long")).toBeCloseTo(0.5);
+    expect(spotPrice(pool, "short")).toBeCloseTo(0.5);
+  });
+
+  it("should keep LONG and SHORT prices summing to 1", () => {
+    const pool = { longShares: 1200, shortShares: 300, liquidity: 1000 };
+
+    expect(spotPrice(pool, "long") + spotPrice(pool, "short")).toBeCloseTo(1, 10);
+    expect(spotPrice(pool, "long")).toBeGreaterThan(0.5);
+  });
+
+  it("should charge exactly the stake for the shares it gives", () => {
+    const pool = { longShares: 400, shortShares: 900, liquidity: 2000 };
+    const shares = sharesForAmount(pool, "long", 250);
+
+    const cost = poolCost(applyTrade(pool, "long", shares)) - poolCost(pool);
+    expect(cost).toBeCloseTo(250, 6);
+  });
+
+  it("should give fewer shares once money is already on that side", () => {
+    const empty = emptyPool();
+    const crowded = applyTrade(empty, "long", 3000);
+
+    expect(sharesForAmount(crowded, "long", 100)).toBeLessThan(sharesForAmount(empty, "long", 100));
+    expect(sharesForAmount(crowded, "short", 100)).toBeGreaterThan(sharesForAmount(empty, "short", 100));
+  });
+
+  it("should stay finite for very lopsided pools", () => {
+    const pool = { longShares: 500_000, shortShares: 0, liquidity: 1000 };
+
+    const quote = quoteTrade(pool, "short", 10);
+    expect(Number.isFinite(quote.shares)).toBe(true);
+    expect(quote.shares).toBeGreaterThan(10);
+  });
+
+  it("should return to even odds once every trade has settled", () => {
+    const orders = [
+      { direction: "long" as const, amount: 400 },
+      { direction: "short" as const, amount: 150 },
+      { direction: "long" as const, amount: 75 },
+    ];
+    let pool = emptyPool();
+    const filled = orders.map(order => {
+      const shares = sharesForAmount(pool, order.direction, order.amount);
+      pool = applyTrade(pool, order.direction, shares);
+      return { ...order, shares };
+    });
+    expect(spotPrice(pool, "long")).toBeGreaterThan(0.5);
+
+    for (const trade of filled) {
+      pool = releaseShares(pool, trade.direction, trade.shares);
+    }
+    expect(spotPrice(pool, "long")).toBeCloseTo(0.5, 10);
+    expect(pool.longShares).toBeCloseTo(0, 6);
+    expect(pool.shortShares).toBeCloseTo(0, 6);
+  });
+
+  it("should never leave a side negative", () => {
+    expect(releaseShares({ longShares: 10, shortShares: 5, liquidity: 1000 }, "short", 5.0000001).shortShares).toBe(0);
+  });
+
+  describe("quoteTrade", () => {
+    it("should report slippage and price impact for the order", () => {
+      const quote = quoteTrade(emptyPool(), "long", 100);
+
+      expect(quote.avgPrice).toBeGreaterThan(quote.spotPrice);
+      expect(quote.avgPrice).toBeLessThan(quote.priceAfter);
+      expect(quote.slippage).toBeGreaterThan(0);
+      expect(quote.priceImpact).toBeLessThan(PRICE_IMPACT_WARNING_THRESHOLD);
+      expect(quote.warning).toBeNull();
+    });
+
+    it("should warn when the order moves the price past the threshold", () => {
+      const quote = quoteTrade(emptyPool(100), "long", 50);
+
+      expect(quote.priceImpact).toBeGreaterThan(PRICE_IMPACT_WARNING_THRESHOLD);
+      expect(quote.warning).toContain("LONG");
+    });
+
+    it("should reject fills above the max price", () => {
+      expect(() => quoteTrade(emptyPool(), "long", 100, 0.5)).toThrow(SlippageExceededError);
+      expect(() => quoteTrade(emptyPool(), "long", 100, 0.51)).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { InvokeParams, InvokeResult } from "./_core/llm";
+import {
+  briefOffline,
+  createGeminiProvider,
+  createLlmProvider,
+  createOfflineProvider,
+  resolveProviderId,
+  setAnalysisProvider,
+  validateBatch,
+  validateStrategy,
+  type AnalysisProvider,
+  type RawSignal,
+  type RepairRequest,
+} from "./analysis";
+import { setAnalysisCache } from "./cache";
+import { analyzeBatchSignals, analyzeSignalsWithReport, generateLiveHypeBriefing, generateMarketStrategy } from "./services/gemini";
+
+/**
+ * Test the pluggable analysis providers and output validation
+ * No test here needs an API key: remote backends get a fake transport
+ */
+
+const NOW = Date.parse("2026-01-01T12:00:00Z");
+
+const gpt5: RawSignal = {
+  id: "1",
+  source: "hackernews",
+  content: "OpenAI announces GPT-5 with revolutionary reasoning capabilities. Sam Altman calls it a leap.",
+  timestamp: NOW,
+  engagement: { likes: 1843, comments: 912 },
+};
+
+const spam: RawSignal = {
+  id: "2",
+  source: "twitter",
+  content: "Huge $SOL airdrop live, claim now before it ends",
+  timestamp: NOW,
+};
+
+const validItem = (signalId: string, overrides: Record<string, unknown> = {}) => ({
+  signal_id: signalId,
+  core_event: "GPT-5 launch",
+  main_actors: ["OpenAI"],
+  hype_summary: "Big launch",
+  is_bot_noise: false,
+  confidence: 90,
+  recommended_duration: "30M",
+  rationale: "Breaking news",
+  ...overrides,
+});
+
+const llmReply = (content: string): InvokeResult => ({
+  id: "chatcmpl-1",
+  created: 0,
+  model: "test",
+  choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+});
+
+afterEach(() => {
+  setAnalysisProvider(null);
+  setAnalysisCache(null);
+  vi.restoreAllMocks();
+});
+
+describe("Analysis Providers", () => {
+  describe("resolveProviderId", () => {
+    const noKeys = { geminiApiKey: "", forgeApiKey: "" };
+
+    it("should honour an explicit provider", () => {
+      expect(resolveProviderId("llm", { geminiApiKey: "key", forgeApiKey: "" })).toBe("llm");
+      expect(resolveProviderId("offline", { geminiApiKey: "key", forgeApiKey: "key" })).toBe("offline");
+    });
+
+    it("should pick by configured keys in auto mode", () => {
+      expect(resolveProviderId("auto", { geminiApiKey: "key", forgeApiKey: "key" })).toBe("gemini");
+      expect(resolveProviderId("auto", { geminiApiKey: "", forgeApiKey: "key" })).toBe("llm");
+      expect(resolveProviderId("auto", noKeys)).toBe("offline");
+    });
+
+    it("should fall back to auto on an unknown setting", () => {
+      expect(resolveProviderId("bogus", noKeys)).toBe("offline");
+    });
+  });
+
+  describe("offline", () => {
+    const offline = createOfflineProvider();
+
+    it("should extract the event and actors deterministically", async () => {
+      const reply = await offline.analyzeBatch([gpt5]);
+
+      expect(await offline.analyzeBatch([gpt5])).toBe(reply);
+      expect(validateBatch([gpt5], reply).analyses.get("1")).toMatchObject({
+        core_event: "OpenAI announces GPT-5 with revolutionary reasoning capabilities.",
+        main_actors: ["OpenAI", "GPT-5", "Sam Altman"],
+        is_bot_noise: false,
+        recommended_duration: "30M",
+      });
+    });
+
+    it("should flag spam as bot noise", async () => {
+      const analysis = validateBatch([spam], await offline.analyzeBatch([spam])).analyses.get("2");
+
+      expect(analysis?.is_bot_noise).toBe(true);
+      expect(analysis?.main_actors).toEqual([]);
+    });
+
+    it("should read signal direction and apply the vibe rules for strategy", async () => {
+      const rising = Array.from({ length: 6 }, (_, i) => ({ ...gpt5, id: `r${i}`, timestamp: NOW - i * 60_000 }));
+
+      const result = validateStrategy(await offline.generateStrategy({
+        topic: "OpenAI IPO Hype",
+        signals: rising,
+        currentMomentum: 90,
+        vibeData: { joy: 40, anxiety: 80 },
+      }));
+      if (!result.ok) throw new Error(result.reason);
+      const { strategy } = result;
+
+      expect(strategy.momentum).toBe("rising");
+      expect(strategy.recommended_duration).toBe("30M");
+      expect(strategy.risk_level).toBe("high");
+    });
+  });
+
+  describe("llm", () => {
+    it("should request structured output with echoed signal ids", async () => {
+      const invoke = vi.fn(async (_params: InvokeParams) => llmReply(JSON.stringify({ analyses: [validItem("1")] })));
+
+      const reply = await createLlmProvider(invoke).analyzeBatch([gpt5]);
+
+      expect(validateBatch([gpt5], reply).analyses.get("1")?.core_event).toBe("GPT-5 launch");
+      expect(invoke.mock.calls[0][0].outputSchema?.name).toBe("signal_analyses");
+      expect(JSON.stringify(invoke.mock.calls[0][0].messages)).toContain('Signal id \\"1\\"');
+    });
+
+    it("should return the briefing text as-is", async () => {
+      const provider = createLlmProvider(async () => llmReply("  Markets are hot.  "));
+
+      expect(await provider.generateBriefing([], "en")).toBe("Markets are hot.");
+    });
+  });
+
+  describe("gemini", () => {
+    it("should call the REST API once per batch and return the reply text", async () => {
+      const fetchImpl = vi.fn(async () => new Response(JSON.stringify({
+        candidates: [{ content: { parts: [{ text: "[]" }] } }],
+      })));
+
+      const reply = await createGeminiProvider("test-key", fetchImpl as typeof fetch).analyzeBatch([gpt5, spam]);
+
+      expect(reply).toBe("[]");
+      expect(fetchImpl).toHaveBeenCalledTimes(1);
+      expect(String((fetchImpl.mock.calls[0] as unknown[])[0])).toContain("key=test-key");
+    });
+
+    it("should surface HTTP errors", async () => {
+      const fetchImpl = async () => new Response("quota", { status: 429 });
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(createGeminiProvider("k", fetchImpl as typeof fetch).generateStrategy({
+        topic: "x",
+        signals: [],
+        currentMomentum: 50,
+      })).rejects.toThrow("Gemini API error: 429");
+    });
+  });
+
+  describe("validateBatch", () => {
+    it("should match items by echoed id, not position", () => {
+      const reply = JSON.stringify([validItem("2", { core_event: "Airdrop spam" }), validItem("1")]);
+
+      const { analyses, failures } = validateBatch([gpt5, spam], reply);
+
+      expect(analyses.get("1")?.core_event).toBe("GPT-5 launch");
+      expect(analyses.get("2")?.core_event).toBe("Airdrop spam");
+      expect(failures.size).toBe(0);
+    });
+
+    it("should give a reason for each invalid or missing item", () => {
+      const reply = JSON.stringify([validItem("1", { confidence: 140, recommended_duration: "2H" }), validItem("99")]);
+
+      const { analyses, failures } = validateBatch([gpt5, spam], reply);
+
+      expect(analyses.size).toBe(0);
+      expect(failures.get("1")).toMatch(/^confidence: .*; recommended_duration: /);
+      expect(failures.get("2")).toBe("No analysis returned for this signal id");
+    });
+
+    it("should accept numeric ids, wrapped arrays and fenced JSON", () => {
+      const reply = "```json\n" + JSON.stringify({ analyses: [validItem("1", { signal_id: 1 })] }) + "\n```";
+
+      expect(validateBatch([gpt5], reply).analyses.has("1")).toBe(true);
+    });
+
+    it("should fail every signal when the reply is not JSON", () => {
+      const { failures } = validateBatch([gpt5, spam], "Sure! Here are the analyses:");
+
+      expect(failures.get("1")).toMatch(/^Response is not valid JSON/);
+      expect(failures.get("2")).toBe(failures.get("1"));
+    });
+  });
+
+  describe("repair", () => {
+    it("should re-ask for only the invalid items and keep the valid ones", async () => {
+      const calls: Array<{ ids: string[]; repair?: RepairRequest }> = [];
+      setAnalysisProvider({
+        ...createOfflineProvider(),
+        analyzeBatch: async (signals, repair) => {
+          calls.push({ ids: signals.map(s => s.id), repair });
+          return JSON.stringify(repair
+            ? [validItem("2", { is_bot_noise: true })]
+            : [validItem("1"), validItem("2", { is_bot_noise: "yes" })]);
+        },
+      });
+
+      const report = await analyzeSignalsWithReport([gpt5, spam]);
+
+      expect(calls.map(call => call.ids)).toEqual([["1", "2"], ["2"]]);
+      expect(calls[1].repair?.problems).toEqual([expect.stringMatching(/^signal 2: is_bot_noise: /)]);
+      expect(report.get("1")?.failureReason).toBeNull();
+      expect(report.get("2")).toMatchObject({ failureReason: null, analysis: { is_bot_noise: true } });
+    });
+
+    it("should report the reason when the repair also fails", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const analyzeBatch = vi.fn(async () => JSON.stringify([validItem("1", { main_actors: "OpenAI" })]));
+      setAnalysisProvider({ ...createOfflineProvider(), analyzeBatch });
+
+      const report = await analyzeSignalsWithReport([gpt5]);
+
+      expect(analyzeBatch).toHaveBeenCalledTimes(2);
+      expect(report.get("1")?.failureReason).toMatch(/^main_actors: /);
+      expect(report.get("1")?.analysis.core_event).toBe("Analysis unavailable");
+    });
+
+    it("should repair an invalid strategy", async () => {
+      const generateStrategy = vi.fn(async (_request: unknown, repair?: RepairRequest) => JSON.stringify({
+        summary: "Hot",
+        momentum: "rising",
+        recommended_duration: repair ? "30M" : "15M",
+        rationale: "Spike",
+        risk_level: "high",
+      }));
+      setAnalysisProvider({ ...createOfflineProvider(), generateStrategy });
+
+      const strategy = await generateMarketStrategy("NVIDIA Earnings Leak", [], 91);
+
+      expect(strategy.recommended_duration).toBe("30M");
+      expect(generateStrategy.mock.calls[1][1]?.problems[0]).toMatch(/^recommended_duration: /);
+    });
+  });
+
+  describe("service fallbacks", () => {
+    const failing: AnalysisProvider = {
+      id: "llm",
+      remote: false,
+      maxBatchSize: 10,
+      analyzeBatch: async () => "[]",
+      generateStrategy: async () => { throw new Error("down"); },
+      generateBriefing: async () => { throw new Error("down"); },
+    };
+
+    it("should fill in analyses missing from a short reply", async () => {
+      setAnalysisProvider(failing);
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const results = await analyzeBatchSignals([gpt5, spam]);
+
+      expect(results.get("2")?.core_event).toBe("Analysis unavailable");
+      expect(results.get("2")?.confidence).toBe(0);
+    });
+
+    it("should fall back to the templated briefing and default strategy", async () => {
+      setAnalysisProvider(failing);
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const markets = [{ topic: "NVIDIA Earnings Leak", momentum: 91, change24h: 67.3, volume: "$1.8M", hypeScore: 95 }];
+
+      const briefing = await generateLiveHypeBriefing(markets);
+      const strategy = await generateMarketStrategy("NVIDIA Earnings Leak", [], 91);
+
+      expect(briefing.script).toBe(briefOffline(markets));
+      expect(strategy.recommended_duration).toBe("1H");
+    });
+  });
+});
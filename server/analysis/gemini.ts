@@ -0,0 +1,88 @@
+/**
+ * Gemini-direct analysis provider
+ * Calls the generativelanguage REST API with the project's own key
+ * (GEMINI_API_KEY); the Free Tier allows 15 requests per minute.
+ */
+
+import {
+  BATCH_SYSTEM_PROMPT,
+  buildBatchPrompt,
+  buildBriefingPrompt,
+  buildBriefingSystemPrompt,
+  buildStrategyPrompt,
+} from "./prompts";
+import type { AnalysisProvider } from "./types";
+
+export const GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent";
+
+interface GenerationConfig {
+  temperature: number;
+  maxOutputTokens: number;
+  topK?: number;
+  topP?: number;
+  responseMimeType?: "application/json";
+}
+
+export function createGeminiProvider(apiKey: string, fetchImpl: typeof fetch = fetch): AnalysisProvider {
+  // The one place this provider talks to Gemini
+  async function generateContent(prompt: string, generationConfig: GenerationConfig): Promise<string> {
+    const response = await fetchImpl(`${GEMINI_API_URL}?key=${apiKey}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        generationConfig,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("[Gemini] API error:", errorText);
+      throw new Error(`Gemini API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const textContent = data.candidates?.[0]?.content?.parts?.[0]?.text;
+
+    if (!textContent) {
+      throw new Error("No content in Gemini response");
+    }
+
+    return textContent;
+  }
+
+  return {
+    id: "gemini",
+    remote: true,
+    // Batch size of 10 to stay efficient within Free Tier
+    maxBatchSize: 10,
+
+    analyzeBatch(signals, repair) {
+      return generateContent(`${BATCH_SYSTEM_PROMPT}\n\n${buildBatchPrompt(signals, repair)}`, {
+        temperature: 0.2,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: 2048,
+        responseMimeType: "application/json",
+      });
+    },
+
+    generateStrategy(request, repair) {
+      return generateContent(buildStrategyPrompt(request, repair), {
+        temperature: 0.3,
+        maxOutputTokens: 512,
+        responseMimeType: "application/json",
+      });
+    },
+
+    async generateBriefing(markets, language) {
+      const text = await generateContent(`${buildBriefingSystemPrompt(language)}\n\n${buildBriefingPrompt(markets, language)}`, {
+        temperature: 0.7, // Higher for more creative/punchy output
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: 400,
+      });
+      return text.trim();
+    },
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Analysis provider registry
+ * ANALYSIS_PROVIDER picks the backend: "gemini", "llm", "offline", or
+ * "auto" (the default), which uses Gemini when GEMINI_API_KEY is set, then
+ * invokeLLM when BUILT_IN_FORGE_API_KEY is set, and otherwise the offline
+ * provider, so tests and local dev never need a key.
+ */
+
+import { ENV } from "../_core/env";
+import { createGeminiProvider } from "./gemini";
+import { createLlmProvider } from "./llm";
+import { createOfflineProvider } from "./offline";
+import type { AnalysisProvider, AnalysisProviderId } from "./types";
+
+export * from "./types";
+export { parseModelJson, validateBatch, validateStrategy } from "./schemas";
+export { PROMPT_VERSION } from "./prompts";
+export { createGeminiProvider } from "./gemini";
+export { createLlmProvider } from "./llm";
+export { briefOffline, createOfflineProvider } from "./offline";
+export { estimateSpeech, formatPercent, formatVolume } from "./locales";
+
+export function resolveProviderId(
+  setting: string,
+  keys: { geminiApiKey: string; forgeApiKey: string }
+): AnalysisProviderId {
+  if (setting === "gemini" || setting === "llm" || setting === "offline") return setting;
+  if (setting && setting !== "auto") {
+    console.warn(`[Analysis] Unknown ANALYSIS_PROVIDER "${setting}", using auto`);
+  }
+  if (keys.geminiApiKey) return "gemini";
+  if (keys.forgeApiKey) return "llm";
+  return "offline";
+}
+
+export function createAnalysisProvider(id: AnalysisProviderId): AnalysisProvider {
+  switch (id) {
+    case "gemini": return createGeminiProvider(ENV.geminiApiKey);
+    case "llm": return createLlmProvider();
+    case "offline": return createOfflineProvider();
+  }
+}
+
+let provider: AnalysisProvider | null = null;
+
+export function getAnalysisProvider(): AnalysisProvider {
+  if (!provider) {
+    provider = createAnalysisProvider(resolveProviderId(ENV.analysisProvider, ENV));
+    console.log(`[Analysis] Using ${provider.id} provider`);
+  }
+  return provider;
+}
+
+/**
+ * Swap the active provider (tests); pass null to re-resolve from ENV
+ */
+export function setAnalysisProvider(next: AnalysisProvider | null): void {
+  provider = next;
+}
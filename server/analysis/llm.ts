@@ -0,0 +1,116 @@
+/**
+ * invokeLLM analysis provider
+ * Routes analysis through the platform's OpenAI-compatible endpoint
+ * (BUILT_IN_FORGE_API_KEY), requesting structured output so replies
+ * usually arrive as JSON in the expected shape (they are still validated).
+ */
+
+import { invokeLLM, type InvokeParams, type InvokeResult, type JsonSchema } from "../_core/llm";
+import {
+  BATCH_SYSTEM_PROMPT,
+  buildBatchPrompt,
+  buildBriefingPrompt,
+  buildBriefingSystemPrompt,
+  buildStrategyPrompt,
+} from "./prompts";
+import type { AnalysisProvider } from "./types";
+
+const DURATIONS = ["30M", "1H", "3H"];
+
+const ANALYSIS_ITEM_SCHEMA = {
+  type: "object",
+  properties: {
+    signal_id: { type: "string" },
+    core_event: { type: "string" },
+    main_actors: { type: "array", items: { type: "string" } },
+    hype_summary: { type: "string" },
+    is_bot_noise: { type: "boolean" },
+    confidence: { type: "number" },
+    recommended_duration: { type: "string", enum: DURATIONS },
+    rationale: { type: "string" },
+  },
+  required: ["signal_id", "core_event", "main_actors", "hype_summary", "is_bot_noise", "confidence", "recommended_duration", "rationale"],
+  additionalProperties: false,
+};
+
+// Structured output needs an object at the root, so the array is wrapped
+export const BATCH_ANALYSIS_SCHEMA: JsonSchema = {
+  name: "signal_analyses",
+  strict: true,
+  schema: {
+    type: "object",
+    properties: {
+      analyses: { type: "array", items: ANALYSIS_ITEM_SCHEMA },
+    },
+    required: ["analyses"],
+    additionalProperties: false,
+  },
+};
+
+export const STRATEGY_SCHEMA: JsonSchema = {
+  name: "market_strategy",
+  strict: true,
+  schema: {
+    type: "object",
+    properties: {
+      summary: { type: "string" },
+      momentum: { type: "string", enum: ["rising", "falling", "stable"] },
+      recommended_duration: { type: "string", enum: DURATIONS },
+      rationale: { type: "string" },
+      risk_level: { type: "string", enum: ["low", "medium", "high"] },
+    },
+    required: ["summary", "momentum", "recommended_duration", "rationale", "risk_level"],
+    additionalProperties: false,
+  },
+};
+
+export function messageText(result: InvokeResult): string {
+  const content = result.choices[0]?.message.content;
+  const text = typeof content === "string"
+    ? content
+    : (content ?? []).map(part => (part.type === "text" ? part.text : "")).join("");
+
+  if (!text) {
+    throw new Error("No content in LLM response");
+  }
+  return text;
+}
+
+export function createLlmProvider(
+  invoke: (params: InvokeParams) => Promise<InvokeResult> = invokeLLM
+): AnalysisProvider {
+  return {
+    id: "llm",
+    remote: true,
+    maxBatchSize: 10,
+
+    async analyzeBatch(signals, repair) {
+      const result = await invoke({
+        messages: [
+          { role: "system", content: BATCH_SYSTEM_PROMPT },
+          { role: "user", content: buildBatchPrompt(signals, repair) },
+        ],
+        outputSchema: BATCH_ANALYSIS_SCHEMA,
+      });
+      return messageText(result);
+    },
+
+    async generateStrategy(request, repair) {
+      const result = await invoke({
+        messages: [{ role: "user", content: buildStrategyPrompt(request, repair) }],
+        outputSchema: STRATEGY_SCHEMA,
+      });
+      return messageText(result);
+    },
+
+    async generateBriefing(markets, language) {
+      const result = await invoke({
+        messages: [
+          { role: "system", content: buildBriefingSystemPrompt(language) },
+          { role: "user", content: buildBriefingPrompt(markets, language) },
+        ],
+      });
+      return messageText(result).trim();
+    },
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Briefing locales
+ * Everything about the audio briefing that changes with its language:
+ * how the script prompt names the language, how percentages and dollar
+ * amounts are written out for the voice, the offline template, and the
+ * speaking rate behind duration estimates.
+ */
+
+import type { BriefingLanguage } from "@shared/briefingLanguages";
+
+export interface BriefingLocale {
+  /** English name of the language, for the script prompt. */
+  name: string;
+  /** BCP 47 tag for Intl number formatting. */
+  numberLocale: string;
+  percent(value: string): string;
+  /** Spoken dollar amount; `format` applies the locale's decimal style. */
+  dollars(usd: number, format: (value: number, digits: number) => string): string;
+  /** Words per minute, or characters for languages written without spaces. */
+  speechRate: number;
+  countsCharacters: boolean;
+  /** Length of a 45-second script, when it isn't the prompt's word count. */
+  scriptLength?: string;
+  template: {
+    empty: string;
+    intro: string;
+    lead(topic: string, rising: boolean, change: string, hypeScore: string): string;
+    second(topic: string, momentum: string): string;
+    third(topic: string, momentum: string): string;
+    outro: string;
+  };
+}
+
+const LOCALES: Record<BriefingLanguage, BriefingLocale> = {
+  en: {
+    name: "English",
+    numberLocale: "en-US",
+    percent: value => `${value} percent`,
+    dollars: (usd, format) =>
+      usd >= 1_000_000 ? `${format(usd / 1_000_000, 1)} million dollars`
+        : usd >= 1_000 ? `${format(usd / 1_000, 0)} thousand dollars`
+          : `${format(usd, 0)} dollars`,
+    speechRate: 150,
+    countsCharacters: false,
+    template: {
+      empty: "This is your Attention Index live briefing. Markets are currently being analyzed. Check back shortly for the latest momentum plays. Trade smart.",
+      intro: "This is your Attention Index live briefing. ",
+      lead: (topic, rising, change, hypeScore) =>
+        `Leading the momentum board right now: ${topic}, surging ${rising ? "up" : "down"} ${change} with a hype score of ${hypeScore}. `,
+      second: (topic, momentum) => `In second position, ${topic} showing ${momentum} momentum. `,
+      third: (topic, momentum) => `And rounding out the top three, ${topic} at ${momentum}. `,
+      outro: "That's your alpha update. Position accordingly and trade smart.",
+    },
+  },
+  es: {
+    name: "Spanish",
+    numberLocale: "es-ES",
+    percent: value => `${value} por ciento`,
+    dollars: (usd, format) =>
+      usd >= 1_000_000 ? `${format(usd / 1_000_000, 1)} millones de dólares`
+        : usd >= 1_000 ? `${format(usd / 1_000, 0)} mil dólares`
+          : `${format(usd, 0)} dólares`,
+    speechRate: 150,
+    countsCharacters: false,
+    template: {
+      empty: "Este es tu informe en directo de Attention Index. Los mercados se están analizando en este momento. Vuelve en breve para ver las últimas jugadas de momentum. Opera con cabeza.",
+      intro: "Este es tu informe en directo de Attention Index. ",
+      lead: (topic, rising, change, hypeScore) =>
+        `Liderando el tablero de momentum ahora mismo: ${topic}, ${rising ? "sube" : "baja"} un ${change} con una puntuación de hype de ${hypeScore}. `,
+      second: (topic, momentum) => `En segunda posición, ${topic}, con un ${momentum} de momentum. `,
+      third: (topic, momentum) => `Y cerrando el top tres, ${topic}, con un ${momentum}. `,
+      outro: "Esa es tu actualización de alfa. Posiciónate en consecuencia y opera con cabeza.",
+    },
+  },
+  de: {
+    name: "German",
+    numberLocale: "de-DE",
+    percent: value => `${value} Prozent`,
+    dollars: (usd, format) =>
+      usd >= 1_000_000 ? `${format(usd / 1_000_000, 1)} Millionen Dollar`
+        : usd >= 1_000 ? `${format(usd / 1_000, 0)} Tausend Dollar`
+          : `${format(usd, 0)} Dollar`,
+    speechRate: 150,
+    countsCharacters: false,
+    template: {
+      empty: "Hier ist Ihr Live-Briefing von Attention Index. Die Märkte werden gerade analysiert. Schauen Sie in Kürze wieder vorbei für die neuesten Momentum-Trades. Handeln Sie klug.",
+      intro: "Hier ist Ihr Live-Briefing von Attention Index. ",
+      lead: (topic, rising, change, hypeScore) =>
+        `An der Spitze der Momentum-Tabelle: ${topic}, ${rising ? "steigt" : "fällt"} um ${change} bei einem Hype-Score von ${hypeScore}. `,
+      second: (topic, momentum) => `Auf Platz zwei: ${topic} mit ${momentum} Momentum. `,
+      third: (topic, momentum) => `Und auf Platz drei: ${topic} mit ${momentum}. `,
+      outro: "Das war Ihr Alpha-Update. Positionieren Sie sich entsprechend und handeln Sie klug.",
+    },
+  },
+  ja: {
+    name: "Japanese",
+    numberLocale: "ja-JP",
+    percent: value => `${value}パーセント`,
+    // Japanese groups large numbers by 万 (10^4) and 億 (10^8)
+    dollars: (usd, format) =>
+      usd >= 100_000_000 ? `${format(usd / 100_000_000, 1)}億ドル`
+        : usd >= 10_000 ? `${format(usd / 10_000, 1)}万ドル`
+          : `${format(usd, 0)}ドル`,
+    speechRate: 300,
+    countsCharacters: true,
+    scriptLength: "about 220 Japanese characters",
+    template: {
+      empty: "Attention Indexのライブブリーフィングです。現在、マーケットを分析中です。最新のモメンタム情報はまもなくお届けします。賢いトレードを。",
+      intro: "Attention Indexのライブブリーフィングです。",
+      lead: (topic, rising, change, hypeScore) =>
+        `現在モメンタムボードのトップは${topic}。${change}の${rising ? "上昇" : "下落"}で、ハイプスコアは${hypeScore}です。`,
+      second: (topic, momentum) => `2位は${topic}、モメンタムは${momentum}。`,
+      third: (topic, momentum) => `そして3位は${topic}、${momentum}です。`,
+      outro: "以上、アルファ・アップデートでした。ポジションを整えて、賢いトレードを。",
+    },
+  },
+};
+
+export function getBriefingLocale(language: BriefingLanguage): BriefingLocale {
+  return LOCALES[language];
+}
+
+function formatNumber(language: BriefingLanguage, value: number, digits: number): string {
+  return new Intl.NumberFormat(LOCALES[language].numberLocale, { maximumFractionDigits: digits }).format(value);
+}
+
+export function formatPercent(language: BriefingLanguage, value: number, digits: number = 1): string {
+  return LOCALES[language].percent(formatNumber(language, value, digits));
+}
+
+// Volumes arrive pre-formatted for the UI ("$1.2M", "$45K"); null when unreadable
+export function parseVolume(volume: string): number | null {
+  const match = volume.trim().match(/^\$?([\d.,]+)\s*([KMB])?$/i);
+  if (!match) return null;
+  const value = Number(match[1].replace(/,/g, ""));
+  if (!Number.isFinite(value)) return null;
+  const scale = { K: 1e3, M: 1e6, B: 1e9 }[match[2]?.toUpperCase() as "K" | "M" | "B"] ?? 1;
+  return value * scale;
+}
+
+/**
+ * A volume as the narrator should say it, e.g. "1,2 millones de dólares"
+ * Unreadable volumes are passed through unchanged.
+ */
+export function formatVolume(language: BriefingLanguage, volume: string): string {
+  const usd = parseVolume(volume);
+  if (usd === null) return volume;
+  return LOCALES[language].dollars(usd, (value, digits) => formatNumber(language, value, digits));
+}
+
+/**
+ * Length of a script and roughly how long it takes to read aloud
+ * wordCount is in characters for languages written without spaces.
+ */
+export function estimateSpeech(script: string, language: BriefingLanguage = "en"): {
+  wordCount: number;
+  estimatedDuration: number;
+} {
+  const locale = LOCALES[language];
+  const wordCount = locale.countsCharacters
+    ? script.replace(/\s+/g, "").length
+    : script.split(/\s+/).length;
+  return { wordCount, estimatedDuration: Math.round((wordCount / locale.speechRate) * 60) };
+}
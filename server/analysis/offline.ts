@@ -0,0 +1,167 @@
+/**
+ * Offline analysis provider
+ * Deterministic, rule-based stand-in for the model providers, used when no
+ * API key is configured (tests, local dev) and as the briefing fallback.
+ * The same input always produces the same output.
+ *
+ * - core_event: the signal's first sentence
+ * - main_actors: capitalised names, tickers and handles, in order of appearance
+ * - is_bot_noise: spam phrases, hashtag floods or heavily repeated words
+ * - recommended_duration: from engagement (likes + 2*retweets + 3*comments)
+ * - strategy: direction from the index engine's velocity, window from the
+ *   Strategist's momentum/vibe rules
+ */
+
+import type { BriefingLanguage } from "@shared/briefingLanguages";
+import { computeMarketIndex } from "../services/indexEngine";
+import { formatPercent, getBriefingLocale } from "./locales";
+import type { AnalysisProvider, MarketBriefingData, MarketStrategy, RawSignal, SignalAnalysis, StrategyRequest } from "./types";
+
+// Heuristic readings are never as trustworthy as a model's
+const OFFLINE_CONFIDENCE = 40;
+
+const SPAM_PHRASES = ["airdrop", "giveaway", "claim now", "dm me", "100x", "free crypto", "click the link", "guaranteed returns"];
+
+// Capitalised words that start sentences rather than name anything
+const NON_ACTORS = new Set(["A", "An", "The", "This", "That", "These", "I", "We", "It", "Is", "Are", "Why", "How", "What", "When", "Ask", "Show", "New", "Breaking", "Just", "My", "Our"]);
+
+const ACTOR_PATTERN = /(?:\$[A-Z]{2,6}\b|@\w+|[A-Z][\w&'.-]*(?:\s+(?:of\s+)?[A-Z][\w&'.-]*)*)/g;
+
+function firstSentence(text: string): string {
+  const line = text.split(/\n|\s[—-]\s/)[0] ?? "";
+  const sentence = (line.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? line).trim();
+  return sentence.length > 120 ? `${sentence.slice(0, 117).trimEnd()}...` : sentence;
+}
+
+export function extractActors(text: string, limit = 5): string[] {
+  const actors: string[] = [];
+  for (const match of text.match(ACTOR_PATTERN) ?? []) {
+    const words = match.replace(/[.']+$/, "").split(/\s+/);
+    while (words.length > 0 && NON_ACTORS.has(words[0])) words.shift();
+    const actor = words.join(" ").replace(/'s$/, "");
+    if (actor.length < 2 || actors.includes(actor)) continue;
+    actors.push(actor);
+    if (actors.length === limit) break;
+  }
+  return actors;
+}
+
+export function isBotNoise(text: string): boolean {
+  const lower = text.toLowerCase();
+  if (SPAM_PHRASES.some(phrase => lower.includes(phrase))) return true;
+  if ((text.match(/[#$]\w+/g) ?? []).length >= 5) return true;
+
+  const words = lower.match(/\w+/g) ?? [];
+  return words.length >= 8 && new Set(words).size / words.length < 0.4;
+}
+
+function interactions(signal: RawSignal): number {
+  const { likes = 0, retweets = 0, comments = 0 } = signal.engagement ?? {};
+  return likes + 2 * retweets + 3 * comments;
+}
+
+export function analyzeOffline(signal: RawSignal): SignalAnalysis {
+  const noise = isBotNoise(signal.content);
+  const engagement = interactions(signal);
+  const words = signal.content.split(/\s+/).filter(Boolean);
+
+  const [recommended_duration, rationale]: [SignalAnalysis["recommended_duration"], string] =
+    engagement >= 1000
+      ? ["30M", "Engagement spike suggests a fast-moving story. Short window."]
+      : engagement >= 100
+        ? ["1H", "Moderate engagement on a developing story. Standard window."]
+        : ["3H", "Low engagement so far. Extended window for the trend to confirm."];
+
+  return {
+    core_event: firstSentence(signal.content),
+    main_actors: noise ? [] : extractActors(signal.content),
+    hype_summary: words.slice(0, 50).join(" "),
+    is_bot_noise: noise,
+    confidence: OFFLINE_CONFIDENCE,
+    recommended_duration,
+    rationale,
+  };
+}
+
+export function strategizeOffline(request: StrategyRequest): MarketStrategy {
+  const { topic, signals, currentMomentum: momentum, vibeData } = request;
+
+  // Read velocity as of the newest signal so the result is reproducible
+  const asOf = signals.reduce((latest, s) => Math.max(latest, s.timestamp), 0);
+  const index = computeMarketIndex(signals, { now: asOf || undefined });
+  const direction: MarketStrategy["momentum"] = index.velocity > 1 ? "rising" : index.velocity < -1 ? "falling" : "stable";
+
+  // Same rules as the Strategist's local fallback
+  let rule: [MarketStrategy["recommended_duration"], string, MarketStrategy["risk_level"]];
+  if (vibeData) {
+    if (vibeData.anxiety > 75) {
+      rule = ["30M", "High volatility detected. Short window recommended to minimize exposure.", "high"];
+    } else if (vibeData.joy > 80 && momentum > 80) {
+      rule = ["1H", "Strong momentum with positive sentiment. Medium window to capture gains.", "medium"];
+    } else if (vibeData.anxiety < 40 && vibeData.joy > 50) {
+      rule = ["3H", "Stable trend with low volatility. Extended window for maximum returns.", "low"];
+    } else {
+      rule = ["1H", "Mixed signals suggest moderate exposure. Standard window recommended.", "medium"];
+    }
+  } else if (momentum > 85) {
+    rule = ["30M", "Extreme momentum may reverse quickly. Short window advised.", "high"];
+  } else if (momentum > 60) {
+    rule = ["1H", "Healthy momentum trend. Standard window recommended.", "medium"];
+  } else {
+    rule = ["3H", "Lower momentum suggests developing trend. Extended window for confirmation.", "low"];
+  }
+  const [recommended_duration, rationale, risk_level] = rule;
+
+  return {
+    summary: `${topic} is at ${momentum}% momentum on ${signals.length} recent signals, with attention ${direction}.`,
+    momentum: direction,
+    recommended_duration,
+    rationale,
+    risk_level,
+  };
+}
+
+/**
+ * Templated briefing built from the market numbers alone
+ */
+export function briefOffline(markets: MarketBriefingData[], language: BriefingLanguage = "en"): string {
+  const { template } = getBriefingLocale(language);
+  if (markets.length === 0) {
+    return template.empty;
+  }
+
+  const [top, second, third] = markets;
+
+  let script = template.intro;
+  script += template.lead(
+    top.topic,
+    top.change24h >= 0,
+    formatPercent(language, Math.abs(top.change24h), 0),
+    String(top.hypeScore)
+  );
+
+  if (second) {
+    script += template.second(second.topic, formatPercent(language, second.momentum));
+  }
+
+  if (third) {
+    script += template.third(third.topic, formatPercent(language, third.momentum));
+  }
+
+  script += template.outro;
+
+  return script;
+}
+
+export function createOfflineProvider(): AnalysisProvider {
+  return {
+    id: "offline",
+    remote: false,
+    maxBatchSize: 100,
+    // Serialised like a model reply so it passes through the same validation
+    analyzeBatch: async signals =>
+      JSON.stringify(signals.map(signal => ({ signal_id: signal.id, ...analyzeOffline(signal) }))),
+    generateStrategy: async request => JSON.stringify(strategizeOffline(request)),
+    generateBriefing: async (markets, language) => briefOffline(markets, language),
+  };
+}
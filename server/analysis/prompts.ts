@@ -0,0 +1,145 @@
+/**
+ * Prompts shared by the model-backed analysis providers
+ */
+
+import type { BriefingLanguage } from "@shared/briefingLanguages";
+import { formatPercent, formatVolume, getBriefingLocale } from "./locales";
+import type { MarketBriefingData, RawSignal, RepairRequest, StrategyRequest } from "./types";
+
+// Part of every analysis cache key: bump when a prompt changes what it asks for
+export const PROMPT_VERSION = "2";
+
+export const BATCH_SYSTEM_PROMPT = `You are a financial signal analyst and strategist for "Attention Index" trading platform.
+Analyze social signals and provide BOTH data extraction AND trading strategy recommendations.
+
+For EACH signal in the batch, output:
+0. signal_id: The signal's id exactly as given
+1. core_event: The main event being discussed
+2. main_actors: Key people/companies involved (array)
+3. hype_summary: Brief sentiment summary (max 50 words)
+4. is_bot_noise: Boolean - true if spam/bot content
+5. confidence: 0-100 score for analysis quality
+6. recommended_duration: Trading window - "30M" (high volatility), "1H" (moderate), or "3H" (stable trend)
+7. rationale: Brief reason for duration recommendation (max 30 words)
+
+STRATEGY RULES:
+- 30M: Use for breaking news, viral moments, high engagement spikes
+- 1H: Use for developing stories, moderate momentum
+- 3H: Use for established trends, stable sentiment
+
+To maintain 90% accuracy:
+- Ignore bot/spam content (repetitive, suspicious patterns)
+- Focus on genuine engagement signals
+- Be conservative with confidence scores
+
+Respond with a JSON array, one object per signal, each with its signal_id.`;
+
+// Wall Street-style briefing prompt
+export const WALL_STREET_BRIEFING_PROMPT = `You are a senior Wall Street market analyst delivering a live audio briefing for "Attention Index" - a platform that trades momentum on viral topics and cultural moments.
+
+Write a punchy, urgent, 45-second market update script (approximately 120-140 words) in the style of CNBC's Fast Money or Bloomberg's Market Wrap.
+
+TONE REQUIREMENTS:
+- Professional but energetic - like a trader who just spotted alpha
+- Data-driven with specific numbers
+- Urgent and time-sensitive language
+- Use financial jargon naturally (momentum, velocity, positioning, flows)
+- Short, punchy sentences for impact
+- Create FOMO without being unprofessional
+
+STRUCTURE:
+1. HOOK (5 sec): Attention-grabbing opening about the hottest market
+2. TOP 3 BREAKDOWN (30 sec): Cover each market with momentum %, direction, and key insight
+3. ALPHA CALL (8 sec): One specific actionable insight or pattern you're seeing
+4. CLOSE (2 sec): Sign-off with urgency
+
+STYLE EXAMPLES:
+- "Attention is SURGING on OpenAI IPO Hype - up 45% in the last hour alone."
+- "Smart money is rotating into tech narratives. We're seeing massive velocity spikes."
+- "If you're not positioned in this move, you're leaving alpha on the table."
+
+Output ONLY the script text, no JSON or formatting.`;
+
+/**
+ * The briefing system prompt for a language
+ * English is the prompt as written; other languages add how to say the
+ * numbers, since the voice reads "%" and "$" badly or not at all.
+ */
+export function buildBriefingSystemPrompt(language: BriefingLanguage): string {
+  if (language === "en") return WALL_STREET_BRIEFING_PROMPT;
+
+  const locale = getBriefingLocale(language);
+  return `${WALL_STREET_BRIEFING_PROMPT}
+
+LANGUAGE:
+- Write the entire script in ${locale.name}, the way a native ${locale.name}-speaking market broadcaster would say it on air
+- Keep market names exactly as given
+- Write numbers out as they are spoken, e.g. "${formatPercent(language, 12.4)}" and "${formatVolume(language, "$1.2M")}"; never use "%" or "$"${locale.scriptLength ? `
+- Aim for ${locale.scriptLength} instead of the word count above` : ""}`;
+}
+
+// Appended to a prompt whose previous reply failed validation
+function buildRepairSection(repair?: RepairRequest): string {
+  if (!repair) return "";
+  return `
+
+Your previous response could not be used:
+${repair.problems.map(problem => `- ${problem}`).join("\n")}
+
+Previous response:
+${repair.previousOutput.slice(0, 2000)}
+
+Return corrected JSON only, following the required fields and allowed values exactly.`;
+}
+
+export function buildBatchPrompt(batch: RawSignal[], repair?: RepairRequest): string {
+  const batchPrompt = batch.map((signal) =>
+    `Signal id "${signal.id}" (${signal.source}):
+Content: "${signal.content.slice(0, 500)}"
+${signal.engagement ? `Engagement: likes=${signal.engagement.likes || 0}, comments=${signal.engagement.comments || 0}` : ""}`
+  ).join("\n\n");
+
+  return `Analyze these ${batch.length} signals:
+
+${batchPrompt}
+
+Respond with a JSON array of ${batch.length} analysis objects.${buildRepairSection(repair)}`;
+}
+
+export function buildStrategyPrompt(request: StrategyRequest, repair?: RepairRequest): string {
+  const signalTexts = request.signals.slice(0, 5).map((s) => `- ${s.content.slice(0, 200)}`).join("\n");
+
+  return `Analyze market "${request.topic}" and provide trading strategy:
+
+Recent signals:
+${signalTexts}
+
+Current momentum: ${request.currentMomentum}%
+${request.vibeData ? `Vibe analysis: JOY=${request.vibeData.joy}%, ANX=${request.vibeData.anxiety}%` : ""}
+
+Provide:
+1. summary: 2-3 sentence market overview
+2. momentum: "rising", "falling", or "stable"
+3. recommended_duration: "30M", "1H", or "3H"
+4. rationale: Why this duration (max 40 words)
+5. risk_level: "low", "medium", or "high"
+
+JSON response only.${buildRepairSection(repair)}`;
+}
+
+export function buildBriefingPrompt(markets: MarketBriefingData[], language: BriefingLanguage = "en"): string {
+  const marketsData = markets.map((m, i) =>
+    `MARKET ${i + 1}: ${m.topic}
+- Momentum: ${m.momentum}%
+- 24h Change: ${m.change24h >= 0 ? '+' : ''}${m.change24h.toFixed(1)}%
+- Volume: ${language === "en" ? m.volume : formatVolume(language, m.volume)}
+- Hype Score: ${m.hypeScore}/100
+${m.hypeSummary ? `- Context: ${m.hypeSummary}` : ''}`
+  ).join('\n\n');
+
+  return `TOP 3 TRENDING MARKETS RIGHT NOW:
+
+${marketsData}
+
+Write the 45-second briefing script now:`;
+}
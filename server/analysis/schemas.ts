@@ -0,0 +1,120 @@
+/**
+ * Output validation for model-backed analysis
+ * Model replies are untrusted text: they are parsed, checked against these
+ * schemas and matched to signals by the id each item echoes back, never by
+ * position. Anything that fails is reported per item with a reason, so the
+ * service can send a repair prompt for just those signals.
+ */
+
+import { z } from "zod";
+import type { MarketStrategy, RawSignal, SignalAnalysis } from "./types";
+
+const duration = z.enum(["30M", "1H", "3H"]);
+
+export const signalAnalysisSchema = z.object({
+  core_event: z.string().trim().min(1),
+  main_actors: z.array(z.string()),
+  hype_summary: z.string(),
+  is_bot_noise: z.boolean(),
+  confidence: z.number().min(0).max(100),
+  recommended_duration: duration,
+  rationale: z.string(),
+});
+
+export const batchItemSchema = signalAnalysisSchema.extend({
+  signal_id: z.string().min(1),
+});
+
+export const marketStrategySchema = z.object({
+  summary: z.string().trim().min(1),
+  momentum: z.enum(["rising", "falling", "stable"]),
+  recommended_duration: duration,
+  rationale: z.string(),
+  risk_level: z.enum(["low", "medium", "high"]),
+});
+
+export interface BatchValidation {
+  analyses: Map<string, SignalAnalysis>;
+  /** Reason each signal without a valid analysis was rejected. */
+  failures: Map<string, string>;
+}
+
+export type StrategyValidation =
+  | { ok: true; strategy: MarketStrategy }
+  | { ok: false; reason: string };
+
+/**
+ * Parse model text as JSON, tolerating a Markdown code fence around it
+ */
+export function parseModelJson(text: string): { ok: true; value: unknown } | { ok: false; reason: string } {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    return { ok: true, value: JSON.parse(unfenced) };
+  } catch (error) {
+    return { ok: false, reason: `Response is not valid JSON (${error instanceof Error ? error.message : String(error)})` };
+  }
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+/**
+ * Validate a batch reply against the signals it was asked about
+ * Accepts a bare array or an { analyses: [...] } wrapper. Items are keyed
+ * by their echoed signal_id; unknown and duplicate ids are ignored.
+ */
+export function validateBatch(signals: RawSignal[], text: string): BatchValidation {
+  const analyses = new Map<string, SignalAnalysis>();
+  const failures = new Map<string, string>();
+  const failAll = (reason: string) => {
+    signals.forEach(signal => failures.set(signal.id, reason));
+    return { analyses, failures };
+  };
+
+  const parsed = parseModelJson(text);
+  if (!parsed.ok) return failAll(parsed.reason);
+
+  const root = parsed.value;
+  const items = Array.isArray(root)
+    ? root
+    : root && typeof root === "object" && Array.isArray((root as { analyses?: unknown }).analyses)
+      ? (root as { analyses: unknown[] }).analyses
+      : null;
+  if (!items) return failAll("Response is not a JSON array of analyses");
+
+  const wanted = new Set(signals.map(signal => signal.id));
+  const itemErrors = new Map<string, string>();
+
+  for (const item of items) {
+    const echoed = item && typeof item === "object" ? (item as { signal_id?: unknown }).signal_id : undefined;
+    const signalId = typeof echoed === "number" ? String(echoed) : echoed;
+    if (typeof signalId !== "string" || !wanted.has(signalId) || analyses.has(signalId)) continue;
+
+    const result = batchItemSchema.safeParse({ ...(item as object), signal_id: signalId });
+    if (result.success) {
+      const { signal_id: _signalId, ...analysis } = result.data;
+      analyses.set(signalId, analysis);
+      itemErrors.delete(signalId);
+    } else if (!itemErrors.has(signalId)) {
+      itemErrors.set(signalId, describeIssues(result.error));
+    }
+  }
+
+  for (const signal of signals) {
+    if (analyses.has(signal.id)) continue;
+    failures.set(signal.id, itemErrors.get(signal.id) ?? "No analysis returned for this signal id");
+  }
+
+  return { analyses, failures };
+}
+
+export function validateStrategy(text: string): StrategyValidation {
+  const parsed = parseModelJson(text);
+  if (!parsed.ok) return parsed;
+
+  const result = marketStrategySchema.safeParse(parsed.value);
+  return result.success ? { ok: true, strategy: result.data } : { ok: false, reason: describeIssues(result.error) };
+}
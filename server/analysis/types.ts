@@ -0,0 +1,82 @@
+/**
+ * Analysis provider contract
+ * Every backend (Gemini direct, invokeLLM, offline) answers the same three
+ * questions: what a batch of signals is about, how to trade a market, and
+ * what to say in the live briefing. Structured answers come back as the
+ * model's raw JSON text and are validated by the service layer (see
+ * schemas.ts), so every backend is held to the same schema.
+ */
+
+import type { BriefingLanguage } from "@shared/briefingLanguages";
+
+export interface RawSignal {
+  id: string;
+  source: "twitter" | "reddit" | "hackernews" | "news";
+  content: string;
+  timestamp: number;
+  engagement?: {
+    likes?: number;
+    retweets?: number;
+    comments?: number;
+  };
+}
+
+// Combined Filter + Strategist output
+export interface SignalAnalysis {
+  core_event: string;
+  main_actors: string[];
+  hype_summary: string;
+  is_bot_noise: boolean;
+  confidence: number;
+  // Strategist fields
+  recommended_duration: "30M" | "1H" | "3H";
+  rationale: string;
+}
+
+// Market data for briefing generation
+export interface MarketBriefingData {
+  topic: string;
+  momentum: number;
+  change24h: number;
+  volume: string;
+  hypeScore: number;
+  hypeSummary?: string;
+}
+
+export interface StrategyRequest {
+  topic: string;
+  signals: RawSignal[];
+  currentMomentum: number;
+  vibeData?: { joy: number; anxiety: number };
+}
+
+export interface MarketStrategy {
+  summary: string;
+  momentum: "rising" | "falling" | "stable";
+  recommended_duration: "30M" | "1H" | "3H";
+  rationale: string;
+  risk_level: "low" | "medium" | "high";
+}
+
+export interface RepairRequest {
+  /** The rejected reply, so the model can see what it got wrong. */
+  previousOutput: string;
+  /** One line per problem, e.g. "signal 42: confidence: Too big". */
+  problems: string[];
+}
+
+export type AnalysisProviderId = "gemini" | "llm" | "offline";
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  /** Remote providers draw on their rate limit budget; offline runs immediately. */
+  remote: boolean;
+  /** Largest batch analyzeBatch accepts in one call. */
+  maxBatchSize: number;
+  /** JSON array of analyses, each echoing its signal_id; a repair asks again for just these signals. */
+  analyzeBatch(signals: RawSignal[], repair?: RepairRequest): Promise<string>;
+  /** JSON object in the MarketStrategy shape. */
+  generateStrategy(request: StrategyRequest, repair?: RepairRequest): Promise<string>;
+  /** The spoken briefing script for the given (already ranked) markets, in the given language. */
+  generateBriefing(markets: MarketBriefingData[], language: BriefingLanguage): Promise<string>;
+}
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  deleteExpiredAnalysisCache: vi.fn(),
+  getAnalysisCacheEntries: vi.fn(),
+  saveAnalysisCacheEntries: vi.fn(),
+}));
+
+import type { AnalysisCacheEntry } from "../drizzle/schema";
+import { createOfflineProvider, setAnalysisProvider, type RawSignal } from "./analysis";
+import { cacheKey, createAnalysisCache, createLruCache, setAnalysisCache } from "./cache";
+import { getAnalysisCacheEntries, saveAnalysisCacheEntries } from "./db";
+import { analyzeSignalsWithReport, generateMarketStrategy } from "./services/gemini";
+
+/**
+ * Test the analysis result cache
+ * The database layer is mocked; the service tests use the memory layer only
+ */
+
+const NOW = Date.parse("2026-01-01T12:00:00Z");
+
+const signal = (id: string, content: string): RawSignal => ({ id, source: "news", content, timestamp: NOW });
+
+const row = (key: string, value: unknown): AnalysisCacheEntry => ({
+  cacheKey: key,
+  kind: "signal",
+  value,
+  expiresAt: new Date(NOW + 60_000),
+  createdAt: new Date(NOW),
+});
+
+describe("Analysis Cache", () => {
+  beforeEach(() => {
+    vi.mocked(getAnalysisCacheEntries).mockReset().mockResolvedValue([]);
+    vi.mocked(saveAnalysisCacheEntries).mockReset();
+  });
+
+  afterEach(() => {
+    setAnalysisProvider(null);
+    setAnalysisCache(null);
+    vi.restoreAllMocks();
+  });
+
+  describe("LRU", () => {
+    it("should evict the least recently used entry", () => {
+      const lru = createLruCache<number>(2);
+      lru.set("a", 1, Infinity);
+      lru.set("b", 2, Infinity);
+      lru.get("a", 0);
+      lru.set("c", 3, Infinity);
+
+      expect(lru.get("a", 0)).toBe(1);
+      expect(lru.get("b", 0)).toBeUndefined();
+      expect(lru.size).toBe(2);
+    });
+
+    it("should drop expired entries on read", () => {
+      const lru = createLruCache<number>(10);
+      lru.set("a", 1, 100);
+
+      expect(lru.get("a", 99)).toBe(1);
+      expect(lru.get("a", 100)).toBeUndefined();
+      expect(lru.size).toBe(0);
+    });
+  });
+
+  describe("keys", () => {
+    it("should ignore spacing but not case, punctuation, emoji or the version", () => {
+      const key = cacheKey("signal", "2:gemini", "BREAKING: OpenAI files for IPO!");
+
+      expect(cacheKey("signal", "2:gemini", "  BREAKING:  OpenAI files\nfor IPO! ")).toBe(key);
+      expect(cacheKey("signal", "2:gemini", "breaking openai files for ipo")).not.toBe(key);
+      expect(cacheKey("vibe", "1:hume", "NOT BULLISH!!! 🚀")).not.toBe(cacheKey("vibe", "1:hume", "not bullish"));
+      expect(cacheKey("vibe", "1:hume", "🚀🚀")).not.toBe(cacheKey("vibe", "1:hume", "😭"));
+      expect(cacheKey("signal", "3:gemini", "BREAKING: OpenAI files for IPO!")).not.toBe(key);
+      expect(cacheKey("vibe", "2:gemini", "BREAKING: OpenAI files for IPO!")).not.toBe(key);
+    });
+  });
+
+  describe("layers", () => {
+    it("should fill memory from the database and count hits per layer", async () => {
+      const cache = createAnalysisCache({ persistent: true, now: () => NOW });
+      vi.mocked(getAnalysisCacheEntries).mockResolvedValueOnce([row("k1", { joy: 80 })]);
+
+      expect((await cache.getMany("vibe", ["k1", "k2"])).get("k1")).toEqual({ joy: 80 });
+      expect((await cache.getMany("vibe", ["k1"])).get("k1")).toEqual({ joy: 80 });
+
+      expect(getAnalysisCacheEntries).toHaveBeenCalledTimes(1);
+      expect(cache.stats()).toEqual([{ kind: "vibe", memoryHits: 1, dbHits: 1, misses: 1, hitRate: 2 / 3 }]);
+    });
+
+    it("should treat a database failure as a miss", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      vi.mocked(getAnalysisCacheEntries).mockRejectedValueOnce(new Error("ECONNREFUSED"));
+      const cache = createAnalysisCache({ persistent: true, now: () => NOW });
+
+      expect((await cache.getMany("signal", ["k1"])).size).toBe(0);
+      expect(cache.stats()[0].misses).toBe(1);
+    });
+
+    it("should write entries through with the kind's TTL", async () => {
+      const cache = createAnalysisCache({ persistent: true, now: () => NOW });
+
+      await cache.setMany("strategy", [["k1", { summary: "Hot" }]]);
+
+      expect(saveAnalysisCacheEntries).toHaveBeenCalledWith([
+        { cacheKey: "k1", kind: "strategy", value: { summary: "Hot" }, expiresAt: new Date(NOW + 10 * 60_000) },
+      ]);
+    });
+  });
+
+  describe("services", () => {
+    it("should only send uncached signals to the provider", async () => {
+      const offline = createOfflineProvider();
+      const analyzeBatch = vi.fn(offline.analyzeBatch);
+      setAnalysisProvider({ ...offline, analyzeBatch });
+
+      await analyzeSignalsWithReport([signal("1", "OpenAI files for IPO")]);
+      const report = await analyzeSignalsWithReport([
+        signal("7", "  OpenAI  files for IPO "),
+        signal("8", "Bitcoin ETF approved"),
+      ]);
+
+      expect(analyzeBatch.mock.calls.map(([batch]) => batch.map(s => s.id))).toEqual([["1"], ["8"]]);
+      expect(report.get("7")?.failureReason).toBeNull();
+    });
+
+    it("should not cache analyses that failed validation", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const analyzeBatch = vi.fn(async () => "not json");
+      setAnalysisProvider({ ...createOfflineProvider(), analyzeBatch });
+
+      await analyzeSignalsWithReport([signal("1", "OpenAI files for IPO")]);
+      await analyzeSignalsWithReport([signal("1", "OpenAI files for IPO")]);
+
+      // Two calls per run: the attempt and its repair
+      expect(analyzeBatch).toHaveBeenCalledTimes(4);
+    });
+
+    it("should reuse a strategy until momentum moves", async () => {
+      const offline = createOfflineProvider();
+      const generateStrategy = vi.fn(offline.generateStrategy);
+      setAnalysisProvider({ ...offline, generateStrategy });
+      const signals = [signal("1", "OpenAI files for IPO")];
+
+      await generateMarketStrategy("OpenAI IPO Hype", signals, 72.2);
+      await generateMarketStrategy("OpenAI IPO Hype", signals, 71.9);
+      await generateMarketStrategy("OpenAI IPO Hype", signals, 80);
+
+      expect(generateStrategy).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  briefOffline,
+  estimateSpeech,
+  formatPercent,
+  formatVolume,
+  setAnalysisProvider,
+  type AnalysisProvider,
+  type MarketBriefingData,
+} from "./analysis";
+import { WALL_STREET_BRIEFING_PROMPT, buildBriefingPrompt, buildBriefingSystemPrompt } from "./analysis/prompts";
+import { generateLiveHypeBriefing } from "./services/gemini";
+import { textToSpeech } from "./services/elevenlabs";
+
+const markets: MarketBriefingData[] = [
+  { topic: "NVIDIA Earnings Leak", momentum: 91, change24h: 67.3, volume: "$1.8M", hypeScore: 95 },
+  { topic: "OpenAI IPO Hype", momentum: 87.5, change24h: -4.2, volume: "$45K", hypeScore: 80 },
+];
+
+afterEach(() => {
+  setAnalysisProvider(null);
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("Briefing languages", () => {
+  it("should write percentages and volumes the way each language says them", () => {
+    expect(formatPercent("en", 12.4)).toBe("12.4 percent");
+    expect(formatPercent("es", 12.4)).toBe("12,4 por ciento");
+    expect(formatPercent("de", 12.4)).toBe("12,4 Prozent");
+    expect(formatPercent("ja", 12.4)).toBe("12.4パーセント");
+
+    expect(formatVolume("en", "$1.8M")).toBe("1.8 million dollars");
+    expect(formatVolume("es", "$1.8M")).toBe("1,8 millones de dólares");
+    expect(formatVolume("de", "$45K")).toBe("45 Tausend Dollar");
+    expect(formatVolume("ja", "$1.8M")).toBe("180万ドル");
+    expect(formatVolume("de", "N/A")).toBe("N/A");
+  });
+
+  it("should keep the English prompt and ask other languages for spoken numbers", () => {
+    expect(buildBriefingSystemPrompt("en")).toBe(WALL_STREET_BRIEFING_PROMPT);
+
+    const spanish = buildBriefingSystemPrompt("es");
+    expect(spanish).toContain("entire script in Spanish");
+    expect(spanish).toContain('"12,4 por ciento" and "1,2 millones de dólares"');
+    expect(buildBriefingSystemPrompt("ja")).toContain("about 220 Japanese characters");
+
+    expect(buildBriefingPrompt(markets, "de")).toContain("- Volume: 1,8 Millionen Dollar");
+    expect(buildBriefingPrompt(markets)).toContain("- Volume: $1.8M");
+  });
+
+  it("should fill the offline template in the requested language", () => {
+    expect(briefOffline(markets)).toBe(
+      "This is your Attention Index live briefing. Leading the momentum board right now: NVIDIA Earnings Leak, surging up 67 percent with a hype score of 95. In second position, OpenAI IPO Hype showing 87.5 percent momentum. That's your alpha update. Position accordingly and trade smart."
+    );
+    expect(briefOffline(markets, "de")).toContain("NVIDIA Earnings Leak, steigt um 67 Prozent");
+    expect(briefOffline(markets, "ja")).toContain("67パーセントの上昇");
+    expect(briefOffline([], "es")).toMatch(/^Este es tu informe/);
+  });
+
+  it("should pass the language to the provider and fall back in that language", async () => {
+    const generateBriefing = vi.fn(async () => {
+      throw new Error("down");
+    });
+    const failing: AnalysisProvider = {
+      id: "llm",
+      remote: false,
+      maxBatchSize: 10,
+      analyzeBatch: async () => "[]",
+      generateStrategy: async () => "{}",
+      generateBriefing,
+    };
+    setAnalysisProvider(failing);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const briefing = await generateLiveHypeBriefing(markets, "ja");
+
+    expect(generateBriefing).toHaveBeenCalledWith(markets, "ja");
+    expect(briefing.script).toBe(briefOffline(markets, "ja"));
+    // Japanese is counted in characters, read at ~300 a minute
+    expect(briefing.wordCount).toBe(briefing.script.replace(/\s+/g, "").length);
+    expect(briefing.estimatedDuration).toBe(estimateSpeech(briefing.script, "ja").estimatedDuration);
+  });
+
+  it("should pin the spoken language in the speech request", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response(new Uint8Array([1, 2, 3])));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await textToSpeech("Hola", "voice-id", { language: "es" });
+
+    const body = JSON.parse(String(fetchMock.mock.calls[0][1].body));
+    expect(body).toMatchObject({ text: "Hola", model_id: "eleven_flash_v2_5", language_code: "es" });
+    expect(result.model).toBe("eleven_flash_v2_5");
+  });
+});
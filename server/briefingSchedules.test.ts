@@ -0,0 +1,249 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import type { Briefing, BriefingSchedule } from "../drizzle/schema";
+import type { MarketSummary } from "./services/marketCatalog";
+
+vi.mock("./db", () => ({
+  claimBriefingSchedule: vi.fn(),
+  createBriefing: vi.fn(async (row: object) => ({ ...row, id: 9, createdAt: new Date() })),
+  getBriefingForUser: vi.fn(),
+  getPodcastFeedByToken: vi.fn(),
+  getVoicePreferences: vi.fn(),
+  getVoiceProfile: vi.fn(),
+  listDueBriefingSchedules: vi.fn(),
+  listMarkets: vi.fn(),
+  listScheduledBriefingsForUser: vi.fn(),
+  listWatchlists: vi.fn(),
+}));
+
+vi.mock("./storage", () => ({
+  storagePut: vi.fn(async (key: string) => ({ key, url: `https://storage.test/${key}` })),
+  storageGet: vi.fn(async (key: string) => ({ key, url: `https://storage.test/${key}?signature=abc` })),
+}));
+
+vi.mock("./services/gemini", () => ({
+  generateLiveHypeBriefing: vi.fn(async () => ({ script: "Good morning.", wordCount: 2, estimatedDuration: 1 })),
+}));
+
+vi.mock("./services/elevenlabs", () => ({
+  generateLiveHypeBriefing: vi.fn(async (_script: string, voice: { id: string }) => ({
+    audioBase64: Buffer.from("mp3").toString("base64"),
+    voice: voice.id,
+    model: "eleven_flash_v2_5",
+  })),
+}));
+
+// Rows from the mocked listMarkets are summaries already
+vi.mock("./services/marketCatalog", () => ({
+  toMarketSummary: (market: MarketSummary) => market,
+}));
+
+import {
+  claimBriefingSchedule,
+  createBriefing,
+  getBriefingForUser,
+  getPodcastFeedByToken,
+  listDueBriefingSchedules,
+  listMarkets,
+  listScheduledBriefingsForUser,
+  listWatchlists,
+} from "./db";
+import { generateLiveHypeBriefing as generateAudioBriefing } from "./services/elevenlabs";
+import { generateLiveHypeBriefing } from "./services/gemini";
+import { nextRunAt, selectBriefingMarkets } from "./services/briefingSchedule";
+import { buildPodcastFeed, registerPodcastRoutes } from "./services/podcastFeed";
+import { runDueBriefings } from "./workers/briefings";
+
+function summary(id: number, momentum: number): MarketSummary {
+  return {
+    id: String(id),
+    slug: `market-${id}`,
+    topic: `Market ${id}`,
+    category: "AI",
+    categorySlug: "ai",
+    momentum,
+    change24h: 1,
+    volume: "$1M",
+    participants: 10,
+    sparklineData: [],
+    hypeScore: 50,
+    updatedAt: null,
+  };
+}
+
+function schedule(overrides: Partial<BriefingSchedule> = {}): BriefingSchedule {
+  return {
+    id: 5,
+    userId: 3,
+    cadence: "daily",
+    hour: 8,
+    minute: 0,
+    timezone: "UTC",
+    voice: "charlotte",
+    language: "de",
+    watchlistId: null,
+    enabled: true,
+    lastRunAt: null,
+    nextRunAt: new Date("2026-03-02T08:00:00Z"),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const episode: Briefing = {
+  id: 12,
+  userId: 3,
+  storageKey: "briefings/3/episode.mp3",
+  script: "AT&T <rallies>",
+  markets: [{ topic: "OpenAI IPO Hype", momentum: 87, change24h: 12.4, volume: "$1.2M", hypeScore: 92 }],
+  voice: "bill",
+  language: "en",
+  model: "eleven_flash_v2_5",
+  wordCount: 2,
+  estimatedDuration: 30,
+  sizeBytes: 4096,
+  scheduleId: 5,
+  createdAt: new Date("2026-03-02T08:00:00Z"),
+};
+
+describe("Briefing schedules", () => {
+  it("should run daily schedules at the wall-clock time of their zone", () => {
+    const ny = { cadence: "daily" as const, hour: 8, minute: 0, timezone: "America/New_York" };
+
+    // EST, then EDT after the 8 March 2026 change
+    expect(nextRunAt(ny, Date.parse("2026-03-02T12:00:00Z")).toISOString()).toBe("2026-03-02T13:00:00.000Z");
+    expect(nextRunAt(ny, Date.parse("2026-03-02T13:00:00Z")).toISOString()).toBe("2026-03-03T13:00:00.000Z");
+    expect(nextRunAt(ny, Date.parse("2026-03-08T06:00:00Z")).toISOString()).toBe("2026-03-08T12:00:00.000Z");
+  });
+
+  it("should run hourly schedules at the minute past each hour", () => {
+    const kolkata = { cadence: "hourly" as const, hour: 0, minute: 15, timezone: "Asia/Kolkata" };
+
+    // +05:30, so :15 local is :45 UTC
+    expect(nextRunAt(kolkata, Date.parse("2026-03-02T12:00:00Z")).toISOString()).toBe("2026-03-02T12:45:00.000Z");
+    expect(nextRunAt(kolkata, Date.parse("2026-03-02T12:45:00Z")).toISOString()).toBe("2026-03-02T13:45:00.000Z");
+  });
+
+  it("should pick the top markets by momentum, from the watchlist when set", () => {
+    const markets = [summary(1, 10), summary(2, 90), summary(3, 50), summary(4, 70)];
+
+    expect(selectBriefingMarkets(markets, null).map(market => market.id)).toEqual(["2", "4", "3"]);
+    expect(selectBriefingMarkets(markets, { marketIds: [1, 3] }).map(market => market.id)).toEqual(["3", "1"]);
+  });
+
+  describe("worker", () => {
+    afterEach(() => {
+      vi.clearAllMocks();
+      vi.restoreAllMocks();
+    });
+
+    it("should claim a due schedule before archiving its briefing", async () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      const now = Date.parse("2026-03-02T08:00:30Z");
+      vi.mocked(listDueBriefingSchedules).mockResolvedValue([schedule()]);
+      vi.mocked(claimBriefingSchedule).mockResolvedValue(true);
+      vi.mocked(listMarkets).mockResolvedValue(
+        [summary(1, 10), summary(2, 90)].map(market => ({ market, category: {}, snapshots: [] })) as never
+      );
+
+      expect(await runDueBriefings(now)).toBe(1);
+
+      expect(claimBriefingSchedule).toHaveBeenCalledWith(
+        5,
+        new Date("2026-03-02T08:00:00Z"),
+        new Date("2026-03-03T08:00:00Z"),
+        new Date(now)
+      );
+      expect(vi.mocked(generateLiveHypeBriefing).mock.calls[0][0].map(market => market.topic)).toEqual([
+        "Market 2",
+        "Market 1",
+      ]);
+      expect(vi.mocked(generateLiveHypeBriefing).mock.calls[0][1]).toBe("de");
+      // Scheduled work stays out of the interactive rate-limit lane
+      expect(vi.mocked(generateLiveHypeBriefing).mock.calls[0][2]).toBe("background");
+      expect(vi.mocked(generateAudioBriefing).mock.calls[0][2]).toMatchObject({ language: "de", priority: "background" });
+      expect(createBriefing).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 3, scheduleId: 5, voice: "charlotte", language: "de", sizeBytes: 3 })
+      );
+    });
+
+    it("should fall back to the default voice when the schedule's voice is gone", async () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      vi.mocked(listDueBriefingSchedules).mockResolvedValue([schedule({ voice: "removed-library-voice" })]);
+      vi.mocked(claimBriefingSchedule).mockResolvedValue(true);
+      vi.mocked(listMarkets).mockResolvedValue(
+        [summary(1, 10)].map(market => ({ market, category: {}, snapshots: [] })) as never
+      );
+
+      expect(await runDueBriefings(Date.parse("2026-03-02T08:00:30Z"))).toBe(1);
+
+      expect(vi.mocked(generateAudioBriefing).mock.calls[0][1]).toEqual({ id: "bill", voiceId: "6EW6z8IiJRtePnNUNPKW" });
+      expect(createBriefing).toHaveBeenCalledWith(expect.objectContaining({ voice: "bill" }));
+    });
+
+    it("should skip schedules claimed elsewhere or whose watchlist is gone", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      vi.mocked(listDueBriefingSchedules).mockResolvedValue([schedule(), schedule({ id: 6, watchlistId: 40 })]);
+      vi.mocked(claimBriefingSchedule).mockImplementation(async id => id === 6);
+      vi.mocked(listWatchlists).mockResolvedValue([]);
+
+      expect(await runDueBriefings(Date.parse("2026-03-02T08:00:30Z"))).toBe(0);
+      expect(listMarkets).not.toHaveBeenCalled();
+      expect(createBriefing).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe("Podcast feed", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    registerPodcastRoutes(app);
+    server = app.listen(0, "127.0.0.1");
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should escape episodes and point enclosures at the token route", () => {
+    const xml = buildPodcastFeed("https://example.com", "tok", [episode]);
+
+    expect(xml).toContain("<description>AT&amp;T &lt;rallies&gt;</description>");
+    expect(xml).toContain(
+      '<enclosure url="https://example.com/api/podcast/tok/episodes/12.mp3" length="4096" type="audio/mpeg"/>'
+    );
+    expect(xml).toContain('<atom:link href="https://example.com/api/podcast/tok/feed.xml"');
+  });
+
+  it("should serve the feed by token and redirect episodes to signed audio", async () => {
+    const feed = { id: 1, userId: 3, token: "tok", createdAt: new Date(), updatedAt: new Date() };
+    vi.mocked(getPodcastFeedByToken).mockImplementation(async token => (token === "tok" ? feed : undefined));
+    vi.mocked(listScheduledBriefingsForUser).mockResolvedValue([episode]);
+    vi.mocked(getBriefingForUser).mockResolvedValue(episode);
+
+    const response = await fetch(`${baseUrl}/api/podcast/tok/feed.xml`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("application/rss+xml");
+    expect(await response.text()).toContain(`${baseUrl}/api/podcast/tok/episodes/12.mp3`);
+
+    const audio = await fetch(`${baseUrl}/api/podcast/tok/episodes/12.mp3`, { redirect: "manual" });
+    expect(audio.status).toBe(302);
+    expect(audio.headers.get("location")).toBe("https://storage.test/briefings/3/episode.mp3?signature=abc");
+    expect(getBriefingForUser).toHaveBeenCalledWith(3, 12);
+
+    expect((await fetch(`${baseUrl}/api/podcast/wrong/feed.xml`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,178 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { DEFAULT_VOICE_SETTINGS } from "@shared/voiceSettings";
+
+vi.mock("./services/elevenlabs", () => ({
+  streamTextToSpeech: vi.fn(),
+  textToSpeech: vi.fn(),
+}));
+
+vi.mock("./db", () => ({
+  createBriefing: vi.fn(async (row: object) => ({ ...row, id: 1, createdAt: new Date() })),
+}));
+
+vi.mock("./storage", () => ({
+  storagePut: vi.fn(async (key: string) => ({ key, url: `https://storage.test/${key}` })),
+  storageGet: vi.fn(async (key: string) => ({ key, url: `https://storage.test/${key}?signature=abc` })),
+}));
+
+import { createBriefing } from "./db";
+import { storagePut } from "./storage";
+import { streamTextToSpeech, textToSpeech } from "./services/elevenlabs";
+import {
+  STREAM_TTL_MS,
+  clearBriefingStreams,
+  createBriefingStream,
+  registerBriefingStreamRoutes,
+  type PendingBriefing,
+} from "./services/briefingStream";
+
+const briefing: PendingBriefing = {
+  userId: 3,
+  script: "Number one: OpenAI IPO Hype.",
+  markets: [{ topic: "OpenAI IPO Hype", momentum: 87, change24h: 12.4, volume: "$1.2M", hypeScore: 92 }],
+  voice: "bill",
+  voiceId: "voice-bill",
+  settings: DEFAULT_VOICE_SETTINGS,
+  language: "en",
+  wordCount: 5,
+  estimatedDuration: 2,
+};
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe("Briefing stream route", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    registerBriefingStreamRoutes(app);
+    server = app.listen(0, "127.0.0.1");
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    clearBriefingStreams();
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it("should proxy the streamed audio chunk by chunk and archive it", async () => {
+    vi.mocked(streamTextToSpeech).mockResolvedValue({
+      stream: streamOf("ID3", "frame1", "frame2"),
+      contentType: "audio/mpeg",
+      model: "eleven_flash_v2_5",
+    });
+
+    const path = createBriefingStream(briefing);
+    const response = await fetch(baseUrl + path);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("audio/mpeg");
+    expect(response.headers.get("x-audio-mode")).toBe("stream");
+    expect(await response.text()).toBe("ID3frame1frame2");
+    expect(streamTextToSpeech).toHaveBeenCalledWith(briefing.script, "voice-bill", expect.any(AbortSignal), {
+      language: "en",
+      settings: DEFAULT_VOICE_SETTINGS,
+    });
+
+    await vi.waitFor(() => expect(createBriefing).toHaveBeenCalled());
+    expect(createBriefing).toHaveBeenCalledWith(expect.objectContaining({ userId: 3, sizeBytes: 15 }));
+
+    // Single use
+    expect((await fetch(baseUrl + path)).status).toBe(404);
+  });
+
+  it("should not archive anonymous briefings", async () => {
+    vi.mocked(streamTextToSpeech).mockResolvedValue({
+      stream: streamOf("ID3", "frame1"),
+      contentType: "audio/mpeg",
+      model: "eleven_flash_v2_5",
+    });
+
+    const response = await fetch(baseUrl + createBriefingStream({ ...briefing, userId: null }));
+
+    expect(await response.text()).toBe("ID3frame1");
+    expect(storagePut).not.toHaveBeenCalled();
+    expect(createBriefing).not.toHaveBeenCalled();
+  });
+
+  it("should fall back to buffered audio when streaming fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.mocked(streamTextToSpeech).mockRejectedValue(new Error("ElevenLabs API error: 503"));
+    vi.mocked(textToSpeech).mockResolvedValue({
+      audioBase64: Buffer.from("buffered-mp3").toString("base64"),
+      contentType: "audio/mpeg",
+      model: "eleven_flash_v2_5",
+      latencyMs: 900,
+    });
+
+    const response = await fetch(baseUrl + createBriefingStream(briefing));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("x-audio-mode")).toBe("buffered");
+    expect(response.headers.get("content-length")).toBe("12");
+    expect(await response.text()).toBe("buffered-mp3");
+    // The failed stream already charged the quota for this script
+    expect(textToSpeech).toHaveBeenCalledWith(briefing.script, "voice-bill", expect.objectContaining({ quotaCharged: true }));
+  });
+
+  it("should reject unknown and expired streams", async () => {
+    expect((await fetch(`${baseUrl}/api/briefings/stream/nope`)).status).toBe(404);
+
+    const path = createBriefingStream(briefing, Date.now() - STREAM_TTL_MS - 1);
+    expect((await fetch(baseUrl + path)).status).toBe(404);
+    expect(streamTextToSpeech).not.toHaveBeenCalled();
+  });
+});
+
+describe("Streaming speech timeout", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("should time out between chunks, not across the whole briefing", async () => {
+    const { streamTextToSpeech: realStreamTextToSpeech } =
+      await vi.importActual<typeof import("./services/elevenlabs")>("./services/elevenlabs");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+
+    let source!: ReadableStreamDefaultController<Uint8Array>;
+    let requestSignal!: AbortSignal;
+    vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit) => {
+      requestSignal = init.signal!;
+      return new Response(new ReadableStream<Uint8Array>({ start: controller => { source = controller; } }));
+    }));
+
+    const { stream } = await realStreamTextToSpeech("A long briefing.", "voice-id");
+    const reader = stream.getReader();
+
+    // 50 seconds of audio in all, but never 30 seconds without a chunk
+    for (let i = 0; i < 2; i++) {
+      vi.advanceTimersByTime(25_000);
+      source.enqueue(new Uint8Array([i]));
+      expect((await reader.read()).value).toEqual(new Uint8Array([i]));
+    }
+    expect(requestSignal.aborted).toBe(false);
+
+    vi.advanceTimersByTime(30_000);
+    expect(requestSignal.aborted).toBe(true);
+  });
+});
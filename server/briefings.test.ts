@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { TrpcContext } from "./_core/context";
+import type { Briefing } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  createBriefing: vi.fn(),
+  getBriefingForUser: vi.fn(),
+  listBriefingsForUser: vi.fn(),
+}));
+
+vi.mock("./storage", () => ({
+  storagePut: vi.fn(async (key: string) => ({ key, url: `https://storage.test/${key}` })),
+  storageGet: vi.fn(async (key: string) => ({ key, url: `https://storage.test/${key}?signature=abc` })),
+}));
+
+import { createBriefing, getBriefingForUser } from "./db";
+import { storagePut } from "./storage";
+import { appRouter } from "./routers";
+import { archiveBriefing } from "./services/briefingArchive";
+
+const market = { topic: "OpenAI IPO Hype", momentum: 87, change24h: 12.4, volume: "$1.2M", hypeScore: 92 };
+
+const stored = (overrides: Partial<Briefing> = {}): Briefing => ({
+  id: 5,
+  userId: 3,
+  storageKey: "briefings/3/abc.mp3",
+  script: "Number one: OpenAI IPO Hype.",
+  markets: [market],
+  voice: "bill",
+  model: "eleven_flash_v2_5",
+  wordCount: 5,
+  estimatedDuration: 2,
+  sizeBytes: 3,
+  createdAt: new Date(Date.UTC(2026, 0, 1)),
+  ...overrides,
+});
+
+describe("Briefing archive", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should upload the audio and record the briefing", async () => {
+    vi.mocked(createBriefing).mockImplementation(async row => stored({ ...row, id: 8 }));
+
+    const { briefing, audioUrl } = await archiveBriefing({
+      userId: 3,
+      script: "Number one: OpenAI IPO Hype.",
+      markets: [market],
+      voice: "bill",
+      model: "eleven_flash_v2_5",
+      wordCount: 5,
+      estimatedDuration: 2,
+      audio: Buffer.from("mp3"),
+    });
+
+    const [key, audio, contentType] = vi.mocked(storagePut).mock.calls[0];
+    expect(key).toMatch(/^briefings\/3\/[0-9a-f-]{36}\.mp3$/);
+    expect(Buffer.from(audio as Buffer).toString()).toBe("mp3");
+    expect(contentType).toBe("audio/mpeg");
+    expect(createBriefing).toHaveBeenCalledWith(expect.objectContaining({ userId: 3, storageKey: key, sizeBytes: 3 }));
+    expect(briefing.id).toBe(8);
+    expect(audioUrl).toBe(`https://storage.test/${key}?signature=abc`);
+  });
+
+  describe("briefings router", () => {
+    const caller = appRouter.createCaller({
+      user: {
+        id: 3,
+        openId: "sample-user",
+        email: "sample@example.com",
+        name: "Sample User",
+        loginMethod: "manus",
+        role: "user",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        lastSignedIn: new Date(),
+      },
+      req: { protocol: "https", headers: {} } as TrpcContext["req"],
+      res: { clearCookie: () => {} } as TrpcContext["res"],
+    });
+
+    it("should replay a past briefing from a signed URL", async () => {
+      vi.mocked(getBriefingForUser).mockResolvedValue(stored());
+
+      const briefing = await caller.briefings.get({ id: 5 });
+
+      expect(getBriefingForUser).toHaveBeenCalledWith(3, 5);
+      expect(briefing).toMatchObject({
+        id: 5,
+        topics: ["OpenAI IPO Hype"],
+        script: "Number one: OpenAI IPO Hype.",
+        audioUrl: "https://storage.test/briefings/3/abc.mp3?signature=abc",
+      });
+    });
+
+    it("should not expose other users' briefings", async () => {
+      vi.mocked(getBriefingForUser).mockResolvedValue(undefined);
+
+      await expect(caller.briefings.get({ id: 6 })).rejects.toThrow("Briefing 6 not found");
+    });
+  });
+});
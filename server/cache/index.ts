@@ -0,0 +1,182 @@
+/**
+ * Analysis result cache
+ * Sits in front of signal analysis, market strategy and vibe analysis so
+ * identical text is only sent to a provider once per TTL. Keys hash the
+ * content (with whitespace collapsed) together with a version string (prompt
+ * version plus provider), so a prompt change or a new backend starts from a
+ * cold cache.
+ * Lookups go to an in-memory LRU first, then to the analysis_cache table
+ * when there is a database; only validated results are ever stored.
+ */
+
+import { createHash } from "crypto";
+import { ENV } from "../_core/env";
+import { deleteExpiredAnalysisCache, getAnalysisCacheEntries, saveAnalysisCacheEntries } from "../db";
+import { createLruCache } from "./lru";
+
+export { createLruCache, type LruCache } from "./lru";
+
+export type CacheKind = "signal" | "strategy" | "vibe";
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const CACHE_TTL_MS: Record<CacheKind, number> = {
+  // A headline's meaning does not change
+  signal: 7 * DAY,
+  // Strategy keys include momentum, so entries go stale quickly anyway
+  strategy: 10 * MINUTE,
+  vibe: DAY,
+};
+
+const DEFAULT_MAX_ENTRIES = 2000;
+const PRUNE_INTERVAL_MS = HOUR;
+
+/**
+ * Only whitespace is normalised: case, punctuation and emoji carry sentiment,
+ * so "NOT BULLISH!!! 🚀" must not share an entry with "not bullish".
+ */
+export function cacheKey(kind: CacheKind, version: string, content: string): string {
+  return createHash("sha256")
+    .update(`${kind}\n${version}\n${content.trim().replace(/\s+/g, " ")}`)
+    .digest("hex");
+}
+
+export interface CacheStats {
+  kind: CacheKind;
+  memoryHits: number;
+  dbHits: number;
+  misses: number;
+  /** Share of lookups answered from either layer, 0 when nothing was looked up. */
+  hitRate: number;
+}
+
+export interface AnalysisCache {
+  getMany<T>(kind: CacheKind, keys: string[]): Promise<Map<string, T>>;
+  setMany<T>(kind: CacheKind, entries: Array<[string, T]>): Promise<void>;
+  /** Cached value, or compute it and store it when shouldStore allows. */
+  wrap<T>(kind: CacheKind, key: string, compute: () => Promise<T>, shouldStore?: (value: T) => boolean): Promise<T>;
+  stats(): CacheStats[];
+}
+
+export interface AnalysisCacheOptions {
+  /** Also read and write the analysis_cache table. */
+  persistent: boolean;
+  maxEntries?: number;
+  now?: () => number;
+}
+
+export function createAnalysisCache({
+  persistent,
+  maxEntries = DEFAULT_MAX_ENTRIES,
+  now = Date.now,
+}: AnalysisCacheOptions): AnalysisCache {
+  const memory = createLruCache<unknown>(maxEntries);
+  const counters = new Map<CacheKind, { memoryHits: number; dbHits: number; misses: number }>();
+  let lastPrunedAt = now();
+
+  function count(kind: CacheKind) {
+    let counter = counters.get(kind);
+    if (!counter) {
+      counter = { memoryHits: 0, dbHits: 0, misses: 0 };
+      counters.set(kind, counter);
+    }
+    return counter;
+  }
+
+  async function getMany<T>(kind: CacheKind, keys: string[]): Promise<Map<string, T>> {
+    const found = new Map<string, T>();
+    const counter = count(kind);
+    const at = now();
+
+    const unique = Array.from(new Set(keys));
+    const missing = unique.filter(key => {
+      const value = memory.get(key, at);
+      if (value === undefined) return true;
+      found.set(key, value as T);
+      return false;
+    });
+    counter.memoryHits += found.size;
+
+    if (persistent && missing.length > 0) {
+      try {
+        const rows = await getAnalysisCacheEntries(missing, new Date(at));
+        for (const row of rows) {
+          memory.set(row.cacheKey, row.value, row.expiresAt.getTime());
+          found.set(row.cacheKey, row.value as T);
+          counter.dbHits++;
+        }
+      } catch (error) {
+        console.warn("[Cache] Lookup failed, treating as misses:", error);
+      }
+    }
+
+    counter.misses += unique.length - found.size;
+    return found;
+  }
+
+  async function setMany<T>(kind: CacheKind, entries: Array<[string, T]>): Promise<void> {
+    if (entries.length === 0) return;
+    const at = now();
+    const expiresAt = at + CACHE_TTL_MS[kind];
+
+    entries.forEach(([key, value]) => memory.set(key, value, expiresAt));
+    if (!persistent) return;
+
+    try {
+      await saveAnalysisCacheEntries(entries.map(([cacheKey, value]) => ({
+        cacheKey,
+        kind,
+        value,
+        expiresAt: new Date(expiresAt),
+      })));
+
+      if (at - lastPrunedAt >= PRUNE_INTERVAL_MS) {
+        lastPrunedAt = at;
+        await deleteExpiredAnalysisCache(new Date(at));
+      }
+    } catch (error) {
+      console.warn("[Cache] Failed to persist entries:", error);
+    }
+  }
+
+  return {
+    getMany,
+    setMany,
+
+    async wrap<T>(kind: CacheKind, key: string, compute: () => Promise<T>, shouldStore: (value: T) => boolean = () => true) {
+      const hit = (await getMany<T>(kind, [key])).get(key);
+      if (hit !== undefined) return hit;
+
+      const value = await compute();
+      if (shouldStore(value)) await setMany(kind, [[key, value]]);
+      return value;
+    },
+
+    stats() {
+      return Array.from(counters, ([kind, counter]) => {
+        const lookups = counter.memoryHits + counter.dbHits + counter.misses;
+        return {
+          kind,
+          ...counter,
+          hitRate: lookups === 0 ? 0 : (counter.memoryHits + counter.dbHits) / lookups,
+        };
+      });
+    },
+  };
+}
+
+let cache: AnalysisCache | null = null;
+
+export function getAnalysisCache(): AnalysisCache {
+  if (!cache) {
+    cache = createAnalysisCache({ persistent: Boolean(ENV.databaseUrl) });
+  }
+  return cache;
+}
+
+// Swap the cache (tests), or pass null to start from an empty one
+export function setAnalysisCache(next: AnalysisCache | null): void {
+  cache = next;
+}
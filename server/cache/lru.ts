@@ -0,0 +1,47 @@
+/**
+ * Least-recently-used map with per-entry expiry
+ * Map keeps insertion order, so re-inserting on every read moves an entry
+ * to the back and the first key is always the one to evict.
+ */
+
+interface LruEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface LruCache<T> {
+  get(key: string, now: number): T | undefined;
+  set(key: string, value: T, expiresAt: number): void;
+  readonly size: number;
+}
+
+export function createLruCache<T>(maxEntries: number): LruCache<T> {
+  const entries = new Map<string, LruEntry<T>>();
+
+  return {
+    get(key, now) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      entries.delete(key);
+      if (entry.expiresAt <= now) return undefined;
+
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    set(key, value, expiresAt) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt });
+
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+
+    get size() {
+      return entries.size;
+    },
+  };
+}
@@ -0,0 +1,284 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import path from "path";
+
+vi.mock("./db", () => ({
+  getConnectorCursor: vi.fn(),
+  getLatestMarketSnapshot: vi.fn(),
+  getMarketSnapshotAsOf: vi.fn(),
+  getSignalById: vi.fn(),
+  insertSignals: vi.fn(),
+  listMarketTopics: vi.fn(),
+  listSignalsByHash: vi.fn(),
+  listSignalsForMarket: vi.fn(),
+  recordMarketSnapshot: vi.fn(),
+  recordVibeSnapshot: vi.fn(),
+  saveConnectorCursor: vi.fn(),
+  saveSignalMatches: vi.fn(),
+}));
+
+import type { InsertSignal, Signal } from "../drizzle/schema";
+import {
+  getConnectorCursor,
+  getLatestMarketSnapshot,
+  getSignalById,
+  insertSignals,
+  listMarketTopics,
+  listSignalsByHash,
+  listSignalsForMarket,
+  recordMarketSnapshot,
+  recordVibeSnapshot,
+  saveConnectorCursor,
+  saveSignalMatches,
+} from "./db";
+import { contentHash, createReplayFetch, dedupeSignals, parseFeed } from "./connectors";
+import { createHackerNewsConnector } from "./connectors/hackerNews";
+import { createRedditConnector } from "./connectors/reddit";
+import { createRssConnector, feedSlug } from "./connectors/rss";
+import { createXConnector } from "./connectors/x";
+import { appRouter } from "./routers";
+import { runConnector } from "./workers/ingestion";
+
+/**
+ * Test the signal ingestion connectors
+ * Every connector runs against recorded fixtures, so no network is needed
+ */
+
+const fetch = createReplayFetch(path.join(__dirname, "connectors/fixtures"));
+const NOW = Date.parse("2026-01-01T12:00:00Z");
+const context = { fetch, now: NOW };
+
+describe("Signal Connectors", () => {
+  describe("Hacker News", () => {
+    it("should map stories to signals and advance the cursor", async () => {
+      const { signals, cursor } = await createHackerNewsConnector().poll("1767260000", context);
+
+      expect(signals).toHaveLength(3);
+      expect(signals[0]).toMatchObject({
+        id: "hn:42811001",
+        source: "hackernews",
+        engagement: { likes: 1843, comments: 912 },
+      });
+      expect(signals[2].url).toBe("https://news.ycombinator.com/item?id=42810702");
+      expect(cursor).toBe("1767268800");
+    });
+
+    it("should skip stories at or before the cursor", async () => {
+      const { signals } = await createHackerNewsConnector().poll("1767267000", context);
+
+      expect(signals.map(s => s.id)).toEqual(["hn:42811001"]);
+    });
+  });
+
+  describe("Reddit", () => {
+    it("should include trimmed self-text and upvotes", async () => {
+      const { signals, cursor } = await createRedditConnector("wallstreetbets").poll(null, context);
+
+      expect(signals).toHaveLength(2);
+      expect(signals[0].content).toBe("NVDA earnings beat expectations, calls printing — Data center revenue up again. Guidance raised. See you on the moon.");
+      expect(signals[0].engagement).toEqual({ likes: 5231, comments: 1287 });
+      expect(signals[1].content).toBe("Bitcoin ETF flows turned negative for the third day");
+      expect(cursor).toBe("1767268500");
+    });
+  });
+
+  describe("RSS / Atom", () => {
+    it("should parse RSS items with CDATA and entities", async () => {
+      const { signals } = await createRssConnector({ url: "https://techcrunch.com/feed/" }).poll(null, context);
+
+      expect(signals).toHaveLength(2);
+      expect(signals[0]).toMatchObject({
+        source: "news",
+        content: "OpenAI announces GPT-5 with revolutionary reasoning capabilities",
+        author: "Kyle Wiggers",
+        timestamp: Date.parse("2026-01-01T11:55:00Z"),
+      });
+      expect(signals[1].content).toBe("Apple Vision Pro 2 leaks point to a lighter headset & lower price");
+    });
+
+    it("should parse Atom entries with alternate links", async () => {
+      const { signals, cursor } = await createRssConnector({ url: "https://www.theverge.com/rss/index.xml" }).poll(null, context);
+
+      expect(signals[0].content).toBe("Taylor Swift’s Eras Tour film breaks streaming records");
+      expect(signals[0].url).toBe("https://www.theverge.com/2026/1/1/taylor-swift-eras-tour-streaming");
+      expect(signals[0].author).toBe("Emma Roth");
+      expect(cursor).toBe(String(Date.parse("2026-01-01T11:50:00Z")));
+    });
+
+    it("should not treat an RSS feed's channel as an entry", () => {
+      expect(parseFeed("<rss><channel><title>Empty</title></channel></rss>")).toEqual([]);
+    });
+
+    it("should give feeds on the same host their own ids", () => {
+      const news = createRssConnector({ url: "https://example.com/news/rss" });
+      const markets = createRssConnector({ url: "https://example.com/markets/rss?format=xml" });
+
+      expect(news.id).toBe("rss:example-com-news-rss");
+      expect(markets.id).toBe("rss:example-com-markets-rss-format-xml");
+      expect(feedSlug(`https://example.com/${"a".repeat(80)}`)).toMatch(/^example-com-a+-[0-9a-f]{8}$/);
+      expect(feedSlug(`https://example.com/${"a".repeat(80)}`)).toHaveLength(60);
+    });
+
+    it("should leave out-of-range numeric entities undecoded", () => {
+      const [item] = parseFeed("<rss><channel><item><title>Bad &#99999999; &#x110000; ok &#8217;</title></item></channel></rss>");
+
+      expect(item.title).toBe("Bad &#99999999; &#x110000; ok \u2019");
+    });
+  });
+
+  describe("X", () => {
+    it("should fold quotes into retweets and return the newest id", async () => {
+      const connector = createXConnector({ bearerToken: "test", query: "openai" });
+      const { signals, cursor } = await connector.poll(null, context);
+
+      expect(signals[0]).toMatchObject({
+        id: "x:1874511286315991312",
+        source: "twitter",
+        engagement: { likes: 18420, retweets: 5100, comments: 1320 },
+      });
+      expect(cursor).toBe("1874511286315991312");
+    });
+  });
+
+  describe("dedup", () => {
+    it("should hash the same story from different sources identically", () => {
+      expect(contentHash("OpenAI announces GPT-5 with revolutionary reasoning capabilities"))
+        .toBe(contentHash("  openai announces GPT-5, with revolutionary reasoning capabilities! https://t.co/x"));
+    });
+
+    it("should drop repeats within a batch", async () => {
+      const hn = await createHackerNewsConnector().poll("0", context);
+      const tc = await createRssConnector({ url: "https://techcrunch.com/feed/" }).poll(null, context);
+
+      const unique = dedupeSignals([...hn.signals, ...tc.signals]);
+
+      expect(unique).toHaveLength(hn.signals.length + tc.signals.length - 1);
+      expect(unique[0].contentHash).toHaveLength(64);
+    });
+  });
+
+  describe("runConnector", () => {
+    let stored: Signal[] = [];
+
+    beforeEach(() => {
+      stored = [];
+      vi.mocked(saveConnectorCursor).mockReset();
+      vi.mocked(saveSignalMatches).mockReset();
+      vi.mocked(recordVibeSnapshot).mockReset();
+      vi.mocked(recordMarketSnapshot).mockReset();
+      vi.mocked(listSignalsForMarket).mockReset().mockResolvedValue([]);
+      vi.mocked(insertSignals).mockReset().mockImplementation(async (rows: InsertSignal[]) => {
+        rows.forEach(row => stored.push({
+          ...row,
+          id: stored.length + 1,
+          title: row.title ?? null,
+          url: row.url ?? null,
+          author: row.author ?? null,
+          likes: row.likes ?? 0,
+          retweets: row.retweets ?? 0,
+          comments: row.comments ?? 0,
+          ingestedAt: new Date(NOW),
+        }));
+        return rows.length;
+      });
+      vi.mocked(listSignalsByHash).mockImplementation(async hashes =>
+        stored.filter(row => hashes.includes(row.contentHash))
+      );
+      vi.mocked(listMarketTopics).mockResolvedValue([
+        { id: 2, topic: "OpenAI IPO Hype", aliases: ["OpenAI"], keywords: ["IPO"] },
+        { id: 7, topic: "Taylor Swift Tour Impact", aliases: ["Taylor Swift"], keywords: [] },
+      ]);
+    });
+
+    it("should resume from the stored cursor and persist the new one", async () => {
+      vi.mocked(getConnectorCursor).mockResolvedValue({
+        connectorId: "hackernews",
+        cursor: "1767267000",
+        lastRunAt: null,
+        lastSuccessAt: null,
+        lastSignalCount: 0,
+        lastError: null,
+        updatedAt: new Date(),
+      });
+
+      const result = await runConnector(createHackerNewsConnector(), fetch, NOW);
+
+      expect(result).toEqual({ fetched: 1, stored: 1 });
+      expect(vi.mocked(insertSignals).mock.calls[0][0][0]).toMatchObject({
+        externalId: "hn:42811001",
+        connectorId: "hackernews",
+        likes: 1843,
+      });
+      expect(saveConnectorCursor).toHaveBeenCalledWith(expect.objectContaining({
+        connectorId: "hackernews",
+        cursor: "1767268800",
+        lastSignalCount: 1,
+        lastError: null,
+      }));
+    });
+
+    it("should route newly stored signals to the markets they mention", async () => {
+      vi.mocked(getConnectorCursor).mockResolvedValue(undefined);
+      vi.mocked(getLatestMarketSnapshot).mockResolvedValue({
+        id: 1, marketId: 2, momentum: 50, change24h: 4, volumeUsd: 900, participants: 12, hypeScore: 10, capturedAt: new Date(NOW - 60_000),
+      });
+      vi.mocked(listSignalsForMarket).mockImplementation(async () =>
+        stored.filter(row => row.content.startsWith("OpenAI")).map(signal => ({ signal, confidence: 0.94 }))
+      );
+
+      await runConnector(createHackerNewsConnector(), fetch, NOW);
+
+      const matches = vi.mocked(saveSignalMatches).mock.calls[0][0];
+      const gpt5 = stored.find(row => row.content.startsWith("OpenAI announces GPT-5"))!;
+      // Text alias plus the offline provider's extracted actor and event
+      expect(matches).toEqual([
+        expect.objectContaining({ signalId: gpt5.id, marketId: 2, confidence: 0.94, matchedTerms: ["OpenAI"] }),
+      ]);
+      // A fresh index snapshot for the matched market, trading figures carried over
+      expect(recordMarketSnapshot).toHaveBeenCalledTimes(1);
+      const snapshot = vi.mocked(recordMarketSnapshot).mock.calls[0][0];
+      expect(snapshot).toMatchObject({ marketId: 2, change24h: 4, volumeUsd: 900, participants: 12, capturedAt: new Date(NOW) });
+      expect(snapshot.momentum).toBeGreaterThan(50);
+      // One vibe reading per market that gained matches
+      expect(recordVibeSnapshot).toHaveBeenCalledTimes(1);
+      expect(recordVibeSnapshot).toHaveBeenCalledWith(expect.objectContaining({ marketId: 2, sampleSize: 1 }));
+    });
+
+    it("should re-route a stored signal from its stored text, not the caller's", async () => {
+      await runConnector(createHackerNewsConnector(), fetch, NOW);
+      const gpt5 = stored.find(row => row.content.startsWith("OpenAI announces GPT-5"))!;
+      vi.mocked(getSignalById).mockResolvedValue(gpt5);
+      vi.mocked(saveSignalMatches).mockClear();
+
+      const caller = appRouter.createCaller({
+        user: null,
+        req: { protocol: "https", headers: {} },
+        res: { clearCookie: () => {} },
+      } as never);
+      const analysis = await caller.ai.analyzeSignal({
+        id: String(gpt5.id),
+        source: "news",
+        content: "Taylor Swift Taylor Swift Taylor Swift",
+        timestamp: NOW,
+      });
+
+      expect(analysis.main_actors).not.toContain("Taylor Swift");
+      expect(vi.mocked(saveSignalMatches).mock.calls[0][0]).toEqual([
+        expect.objectContaining({ signalId: gpt5.id, marketId: 2 }),
+      ]);
+    });
+
+    it("should record the error and keep the cursor when a poll fails", async () => {
+      vi.mocked(getConnectorCursor).mockResolvedValue(undefined);
+
+      const result = await runConnector(createRedditConnector("no_such_fixture"), fetch, NOW);
+
+      expect(result).toEqual({ fetched: 0, stored: 0 });
+      expect(insertSignals).not.toHaveBeenCalled();
+      expect(saveConnectorCursor).toHaveBeenCalledWith(expect.objectContaining({
+        connectorId: "reddit:no_such_fixture",
+        cursor: null,
+        lastError: "reddit:no_such_fixture responded with HTTP 404",
+      }));
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Content hashing for signal dedup
+ * The same story reaches us from several connectors and repeat polls, so
+ * signals are keyed by a hash of their normalised text rather than by
+ * upstream id: case, whitespace, URLs and punctuation are ignored.
+ */
+
+import { createHash } from "crypto";
+import type { IngestedSignal } from "./types";
+
+// Anything that is not a letter, digit or whitespace, in any script
+const PUNCTUATION = new RegExp("[^\\p{L}\\p{N}\\s]", "gu");
+
+export function normalizeContent(content: string): string {
+  return content
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(PUNCTUATION, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function contentHash(content: string): string {
+  return createHash("sha256").update(normalizeContent(content)).digest("hex");
+}
+
+/**
+ * Drop repeats within one batch, keeping the first occurrence
+ */
+export function dedupeSignals<T extends IngestedSignal>(signals: T[]): Array<T & { contentHash: string }> {
+  const seen = new Set<string>();
+  const unique: Array<T & { contentHash: string }> = [];
+  for (const signal of signals) {
+    const hash = contentHash(signal.content);
+    if (seen.has(hash)) continue;
+    seen.add(hash);
+    unique.push({ ...signal, contentHash: hash });
+  }
+  return unique;
+}
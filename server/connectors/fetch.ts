@@ -0,0 +1,60 @@
+/**
+ * Connector transports
+ * - live:   plain HTTP
+ * - replay: serve recorded fixture files, no network (tests, offline dev)
+ * - record: HTTP, saving each response body as its fixture
+ */
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { ConnectorFetch } from "./types";
+
+export type FixtureMode = "live" | "replay" | "record";
+
+export const DEFAULT_FIXTURE_DIR = path.resolve(process.cwd(), "server/connectors/fixtures");
+
+// Upstream APIs (Reddit in particular) reject requests without a user agent
+const USER_AGENT = "attention-index/1.0 (signal ingestion)";
+
+export const liveFetch: ConnectorFetch = async (url, request) => {
+  const response = await fetch(url, {
+    headers: { "User-Agent": USER_AGENT, ...request.headers },
+    signal: AbortSignal.timeout(15_000),
+  });
+  return response;
+};
+
+export function createReplayFetch(dir: string = DEFAULT_FIXTURE_DIR): ConnectorFetch {
+  return async (_url, request) => {
+    try {
+      const body = await readFile(path.join(dir, request.fixture), "utf8");
+      return { ok: true, status: 200, text: async () => body };
+    } catch {
+      return { ok: false, status: 404, text: async () => "" };
+    }
+  };
+}
+
+export function createRecordingFetch(dir: string = DEFAULT_FIXTURE_DIR, inner: ConnectorFetch = liveFetch): ConnectorFetch {
+  return async (url, request) => {
+    const response = await inner(url, request);
+    const body = await response.text();
+    if (response.ok) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(path.join(dir, request.fixture), body);
+      console.log(`[Ingestion] Recorded ${url} -> ${request.fixture}`);
+    }
+    return { ok: response.ok, status: response.status, text: async () => body };
+  };
+}
+
+export function createConnectorFetch(mode: FixtureMode, dir?: string): ConnectorFetch {
+  switch (mode) {
+    case "replay":
+      return createReplayFetch(dir);
+    case "record":
+      return createRecordingFetch(dir);
+    default:
+      return liveFetch;
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Hacker News connector
+ * Polls the HN Algolia search API for stories newer than the cursor
+ * (a created_at_i unix timestamp). Points map to likes.
+ */
+
+import { fetchText, type ConnectorContext, type IngestedSignal, type SignalConnector } from "./types";
+
+const HN_SEARCH_URL = "https://hn.algolia.com/api/v1/search_by_date";
+
+interface HnHit {
+  objectID: string;
+  title?: string | null;
+  url?: string | null;
+  author?: string;
+  points?: number | null;
+  num_comments?: number | null;
+  created_at_i: number;
+}
+
+export function createHackerNewsConnector(options: { pollIntervalMs?: number; hitsPerPage?: number } = {}): SignalConnector {
+  const id = "hackernews";
+
+  return {
+    id,
+    source: "hackernews",
+    label: "Hacker News",
+    pollIntervalMs: options.pollIntervalMs ?? 2 * 60 * 1000,
+
+    async poll(cursor: string | null, context: ConnectorContext) {
+      const since = cursor ? Number(cursor) : Math.floor(context.now / 1000) - 60 * 60;
+      const params = new URLSearchParams({
+        tags: "story",
+        hitsPerPage: String(options.hitsPerPage ?? 50),
+        numericFilters: `created_at_i>${since}`,
+      });
+
+      const body = await fetchText(id, context, `${HN_SEARCH_URL}?${params}`, { fixture: "hackernews.json" });
+      const hits: HnHit[] = JSON.parse(body).hits ?? [];
+
+      let newest = since;
+      const signals: IngestedSignal[] = [];
+      for (const hit of hits) {
+        if (!hit.title || hit.created_at_i <= since) continue;
+        newest = Math.max(newest, hit.created_at_i);
+        signals.push({
+          id: `hn:${hit.objectID}`,
+          source: "hackernews",
+          content: hit.title,
+          title: hit.title,
+          timestamp: hit.created_at_i * 1000,
+          url: hit.url ?? `https://news.ycombinator.com/item?id=${hit.objectID}`,
+          author: hit.author,
+          engagement: {
+            likes: hit.points ?? 0,
+            comments: hit.num_comments ?? 0,
+          },
+        });
+      }
+
+      return { signals, cursor: String(newest) };
+    },
+  };
+}
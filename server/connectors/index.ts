@@ -0,0 +1,52 @@
+/**
+ * Connector registry
+ * Builds the enabled connectors from ENV. X needs a bearer token except
+ * in replay mode, where every connector reads recorded fixtures.
+ */
+
+import { ENV } from "../_core/env";
+import { createConnectorFetch, type FixtureMode } from "./fetch";
+import { createHackerNewsConnector } from "./hackerNews";
+import { createRedditConnector } from "./reddit";
+import { createRssConnector } from "./rss";
+import type { ConnectorFetch, SignalConnector } from "./types";
+import { createXConnector } from "./x";
+
+export * from "./types";
+export { contentHash, dedupeSignals, normalizeContent } from "./dedup";
+export { createConnectorFetch, createReplayFetch, type FixtureMode } from "./fetch";
+export { parseFeed } from "./rss";
+
+const splitList = (value: string) => value.split(",").map(item => item.trim()).filter(Boolean);
+
+export function getFixtureMode(): FixtureMode {
+  const mode = ENV.connectorFixtureMode;
+  return mode === "replay" || mode === "record" ? mode : "live";
+}
+
+export function createConnectors(): SignalConnector[] {
+  const connectors: SignalConnector[] = [createHackerNewsConnector()];
+
+  for (const subreddit of splitList(ENV.redditSubreddits)) {
+    connectors.push(createRedditConnector(subreddit));
+  }
+
+  for (const url of splitList(ENV.rssFeeds)) {
+    try {
+      connectors.push(createRssConnector({ url }));
+    } catch {
+      console.warn(`[Ingestion] Skipping invalid RSS feed URL: ${url}`);
+    }
+  }
+
+  const bearerToken = ENV.xBearerToken || (getFixtureMode() === "replay" ? "fixture" : "");
+  if (bearerToken) {
+    connectors.push(createXConnector({ bearerToken, query: ENV.xSearchQuery }));
+  }
+
+  return connectors;
+}
+
+export function createDefaultConnectorFetch(): ConnectorFetch {
+  return createConnectorFetch(getFixtureMode(), ENV.connectorFixtureDir || undefined);
+}
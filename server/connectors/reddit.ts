@@ -0,0 +1,69 @@
+/**
+ * Reddit connector
+ * Polls a subreddit's public /new.json listing. The cursor is the newest
+ * created_utc seen, since Reddit's own `before` paging drops posts that
+ * get removed. Upvotes map to likes.
+ */
+
+import { fetchText, type ConnectorContext, type IngestedSignal, type SignalConnector } from "./types";
+
+// Self-text beyond this is cut from the signal content
+const MAX_SELFTEXT_CHARS = 280;
+
+interface RedditPost {
+  name: string;
+  title: string;
+  selftext?: string;
+  author?: string;
+  ups?: number;
+  num_comments?: number;
+  created_utc: number;
+  permalink: string;
+}
+
+export function createRedditConnector(subreddit: string, options: { pollIntervalMs?: number } = {}): SignalConnector {
+  const id = `reddit:${subreddit.toLowerCase()}`;
+
+  return {
+    id,
+    source: "reddit",
+    label: `r/${subreddit}`,
+    pollIntervalMs: options.pollIntervalMs ?? 3 * 60 * 1000,
+
+    async poll(cursor: string | null, context: ConnectorContext) {
+      const since = cursor ? Number(cursor) : 0;
+      const url = `https://www.reddit.com/r/${encodeURIComponent(subreddit)}/new.json?limit=50&raw_json=1`;
+
+      const body = await fetchText(id, context, url, { fixture: `reddit-${subreddit.toLowerCase()}.json` });
+      const posts: RedditPost[] = (JSON.parse(body).data?.children ?? []).map((child: { data: RedditPost }) => child.data);
+
+      let newest = since;
+      const signals: IngestedSignal[] = [];
+      for (const post of posts) {
+        if (post.created_utc <= since) continue;
+        newest = Math.max(newest, post.created_utc);
+
+        const selftext = post.selftext?.trim();
+        const content = selftext
+          ? `${post.title} — ${selftext.slice(0, MAX_SELFTEXT_CHARS)}`
+          : post.title;
+
+        signals.push({
+          id: `reddit:${post.name}`,
+          source: "reddit",
+          content,
+          title: post.title,
+          timestamp: Math.round(post.created_utc * 1000),
+          url: `https://www.reddit.com${post.permalink}`,
+          author: post.author,
+          engagement: {
+            likes: post.ups ?? 0,
+            comments: post.num_comments ?? 0,
+          },
+        });
+      }
+
+      return { signals, cursor: String(newest) };
+    },
+  };
+}
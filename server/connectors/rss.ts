@@ -0,0 +1,153 @@
+/**
+ * RSS / Atom connector
+ * Polls any RSS 2.0 or Atom news feed. Feeds carry no engagement counts,
+ * so signals from here are weighted by source alone. The cursor is the
+ * newest publish time seen (ms); undated items are left to content-hash
+ * dedup.
+ */
+
+import { createHash } from "crypto";
+import { fetchText, type ConnectorContext, type IngestedSignal, type SignalConnector } from "./types";
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  link?: string;
+  author?: string;
+  summary?: string;
+  publishedAt?: number;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeText(raw: string): string {
+  return raw
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&(#x?[0-9a-f]+|\w+);/gi, (match, entity: string) => {
+      if (entity[0] === "#") {
+        const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        // Out-of-range code points would make fromCodePoint throw; keep them as written
+        return Number.isInteger(code) && code >= 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+      }
+      return ENTITIES[entity.toLowerCase()] ?? match;
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function tagText(block: string, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const match = block.match(new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)</${name}>`, "i"));
+    if (match) {
+      const text = decodeText(match[1]);
+      if (text) return text;
+    }
+  }
+  return undefined;
+}
+
+function atomLink(block: string): string | undefined {
+  const links = Array.from(block.matchAll(/<link\b([^>]*)\/?>/gi)).map(m => m[1]);
+  const preferred = links.find(attrs => !/rel=/.test(attrs) || /rel=["']alternate["']/.test(attrs)) ?? links[0];
+  return preferred?.match(/href=["']([^"']+)["']/)?.[1];
+}
+
+function parseDate(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Parse the items of an RSS 2.0 or Atom document
+ */
+export function parseFeed(xml: string): FeedItem[] {
+  const isAtom = /<feed\b/i.test(xml) && !/<rss\b/i.test(xml);
+  const blocks = Array.from(xml.matchAll(isAtom ? /<entry\b[\s\S]*?<\/entry>/gi : /<item\b[\s\S]*?<\/item>/gi)).map(m => m[0]);
+
+  const items: FeedItem[] = [];
+  for (const block of blocks) {
+    const title = tagText(block, "title");
+    if (!title) continue;
+
+    const link = isAtom ? atomLink(block) : tagText(block, "link");
+    items.push({
+      id: tagText(block, isAtom ? "id" : "guid") ?? link ?? title,
+      title,
+      link,
+      author: isAtom ? tagText(block, "name") : tagText(block, "dc:creator", "author"),
+      summary: tagText(block, isAtom ? "summary" : "description"),
+      publishedAt: parseDate(tagText(block, "pubDate", "published", "updated", "dc:date")),
+    });
+  }
+  return items;
+}
+
+// Connector ids are "rss:<slug>" in a 64-character column
+const MAX_SLUG_LENGTH = 60;
+
+/**
+ * A stable slug for a feed URL, e.g. "theverge-com-rss-index-xml"
+ * Host, path and query all count, so two feeds on one host stay apart;
+ * long URLs are clipped and suffixed with a hash of the full URL.
+ */
+export function feedSlug(url: string): string {
+  const parsed = new URL(url);
+  const host = parsed.hostname.replace(/^www\./, "");
+  const slug = `${host}${parsed.pathname}${parsed.search}`
+    .replace(/[^a-z0-9]+/gi, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase();
+  if (slug.length <= MAX_SLUG_LENGTH) return slug;
+
+  const hash = createHash("sha256").update(url).digest("hex").slice(0, 8);
+  return `${slug.slice(0, MAX_SLUG_LENGTH - hash.length - 1)}-${hash}`;
+}
+
+export function createRssConnector(
+  feed: { url: string; label?: string },
+  options: { pollIntervalMs?: number } = {}
+): SignalConnector {
+  const host = new URL(feed.url).hostname.replace(/^www\./, "");
+  const slug = feedSlug(feed.url);
+  const id = `rss:${slug}`;
+
+  return {
+    id,
+    source: "news",
+    label: feed.label ?? host,
+    pollIntervalMs: options.pollIntervalMs ?? 5 * 60 * 1000,
+
+    async poll(cursor: string | null, context: ConnectorContext) {
+      const since = cursor ? Number(cursor) : 0;
+      const body = await fetchText(id, context, feed.url, { fixture: `rss-${slug}.xml` });
+
+      let newest = since;
+      const signals: IngestedSignal[] = [];
+      for (const item of parseFeed(body)) {
+        if (item.publishedAt !== undefined && item.publishedAt <= since) continue;
+        if (item.publishedAt !== undefined) newest = Math.max(newest, item.publishedAt);
+
+        signals.push({
+          id: `${id}:${item.id}`.slice(0, 255),
+          source: "news",
+          content: item.title,
+          title: item.title,
+          timestamp: item.publishedAt ?? context.now,
+          url: item.link,
+          author: item.author,
+        });
+      }
+
+      return { signals, cursor: String(newest) };
+    },
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Signal Connector contracts
+ * A connector polls one upstream source and turns new items into
+ * RawSignals. It receives the cursor it returned last time and must only
+ * use the injected fetch, so fixture mode can replay recorded responses.
+ */
+
+import type { RawSignal } from "../services/gemini";
+
+export type SignalSource = RawSignal["source"];
+
+/** A RawSignal plus the provenance the feed and matcher display. */
+export interface IngestedSignal extends RawSignal {
+  url?: string;
+  author?: string;
+  title?: string;
+}
+
+export interface ConnectorResponse {
+  ok: boolean;
+  status: number;
+  text(): Promise<string>;
+}
+
+export interface ConnectorRequest {
+  headers?: Record<string, string>;
+  /** Fixture file that stands in for this request in replay/record mode. */
+  fixture: string;
+}
+
+export type ConnectorFetch = (url: string, request: ConnectorRequest) => Promise<ConnectorResponse>;
+
+export interface ConnectorContext {
+  fetch: ConnectorFetch;
+  now: number;
+}
+
+export interface ConnectorResult {
+  signals: IngestedSignal[];
+  /** Opaque position to resume from next run; null keeps the old cursor. */
+  cursor: string | null;
+}
+
+export interface SignalConnector {
+  /** Stable id used for cursor persistence, e.g. "reddit:wallstreetbets". */
+  id: string;
+  source: SignalSource;
+  label: string;
+  pollIntervalMs: number;
+  poll(cursor: string | null, context: ConnectorContext): Promise<ConnectorResult>;
+}
+
+export class ConnectorHttpError extends Error {
+  constructor(
+    public connectorId: string,
+    public status: number
+  ) {
+    super(`${connectorId} responded with HTTP ${status}`);
+    this.name = "ConnectorHttpError";
+  }
+}
+
+/**
+ * Fetch a URL through the connector context and fail on non-2xx responses
+ */
+export async function fetchText(
+  connectorId: string,
+  context: ConnectorContext,
+  url: string,
+  request: ConnectorRequest
+): Promise<string> {
+  const response = await context.fetch(url, request);
+  if (!response.ok) {
+    throw new ConnectorHttpError(connectorId, response.status);
+  }
+  return response.text();
+}
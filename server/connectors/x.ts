@@ -0,0 +1,68 @@
+/**
+ * X (Twitter) connector
+ * Polls the v2 recent-search endpoint with an app bearer token. The cursor
+ * is the newest tweet id, passed back as since_id. Quotes count with
+ * retweets and replies as comments.
+ */
+
+import { fetchText, type ConnectorContext, type IngestedSignal, type SignalConnector } from "./types";
+
+const X_SEARCH_URL = "https://api.twitter.com/2/tweets/search/recent";
+
+interface Tweet {
+  id: string;
+  text: string;
+  author_id?: string;
+  created_at?: string;
+  public_metrics?: {
+    like_count?: number;
+    retweet_count?: number;
+    reply_count?: number;
+    quote_count?: number;
+  };
+}
+
+export function createXConnector(
+  options: { bearerToken: string; query: string; pollIntervalMs?: number }
+): SignalConnector {
+  const id = "x:search";
+
+  return {
+    id,
+    source: "twitter",
+    label: "X / Twitter",
+    // Recent search allows 60 requests per 15 minutes on the basic tier
+    pollIntervalMs: options.pollIntervalMs ?? 60 * 1000,
+
+    async poll(cursor: string | null, context: ConnectorContext) {
+      const params = new URLSearchParams({
+        query: options.query,
+        max_results: "50",
+        "tweet.fields": "created_at,public_metrics,author_id",
+      });
+      if (cursor) params.set("since_id", cursor);
+
+      const body = await fetchText(id, context, `${X_SEARCH_URL}?${params}`, {
+        headers: { Authorization: `Bearer ${options.bearerToken}` },
+        fixture: "x-search.json",
+      });
+      const parsed: { data?: Tweet[]; meta?: { newest_id?: string } } = JSON.parse(body);
+
+      const signals: IngestedSignal[] = (parsed.data ?? []).map(tweet => ({
+        id: `x:${tweet.id}`,
+        source: "twitter",
+        content: tweet.text,
+        timestamp: tweet.created_at ? Date.parse(tweet.created_at) : context.now,
+        url: `https://x.com/i/web/status/${tweet.id}`,
+        author: tweet.author_id,
+        engagement: {
+          likes: tweet.public_metrics?.like_count ?? 0,
+          retweets: (tweet.public_metrics?.retweet_count ?? 0) + (tweet.public_metrics?.quote_count ?? 0),
+          comments: tweet.public_metrics?.reply_count ?? 0,
+        },
+      }));
+
+      return { signals, cursor: parsed.meta?.newest_id ?? null };
+    },
+  };
+}
@@ -1,7 +1,89 @@
-import { eq } from "drizzle-orm";
+import { and, asc, desc, eq, gt, gte, inArray, isNotNull, isNull, like, lt, lte, notInArray, sql } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
-import { InsertUser, users } from "../drizzle/schema";
+import {
+  AlertEvent,
+  alertEvents,
+  AlertRuleRow,
+  alertRules,
+  AnalysisCacheEntry,
+  analysisCache,
+  ammPools,
+  Balance,
+  balances,
+  ConnectorCursor,
+  connectorCursors,
+  InsertAlertEvent,
+  InsertAlertRule,
+  InsertAnalysisCacheEntry,
+  InsertConnectorCursor,
+  InsertSignal,
+  InsertSignalMarketMatch,
+  InsertMarketSnapshot,
+  InsertSettlement,
+  InsertTrade,
+  InsertUser,
+  Market,
+  MarketCategory,
+  MarketSnapshot,
+  marketCategories,
+  rateLimitBuckets,
+  markets,
+  ledgerEntries,
+  LedgerEntry,
+  marketSnapshots,
+  Settlement,
+  settlements,
+  Signal,
+  signalMarketMatches,
+  signals,
+  Trade,
+  trades,
+  users,
+  InsertVibeSnapshot,
+  VibeSnapshot,
+  vibeSnapshots,
+  InsertNotification,
+  InsertNotificationChannel,
+  InsertNotificationDelivery,
+  Notification,
+  NotificationChannel,
+  NotificationDelivery,
+  notificationChannels,
+  notificationDeliveries,
+  notifications,
+  InsertWatchlist,
+  Watchlist,
+  watchlists,
+  Briefing,
+  briefings,
+  InsertBriefing,
+  BriefingSchedule,
+  briefingSchedules,
+  InsertBriefingSchedule,
+  PodcastFeed,
+  podcastFeeds,
+  InsertVoiceProfile,
+  VoicePreference,
+  voicePreferences,
+  VoiceProfile,
+  voiceProfiles,
+} from "../drizzle/schema";
+import type { VoicePreferences } from "@shared/voiceSettings";
 import { ENV } from './_core/env';
+import { AmmQuote, PoolState, applyTrade, emptyPool, releaseShares } from "./services/amm";
+import { publishTick, toMarketTick } from "./services/marketFeed";
+import { planTake } from "./rateLimit/buckets";
+import type { BucketDemand, BucketState, TakeResult } from "./rateLimit/types";
+import type { SettlementTotals } from "./services/portfolio";
+import { estimateReturnCents } from "./services/trading";
+import {
+  EmptyTransactionError,
+  InsufficientFundsError,
+  LedgerTransaction,
+  balanceDelta,
+  buildMarginLock,
+  buildSettlementPostings,
+} from "./services/wallet";
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
@@ -18,6 +100,18 @@ export async function getDb() {
   return _db;
 }
 
+// For writes that must not be silently dropped (trades, balances).
+async function requireDb() {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+  return db;
+}
+
+type Database = Awaited<ReturnType<typeof requireDb>>;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
 export async function upsertUser(user: InsertUser): Promise<void> {
   if (!user.openId) {
     throw new Error("User openId is required for upsert");
@@ -89,4 +183,1400 @@ export async function getUserByOpenId(openId: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
-// TODO: add feature queries here as your schema grows.
+// Markets
+
+// Snapshot window loaded alongside market listings for sparklines
+const SNAPSHOT_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+export type MarketWithHistory = {
+  market: Market;
+  category: MarketCategory;
+  snapshots: MarketSnapshot[];
+};
+
+export async function listMarketCategories(): Promise<MarketCategory[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list market categories: database not available");
+    return [];
+  }
+
+  return db.select().from(marketCategories).orderBy(asc(marketCategories.sortOrder));
+}
+
+export async function listMarkets(filter: {
+  categorySlug?: string;
+  search?: string;
+  marketId?: number;
+} = {}): Promise<MarketWithHistory[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list markets: database not available");
+    return [];
+  }
+
+  const conditions = [eq(markets.status, "active")];
+  if (filter.categorySlug) {
+    conditions.push(eq(marketCategories.slug, filter.categorySlug));
+  }
+  if (filter.search) {
+    conditions.push(like(markets.topic, `%${filter.search}%`));
+  }
+  if (filter.marketId !== undefined) {
+    conditions.push(eq(markets.id, filter.marketId));
+  }
+
+  const rows = await db
+    .select({ market: markets, category: marketCategories })
+    .from(markets)
+    .innerJoin(marketCategories, eq(markets.categoryId, marketCategories.id))
+    .where(and(...conditions))
+    .orderBy(asc(marketCategories.sortOrder), asc(markets.id));
+
+  if (rows.length === 0) return [];
+
+  const snapshots = await db
+    .select()
+    .from(marketSnapshots)
+    .where(
+      and(
+        inArray(
+          marketSnapshots.marketId,
+          rows.map(row => row.market.id)
+        ),
+        gte(marketSnapshots.capturedAt, new Date(Date.now() - SNAPSHOT_LOOKBACK_MS))
+      )
+    )
+    .orderBy(asc(marketSnapshots.capturedAt));
+
+  const byMarket = new Map<number, MarketSnapshot[]>();
+  for (const snapshot of snapshots) {
+    const list = byMarket.get(snapshot.marketId) ?? [];
+    list.push(snapshot);
+    byMarket.set(snapshot.marketId, list);
+  }
+
+  return rows.map(row => ({
+    ...row,
+    snapshots: byMarket.get(row.market.id) ?? [],
+  }));
+}
+
+export async function recordMarketSnapshot(snapshot: InsertMarketSnapshot): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot record snapshot: database not available");
+    return;
+  }
+
+  const capturedAt = snapshot.capturedAt ?? new Date();
+  const [inserted] = await db.insert(marketSnapshots).values({ ...snapshot, capturedAt }).$returningId();
+
+  publishTick(toMarketTick({
+    ...snapshot,
+    id: inserted.id,
+    participants: snapshot.participants ?? 0,
+    capturedAt,
+  }));
+}
+
+/**
+ * Snapshots recorded after a given id, oldest first (SSE reconnect replay)
+ */
+export async function listMarketSnapshotsAfter(afterId: number, limit = 500): Promise<MarketSnapshot[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list snapshots: database not available");
+    return [];
+  }
+
+  return db
+    .select()
+    .from(marketSnapshots)
+    .where(gt(marketSnapshots.id, afterId))
+    .orderBy(asc(marketSnapshots.id))
+    .limit(limit);
+}
+
+export async function getLatestMarketSnapshot(marketId: number): Promise<MarketSnapshot | undefined> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get snapshot: database not available");
+    return undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(marketSnapshots)
+    .where(eq(marketSnapshots.marketId, marketId))
+    .orderBy(desc(marketSnapshots.capturedAt), desc(marketSnapshots.id))
+    .limit(1);
+
+  return result[0];
+}
+
+/**
+ * The latest snapshot captured at or before a given time
+ */
+export async function getMarketSnapshotAsOf(marketId: number, at: Date): Promise<MarketSnapshot | undefined> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get snapshot: database not available");
+    return undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(marketSnapshots)
+    .where(and(eq(marketSnapshots.marketId, marketId), lte(marketSnapshots.capturedAt, at)))
+    .orderBy(desc(marketSnapshots.capturedAt), desc(marketSnapshots.id))
+    .limit(1);
+
+  return result[0];
+}
+
+/**
+ * Snapshots for one market captured since a given time, oldest first
+ */
+export async function listMarketSnapshotsSince(marketId: number, since: Date): Promise<MarketSnapshot[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list snapshots: database not available");
+    return [];
+  }
+
+  return db
+    .select()
+    .from(marketSnapshots)
+    .where(and(eq(marketSnapshots.marketId, marketId), gte(marketSnapshots.capturedAt, since)))
+    .orderBy(asc(marketSnapshots.capturedAt), asc(marketSnapshots.id));
+}
+
+// Vibe history
+
+export async function recordVibeSnapshot(snapshot: InsertVibeSnapshot): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot record vibe snapshot: database not available");
+    return;
+  }
+
+  const capturedAt = snapshot.capturedAt ?? new Date();
+  await db.insert(vibeSnapshots).values({ ...snapshot, capturedAt });
+
+  publishTick({
+    type: "vibe",
+    marketId: String(snapshot.marketId),
+    joy: snapshot.joy,
+    anxiety: snapshot.anxiety,
+    capturedAt: capturedAt.getTime(),
+  });
+}
+
+export async function listVibeSnapshots(marketId: number, since: Date): Promise<VibeSnapshot[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list vibe snapshots: database not available");
+    return [];
+  }
+
+  return db
+    .select()
+    .from(vibeSnapshots)
+    .where(and(eq(vibeSnapshots.marketId, marketId), gte(vibeSnapshots.capturedAt, since)))
+    .orderBy(asc(vibeSnapshots.capturedAt), asc(vibeSnapshots.id));
+}
+
+// Trades
+
+export async function getTradeByIdempotencyKey(userId: number, idempotencyKey: string): Promise<Trade | undefined> {
+  const db = await requireDb();
+  const result = await db
+    .select()
+    .from(trades)
+    .where(and(eq(trades.userId, userId), eq(trades.idempotencyKey, idempotencyKey)))
+    .limit(1);
+
+  return result[0];
+}
+
+// MySQL error code, whether thrown by the driver or wrapped by drizzle
+function mysqlErrorCode(error: unknown): string | undefined {
+  if (typeof error !== "object" || error === null) return undefined;
+  const { code, cause } = error as { code?: unknown; cause?: unknown };
+  return typeof code === "string" ? code : mysqlErrorCode(cause);
+}
+
+export type NewTrade = Omit<InsertTrade, "shares" | "entryPrice" | "estimatedReturnCents">;
+
+/**
+ * Price a trade against its AMM pool and open it with the margin locked
+ * The pool row is locked for the transaction so concurrent trades on the
+ * same market and duration are priced one after another. `priceTrade` may
+ * throw to reject the quote (e.g. slippage), which rolls everything back.
+ * A repeated idempotency key returns the user's existing trade instead.
+ */
+export async function createTrade(
+  trade: NewTrade,
+  priceTrade: (pool: PoolState) => AmmQuote
+): Promise<{ trade: Trade; created: boolean; quote: AmmQuote | null }> {
+  const existing = await getTradeByIdempotencyKey(trade.userId, trade.idempotencyKey);
+  if (existing) {
+    return { trade: existing, created: false, quote: null };
+  }
+
+  const db = await requireDb();
+  let quote: AmmQuote | null = null;
+  try {
+    await db.transaction(async tx => {
+      const pool = await lockAmmPool(tx, trade.marketId, trade.duration);
+      const priced = priceTrade(pool);
+      quote = priced;
+
+      const [inserted] = await tx.insert(trades).values({
+        ...trade,
+        shares: priced.shares,
+        entryPrice: priced.avgPrice,
+        estimatedReturnCents: estimateReturnCents(trade.stakeCents, priced.shares),
+      }).$returningId();
+
+      const next = applyTrade(pool, trade.direction, priced.shares);
+      await tx
+        .update(ammPools)
+        .set({ longShares: next.longShares, shortShares: next.shortShares })
+        .where(and(eq(ammPools.marketId, trade.marketId), eq(ammPools.duration, trade.duration)));
+
+      await postLedgerTransaction(tx, buildMarginLock(trade.userId, inserted.id, trade.stakeCents));
+    });
+  } catch (error: unknown) {
+    // A concurrent request with the same key won the race
+    if (mysqlErrorCode(error) !== "ER_DUP_ENTRY") {
+      throw error;
+    }
+  }
+
+  const stored = await getTradeByIdempotencyKey(trade.userId, trade.idempotencyKey);
+  if (!stored) {
+    throw new Error("Trade was not persisted");
+  }
+  const created = stored.tradeRef === trade.tradeRef;
+  return { trade: stored, created, quote: created ? quote : null };
+}
+
+export async function getTradeByRef(userId: number, tradeRef: string) {
+  const db = await requireDb();
+  const result = await db
+    .select({ trade: trades, topic: markets.topic })
+    .from(trades)
+    .leftJoin(markets, eq(trades.marketId, markets.id))
+    .where(and(eq(trades.userId, userId), eq(trades.tradeRef, tradeRef)))
+    .limit(1);
+
+  return result[0];
+}
+
+export async function listTradesForUser(
+  userId: number,
+  options: { status?: Trade["status"]; limit?: number } = {}
+) {
+  const db = await requireDb();
+  const conditions = [eq(trades.userId, userId)];
+  if (options.status) {
+    conditions.push(eq(trades.status, options.status));
+  }
+
+  return db
+    .select({ trade: trades, topic: markets.topic })
+    .from(trades)
+    .leftJoin(markets, eq(trades.marketId, markets.id))
+    .where(and(...conditions))
+    .orderBy(desc(trades.createdAt), desc(trades.id))
+    .limit(options.limit ?? 50);
+}
+
+// AMM pools
+
+export async function getAmmPool(marketId: number, duration: Trade["duration"]): Promise<PoolState> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get AMM pool: database not available");
+    return emptyPool();
+  }
+
+  const result = await db
+    .select()
+    .from(ammPools)
+    .where(and(eq(ammPools.marketId, marketId), eq(ammPools.duration, duration)))
+    .limit(1);
+
+  return result[0] ?? emptyPool();
+}
+
+// Create the pool on first use, then hold its row lock until the transaction ends
+async function lockAmmPool(tx: Transaction, marketId: number, duration: Trade["duration"]): Promise<PoolState> {
+  const { liquidity } = emptyPool();
+  await tx.insert(ammPools).ignore().values({ marketId, duration, liquidity });
+
+  const [pool] = await tx
+    .select()
+    .from(ammPools)
+    .where(and(eq(ammPools.marketId, marketId), eq(ammPools.duration, duration)))
+    .for("update");
+
+  return pool;
+}
+
+// Settlement
+
+export async function listDueTrades(cutoff: Date, limit = 100): Promise<Trade[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list due trades: database not available");
+    return [];
+  }
+
+  return db
+    .select()
+    .from(trades)
+    .where(and(eq(trades.status, "open"), lte(trades.expiresAt, cutoff)))
+    .orderBy(asc(trades.expiresAt), asc(trades.id))
+    .limit(limit);
+}
+
+export async function getMarketSnapshotById(id: number): Promise<MarketSnapshot | undefined> {
+  const db = await requireDb();
+  const result = await db.select().from(marketSnapshots).where(eq(marketSnapshots.id, id)).limit(1);
+  return result[0];
+}
+
+/**
+ * Snapshots for one market captured within [from, until]
+ */
+export async function listMarketSnapshotsBetween(
+  marketId: number,
+  from: Date,
+  until: Date
+): Promise<MarketSnapshot[]> {
+  const db = await requireDb();
+  return db
+    .select()
+    .from(marketSnapshots)
+    .where(
+      and(
+        eq(marketSnapshots.marketId, marketId),
+        gte(marketSnapshots.capturedAt, from),
+        lte(marketSnapshots.capturedAt, until)
+      )
+    )
+    .orderBy(asc(marketSnapshots.capturedAt), asc(marketSnapshots.id));
+}
+
+/**
+ * Close a trade, store its settlement and post the payout in one transaction.
+ * Returns false when another worker already settled the trade.
+ */
+export async function recordSettlement(settlement: InsertSettlement): Promise<boolean> {
+  const db = await requireDb();
+
+  return db.transaction(async tx => {
+    const [update] = await tx
+      .update(trades)
+      .set({ status: "settled", settledAt: new Date() })
+      .where(and(eq(trades.id, settlement.tradeId), eq(trades.status, "open")));
+
+    if (update.affectedRows === 0) {
+      return false;
+    }
+
+    // The settled shares no longer count towards the pool's price; trades
+    // placed before the AMM have none
+    const [trade] = await tx.select().from(trades).where(eq(trades.id, settlement.tradeId));
+    if (trade.shares !== null) {
+      const pool = await lockAmmPool(tx, trade.marketId, trade.duration);
+      const next = releaseShares(pool, trade.direction, trade.shares);
+      await tx
+        .update(ammPools)
+        .set({ longShares: next.longShares, shortShares: next.shortShares })
+        .where(and(eq(ammPools.marketId, trade.marketId), eq(ammPools.duration, trade.duration)));
+    }
+
+    await tx.insert(settlements).values(settlement);
+    await postLedgerTransaction(
+      tx,
+      buildSettlementPostings(settlement.userId, settlement.tradeId, settlement.stakeCents, {
+        outcome: settlement.outcome,
+        grossPayoutCents: settlement.grossPayoutCents,
+        vigCents: settlement.vigCents,
+        netPayoutCents: settlement.netPayoutCents,
+      })
+    );
+
+    return true;
+  });
+}
+
+export async function getTradeWithSettlement(tradeRef: string): Promise<{ trade: Trade; settlement: Settlement | null } | undefined> {
+  const db = await requireDb();
+  const result = await db
+    .select({ trade: trades, settlement: settlements })
+    .from(trades)
+    .leftJoin(settlements, eq(settlements.tradeId, trades.id))
+    .where(eq(trades.tradeRef, tradeRef))
+    .limit(1);
+
+  return result[0];
+}
+
+// Wallet
+
+/**
+ * Write a balanced ledger transaction and apply it to the affected balances.
+ * Balance updates are guarded so available/locked funds never go negative;
+ * a guard miss throws InsufficientFundsError and rolls back the caller's tx.
+ */
+async function postLedgerTransaction(tx: Transaction, ledgerTx: LedgerTransaction): Promise<void> {
+  // Zero amounts are filtered out of the postings; there is nothing to write
+  if (ledgerTx.postings.length === 0) {
+    throw new EmptyTransactionError(ledgerTx.transactionId);
+  }
+
+  await tx.insert(ledgerEntries).values(
+    ledgerTx.postings.map(p => ({
+      transactionId: ledgerTx.transactionId,
+      userId: p.userId,
+      account: p.account,
+      amountCents: p.amountCents,
+      kind: p.kind,
+      tradeId: p.tradeId ?? null,
+    }))
+  );
+
+  const userIds = new Set(
+    ledgerTx.postings.filter(p => p.userId !== null).map(p => p.userId as number)
+  );
+
+  for (const userId of Array.from(userIds)) {
+    const delta = balanceDelta(ledgerTx.postings, userId);
+
+    await tx
+      .insert(balances)
+      .values({ userId })
+      .onDuplicateKeyUpdate({ set: { userId } });
+
+    const [update] = await tx
+      .update(balances)
+      .set({
+        availableCents: sql`${balances.availableCents} + ${delta.availableCents}`,
+        lockedCents: sql`${balances.lockedCents} + ${delta.lockedCents}`,
+      })
+      .where(
+        and(
+          eq(balances.userId, userId),
+          gte(sql`${balances.availableCents} + ${delta.availableCents}`, 0),
+          gte(sql`${balances.lockedCents} + ${delta.lockedCents}`, 0)
+        )
+      );
+
+    if (update.affectedRows === 0) {
+      const [current] = await tx.select().from(balances).where(eq(balances.userId, userId)).limit(1);
+      throw new InsufficientFundsError(-delta.availableCents, current?.availableCents ?? 0);
+    }
+  }
+}
+
+/**
+ * Post a standalone wallet transaction such as a deposit or withdrawal
+ */
+export async function applyLedgerTransaction(ledgerTx: LedgerTransaction): Promise<void> {
+  const db = await requireDb();
+  await db.transaction(tx => postLedgerTransaction(tx, ledgerTx));
+}
+
+export async function getBalance(userId: number): Promise<Pick<Balance, "availableCents" | "lockedCents">> {
+  const db = await requireDb();
+  const result = await db.select().from(balances).where(eq(balances.userId, userId)).limit(1);
+  return result[0] ?? { availableCents: 0, lockedCents: 0 };
+}
+
+export async function listLedgerEntriesForUser(
+  userId: number,
+  options: { limit?: number; beforeId?: number } = {}
+): Promise<LedgerEntry[]> {
+  const db = await requireDb();
+  const conditions = [eq(ledgerEntries.userId, userId)];
+  if (options.beforeId !== undefined) {
+    conditions.push(lt(ledgerEntries.id, options.beforeId));
+  }
+
+  return db
+    .select()
+    .from(ledgerEntries)
+    .where(and(...conditions))
+    .orderBy(desc(ledgerEntries.id))
+    .limit(options.limit ?? 50);
+}
+
+// Portfolio
+
+export async function getLatestMarketSnapshots(marketIds: number[]): Promise<Map<number, MarketSnapshot>> {
+  const unique = Array.from(new Set(marketIds));
+  const snapshots = await Promise.all(unique.map(id => getLatestMarketSnapshot(id)));
+
+  const byMarket = new Map<number, MarketSnapshot>();
+  snapshots.forEach(snapshot => {
+    if (snapshot) byMarket.set(snapshot.marketId, snapshot);
+  });
+  return byMarket;
+}
+
+export async function listSettledTradesForUser(userId: number, limit = 50) {
+  const db = await requireDb();
+  return db
+    .select({ trade: trades, settlement: settlements, topic: markets.topic })
+    .from(trades)
+    .innerJoin(settlements, eq(settlements.tradeId, trades.id))
+    .leftJoin(markets, eq(trades.marketId, markets.id))
+    .where(eq(trades.userId, userId))
+    .orderBy(desc(settlements.settledAt), desc(settlements.id))
+    .limit(limit);
+}
+
+export async function getSettlementTotals(userId: number): Promise<SettlementTotals> {
+  const db = await requireDb();
+  const [row] = await db
+    .select({
+      settledCount: sql<number>`count(*)`.mapWith(Number),
+      wins: sql<number>`coalesce(sum(${settlements.outcome} = 'win'), 0)`.mapWith(Number),
+      losses: sql<number>`coalesce(sum(${settlements.outcome} = 'loss'), 0)`.mapWith(Number),
+      realizedPnlCents: sql<number>`coalesce(sum(${settlements.netPayoutCents} - ${settlements.stakeCents}), 0)`.mapWith(Number),
+    })
+    .from(settlements)
+    .where(eq(settlements.userId, userId));
+  return row ?? { settledCount: 0, wins: 0, losses: 0, realizedPnlCents: 0 };
+}
+
+// Signal ingestion
+
+/**
+ * Store signals, skipping any whose content hash is already stored
+ * Returns how many rows were actually inserted.
+ */
+export async function insertSignals(rows: InsertSignal[]): Promise<number> {
+  if (rows.length === 0) return 0;
+  const db = await requireDb();
+  const [result] = await db.insert(signals).ignore().values(rows);
+  return result.affectedRows;
+}
+
+export async function listSignalsByHash(hashes: string[]): Promise<Signal[]> {
+  if (hashes.length === 0) return [];
+  const db = await requireDb();
+  return db.select().from(signals).where(inArray(signals.contentHash, hashes));
+}
+
+export async function getSignalById(id: number): Promise<Signal | undefined> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get signal: database not available");
+    return undefined;
+  }
+
+  const result = await db.select().from(signals).where(eq(signals.id, id)).limit(1);
+  return result[0];
+}
+
+export async function listRecentSignals(options: { limit?: number } = {}): Promise<Signal[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list signals: database not available");
+    return [];
+  }
+
+  return db
+    .select()
+    .from(signals)
+    .orderBy(desc(signals.publishedAt), desc(signals.id))
+    .limit(options.limit ?? 20);
+}
+
+export async function countSignalsBySource(since: Date): Promise<Partial<Record<Signal["source"], number>>> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot count signals: database not available");
+    return {};
+  }
+
+  const rows = await db
+    .select({ source: signals.source, count: sql<number>`count(*)` })
+    .from(signals)
+    .where(gte(signals.publishedAt, since))
+    .groupBy(signals.source);
+
+  return Object.fromEntries(rows.map(row => [row.source, Number(row.count)]));
+}
+
+// Signal-to-market routing
+
+/**
+ * Active markets with the terms the matcher looks for
+ */
+export async function listMarketTopics(): Promise<Array<Pick<Market, "id" | "topic" | "aliases" | "keywords">>> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list market topics: database not available");
+    return [];
+  }
+
+  return db
+    .select({ id: markets.id, topic: markets.topic, aliases: markets.aliases, keywords: markets.keywords })
+    .from(markets)
+    .where(eq(markets.status, "active"));
+}
+
+/**
+ * Record matches; re-matching a pair keeps the higher confidence
+ */
+export async function saveSignalMatches(rows: InsertSignalMarketMatch[]): Promise<void> {
+  if (rows.length === 0) return;
+  const db = await requireDb();
+  await db
+    .insert(signalMarketMatches)
+    .values(rows)
+    .onDuplicateKeyUpdate({
+      set: {
+        matchedTerms: sql`if(values(${signalMarketMatches.confidence}) > ${signalMarketMatches.confidence}, values(${signalMarketMatches.matchedTerms}), ${signalMarketMatches.matchedTerms})`,
+        confidence: sql`greatest(${signalMarketMatches.confidence}, values(${signalMarketMatches.confidence}))`,
+      },
+    });
+}
+
+/**
+ * A market's matched signals, newest first
+ */
+export async function listSignalsForMarket(
+  marketId: number,
+  options: { limit?: number; since?: Date; minConfidence?: number } = {}
+): Promise<Array<{ signal: Signal; confidence: number }>> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list market signals: database not available");
+    return [];
+  }
+
+  const conditions = [eq(signalMarketMatches.marketId, marketId)];
+  if (options.since) {
+    conditions.push(gte(signalMarketMatches.publishedAt, options.since));
+  }
+  if (options.minConfidence !== undefined) {
+    conditions.push(gte(signalMarketMatches.confidence, options.minConfidence));
+  }
+
+  return db
+    .select({ signal: signals, confidence: signalMarketMatches.confidence })
+    .from(signalMarketMatches)
+    .innerJoin(signals, eq(signalMarketMatches.signalId, signals.id))
+    .where(and(...conditions))
+    .orderBy(desc(signalMarketMatches.publishedAt), desc(signalMarketMatches.signalId))
+    .limit(options.limit ?? 20);
+}
+
+export async function getConnectorCursor(connectorId: string): Promise<ConnectorCursor | undefined> {
+  const db = await requireDb();
+  const result = await db
+    .select()
+    .from(connectorCursors)
+    .where(eq(connectorCursors.connectorId, connectorId))
+    .limit(1);
+
+  return result[0];
+}
+
+export async function saveConnectorCursor(state: InsertConnectorCursor): Promise<void> {
+  const db = await requireDb();
+  const { connectorId, ...updates } = state;
+  await db
+    .insert(connectorCursors)
+    .values(state)
+    .onDuplicateKeyUpdate({ set: updates });
+}
+
+export async function listConnectorCursors(): Promise<ConnectorCursor[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list connector cursors: database not available");
+    return [];
+  }
+
+  return db.select().from(connectorCursors);
+}
+
+// Rate limiting
+
+/**
+ * Take tokens from the shared rate limit buckets. The rows are locked in key
+ * order for the transaction, so concurrent processes see each other's takes
+ * without deadlocking. Returns null when there is no database.
+ */
+export async function takeRateLimitTokens(demands: BucketDemand[], now: number): Promise<TakeResult | null> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot take rate limit tokens: database not available");
+    return null;
+  }
+  if (demands.length === 0) return { ok: true };
+
+  const keys = demands.map(demand => demand.key).sort();
+
+  return db.transaction(async tx => {
+    await tx
+      .insert(rateLimitBuckets)
+      .ignore()
+      .values(demands.map(demand => ({ bucketKey: demand.key, tokens: demand.capacity, refilledAt: now })));
+
+    const rows = await tx
+      .select()
+      .from(rateLimitBuckets)
+      .where(inArray(rateLimitBuckets.bucketKey, keys))
+      .orderBy(asc(rateLimitBuckets.bucketKey))
+      .for("update");
+
+    const states = new Map<string, BucketState>(
+      rows.map(row => [row.bucketKey, { tokens: row.tokens, refilledAt: row.refilledAt }])
+    );
+    const plan = planTake(demands, states, now);
+    if (!plan.ok) return plan;
+
+    for (const [bucketKey, state] of Array.from(plan.next)) {
+      await tx
+        .update(rateLimitBuckets)
+        .set({ tokens: state.tokens, refilledAt: state.refilledAt })
+        .where(eq(rateLimitBuckets.bucketKey, bucketKey));
+    }
+    return { ok: true } as const;
+  });
+}
+
+// Analysis cache
+
+export async function getAnalysisCacheEntries(keys: string[], now: Date): Promise<AnalysisCacheEntry[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot read analysis cache: database not available");
+    return [];
+  }
+  if (keys.length === 0) return [];
+
+  return db
+    .select()
+    .from(analysisCache)
+    .where(and(inArray(analysisCache.cacheKey, keys), gt(analysisCache.expiresAt, now)));
+}
+
+// Best-effort like every cache write: a lost entry only costs a re-analysis
+export async function saveAnalysisCacheEntries(entries: InsertAnalysisCacheEntry[]): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot save analysis cache: database not available");
+    return;
+  }
+  if (entries.length === 0) return;
+
+  await db
+    .insert(analysisCache)
+    .values(entries)
+    .onDuplicateKeyUpdate({
+      set: {
+        value: sql`values(${analysisCache.value})`,
+        expiresAt: sql`values(${analysisCache.expiresAt})`,
+      },
+    });
+}
+
+export async function deleteExpiredAnalysisCache(now: Date): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.delete(analysisCache).where(lte(analysisCache.expiresAt, now));
+}
+
+// Alert rules
+
+export async function listAlertRulesForUser(userId: number): Promise<AlertRuleRow[]> {
+  const db = await requireDb();
+  return db.select().from(alertRules).where(eq(alertRules.userId, userId)).orderBy(asc(alertRules.id));
+}
+
+export async function countAlertRulesForUser(userId: number): Promise<number> {
+  const db = await requireDb();
+  const [row] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(alertRules)
+    .where(eq(alertRules.userId, userId));
+  return Number(row?.count ?? 0);
+}
+
+export async function createAlertRule(rule: InsertAlertRule): Promise<AlertRuleRow> {
+  const db = await requireDb();
+  const [inserted] = await db.insert(alertRules).values(rule).$returningId();
+  const [row] = await db.select().from(alertRules).where(eq(alertRules.id, inserted.id)).limit(1);
+  return row;
+}
+
+/**
+ * Update one of a user's rules; undefined when it is not theirs
+ */
+export async function updateAlertRule(
+  userId: number,
+  id: number,
+  changes: Partial<Omit<InsertAlertRule, "id" | "userId">>
+): Promise<AlertRuleRow | undefined> {
+  const db = await requireDb();
+  const owned = and(eq(alertRules.id, id), eq(alertRules.userId, userId));
+  if (Object.keys(changes).length > 0) {
+    await db.update(alertRules).set(changes).where(owned);
+  }
+  const [row] = await db.select().from(alertRules).where(owned).limit(1);
+  return row;
+}
+
+export async function deleteAlertRule(userId: number, id: number): Promise<boolean> {
+  const db = await requireDb();
+  const [result] = await db.delete(alertRules).where(and(eq(alertRules.id, id), eq(alertRules.userId, userId)));
+  return result.affectedRows > 0;
+}
+
+export async function listEnabledAlertRules(): Promise<AlertRuleRow[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list alert rules: database not available");
+    return [];
+  }
+
+  return db.select().from(alertRules).where(eq(alertRules.enabled, true));
+}
+
+/**
+ * When each (rule, market) pair last fired, for cooldowns
+ */
+export async function getLastAlertTimes(
+  ruleIds: number[]
+): Promise<Array<{ ruleId: number; marketId: number; triggeredAt: Date }>> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot read alert events: database not available");
+    return [];
+  }
+  if (ruleIds.length === 0) return [];
+
+  const rows = await db
+    .select({
+      ruleId: alertEvents.ruleId,
+      marketId: alertEvents.marketId,
+      triggeredAt: sql<string>`max(${alertEvents.triggeredAt})`,
+    })
+    .from(alertEvents)
+    .where(inArray(alertEvents.ruleId, ruleIds))
+    .groupBy(alertEvents.ruleId, alertEvents.marketId);
+
+  return rows.map(row => ({ ...row, triggeredAt: new Date(row.triggeredAt) }));
+}
+
+// Returns the new event ids, in order
+export async function recordAlertEvents(events: InsertAlertEvent[]): Promise<number[]> {
+  if (events.length === 0) return [];
+  const db = await requireDb();
+  const inserted = await db.insert(alertEvents).values(events).$returningId();
+  return inserted.map(row => row.id);
+}
+
+export async function listAlertEventsForUser(
+  userId: number,
+  options: { limit?: number; beforeId?: number } = {}
+): Promise<AlertEvent[]> {
+  const db = await requireDb();
+  const conditions = [eq(alertEvents.userId, userId)];
+  if (options.beforeId !== undefined) {
+    conditions.push(lt(alertEvents.id, options.beforeId));
+  }
+
+  return db
+    .select()
+    .from(alertEvents)
+    .where(and(...conditions))
+    .orderBy(desc(alertEvents.id))
+    .limit(options.limit ?? 50);
+}
+
+// Notifications
+
+export async function createNotifications(rows: InsertNotification[]): Promise<Notification[]> {
+  if (rows.length === 0) return [];
+  const db = await requireDb();
+  const inserted = await db.insert(notifications).values(rows).$returningId();
+  return db
+    .select()
+    .from(notifications)
+    .where(inArray(notifications.id, inserted.map(row => row.id)))
+    .orderBy(asc(notifications.id));
+}
+
+export async function listNotificationsForUser(
+  userId: number,
+  options: { limit?: number; beforeId?: number; unreadOnly?: boolean } = {}
+): Promise<Notification[]> {
+  const db = await requireDb();
+  const conditions = [eq(notifications.userId, userId)];
+  if (options.beforeId !== undefined) {
+    conditions.push(lt(notifications.id, options.beforeId));
+  }
+  if (options.unreadOnly) {
+    conditions.push(isNull(notifications.readAt));
+  }
+
+  return db
+    .select()
+    .from(notifications)
+    .where(and(...conditions))
+    .orderBy(desc(notifications.id))
+    .limit(options.limit ?? 50);
+}
+
+export async function countUnreadNotifications(userId: number): Promise<number> {
+  const db = await requireDb();
+  const [row] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(notifications)
+    .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  return Number(row?.count ?? 0);
+}
+
+/**
+ * Mark the given notifications read, or all of them without ids
+ * Returns how many were unread.
+ */
+export async function markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+  const db = await requireDb();
+  const conditions = [eq(notifications.userId, userId), isNull(notifications.readAt)];
+  if (ids) {
+    if (ids.length === 0) return 0;
+    conditions.push(inArray(notifications.id, ids));
+  }
+
+  const [result] = await db.update(notifications).set({ readAt: new Date() }).where(and(...conditions));
+  return result.affectedRows;
+}
+
+export async function listNotificationChannels(userId: number): Promise<NotificationChannel[]> {
+  const db = await requireDb();
+  return db
+    .select()
+    .from(notificationChannels)
+    .where(eq(notificationChannels.userId, userId))
+    .orderBy(asc(notificationChannels.id));
+}
+
+export async function listEnabledChannelsForUsers(userIds: number[]): Promise<NotificationChannel[]> {
+  if (userIds.length === 0) return [];
+  const db = await requireDb();
+  return db
+    .select()
+    .from(notificationChannels)
+    .where(and(inArray(notificationChannels.userId, userIds), eq(notificationChannels.enabled, true)));
+}
+
+export async function createNotificationChannel(channel: InsertNotificationChannel): Promise<NotificationChannel> {
+  const db = await requireDb();
+  const [inserted] = await db.insert(notificationChannels).values(channel).$returningId();
+  const [row] = await db.select().from(notificationChannels).where(eq(notificationChannels.id, inserted.id)).limit(1);
+  return row;
+}
+
+export async function updateNotificationChannel(
+  userId: number,
+  id: number,
+  changes: Partial<Pick<InsertNotificationChannel, "enabled" | "minSeverity" | "secret">>
+): Promise<NotificationChannel | undefined> {
+  const db = await requireDb();
+  const owned = and(eq(notificationChannels.id, id), eq(notificationChannels.userId, userId));
+  if (Object.keys(changes).length > 0) {
+    await db.update(notificationChannels).set(changes).where(owned);
+  }
+  const [row] = await db.select().from(notificationChannels).where(owned).limit(1);
+  return row;
+}
+
+export async function deleteNotificationChannel(userId: number, id: number): Promise<boolean> {
+  const db = await requireDb();
+  const [result] = await db
+    .delete(notificationChannels)
+    .where(and(eq(notificationChannels.id, id), eq(notificationChannels.userId, userId)));
+  return result.affectedRows > 0;
+}
+
+export async function enqueueDeliveries(rows: InsertNotificationDelivery[]): Promise<void> {
+  if (rows.length === 0) return;
+  const db = await requireDb();
+  await db.insert(notificationDeliveries).values(rows);
+}
+
+/**
+ * Pending deliveries whose next attempt is due, with what they deliver
+ * The channel is null when it has been deleted since.
+ */
+export async function listDueDeliveries(now: Date, limit = 50): Promise<Array<{
+  delivery: NotificationDelivery;
+  notification: Notification;
+  channel: NotificationChannel | null;
+}>> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list deliveries: database not available");
+    return [];
+  }
+
+  return db
+    .select({ delivery: notificationDeliveries, notification: notifications, channel: notificationChannels })
+    .from(notificationDeliveries)
+    .innerJoin(notifications, eq(notificationDeliveries.notificationId, notifications.id))
+    .leftJoin(notificationChannels, eq(notificationDeliveries.channelId, notificationChannels.id))
+    .where(and(eq(notificationDeliveries.status, "pending"), lte(notificationDeliveries.nextAttemptAt, now)))
+    .orderBy(asc(notificationDeliveries.nextAttemptAt))
+    .limit(limit);
+}
+
+/**
+ * Take a delivery for one attempt: counts the attempt and pushes its next
+ * attempt out to leaseUntil so other workers skip it. False when another
+ * worker claimed it first.
+ */
+export async function claimDelivery(id: number, attempts: number, leaseUntil: Date): Promise<boolean> {
+  const db = await requireDb();
+  const [result] = await db
+    .update(notificationDeliveries)
+    .set({ attempts: attempts + 1, nextAttemptAt: leaseUntil })
+    .where(
+      and(
+        eq(notificationDeliveries.id, id),
+        eq(notificationDeliveries.status, "pending"),
+        eq(notificationDeliveries.attempts, attempts)
+      )
+    );
+  return result.affectedRows > 0;
+}
+
+export async function finishDeliveryAttempt(
+  id: number,
+  changes: Pick<InsertNotificationDelivery, "status" | "responseCode" | "lastError" | "nextAttemptAt" | "deliveredAt">
+): Promise<void> {
+  const db = await requireDb();
+  await db.update(notificationDeliveries).set(changes).where(eq(notificationDeliveries.id, id));
+}
+
+export async function listDeliveriesForUser(userId: number, limit = 50): Promise<NotificationDelivery[]> {
+  const db = await requireDb();
+  return db
+    .select()
+    .from(notificationDeliveries)
+    .where(eq(notificationDeliveries.userId, userId))
+    .orderBy(desc(notificationDeliveries.id))
+    .limit(limit);
+}
+
+export async function listWatchlists(userId: number): Promise<Watchlist[]> {
+  const db = await requireDb();
+  return db
+    .select()
+    .from(watchlists)
+    .where(eq(watchlists.userId, userId))
+    .orderBy(asc(watchlists.position), asc(watchlists.id));
+}
+
+export async function createWatchlist(watchlist: InsertWatchlist): Promise<Watchlist> {
+  const db = await requireDb();
+  const [inserted] = await db.insert(watchlists).values(watchlist).$returningId();
+  const [row] = await db.select().from(watchlists).where(eq(watchlists.id, inserted.id)).limit(1);
+  return row;
+}
+
+/**
+ * Rename one of a user's lists; undefined when it is not theirs
+ */
+export async function renameWatchlist(userId: number, id: number, name: string): Promise<Watchlist | undefined> {
+  const db = await requireDb();
+  const owned = and(eq(watchlists.id, id), eq(watchlists.userId, userId));
+  await db.update(watchlists).set({ name }).where(owned);
+  const [row] = await db.select().from(watchlists).where(owned).limit(1);
+  return row;
+}
+
+/**
+ * Rewrite a list's markets under a row lock, so concurrent stars on the
+ * same list don't overwrite each other. Undefined when it is not theirs.
+ */
+export async function updateWatchlistMarkets(
+  userId: number,
+  id: number,
+  update: (marketIds: number[]) => number[]
+): Promise<Watchlist | undefined> {
+  const db = await requireDb();
+  return db.transaction(async tx => {
+    const [row] = await tx
+      .select()
+      .from(watchlists)
+      .where(and(eq(watchlists.id, id), eq(watchlists.userId, userId)))
+      .limit(1)
+      .for("update");
+    if (!row) return undefined;
+
+    const marketIds = update(row.marketIds);
+    await tx.update(watchlists).set({ marketIds }).where(eq(watchlists.id, id));
+    return { ...row, marketIds };
+  });
+}
+
+/**
+ * Store the order of a user's lists; ids not theirs are ignored
+ */
+export async function reorderWatchlists(userId: number, ids: number[]): Promise<void> {
+  const db = await requireDb();
+  await db.transaction(async tx => {
+    for (let position = 0; position < ids.length; position++) {
+      await tx
+        .update(watchlists)
+        .set({ position })
+        .where(and(eq(watchlists.id, ids[position]), eq(watchlists.userId, userId)));
+    }
+  });
+}
+
+export async function deleteWatchlist(userId: number, id: number): Promise<boolean> {
+  const db = await requireDb();
+  const [result] = await db.delete(watchlists).where(and(eq(watchlists.id, id), eq(watchlists.userId, userId)));
+  return result.affectedRows > 0;
+}
+
+export async function createBriefing(briefing: InsertBriefing): Promise<Briefing> {
+  const db = await requireDb();
+  const [inserted] = await db.insert(briefings).values(briefing).$returningId();
+  const [row] = await db.select().from(briefings).where(eq(briefings.id, inserted.id)).limit(1);
+  return row;
+}
+
+export async function listBriefingsForUser(
+  userId: number,
+  options: { limit?: number; beforeId?: number } = {}
+): Promise<Briefing[]> {
+  const db = await requireDb();
+  const conditions = [eq(briefings.userId, userId)];
+  if (options.beforeId !== undefined) {
+    conditions.push(lt(briefings.id, options.beforeId));
+  }
+
+  return db
+    .select()
+    .from(briefings)
+    .where(and(...conditions))
+    .orderBy(desc(briefings.id))
+    .limit(options.limit ?? 20);
+}
+
+export async function getBriefingForUser(userId: number, id: number): Promise<Briefing | undefined> {
+  const db = await requireDb();
+  const [row] = await db
+    .select()
+    .from(briefings)
+    .where(and(eq(briefings.id, id), eq(briefings.userId, userId)))
+    .limit(1);
+  return row;
+}
+
+// Briefings made by a user's schedules, newest first, for the podcast feed
+export async function listScheduledBriefingsForUser(userId: number, limit = 50): Promise<Briefing[]> {
+  const db = await requireDb();
+  return db
+    .select()
+    .from(briefings)
+    .where(and(eq(briefings.userId, userId), isNotNull(briefings.scheduleId)))
+    .orderBy(desc(briefings.id))
+    .limit(limit);
+}
+
+export async function listBriefingSchedulesForUser(userId: number): Promise<BriefingSchedule[]> {
+  const db = await requireDb();
+  return db
+    .select()
+    .from(briefingSchedules)
+    .where(eq(briefingSchedules.userId, userId))
+    .orderBy(asc(briefingSchedules.id));
+}
+
+export async function createBriefingSchedule(schedule: InsertBriefingSchedule): Promise<BriefingSchedule> {
+  const db = await requireDb();
+  const [inserted] = await db.insert(briefingSchedules).values(schedule).$returningId();
+  const [row] = await db.select().from(briefingSchedules).where(eq(briefingSchedules.id, inserted.id)).limit(1);
+  return row;
+}
+
+/**
+ * Update one of a user's schedules; undefined when it is not theirs
+ */
+export async function updateBriefingSchedule(
+  userId: number,
+  id: number,
+  changes: Partial<Omit<InsertBriefingSchedule, "id" | "userId">>
+): Promise<BriefingSchedule | undefined> {
+  const db = await requireDb();
+  const owned = and(eq(briefingSchedules.id, id), eq(briefingSchedules.userId, userId));
+  if (Object.keys(changes).length > 0) {
+    await db.update(briefingSchedules).set(changes).where(owned);
+  }
+  const [row] = await db.select().from(briefingSchedules).where(owned).limit(1);
+  return row;
+}
+
+export async function deleteBriefingSchedule(userId: number, id: number): Promise<boolean> {
+  const db = await requireDb();
+  const [result] = await db
+    .delete(briefingSchedules)
+    .where(and(eq(briefingSchedules.id, id), eq(briefingSchedules.userId, userId)));
+  return result.affectedRows > 0;
+}
+
+export async function listDueBriefingSchedules(now: Date, limit = 10): Promise<BriefingSchedule[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list briefing schedules: database not available");
+    return [];
+  }
+
+  return db
+    .select()
+    .from(briefingSchedules)
+    .where(and(eq(briefingSchedules.enabled, true), lte(briefingSchedules.nextRunAt, now)))
+    .orderBy(asc(briefingSchedules.nextRunAt))
+    .limit(limit);
+}
+
+/**
+ * Move a due schedule to its next run. Only one process wins a given run:
+ * the update only applies while nextRunAt is still the value it read.
+ */
+export async function claimBriefingSchedule(
+  id: number,
+  dueAt: Date,
+  nextRunAt: Date,
+  now: Date
+): Promise<boolean> {
+  const db = await requireDb();
+  const [result] = await db
+    .update(briefingSchedules)
+    .set({ nextRunAt, lastRunAt: now })
+    .where(and(eq(briefingSchedules.id, id), eq(briefingSchedules.nextRunAt, dueAt)));
+  return result.affectedRows > 0;
+}
+
+export async function getPodcastFeedForUser(userId: number): Promise<PodcastFeed | undefined> {
+  const db = await requireDb();
+  const [row] = await db.select().from(podcastFeeds).where(eq(podcastFeeds.userId, userId)).limit(1);
+  return row;
+}
+
+export async function getPodcastFeedByToken(token: string): Promise<PodcastFeed | undefined> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot read podcast feed: database not available");
+    return undefined;
+  }
+
+  const [row] = await db.select().from(podcastFeeds).where(eq(podcastFeeds.token, token)).limit(1);
+  return row;
+}
+
+// Create the user's feed, or replace its token so old URLs stop working
+export async function setPodcastFeedToken(userId: number, token: string): Promise<PodcastFeed> {
+  const db = await requireDb();
+  await db.insert(podcastFeeds).values({ userId, token }).onDuplicateKeyUpdate({ set: { token } });
+  const [row] = await db.select().from(podcastFeeds).where(eq(podcastFeeds.userId, userId)).limit(1);
+  return row;
+}
+
+// Voice profiles synced from ElevenLabs; the built-in voices are not stored
+export async function listVoiceProfiles(options: { includeDisabled?: boolean } = {}): Promise<VoiceProfile[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list voice profiles: database not available");
+    return [];
+  }
+
+  return db
+    .select()
+    .from(voiceProfiles)
+    .where(options.includeDisabled ? undefined : eq(voiceProfiles.enabled, true))
+    .orderBy(asc(voiceProfiles.name));
+}
+
+export async function getVoiceProfile(voiceId: string): Promise<VoiceProfile | undefined> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot read voice profile: database not available");
+    return undefined;
+  }
+
+  const [row] = await db.select().from(voiceProfiles).where(eq(voiceProfiles.voiceId, voiceId)).limit(1);
+  return row;
+}
+
+/**
+ * Make the stored voices match the account's
+ * Known voices are refreshed but keep their enabled flag; voices no
+ * longer in the account are deleted.
+ */
+export async function syncVoiceProfiles(
+  profiles: Omit<InsertVoiceProfile, "id" | "enabled" | "syncedAt" | "createdAt">[],
+  now: Date = new Date()
+): Promise<{ synced: number; removed: number }> {
+  const db = await requireDb();
+
+  return db.transaction(async tx => {
+    for (const profile of profiles) {
+      const { voiceId: _voiceId, ...details } = profile;
+      await tx
+        .insert(voiceProfiles)
+        .values({ ...profile, syncedAt: now })
+        .onDuplicateKeyUpdate({ set: { ...details, syncedAt: now } });
+    }
+
+    const voiceIds = profiles.map(profile => profile.voiceId);
+    const [result] = await tx
+      .delete(voiceProfiles)
+      .where(voiceIds.length > 0 ? notInArray(voiceProfiles.voiceId, voiceIds) : undefined);
+    return { synced: profiles.length, removed: result.affectedRows };
+  });
+}
+
+export async function setVoiceProfileEnabled(id: number, enabled: boolean): Promise<boolean> {
+  const db = await requireDb();
+  const [result] = await db.update(voiceProfiles).set({ enabled }).where(eq(voiceProfiles.id, id));
+  return result.affectedRows > 0;
+}
+
+export async function getVoicePreferences(userId: number): Promise<VoicePreference | undefined> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot read voice preferences: database not available");
+    return undefined;
+  }
+
+  const [row] = await db.select().from(voicePreferences).where(eq(voicePreferences.userId, userId)).limit(1);
+  return row;
+}
+
+export async function saveVoicePreferences(userId: number, preferences: VoicePreferences): Promise<VoicePreference> {
+  const db = await requireDb();
+  await db
+    .insert(voicePreferences)
+    .values({ userId, ...preferences })
+    .onDuplicateKeyUpdate({ set: preferences });
+  const [row] = await db.select().from(voicePreferences).where(eq(voicePreferences.userId, userId)).limit(1);
+  return row;
+}
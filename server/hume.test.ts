@@ -0,0 +1,208 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { ENV } from "./_core/env";
+import { setAnalysisCache } from "./cache";
+import { analyzeTextVibes } from "./services/hume";
+import { HumeJobError, createHumeBatchClient } from "./services/humeBatch";
+import { ANXIETY_WEIGHTS, HUME_EMOTIONS, JOY_WEIGHTS, emotionsToVibe } from "./services/humeEmotions";
+
+/**
+ * Test the Hume batch-job client and the emotion → vibe mapping
+ * A local HTTP server stands in for api.hume.ai
+ */
+
+interface MockJob {
+  texts: string[];
+  polls: number;
+}
+
+// Emotions the mock "model" reads into a text
+function scoreText(text: string) {
+  const emotions = [
+    { name: "Interest", score: 0.3 },
+    { name: "Boredom", score: 0.1 },
+  ];
+  if (text.includes("moon")) emotions.push({ name: "Excitement", score: 0.8 });
+  if (text.includes("crash")) emotions.push({ name: "Fear", score: 0.7 });
+  return emotions;
+}
+
+const mock = {
+  apiKey: "test-key",
+  jobs: new Map<string, MockJob>(),
+  requests: [] as string[],
+  // Polls that still report IN_PROGRESS before the job completes
+  pollsUntilDone: 1,
+  failJobs: false,
+  url: "",
+};
+
+function send(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  mock.requests.push(`${req.method} ${req.url}`);
+  if (req.headers["x-hume-api-key"] !== mock.apiKey) {
+    return send(res, 401, { message: "Invalid ApiKey" });
+  }
+
+  let body = "";
+  req.on("data", chunk => (body += chunk));
+  req.on("end", () => {
+    const [, , , , jobId, tail] = (req.url ?? "").split("/");
+
+    if (req.method === "POST" && !jobId) {
+      const { text } = JSON.parse(body);
+      const id = `job-${mock.jobs.size + 1}`;
+      mock.jobs.set(id, { texts: text, polls: 0 });
+      return send(res, 200, { job_id: id });
+    }
+
+    const job = mock.jobs.get(jobId);
+    if (!job) return send(res, 404, { message: "Job not found" });
+
+    if (!tail) {
+      const done = job.polls++ >= mock.pollsUntilDone;
+      const status = mock.failJobs ? "FAILED" : done ? "COMPLETED" : "IN_PROGRESS";
+      return send(res, 200, { job_id: jobId, state: { status, message: mock.failJobs ? "Transcript empty" : undefined } });
+    }
+
+    // One source per text, two passages each to exercise the averaging
+    send(res, 200, job.texts.map(text => ({
+      source: { type: "text" },
+      results: {
+        predictions: [{
+          file: "text",
+          models: {
+            language: {
+              grouped_predictions: [{
+                id: "unknown",
+                predictions: [
+                  { text, emotions: scoreText(text) },
+                  { text, emotions: scoreText(text) },
+                ],
+              }],
+            },
+          },
+        }],
+        errors: [],
+      },
+    })));
+  });
+});
+
+describe("Hume Expression Measurement", () => {
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    mock.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mock.jobs.clear();
+    mock.requests = [];
+    mock.pollsUntilDone = 1;
+    mock.failJobs = false;
+  });
+
+  const client = (overrides = {}) =>
+    createHumeBatchClient({ apiKey: mock.apiKey, baseUrl: mock.url, pollIntervalMs: 1, ...overrides });
+
+  describe("emotion mapping", () => {
+    it("should take the strongest weighted emotion on each axis", () => {
+      const vibe = emotionsToVibe([
+        { name: "Interest", score: 0.9 },
+        { name: "Excitement", score: 0.4 },
+        { name: "Doubt", score: 0.5 },
+        { name: "Boredom", score: 0.95 },
+      ]);
+
+      // Interest 0.9 × 0.5 beats Excitement 0.4 × 1.0; Boredom counts for neither
+      expect(vibe).toMatchObject({ joy: 45, anxiety: 30, confidence: 95, dominant_emotion: "boredom" });
+      expect(vibe.all_emotions).toEqual({ Interest: 90, Excitement: 40, Doubt: 50, Boredom: 95 });
+    });
+
+    it("should weight only known Hume emotions", () => {
+      const languageOnly = ["Enthusiasm", "Gratitude", "Annoyance", "Disapproval"];
+      const known = new Set<string>([...HUME_EMOTIONS, ...languageOnly]);
+
+      expect(HUME_EMOTIONS).toHaveLength(48);
+      expect(Object.keys({ ...JOY_WEIGHTS, ...ANXIETY_WEIGHTS }).filter(name => !known.has(name))).toEqual([]);
+    });
+  });
+
+  describe("batch client", () => {
+    it("should submit one job, poll until complete and return emotions per text", async () => {
+      const beforeRequest = vi.fn(async () => {});
+
+      const results = await client({ beforeRequest }).analyzeTexts(["to the moon", "flash crash"]);
+
+      expect(mock.requests).toEqual([
+        "POST /v0/batch/jobs",
+        "GET /v0/batch/jobs/job-1",
+        "GET /v0/batch/jobs/job-1",
+        "GET /v0/batch/jobs/job-1/predictions",
+      ]);
+      expect(beforeRequest).toHaveBeenCalledTimes(4);
+      expect(mock.jobs.get("job-1")?.texts).toEqual(["to the moon", "flash crash"]);
+      expect(emotionsToVibe(results[0])).toMatchObject({ joy: 80, anxiety: 0 });
+      expect(emotionsToVibe(results[1])).toMatchObject({ joy: 15, anxiety: 70 });
+    });
+
+    it("should surface failed jobs, timeouts and auth errors", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      mock.failJobs = true;
+      await expect(client().analyzeTexts(["x"])).rejects.toThrow("Hume job failed: Transcript empty");
+
+      mock.failJobs = false;
+      mock.pollsUntilDone = 100;
+      let clock = 0;
+      const slow = client({ now: () => clock, sleep: async (ms: number) => void (clock += ms), timeoutMs: 10 });
+      await expect(slow.analyzeTexts(["x"])).rejects.toBeInstanceOf(HumeJobError);
+
+      await expect(client({ apiKey: "wrong" }).analyzeTexts(["x"])).rejects.toThrow("Hume API error: 401");
+    });
+  });
+
+  describe("analyzeTextVibes", () => {
+    const saved = { humeApiKey: ENV.humeApiKey, humeBaseUrl: ENV.humeBaseUrl };
+
+    beforeEach(() => {
+      ENV.humeApiKey = mock.apiKey;
+      ENV.humeBaseUrl = mock.url;
+      mock.pollsUntilDone = 0;
+    });
+
+    afterEach(() => {
+      Object.assign(ENV, saved);
+      setAnalysisCache(null);
+      vi.restoreAllMocks();
+    });
+
+    it("should batch uncached texts into one job and cache the results", async () => {
+      const first = await analyzeTextVibes(["to the moon", "flash crash", "to the moon"]);
+      const second = await analyzeTextVibes(["flash crash", "to the moon", "markets wobble"]);
+
+      expect(mock.jobs.get("job-1")?.texts).toEqual(["to the moon", "flash crash"]);
+      expect(mock.jobs.get("job-2")?.texts).toEqual(["markets wobble"]);
+      expect(first.map(vibe => vibe.joy)).toEqual([80, 15, 80]);
+      expect(second[0]).toEqual(first[1]);
+    });
+
+    it("should fall back to the local analysis without a key", async () => {
+      ENV.humeApiKey = "";
+
+      const [vibe] = await analyzeTextVibes(["to the moon"]);
+
+      expect(mock.requests).toEqual([]);
+      expect(vibe.joy).toBeGreaterThan(0);
+    });
+  });
+});
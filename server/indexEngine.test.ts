@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import type { RawSignal } from "./services/gemini";
+import { computeMarketIndex, filterBotNoise, signalWeight, toIndexSnapshot } from "./services/indexEngine";
+
+/**
+ * Test the momentum index engine
+ * Readings must follow the documented formulas and ignore bot noise
+ */
+
+const NOW = Date.parse("2026-01-01T12:00:00Z");
+const MINUTE = 60 * 1000;
+
+let idCounter = 0;
+function signal(minutesAgo: number, overrides: Partial<RawSignal> = {}): RawSignal {
+  return {
+    id: `sig-${++idCounter}`,
+    source: "reddit",
+    content: "signal",
+    timestamp: NOW - minutesAgo * MINUTE,
+    ...overrides,
+  };
+}
+
+describe("Index Engine", () => {
+  describe("signalWeight", () => {
+    it("should give an unengaged reddit post a weight of 1", () => {
+      expect(signalWeight(signal(0))).toBe(1);
+    });
+
+    it("should grow logarithmically with engagement and scale by source", () => {
+      const engaged = signal(0, { engagement: { likes: 10, retweets: 5, comments: 5 } });
+
+      expect(signalWeight(engaged)).toBeCloseTo(1 + Math.log(36));
+      expect(signalWeight({ ...engaged, source: "news" })).toBeCloseTo(1.5 * (1 + Math.log(36)));
+    });
+  });
+
+  describe("computeMarketIndex", () => {
+    it("should read 50 momentum and 0 hype with no signals", () => {
+      const index = computeMarketIndex([], { now: NOW });
+
+      expect(index.momentum).toBe(50);
+      expect(index.velocity).toBe(0);
+      expect(index.hypeScore).toBe(0);
+    });
+
+    it("should rise above 50 when the latest hour out-draws the one before", () => {
+      const signals = [
+        ...Array.from({ length: 20 }, (_, i) => signal(i * 2)),
+        ...Array.from({ length: 5 }, (_, i) => signal(70 + i * 5)),
+      ];
+
+      const index = computeMarketIndex(signals, { now: NOW });
+
+      // (20 + 5) / (20 + 5 + 10) per the momentum formula
+      expect(index.momentum).toBeCloseTo((100 * 25) / 35, 2);
+      expect(index.velocity).toBe(15);
+      expect(index.currentVolume).toBe(20);
+      expect(index.previousVolume).toBe(5);
+    });
+
+    it("should fall below 50 when attention fades", () => {
+      const signals = Array.from({ length: 10 }, (_, i) => signal(65 + i * 5));
+
+      const index = computeMarketIndex(signals, { now: NOW });
+
+      expect(index.momentum).toBeLessThan(50);
+      expect(index.velocity).toBeLessThan(0);
+    });
+
+    it("should score fresher buzz as more hype", () => {
+      const fresh = computeMarketIndex(Array.from({ length: 10 }, () => signal(1)), { now: NOW });
+      const stale = computeMarketIndex(Array.from({ length: 10 }, () => signal(90)), { now: NOW });
+
+      expect(fresh.hypeScore).toBeGreaterThan(stale.hypeScore);
+      expect(fresh.hypeScore).toBeLessThanOrEqual(100);
+    });
+
+    it("should drop bot noise and signals from the future", () => {
+      const bot = signal(5, { engagement: { likes: 100_000 } });
+      const future = signal(-5);
+      const real = signal(5);
+      const analyses = new Map([[bot.id, { is_bot_noise: true }]]);
+
+      const index = computeMarketIndex([bot, future, real], { now: NOW, analyses });
+
+      expect(index.signalCount).toBe(1);
+      expect(index.droppedCount).toBe(2);
+      expect(index.currentVolume).toBe(1);
+    });
+
+    it("should be deterministic for the same input", () => {
+      const signals = [signal(3, { engagement: { likes: 12 } }), signal(80, { source: "twitter" })];
+
+      expect(computeMarketIndex(signals, { now: NOW })).toEqual(computeMarketIndex(signals, { now: NOW }));
+    });
+  });
+
+  describe("filterBotNoise", () => {
+    it("should keep every signal without an analysis", () => {
+      const signals = [signal(1), signal(2)];
+
+      expect(filterBotNoise(signals)).toHaveLength(2);
+      expect(filterBotNoise(signals, new Map())).toHaveLength(2);
+    });
+  });
+
+  describe("toIndexSnapshot", () => {
+    it("should carry trading figures over and measure change against a day ago", () => {
+      const index = computeMarketIndex([signal(5), signal(10)], { now: NOW });
+      const latest = { change24h: 3, volumeUsd: 1200, participants: 40 };
+
+      const snapshot = toIndexSnapshot(2, index, latest, { momentum: index.momentum / 2 });
+      expect(snapshot).toEqual({
+        marketId: 2,
+        momentum: index.momentum,
+        change24h: 100,
+        volumeUsd: 1200,
+        participants: 40,
+        hypeScore: index.hypeScore,
+        capturedAt: new Date(NOW),
+      });
+
+      // No reading a day old yet: keep the last change
+      expect(toIndexSnapshot(2, index, latest, undefined).change24h).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TrpcContext } from "./_core/context";
+import type { Market, MarketCategory, MarketSnapshot } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  listMarketCategories: vi.fn(),
+  listMarkets: vi.fn(),
+  listMarketSnapshotsAfter: vi.fn(),
+}));
+
+import { listMarketCategories, listMarketSnapshotsAfter, listMarkets } from "./db";
+import { appRouter } from "./routers";
+import { formatTimeRemaining, formatVolume, toMarketSummary } from "./services/marketCatalog";
+import { publishTick, toMarketTick } from "./services/marketFeed";
+
+/**
+ * Test the market catalog router and summary shaping
+ * The database layer is mocked so these run without MySQL
+ */
+
+function createMockContext(): TrpcContext {
+  return {
+    user: null,
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: () => {},
+    } as TrpcContext["res"],
+  };
+}
+
+const category: MarketCategory = {
+  id: 1,
+  slug: "tech",
+  label: "TECH",
+  icon: "Code",
+  sortOrder: 1,
+  createdAt: new Date(),
+};
+
+const market: Market = {
+  id: 2,
+  slug: "openai-ipo-hype",
+  topic: "OpenAI IPO Hype",
+  categoryId: 1,
+  hypeSummary: "OpenAI IPO speculation reaches fever pitch.",
+  status: "active",
+  closesAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+function snapshot(momentum: number, minutesAgo: number): MarketSnapshot {
+  return {
+    id: minutesAgo,
+    marketId: market.id,
+    momentum,
+    change24h: 45.23,
+    volumeUsd: 1_200_000,
+    participants: 34521,
+    hypeScore: 98,
+    capturedAt: new Date(Date.now() - minutesAgo * 60_000),
+  };
+}
+
+describe("Market Catalog", () => {
+  describe("formatters", () => {
+    it("should format volume in compact dollars", () => {
+      expect(formatVolume(847_000)).toBe("$847K");
+      expect(formatVolume(1_200_000)).toBe("$1.2M");
+      expect(formatVolume(512)).toBe("$512");
+    });
+
+    it("should format time remaining until close", () => {
+      const now = Date.now();
+      expect(formatTimeRemaining(null, now)).toBeUndefined();
+      expect(formatTimeRemaining(new Date(now + 45 * 60_000), now)).toBe("45m");
+      expect(formatTimeRemaining(new Date(now + 154 * 60_000), now)).toBe("2h 34m");
+      expect(formatTimeRemaining(new Date(now - 60_000), now)).toBe("0m");
+    });
+  });
+
+  describe("toMarketSummary", () => {
+    it("should use the newest snapshot as the current state", () => {
+      const summary = toMarketSummary(market, category, [snapshot(94, 0), snapshot(80, 10), snapshot(85, 5)]);
+
+      expect(summary.id).toBe("2");
+      expect(summary.categorySlug).toBe("tech");
+      expect(summary.momentum).toBe(94);
+      expect(summary.change24h).toBe(45.2);
+      expect(summary.volume).toBe("$1.2M");
+      expect(summary.sparklineData).toEqual([80, 85, 94]);
+    });
+
+    it("should handle markets without snapshots", () => {
+      const summary = toMarketSummary(market, category, []);
+
+      expect(summary.momentum).toBe(0);
+      expect(summary.sparklineData).toEqual([]);
+      expect(summary.updatedAt).toBeNull();
+    });
+  });
+
+  describe("markets router", () => {
+    beforeEach(() => {
+      vi.mocked(listMarkets).mockResolvedValue([
+        { market, category, snapshots: [snapshot(94, 0)] },
+      ]);
+      vi.mocked(listMarketCategories).mockResolvedValue([category]);
+    });
+
+    it("should list categories for the navigation bar", async () => {
+      const caller = appRouter.createCaller(createMockContext());
+      const result = await caller.markets.categories();
+
+      expect(result).toEqual([{ id: "tech", label: "TECH", icon: "Code" }]);
+    });
+
+    it("should list market summaries", async () => {
+      const caller = appRouter.createCaller(createMockContext());
+      const result = await caller.markets.list();
+
+      expect(result).toHaveLength(1);
+      expect(result[0].topic).toBe("OpenAI IPO Hype");
+    });
+
+    it("should filter by category and search term", async () => {
+      const caller = appRouter.createCaller(createMockContext());
+
+      await caller.markets.byCategory({ category: "tech" });
+      expect(listMarkets).toHaveBeenLastCalledWith({ categorySlug: "tech" });
+
+      await caller.markets.search({ query: " openai " });
+      expect(listMarkets).toHaveBeenLastCalledWith({ search: "openai" });
+    });
+
+    it("should reject unknown market ids", async () => {
+      vi.mocked(listMarkets).mockResolvedValue([]);
+      const caller = appRouter.createCaller(createMockContext());
+
+      await expect(caller.markets.get({ id: "999" })).rejects.toThrow("not found");
+      await expect(caller.markets.get({ id: "abc" })).rejects.toThrow("not found");
+    });
+  });
+
+  describe("markets.onTick", () => {
+    // Give the subscription a turn to start listening before publishing
+    const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    it("should stream published ticks with resumable event ids", async () => {
+      const controller = new AbortController();
+      const caller = appRouter.createCaller(createMockContext(), { signal: controller.signal });
+      const stream = (await caller.markets.onTick())[Symbol.asyncIterator]();
+
+      const first = stream.next();
+      await flush();
+      publishTick(toMarketTick({ ...snapshot(91, 0), id: 500 }));
+      const market = await first;
+
+      const second = stream.next();
+      publishTick({ type: "vibe", marketId: "2", joy: 82, anxiety: 20, capturedAt: Date.now() });
+      const vibe = await second;
+      controller.abort();
+
+      // Tracked events are [id, data] envelopes on the server side
+      expect(market.value?.[0]).toBe("500");
+      expect(market.value?.[1]).toMatchObject({ type: "market", marketId: "2", momentum: 91, volume: "$1.2M" });
+      expect(vibe.value?.[0]).toBe("500-v1");
+      expect(vibe.value?.[1]).toMatchObject({ type: "vibe", joy: 82 });
+    });
+
+    it("should replay missed snapshots and filter by market on reconnect", async () => {
+      vi.mocked(listMarketSnapshotsAfter).mockResolvedValue([
+        { ...snapshot(88, 0), id: 501 },
+        { ...snapshot(50, 0), id: 502, marketId: 9 },
+        { ...snapshot(89, 0), id: 503 },
+      ]);
+      const controller = new AbortController();
+      const caller = appRouter.createCaller(createMockContext(), { signal: controller.signal });
+      const stream = (await caller.markets.onTick({ marketIds: ["2"], lastEventId: "500-v1" }))[Symbol.asyncIterator]();
+
+      const first = await stream.next();
+      const second = await stream.next();
+      controller.abort();
+
+      expect(listMarketSnapshotsAfter).toHaveBeenCalledWith(500);
+      expect([first.value?.[0], second.value?.[0]]).toEqual(["501", "503"]);
+    });
+  });
+});
@@ -0,0 +1,380 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createServer as createHttpServer, type Server } from "http";
+import { createServer as createTcpServer } from "net";
+import type { AddressInfo } from "net";
+import type { Notification, NotificationChannel, NotificationDelivery } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  claimDelivery: vi.fn(),
+  createNotifications: vi.fn(),
+  enqueueDeliveries: vi.fn(),
+  finishDeliveryAttempt: vi.fn(),
+  listDueDeliveries: vi.fn(),
+  listEnabledChannelsForUsers: vi.fn(),
+  listNotificationChannels: vi.fn(async () => []),
+  createNotificationChannel: vi.fn(),
+}));
+
+import {
+  claimDelivery,
+  createNotificationChannel,
+  createNotifications,
+  enqueueDeliveries,
+  finishDeliveryAttempt,
+  listDueDeliveries,
+  listEnabledChannelsForUsers,
+} from "./db";
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  SIGNATURE_HEADER,
+  SmtpError,
+  TIMESTAMP_HEADER,
+  isPrivateAddress,
+  notifyUsers,
+  postWebhook,
+  retryDelayMs,
+  sendMail,
+  verifyWebhookSignature,
+  type HostLookup,
+} from "./notifications";
+import type { TrpcContext } from "./_core/context";
+import { appRouter } from "./routers";
+import { processDueDeliveries } from "./workers/notifications";
+
+const NOW = Date.UTC(2026, 0, 1, 12, 0, 0);
+
+// Local test sinks pass the public-address check as if they were remote
+const publicLookup: HostLookup = async () => [{ address: "203.0.113.10" }];
+
+const notification: Notification = {
+  id: 11,
+  userId: 3,
+  alertEventId: 41,
+  marketId: 2,
+  severity: "critical",
+  title: "Volatility Trap: OpenAI IPO Hype",
+  body: "Anxiety at 82",
+  readAt: null,
+  createdAt: new Date(NOW),
+};
+
+const channel = (overrides: Partial<NotificationChannel> = {}): NotificationChannel => ({
+  id: 5,
+  userId: 3,
+  type: "webhook",
+  target: "http://127.0.0.1:1/hook",
+  secret: "whsec_test",
+  minSeverity: "info",
+  enabled: true,
+  createdAt: new Date(NOW),
+  updatedAt: new Date(NOW),
+  ...overrides,
+});
+
+interface Received {
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+/**
+ * Local HTTP sink answering every POST with the given status
+ */
+async function startHttpSink(status: number): Promise<{ url: string; received: Received[]; server: Server }> {
+  const received: Received[] = [];
+  const server = createHttpServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(status).end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}/hook`, received, server };
+}
+
+/**
+ * Minimal SMTP sink: greets, accepts every command and captures DATA
+ */
+async function startSmtpSink(rcptReply = "250 OK") {
+  const messages: string[] = [];
+  const server = createTcpServer(socket => {
+    let buffer = "";
+    let inData = false;
+    socket.write("220 sink ESMTP\r\n");
+    socket.on("data", chunk => {
+      buffer += chunk.toString();
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end === -1) return;
+        messages.push(buffer.slice(0, end));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write("250 Queued\r\n");
+      }
+      let newline: number;
+      while (!inData && (newline = buffer.indexOf("\r\n")) !== -1) {
+        const command = buffer.slice(0, newline).toUpperCase();
+        buffer = buffer.slice(newline + 2);
+        if (command.startsWith("EHLO")) socket.write("250-sink\r\n250 8BITMIME\r\n");
+        else if (command.startsWith("RCPT")) socket.write(`${rcptReply}\r\n`);
+        else if (command === "DATA") {
+          inData = true;
+          socket.write("354 End with <CRLF>.<CRLF>\r\n");
+        } else if (command === "QUIT") socket.end("221 Bye\r\n");
+        else socket.write("250 OK\r\n");
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `smtp://127.0.0.1:${port}`, messages, server };
+}
+
+const closeServer = (server: { close: (cb: () => void) => void }) =>
+  new Promise<void>(resolve => server.close(() => resolve()));
+
+describe("Notifications", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("Webhooks", () => {
+    it("should sign payloads so the receiver can verify them", async () => {
+      const sink = await startHttpSink(204);
+      try {
+        const result = await postWebhook(sink.url, "whsec_test", 9, { hello: "world" }, { now: NOW, lookupImpl: publicLookup });
+        expect(result).toEqual({ ok: true, status: 204, retryable: false, error: null });
+
+        const [{ headers, body }] = sink.received;
+        const timestamp = Number(headers[TIMESTAMP_HEADER.toLowerCase()]);
+        const signature = String(headers[SIGNATURE_HEADER.toLowerCase()]);
+        expect(JSON.parse(body)).toEqual({ hello: "world" });
+        expect(headers["x-attention-delivery"]).toBe("9");
+        expect(verifyWebhookSignature("whsec_test", timestamp, body, signature, { now: NOW })).toBe(true);
+        expect(verifyWebhookSignature("whsec_other", timestamp, body, signature, { now: NOW })).toBe(false);
+        expect(verifyWebhookSignature("whsec_test", timestamp, body, signature, { now: NOW + 10 * 60_000 })).toBe(false);
+      } finally {
+        await closeServer(sink.server);
+      }
+    });
+
+    it("should retry server errors but not client errors", async () => {
+      const failing = await startHttpSink(503);
+      const rejecting = await startHttpSink(400);
+      try {
+        expect(await postWebhook(failing.url, "s", 1, {}, { lookupImpl: publicLookup })).toMatchObject({ ok: false, status: 503, retryable: true });
+        expect(await postWebhook(rejecting.url, "s", 1, {}, { lookupImpl: publicLookup })).toMatchObject({ ok: false, status: 400, retryable: false });
+        expect(await postWebhook("http://127.0.0.1:1/closed", "s", 1, {}, { lookupImpl: publicLookup })).toMatchObject({ status: null, retryable: true });
+      } finally {
+        await closeServer(failing.server);
+        await closeServer(rejecting.server);
+      }
+    });
+
+    it("should classify loopback, link-local and private addresses", () => {
+      for (const address of ["127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "0.0.0.0", "::1", "fd00::1", "fe80::1", "::ffff:127.0.0.1", "64:ff9b::7f00:1", "2002:a9fe:a9fe::1"]) {
+        expect(isPrivateAddress(address), address).toBe(true);
+      }
+      for (const address of ["203.0.113.10", "8.8.8.8", "2606:4700::1111", "::ffff:8.8.8.8"]) {
+        expect(isPrivateAddress(address), address).toBe(false);
+      }
+    });
+
+    it("should refuse to deliver to private addresses without retrying", async () => {
+      const fetchImpl = vi.fn();
+
+      expect(await postWebhook("http://169.254.169.254/latest/meta-data", "s", 1, {}, { fetchImpl })).toMatchObject({
+        ok: false,
+        status: null,
+        retryable: false,
+      });
+      expect(await postWebhook("https://hooks.example.com/x", "s", 1, {}, {
+        fetchImpl,
+        lookupImpl: async () => [{ address: "203.0.113.10" }, { address: "10.0.0.5" }],
+      })).toMatchObject({ ok: false, retryable: false, error: expect.stringContaining("private") });
+      expect(fetchImpl).not.toHaveBeenCalled();
+    });
+
+    it("should connect to the checked address, not a fresh lookup", async () => {
+      const sink = await startHttpSink(204);
+      const port = new URL(sink.url).port;
+      // The check sees a public address; the system resolver would answer 127.0.0.1
+      const lookupImpl = vi.fn(publicLookup);
+      try {
+        const result = await postWebhook(`http://localhost:${port}/hook`, "s", 1, {}, { lookupImpl, timeoutMs: 500 });
+
+        expect(result).toMatchObject({ ok: false, status: null });
+        expect(lookupImpl).toHaveBeenCalledTimes(1);
+        expect(sink.received).toHaveLength(0);
+      } finally {
+        await closeServer(sink.server);
+      }
+    });
+
+    it("should reject webhook channels aimed at internal hosts", async () => {
+      const caller = appRouter.createCaller({
+        user: {
+          id: 3,
+          openId: "sample-user",
+          email: "sample@example.com",
+          name: "Sample User",
+          loginMethod: "manus",
+          role: "user",
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          lastSignedIn: new Date(),
+        },
+        req: { protocol: "https", headers: {} } as TrpcContext["req"],
+        res: { clearCookie: () => {} } as TrpcContext["res"],
+      });
+
+      for (const target of ["https://169.254.169.254/latest", "https://127.0.0.1:8080/admin", "https://[::1]/hook"]) {
+        await expect(caller.notifications.createChannel({ type: "webhook", target })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      }
+      expect(createNotificationChannel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("SMTP", () => {
+    it("should deliver a message to an SMTP server", async () => {
+      const sink = await startSmtpSink();
+      try {
+        const code = await sendMail(
+          { from: "alerts@localhost", to: "trader@example.com", subject: "Hype train", text: "Momentum 91\n.\nend" },
+          { url: sink.url }
+        );
+        expect(code).toBe(250);
+        expect(sink.messages).toHaveLength(1);
+        expect(sink.messages[0]).toContain("To: trader@example.com");
+        expect(sink.messages[0]).toContain("Subject: Hype train");
+        // A lone dot is stuffed so it cannot end the message early
+        expect(sink.messages[0]).toContain("\r\n..\r\n");
+      } finally {
+        await closeServer(sink.server);
+      }
+    });
+
+    it("should mark temporary rejections as retryable", async () => {
+      const sink = await startSmtpSink("451 Try again later");
+      try {
+        const error = await sendMail(
+          { from: "alerts@localhost", to: "trader@example.com", subject: "x", text: "y" },
+          { url: sink.url }
+        ).catch(error => error);
+        expect(error).toBeInstanceOf(SmtpError);
+        expect(error).toMatchObject({ code: 451, retryable: true });
+      } finally {
+        await closeServer(sink.server);
+      }
+    });
+  });
+
+  describe("notifyUsers", () => {
+    beforeEach(() => {
+      vi.mocked(createNotifications).mockImplementation(async rows =>
+        rows.map((row, index) => ({ ...notification, ...row, id: index + 1 }) as Notification)
+      );
+      vi.mocked(enqueueDeliveries).mockReset();
+    });
+
+    it("should queue deliveries only for channels accepting the severity", async () => {
+      vi.mocked(listEnabledChannelsForUsers).mockResolvedValue([
+        channel({ id: 1, minSeverity: "info" }),
+        channel({ id: 2, type: "email", target: "trader@example.com", minSeverity: "critical" }),
+        channel({ id: 3, userId: 99 }),
+      ]);
+
+      const queued = await notifyUsers(
+        [{ userId: 3, severity: "warning", title: "Hype Train: AI", body: "Momentum 91" }],
+        new Date(NOW)
+      );
+
+      expect(queued).toBe(1);
+      expect(enqueueDeliveries).toHaveBeenCalledWith([
+        { notificationId: 1, channelId: 1, userId: 3, nextAttemptAt: new Date(NOW) },
+      ]);
+    });
+  });
+
+  describe("Delivery worker", () => {
+    const delivery = (attempts: number): NotificationDelivery => ({
+      id: 21,
+      notificationId: notification.id,
+      channelId: 5,
+      userId: 3,
+      status: "pending",
+      attempts,
+      responseCode: null,
+      lastError: null,
+      nextAttemptAt: new Date(NOW),
+      deliveredAt: null,
+      createdAt: new Date(NOW),
+      updatedAt: new Date(NOW),
+    });
+
+    beforeEach(() => {
+      vi.mocked(claimDelivery).mockResolvedValue(true);
+      vi.mocked(finishDeliveryAttempt).mockReset();
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    it("should record successful deliveries", async () => {
+      const sink = await startHttpSink(200);
+      try {
+        vi.mocked(listDueDeliveries).mockResolvedValue([
+          { delivery: delivery(0), notification, channel: channel({ target: sink.url }) },
+        ]);
+
+        expect(await processDueDeliveries(NOW, { lookupImpl: publicLookup })).toBe(1);
+        expect(JSON.parse(sink.received[0].body).notification).toMatchObject({ id: 11, severity: "critical", marketId: "2" });
+        expect(finishDeliveryAttempt).toHaveBeenCalledWith(21, {
+          status: "delivered",
+          responseCode: 200,
+          lastError: null,
+          nextAttemptAt: null,
+          deliveredAt: new Date(NOW),
+        });
+      } finally {
+        await closeServer(sink.server);
+      }
+    });
+
+    it("should back off after failures and give up after the last attempt", async () => {
+      const fetchImpl = vi.fn(async () => new Response(null, { status: 502 }));
+
+      vi.mocked(listDueDeliveries).mockResolvedValue([{ delivery: delivery(1), notification, channel: channel() }]);
+      expect(await processDueDeliveries(NOW, { fetchImpl, lookupImpl: publicLookup })).toBe(0);
+      expect(finishDeliveryAttempt).toHaveBeenLastCalledWith(21, expect.objectContaining({
+        status: "pending",
+        responseCode: 502,
+        nextAttemptAt: new Date(NOW + retryDelayMs(2)),
+      }));
+      expect(retryDelayMs(2)).toBe(60_000);
+
+      vi.mocked(listDueDeliveries).mockResolvedValue([
+        { delivery: delivery(MAX_DELIVERY_ATTEMPTS - 1), notification, channel: channel() },
+      ]);
+      await processDueDeliveries(NOW, { fetchImpl, lookupImpl: publicLookup });
+      expect(finishDeliveryAttempt).toHaveBeenLastCalledWith(21, expect.objectContaining({
+        status: "failed",
+        nextAttemptAt: null,
+      }));
+    });
+
+    it("should fail deliveries to removed channels and skip ones claimed elsewhere", async () => {
+      const fetchImpl = vi.fn();
+      vi.mocked(listDueDeliveries).mockResolvedValue([
+        { delivery: delivery(0), notification, channel: null },
+        { delivery: { ...delivery(0), id: 22 }, notification, channel: channel() },
+      ]);
+      vi.mocked(claimDelivery).mockImplementation(async id => id === 21);
+
+      await processDueDeliveries(NOW, { fetchImpl, lookupImpl: publicLookup });
+      expect(fetchImpl).not.toHaveBeenCalled();
+      expect(finishDeliveryAttempt).toHaveBeenCalledTimes(1);
+      expect(finishDeliveryAttempt).toHaveBeenCalledWith(21, expect.objectContaining({ status: "failed" }));
+    });
+  });
+});
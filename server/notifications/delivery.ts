@@ -0,0 +1,94 @@
+/**
+ * Delivering one notification to one channel
+ * Pure of the database: callers pass the rows and persist the outcome.
+ */
+
+import type { AlertSeverity } from "@shared/alertRules";
+import type { Notification, NotificationChannel } from "../../drizzle/schema";
+import { SmtpError, sendMail } from "./smtp";
+import { postWebhook, type HostLookup } from "./webhook";
+
+// Attempts before a delivery is marked failed for good
+export const MAX_DELIVERY_ATTEMPTS = 6;
+const BASE_RETRY_MS = 30_000;
+const MAX_RETRY_MS = 60 * 60 * 1000;
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+export function meetsSeverity(severity: AlertSeverity, minimum: AlertSeverity): boolean {
+  return SEVERITY_RANK[severity] >= SEVERITY_RANK[minimum];
+}
+
+/**
+ * Wait before the next attempt: 30s, 1m, 2m, ... up to an hour
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_MS);
+}
+
+export interface DeliveryOutcome {
+  ok: boolean;
+  responseCode: number | null;
+  retryable: boolean;
+  error: string | null;
+}
+
+export interface DeliveryDeps {
+  smtpUrl: string;
+  smtpFrom: string;
+  fetchImpl?: typeof fetch;
+  lookupImpl?: HostLookup;
+  now?: number;
+}
+
+export function toWebhookPayload(notification: Notification) {
+  return {
+    type: "alert",
+    notification: {
+      id: notification.id,
+      severity: notification.severity,
+      title: notification.title,
+      body: notification.body,
+      marketId: notification.marketId === null ? null : String(notification.marketId),
+      createdAt: notification.createdAt.toISOString(),
+    },
+  };
+}
+
+export async function deliver(
+  channel: NotificationChannel,
+  notification: Notification,
+  deliveryId: number,
+  { smtpUrl, smtpFrom, fetchImpl, lookupImpl, now }: DeliveryDeps
+): Promise<DeliveryOutcome> {
+  if (channel.type === "webhook") {
+    const result = await postWebhook(channel.target, channel.secret ?? "", deliveryId, toWebhookPayload(notification), {
+      fetchImpl,
+      lookupImpl,
+      now,
+    });
+    return { ok: result.ok, responseCode: result.status, retryable: result.retryable, error: result.error };
+  }
+
+  if (!smtpUrl) {
+    return { ok: false, responseCode: null, retryable: false, error: "Email delivery is not configured (SMTP_URL)" };
+  }
+
+  try {
+    const code = await sendMail(
+      {
+        from: smtpFrom,
+        to: channel.target,
+        subject: `[${notification.severity.toUpperCase()}] ${notification.title}`,
+        text: `${notification.body}\n\n-- \nAttention Index alerts`,
+      },
+      { url: smtpUrl }
+    );
+    return { ok: true, responseCode: code, retryable: false, error: null };
+  } catch (error) {
+    if (error instanceof SmtpError) {
+      return { ok: false, responseCode: error.code, retryable: error.retryable, error: error.message };
+    }
+    throw error;
+  }
+}
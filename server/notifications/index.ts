@@ -0,0 +1,68 @@
+/**
+ * User notifications
+ * Every alert lands in the user's in-app inbox and is queued for each of
+ * their enabled channels (signed webhooks, SMTP email) that accepts its
+ * severity. The notification worker (server/workers/notifications.ts)
+ * works the queue, recording every attempt in notification_deliveries.
+ */
+
+import type { AlertSeverity } from "@shared/alertRules";
+import { createNotifications, enqueueDeliveries, listEnabledChannelsForUsers } from "../db";
+import { meetsSeverity } from "./delivery";
+
+export { MAX_DELIVERY_ATTEMPTS, deliver, meetsSeverity, retryDelayMs, toWebhookPayload, type DeliveryDeps, type DeliveryOutcome } from "./delivery";
+export { SmtpError, formatMessage, sendMail, type MailMessage } from "./smtp";
+export {
+  DELIVERY_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  UnsafeWebhookTargetError,
+  assertPublicWebhookTarget,
+  generateWebhookSecret,
+  isPrivateAddress,
+  postWebhook,
+  signWebhook,
+  verifyWebhookSignature,
+  type HostLookup,
+} from "./webhook";
+
+export interface NewNotification {
+  userId: number;
+  severity: AlertSeverity;
+  title: string;
+  body: string;
+  marketId?: number | null;
+  alertEventId?: number | null;
+}
+
+/**
+ * Put notifications in their users' inboxes and queue channel deliveries
+ * Returns the number of deliveries queued.
+ */
+export async function notifyUsers(items: NewNotification[], now: Date = new Date()): Promise<number> {
+  const created = await createNotifications(
+    items.map(item => ({
+      userId: item.userId,
+      severity: item.severity,
+      title: item.title.slice(0, 128),
+      body: item.body.slice(0, 1024),
+      marketId: item.marketId ?? null,
+      alertEventId: item.alertEventId ?? null,
+    }))
+  );
+
+  const channels = await listEnabledChannelsForUsers(Array.from(new Set(created.map(n => n.userId))));
+  const deliveries = created.flatMap(notification =>
+    channels
+      .filter(channel => channel.userId === notification.userId && meetsSeverity(notification.severity, channel.minSeverity))
+      .map(channel => ({
+        notificationId: notification.id,
+        channelId: channel.id,
+        userId: notification.userId,
+        nextAttemptAt: now,
+      }))
+  );
+
+  await enqueueDeliveries(deliveries);
+  return deliveries.length;
+}
@@ -0,0 +1,192 @@
+/**
+ * Signed webhook delivery
+ * Every POST carries an HMAC-SHA256 of "<timestamp>.<body>" under the
+ * channel's secret, so receivers can check the payload came from us and
+ * reject replays outside their tolerance:
+ *
+ *   X-Attention-Timestamp: 1767268800
+ *   X-Attention-Signature: sha256=<hex>
+ *   X-Attention-Delivery:  <delivery id, stable across retries>
+ *
+ * Targets must resolve to public addresses only, checked when a channel is
+ * created and again before every delivery, so users cannot aim webhooks at
+ * loopback, link-local or private services and read back their responses.
+ * A delivery connects to the addresses it checked rather than resolving the
+ * host again, so a rebinding DNS name cannot swap in a private one.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { Agent } from "undici";
+
+export const SIGNATURE_HEADER = "X-Attention-Signature";
+export const TIMESTAMP_HEADER = "X-Attention-Timestamp";
+export const DELIVERY_HEADER = "X-Attention-Delivery";
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Receiver-side check, also used by tests
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  { toleranceSeconds = 300, now = Date.now() } = {}
+): boolean {
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signWebhook(secret, timestamp, body));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  // Multicast, reserved and broadcast
+  ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  // NAT64 and 6to4 embed an IPv4 address that may itself be private
+  ["64:ff9b::", 96],
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export class UnsafeWebhookTargetError extends Error {
+  constructor(public hostname: string) {
+    super(`Webhook host ${hostname} resolves to a private, loopback or link-local address`);
+    this.name = "UnsafeWebhookTargetError";
+  }
+}
+
+/**
+ * Loopback, link-local, private and other non-public addresses
+ * Unparseable addresses count as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+export type HostLookup = (hostname: string) => Promise<Array<{ address: string }>>;
+
+const lookupAll: HostLookup = hostname => lookup(hostname, { all: true });
+
+/**
+ * Throws UnsafeWebhookTargetError unless every address of the URL's host is
+ * public, else returns them; lookup failures propagate as they are
+ */
+export async function assertPublicWebhookTarget(
+  url: string,
+  lookupImpl: HostLookup = lookupAll
+): Promise<Array<{ address: string }>> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  const addresses = await lookupImpl(hostname);
+  if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+    throw new UnsafeWebhookTargetError(hostname);
+  }
+  return addresses;
+}
+
+// Answers every lookup for the connection with the already-checked addresses
+function pinnedLookup(addresses: Array<{ address: string }>): LookupFunction {
+  const resolved = addresses.map(({ address }) => ({ address, family: isIP(address) }));
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, resolved);
+    } else {
+      callback(null, resolved[0].address, resolved[0].family);
+    }
+  };
+}
+
+export interface WebhookResult {
+  ok: boolean;
+  status: number | null;
+  /** Timeouts, network errors, 408, 429 and 5xx are retried; other 4xx are not */
+  retryable: boolean;
+  error: string | null;
+}
+
+export async function postWebhook(
+  url: string,
+  secret: string,
+  deliveryId: number,
+  payload: unknown,
+  {
+    fetchImpl = fetch,
+    lookupImpl = lookupAll,
+    timeoutMs = 10_000,
+    now = Date.now(),
+  }: { fetchImpl?: typeof fetch; lookupImpl?: HostLookup; timeoutMs?: number; now?: number } = {}
+): Promise<WebhookResult> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(now / 1000);
+
+  let dispatcher: Agent | null = null;
+  try {
+    // Checked per delivery: the host may have been re-pointed since the channel was created
+    const addresses = await assertPublicWebhookTarget(url, lookupImpl);
+    dispatcher = new Agent({ connect: { lookup: pinnedLookup(addresses) } });
+
+    const response = await fetchImpl(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "AttentionIndex-Webhooks/1.0",
+        [TIMESTAMP_HEADER]: String(timestamp),
+        [SIGNATURE_HEADER]: signWebhook(secret, timestamp, body),
+        [DELIVERY_HEADER]: String(deliveryId),
+      },
+      body,
+      signal: AbortSignal.timeout(timeoutMs),
+      redirect: "manual",
+      // Node's fetch takes an undici dispatcher; the DOM RequestInit type has no such field
+      dispatcher,
+    } as RequestInit);
+
+    if (response.ok) return { ok: true, status: response.status, retryable: false, error: null };
+
+    const retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+    return { ok: false, status: response.status, retryable, error: `Webhook responded with HTTP ${response.status}` };
+  } catch (error) {
+    if (error instanceof UnsafeWebhookTargetError) {
+      return { ok: false, status: null, retryable: false, error: error.message };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return { ok: false, status: null, retryable: true, error: `Webhook request failed: ${message}` };
+  } finally {
+    // Only the status is read; drop the connection with any unread body
+    await dispatcher?.destroy();
+  }
+}
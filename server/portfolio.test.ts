@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { Trade } from "../drizzle/schema";
+import { markToMomentum, summarizePortfolio } from "./services/portfolio";
+
+/**
+ * Test portfolio marks and P&L roll-up
+ */
+
+function trade(direction: Trade["direction"]): Trade {
+  return {
+    id: 1,
+    tradeRef: "TRD-TEST",
+    userId: 1,
+    marketId: 1,
+    direction,
+    duration: "1h",
+    stakeCents: 10_000,
+    entryMomentum: 80,
+    entrySnapshotId: 10,
+    estimatedReturnCents: 19_800,
+    shares: null,
+    entryPrice: null,
+    status: "open",
+    idempotencyKey: "test-key-1",
+    expiresAt: new Date(),
+    settledAt: null,
+    createdAt: new Date(),
+  };
+}
+
+describe("Portfolio", () => {
+  describe("markToMomentum", () => {
+    it("should mark a winning long at its settlement value", () => {
+      const mark = markToMomentum(trade("long"), 85);
+
+      expect(mark.markOutcome).toBe("win");
+      expect(mark.markValue).toBe(198);
+      expect(mark.unrealizedPnl).toBe(98);
+    });
+
+    it("should mark a losing short at minus the stake", () => {
+      const mark = markToMomentum(trade("short"), 85);
+
+      expect(mark.markOutcome).toBe("loss");
+      expect(mark.unrealizedPnl).toBe(-100);
+    });
+
+    it("should mark unchanged momentum flat", () => {
+      expect(markToMomentum(trade("long"), 80).unrealizedPnl).toBe(0);
+    });
+  });
+
+  describe("summarizePortfolio", () => {
+    it("should total P&L and compute win rate excluding pushes", () => {
+      const summary = summarizePortfolio(
+        [
+          { amount: 100, unrealizedPnl: 98 },
+          { amount: 50, unrealizedPnl: -50 },
+        ],
+        // One win (+49), one loss (-25) and one push
+        { settledCount: 3, wins: 1, losses: 1, realizedPnlCents: 2_400 }
+      );
+
+      expect(summary).toEqual({
+        openCount: 2,
+        openExposure: 150,
+        unrealizedPnl: 48,
+        settledCount: 3,
+        realizedPnl: 24,
+        winRate: 50,
+      });
+    });
+
+    it("should report no win rate before any decided trades", () => {
+      expect(summarizePortfolio([], { settledCount: 2, wins: 0, losses: 0, realizedPnlCents: 0 }).winRate).toBeNull();
+    });
+  });
+});
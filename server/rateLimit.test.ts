@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  takeRateLimitTokens: vi.fn(),
+}));
+
+import { takeRateLimitTokens } from "./db";
+import {
+  RateLimitExceededError,
+  budgetsFromEnv,
+  createMemoryStore,
+  createMysqlStore,
+  createRateLimiter,
+  planTake,
+  type BucketDemand,
+  type ProviderBudgets,
+  type RateLimitStore,
+} from "./rateLimit";
+
+/**
+ * Test the AI provider rate limiter
+ * A fake clock stands in for time: sleeping just moves it forward
+ */
+
+const MINUTE = 60_000;
+
+const demand = (overrides: Partial<BucketDemand> = {}): BucketDemand => ({
+  key: "gemini:requests",
+  capacity: 15,
+  refillPerMs: 15 / MINUTE,
+  cost: 1,
+  reserve: 0,
+  ...overrides,
+});
+
+const budgets = (overrides: Partial<ProviderBudgets> = {}): ProviderBudgets => ({
+  gemini: [{ unit: "requests", limit: 15, periodMs: MINUTE }],
+  llm: [{ unit: "requests", limit: 60, periodMs: MINUTE }],
+  hume: [{ unit: "requests", limit: 1, periodMs: 10_000 }],
+  elevenlabs: [{ unit: "characters", limit: 100, periodMs: 30 * 24 * 60 * MINUTE }],
+  ...overrides,
+});
+
+describe("Rate Limiter", () => {
+  let clock: number;
+  const now = () => clock;
+  const sleep = async (ms: number) => {
+    clock += ms;
+  };
+  const limiterWith = (store: RateLimitStore, overrides?: Partial<ProviderBudgets>) =>
+    createRateLimiter({ store, budgets: budgets(overrides), now, sleep });
+
+  beforeEach(() => {
+    clock = 0;
+    vi.mocked(takeRateLimitTokens).mockReset();
+  });
+
+  describe("planTake", () => {
+    it("should allow a full burst, then refill at limit per period", () => {
+      const full = planTake([demand({ cost: 15 })], new Map(), 0);
+      if (!full.ok) throw new Error("expected a full bucket");
+      const drained = full.next;
+
+      expect(planTake([demand()], drained, 0)).toEqual({ ok: false, retryAfterMs: 4000 });
+      expect(planTake([demand()], drained, 4000).ok).toBe(true);
+    });
+
+    it("should take from every bucket or none", () => {
+      const tokens = demand({ key: "gemini:tokens", capacity: 1000, refillPerMs: 1000 / MINUTE, cost: 1500 });
+
+      expect(planTake([demand(), tokens], new Map(), 0)).toEqual({ ok: false, retryAfterMs: Infinity });
+    });
+
+    it("should keep the reserve out of reach", () => {
+      const states = new Map([["gemini:requests", { tokens: 5, refilledAt: 0 }]]);
+
+      expect(planTake([demand({ cost: 3 })], states, 0).ok).toBe(true);
+      expect(planTake([demand({ cost: 3, reserve: 3 })], states, 0)).toEqual({ ok: false, retryAfterMs: 4000 });
+    });
+  });
+
+  describe("priority lanes", () => {
+    it("should serve interactive calls ahead of queued background calls", async () => {
+      const limiter = limiterWith(createMemoryStore());
+      const order: string[] = [];
+
+      await Promise.all([
+        limiter.acquire("hume", { requests: 1 }, "background").then(() => order.push("batch 1")),
+        limiter.acquire("hume", { requests: 1 }, "background").then(() => order.push("batch 2")),
+        limiter.acquire("hume", { requests: 1 }, "interactive").then(() => order.push("briefing")),
+      ]);
+
+      expect(order).toEqual(["batch 1", "briefing", "batch 2"]);
+      expect(clock).toBe(20_000);
+    });
+
+    it("should leave interactive headroom when another process drains the budget", async () => {
+      const shared = createMemoryStore();
+      const worker = limiterWith(shared);
+      const web = limiterWith(shared);
+
+      await worker.acquire("gemini", { requests: 12 }, "background");
+      await web.acquire("gemini", { requests: 3 }, "interactive");
+
+      expect(clock).toBe(0);
+    });
+  });
+
+  describe("budgets", () => {
+    it("should reject calls that cannot fit in time", async () => {
+      const limiter = limiterWith(createMemoryStore());
+
+      await expect(limiter.acquire("elevenlabs", { characters: 150 }, "interactive"))
+        .rejects.toThrow("elevenlabs request exceeds its budget");
+
+      await limiter.acquire("elevenlabs", { characters: 80 }, "interactive");
+      const error = await limiter.acquire("elevenlabs", { characters: 80 }, "interactive").catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitExceededError);
+      expect(error.retryAfterMs).toBeGreaterThan(MINUTE);
+    });
+
+    it("should read overrides from the environment", () => {
+      const fromEnv = budgetsFromEnv({ GEMINI_RPM: "30", ELEVENLABS_CHARS_PER_MONTH: "nope" });
+
+      expect(fromEnv.gemini[0].limit).toBe(30);
+      expect(fromEnv.elevenlabs[1].limit).toBe(100_000);
+    });
+  });
+
+  describe("MySQL store", () => {
+    it("should use the shared buckets when the database answers", async () => {
+      vi.mocked(takeRateLimitTokens).mockResolvedValue({ ok: false, retryAfterMs: 2500 });
+
+      const result = await createMysqlStore().take([demand()], 0);
+
+      expect(result).toEqual({ ok: false, retryAfterMs: 2500 });
+      expect(takeRateLimitTokens).toHaveBeenCalledWith([demand()], 0);
+    });
+
+    it("should fall back to a per-process store without a database", async () => {
+      vi.mocked(takeRateLimitTokens).mockResolvedValue(null);
+      const store = createMysqlStore();
+
+      expect(await store.take([demand({ cost: 15 })], 0)).toEqual({ ok: true });
+      expect(await store.take([demand()], 0)).toEqual({ ok: false, retryAfterMs: 4000 });
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Token bucket math
+ * A bucket starts full and refills continuously at capacity / period, so a
+ * budget of 15 requests per minute allows a burst of 15 and then one
+ * request every 4 seconds. planTake is pure so the memory and MySQL
+ * stores apply exactly the same rules.
+ */
+
+import type { BucketDemand, BucketState, RateLimitStore, TakeResult } from "./types";
+
+export function refill(state: BucketState | undefined, demand: BucketDemand, now: number): BucketState {
+  if (!state) return { tokens: demand.capacity, refilledAt: now };
+
+  const elapsed = Math.max(0, now - state.refilledAt);
+  return {
+    tokens: Math.min(demand.capacity, state.tokens + elapsed * demand.refillPerMs),
+    refilledAt: Math.max(now, state.refilledAt),
+  };
+}
+
+export type TakePlan =
+  | { ok: true; next: Map<string, BucketState> }
+  | { ok: false; retryAfterMs: number };
+
+/**
+ * Decide whether every demand can be met now. On success returns the new
+ * bucket levels; otherwise how long until the scarcest bucket has refilled
+ * enough (Infinity when a demand can never fit).
+ */
+export function planTake(
+  demands: BucketDemand[],
+  states: Map<string, BucketState>,
+  now: number
+): TakePlan {
+  const next = new Map<string, BucketState>();
+  let retryAfterMs = 0;
+
+  for (const demand of demands) {
+    const state = refill(states.get(demand.key), demand, now);
+    const needed = demand.cost + demand.reserve;
+
+    if (needed > demand.capacity) {
+      return { ok: false, retryAfterMs: Infinity };
+    }
+    if (state.tokens < needed) {
+      retryAfterMs = Math.max(retryAfterMs, Math.ceil((needed - state.tokens) / demand.refillPerMs));
+    }
+    next.set(demand.key, { tokens: state.tokens - demand.cost, refilledAt: state.refilledAt });
+  }
+
+  return retryAfterMs > 0 ? { ok: false, retryAfterMs } : { ok: true, next };
+}
+
+// Per-process store, used when there is no database
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, BucketState>();
+
+  return {
+    async take(demands, now): Promise<TakeResult> {
+      const plan = planTake(demands, buckets, now);
+      if (!plan.ok) return plan;
+
+      plan.next.forEach((state, key) => buckets.set(key, state));
+      return { ok: true };
+    },
+  };
+}
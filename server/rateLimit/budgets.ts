@@ -0,0 +1,51 @@
+/**
+ * Per-provider budgets
+ * Defaults follow the plans the platform runs on (Gemini Free Tier,
+ * ElevenLabs Creator); each number can be overridden from the environment,
+ * e.g. GEMINI_RPM=30 or ELEVENLABS_CHARS_PER_MONTH=500000.
+ */
+
+import type { BudgetLimit, ProviderBudgets, RateLimitedProvider } from "./types";
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+const MONTH = 30 * DAY;
+
+// Share of every bucket background work must leave for interactive calls
+export const BACKGROUND_RESERVE = 0.2;
+
+type Env = Record<string, string | undefined>;
+
+function limitFromEnv(env: Env, name: string, fallback: number): number {
+  const value = Number(env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function budgetsFromEnv(env: Env = process.env): ProviderBudgets {
+  return {
+    gemini: [
+      { unit: "requests", limit: limitFromEnv(env, "GEMINI_RPM", 15), periodMs: MINUTE },
+      { unit: "tokens", limit: limitFromEnv(env, "GEMINI_TOKENS_PER_DAY", 1_000_000), periodMs: DAY },
+    ],
+    llm: [
+      { unit: "requests", limit: limitFromEnv(env, "LLM_RPM", 60), periodMs: MINUTE },
+      { unit: "tokens", limit: limitFromEnv(env, "LLM_TOKENS_PER_DAY", 2_000_000), periodMs: DAY },
+    ],
+    hume: [
+      { unit: "requests", limit: limitFromEnv(env, "HUME_RPM", 50), periodMs: MINUTE },
+    ],
+    elevenlabs: [
+      { unit: "requests", limit: limitFromEnv(env, "ELEVENLABS_RPM", 20), periodMs: MINUTE },
+      { unit: "characters", limit: limitFromEnv(env, "ELEVENLABS_CHARS_PER_MONTH", 100_000), periodMs: MONTH },
+    ],
+  };
+}
+
+export function bucketKey(provider: RateLimitedProvider, limit: BudgetLimit): string {
+  return `${provider}:${limit.unit}`;
+}
+
+// Rough model token count: ~4 characters per token in English text
+export function estimateTokens(text: string, responseTokens = 0): number {
+  return Math.ceil(text.length / 4) + responseTokens;
+}
@@ -0,0 +1,41 @@
+/**
+ * AI provider rate limiting
+ * getRateLimiter() is what the Gemini, invokeLLM, Hume and ElevenLabs
+ * services call before talking to their APIs. RATE_LIMIT_STORE picks where
+ * bucket levels live: mysql, memory, or auto (mysql when DATABASE_URL is set).
+ */
+
+import { ENV } from "../_core/env";
+import { createMemoryStore } from "./buckets";
+import { budgetsFromEnv } from "./budgets";
+import { createRateLimiter, type RateLimiter } from "./limiter";
+import { createMysqlStore } from "./mysqlStore";
+import type { RateLimitStore } from "./types";
+
+export * from "./types";
+export { createMemoryStore, planTake, refill } from "./buckets";
+export { BACKGROUND_RESERVE, budgetsFromEnv, estimateTokens } from "./budgets";
+export { MAX_WAIT_MS, RateLimitExceededError, createRateLimiter, type RateLimiter } from "./limiter";
+export { createMysqlStore } from "./mysqlStore";
+
+export function createRateLimitStore(setting: string, databaseUrl: string): RateLimitStore {
+  const useMysql = setting === "mysql" || (setting !== "memory" && Boolean(databaseUrl));
+  return useMysql ? createMysqlStore() : createMemoryStore();
+}
+
+let limiter: RateLimiter | null = null;
+
+export function getRateLimiter(): RateLimiter {
+  if (!limiter) {
+    limiter = createRateLimiter({
+      store: createRateLimitStore(ENV.rateLimitStore, ENV.databaseUrl),
+      budgets: budgetsFromEnv(),
+    });
+  }
+  return limiter;
+}
+
+// Swap the limiter (tests), or pass null to rebuild it from the environment
+export function setRateLimiter(next: RateLimiter | null): void {
+  limiter = next;
+}
@@ -0,0 +1,153 @@
+/**
+ * Rate limiter with priority lanes
+ * Calls wait per provider in two lanes: interactive ahead of background,
+ * first come first served within a lane. The head of the queue polls the
+ * store until its buckets have room, so limits kept in a shared store hold
+ * across processes. Background calls also leave BACKGROUND_RESERVE of
+ * every bucket untouched, which keeps interactive headroom even when
+ * another process is busy with batch analysis.
+ */
+
+import { BACKGROUND_RESERVE, bucketKey } from "./budgets";
+import type {
+  BucketDemand,
+  Priority,
+  ProviderBudgets,
+  RateLimitStore,
+  RateLimitedProvider,
+  Usage,
+} from "./types";
+
+export class RateLimitExceededError extends Error {
+  constructor(
+    public provider: RateLimitedProvider,
+    public retryAfterMs: number
+  ) {
+    super(Number.isFinite(retryAfterMs)
+      ? `${provider} rate limit reached, retry in ${Math.ceil(retryAfterMs / 1000)}s`
+      : `${provider} request exceeds its budget`);
+    this.name = "RateLimitExceededError";
+  }
+}
+
+// Longest a call may queue before it is rejected
+export const MAX_WAIT_MS: Record<Priority, number> = {
+  interactive: 30_000,
+  background: 5 * 60_000,
+};
+
+// Re-check at least this often so other processes and new interactive
+// callers are noticed while the head of the queue is waiting
+const MAX_POLL_MS = 1000;
+
+export interface RateLimiterOptions {
+  store: RateLimitStore;
+  budgets: ProviderBudgets;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface RateLimiter {
+  /** Resolves once the usage has been taken from the provider's budgets. */
+  acquire(provider: RateLimitedProvider, usage: Usage, priority?: Priority): Promise<void>;
+  /** acquire, then run fn. */
+  schedule<T>(provider: RateLimitedProvider, usage: Usage, priority: Priority, fn: () => Promise<T>): Promise<T>;
+}
+
+interface Waiter {
+  usage: Usage;
+  priority: Priority;
+  enqueuedAt: number;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+export function createRateLimiter({
+  store,
+  budgets,
+  now = Date.now,
+  sleep = ms => new Promise(resolve => setTimeout(resolve, ms)),
+}: RateLimiterOptions): RateLimiter {
+  const queues = new Map<RateLimitedProvider, Waiter[]>();
+  const pumping = new Set<RateLimitedProvider>();
+
+  function demandsFor(provider: RateLimitedProvider, waiter: Waiter): BucketDemand[] {
+    return budgets[provider]
+      .filter(limit => (waiter.usage[limit.unit] ?? 0) > 0)
+      .map(limit => ({
+        key: bucketKey(provider, limit),
+        capacity: limit.limit,
+        refillPerMs: limit.limit / limit.periodMs,
+        cost: waiter.usage[limit.unit] ?? 0,
+        reserve: waiter.priority === "background" ? Math.floor(limit.limit * BACKGROUND_RESERVE) : 0,
+      }));
+  }
+
+  async function pump(provider: RateLimitedProvider) {
+    if (pumping.has(provider)) return;
+    pumping.add(provider);
+
+    try {
+      const queue = queues.get(provider) ?? [];
+      while (queue.length > 0) {
+        const waiter = queue[0];
+        // An interactive caller may jump the queue while the store is busy
+        const dequeue = () => queue.splice(queue.indexOf(waiter), 1);
+
+        let result;
+        try {
+          result = await store.take(demandsFor(provider, waiter), now());
+        } catch (error) {
+          dequeue();
+          waiter.reject(error);
+          continue;
+        }
+
+        if (result.ok) {
+          dequeue();
+          waiter.resolve();
+          continue;
+        }
+
+        const waited = now() - waiter.enqueuedAt;
+        if (waited + result.retryAfterMs > MAX_WAIT_MS[waiter.priority]) {
+          dequeue();
+          waiter.reject(new RateLimitExceededError(provider, result.retryAfterMs));
+          continue;
+        }
+
+        await sleep(Math.min(result.retryAfterMs, MAX_POLL_MS));
+      }
+    } finally {
+      pumping.delete(provider);
+    }
+  }
+
+  function acquire(provider: RateLimitedProvider, usage: Usage, priority: Priority = "background"): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const queue = queues.get(provider) ?? [];
+      queues.set(provider, queue);
+
+      const waiter: Waiter = { usage, priority, enqueuedAt: now(), resolve, reject };
+      // Interactive callers go in front of every queued background call
+      const firstBackground = priority === "interactive"
+        ? queue.findIndex(queued => queued.priority === "background")
+        : -1;
+      if (firstBackground === -1) {
+        queue.push(waiter);
+      } else {
+        queue.splice(firstBackground, 0, waiter);
+      }
+
+      void pump(provider);
+    });
+  }
+
+  return {
+    acquire,
+    async schedule(provider, usage, priority, fn) {
+      await acquire(provider, usage, priority);
+      return fn();
+    },
+  };
+}
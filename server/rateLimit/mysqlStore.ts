@@ -0,0 +1,19 @@
+/**
+ * MySQL-backed bucket store
+ * Bucket levels live in rate_limit_buckets so every server process draws
+ * from the same budget. If the database goes away the limits still hold
+ * per process through a memory store.
+ */
+
+import { takeRateLimitTokens } from "../db";
+import { createMemoryStore } from "./buckets";
+import type { RateLimitStore } from "./types";
+
+export function createMysqlStore(fallback: RateLimitStore = createMemoryStore()): RateLimitStore {
+  return {
+    async take(demands, now) {
+      const result = await takeRateLimitTokens(demands, now);
+      return result ?? fallback.take(demands, now);
+    },
+  };
+}
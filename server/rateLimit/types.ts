@@ -0,0 +1,49 @@
+/**
+ * Rate limiter contracts
+ * Every AI provider call takes tokens from one or more buckets first: one
+ * per budget (requests per minute, model tokens per day, TTS characters per
+ * month). A store holds the bucket levels; the MySQL store shares them
+ * between server processes, the memory store keeps them per process.
+ */
+
+export type RateLimitedProvider = "gemini" | "llm" | "hume" | "elevenlabs";
+
+export type UsageUnit = "requests" | "tokens" | "characters";
+
+/** Interactive calls (briefings, clicks) go ahead of background batch work. */
+export type Priority = "interactive" | "background";
+
+export type Usage = Partial<Record<UsageUnit, number>>;
+
+export interface BudgetLimit {
+  unit: UsageUnit;
+  /** Bucket capacity: the most that can be spent in one period. */
+  limit: number;
+  periodMs: number;
+}
+
+export type ProviderBudgets = Record<RateLimitedProvider, BudgetLimit[]>;
+
+export interface BucketState {
+  tokens: number;
+  /** Epoch ms the level was last brought up to date. */
+  refilledAt: number;
+}
+
+/** What one call needs from one bucket. */
+export interface BucketDemand {
+  /** e.g. "gemini:requests" */
+  key: string;
+  capacity: number;
+  refillPerMs: number;
+  cost: number;
+  /** Tokens that must stay in the bucket after the take. */
+  reserve: number;
+}
+
+export type TakeResult = { ok: true } | { ok: false; retryAfterMs: number };
+
+export interface RateLimitStore {
+  /** Take every demand or none of them. */
+  take(demands: BucketDemand[], now: number): Promise<TakeResult>;
+}
@@ -1,26 +1,198 @@
+import { ALERT_METRICS, ALERT_OPERATORS, ALERT_SEVERITIES, DEFAULT_ALERT_RULES, type AlertConditionGroup } from "@shared/alertRules";
+import { BRIEFING_LANGUAGES } from "@shared/briefingLanguages";
 import { COOKIE_NAME } from "@shared/const";
+import { DEFAULT_VOICE, VOICE_MODELS, VOICE_SETTING_RANGES } from "@shared/voiceSettings";
+import { TRPCError, tracked } from "@trpc/server";
 import { z } from "zod";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, router } from "./_core/trpc";
-import { analyzeSignal, analyzeBatchSignals, generateMarketStrategy, generateBriefingText, generateLiveHypeBriefing, type RawSignal, type MarketBriefingData } from "./services/gemini";
+import { adminProcedure, protectedProcedure, publicProcedure, router } from "./_core/trpc";
+import { fromCents, toCents } from "@shared/money";
+import { applyLedgerTransaction, countAlertRulesForUser, countSignalsBySource, createAlertRule, createTrade, deleteAlertRule, getAmmPool, getBalance, getLatestMarketSnapshot, getLatestMarketSnapshots, getMarketSnapshotById, getSettlementTotals, getTradeByRef, getTradeWithSettlement, getSignalById, listMarketCategories, listMarkets, listConnectorCursors, listAlertEventsForUser, listAlertRulesForUser, listLedgerEntriesForUser, listRecentSignals, listSignalsForMarket, listMarketSnapshotsAfter, listMarketSnapshotsBetween, listMarketSnapshotsSince, listSettledTradesForUser, listTradesForUser, listVibeSnapshots, recordVibeSnapshot, updateAlertRule, countUnreadNotifications, createNotificationChannel, deleteNotificationChannel, listDeliveriesForUser, listNotificationChannels, listNotificationsForUser, markNotificationsRead, updateNotificationChannel, createWatchlist, deleteWatchlist, listWatchlists, renameWatchlist, reorderWatchlists, updateWatchlistMarkets, getBriefingForUser, listBriefingsForUser, createBriefingSchedule, deleteBriefingSchedule, getPodcastFeedForUser, listBriefingSchedulesForUser, setPodcastFeedToken, updateBriefingSchedule, getVoicePreferences, listVoiceProfiles, saveVoicePreferences, setVoiceProfileEnabled } from "./db";
+import { parseMarketId, toMarketSummary } from "./services/marketCatalog";
+import { listenForTicks, toMarketTick, type FeedTick } from "./services/marketFeed";
+import { computeExpiry, estimateReturnCents, generateTradeRef, toTradeView } from "./services/trading";
+import { replaySettlement } from "./services/settlement";
+import { SlippageExceededError, quoteTrade } from "./services/amm";
+import { summarizeSources, toRawSignal, toSignalView } from "./services/signalFeed";
+import { routeSignals } from "./workers/ingestion";
+import { createConnectors } from "./connectors";
+import { summarizePortfolio, toOpenPosition, toSettledPosition } from "./services/portfolio";
+import {
+  InsufficientFundsError,
+  MAX_DEPOSIT_CENTS,
+  MAX_WITHDRAWAL_CENTS,
+  MIN_TRANSFER_CENTS,
+  buildDeposit,
+  buildWithdrawal,
+} from "./services/wallet";
+import { analyzeSignalsWithReport, generateMarketStrategy, generateBriefingText, generateLiveHypeBriefing, type RawSignal, type MarketBriefingData } from "./services/gemini";
 import { analyzeMarketVibe, analyzeTextVibe, generateVibeAlert } from "./services/hume";
-import { generateAlphaBriefing, generateLiveHypeBriefing as generateAudioBriefing, type MarketBriefing, type VoiceOption, getVoiceOptions } from "./services/elevenlabs";
+import { buildVibeHistory, rangeStart } from "./services/vibeHistory";
+import { MAX_SUSTAINED_MINUTES, toAlertRuleView } from "./services/alerts";
+import { UnsafeWebhookTargetError, assertPublicWebhookTarget, generateWebhookSecret } from "./notifications";
+import { archiveBriefing, briefingAudioUrl, toBriefingSummary } from "./services/briefingArchive";
+import { createBriefingStream } from "./services/briefingStream";
+import { isValidTimeZone, nextRunAt, toScheduleView } from "./services/briefingSchedule";
+import { generateFeedToken, podcastFeedUrl, requestOrigin } from "./services/podcastFeed";
+import { UnknownVoiceError, listVoiceOptions, resolveSpeech, syncVoiceLibrary, toVoicePreferences, toVoiceProfileView } from "./services/voiceProfiles";
+import { toChannelView, toNotificationView } from "./services/notificationViews";
+import {
+  DEFAULT_WATCHLIST_NAME,
+  MAX_WATCHLISTS,
+  MAX_WATCHLIST_MARKETS,
+  WatchlistFullError,
+  addMarket,
+  applyOrder,
+  removeMarket,
+  toWatchlistView,
+  toggleMarket,
+} from "./services/watchlists";
+import { ENV } from "./_core/env";
+import { RateLimitExceededError } from "./rateLimit";
+import { getAnalysisCache } from "./cache";
+import { generateAlphaBriefing, generateLiveHypeBriefing as generateAudioBriefing, type MarketBriefing } from "./services/elevenlabs";
 
 // Market selection schema
 const marketSelectionSchema = z.object({
   marketId: z.string(),
-  topic: z.string(),
-  category: z.string(),
-  momentum: z.number(),
-  change24h: z.number(),
-  volume: z.string(),
-  hypeScore: z.number(),
   direction: z.enum(["long", "short"]),
   duration: z.enum(["30m", "1h", "3h"]),
   amount: z.number().min(1),
+  // Generated once per trade intent so retries and double-clicks are deduplicated
+  idempotencyKey: z.string().min(8).max(64),
+  // Highest average price per share the user accepts (quote plus tolerance)
+  maxPrice: z.number().positive().max(1).optional(),
 });
 
+const liveBriefingSchema = z.object({
+  markets: z.array(
+    z.object({
+      topic: z.string(),
+      momentum: z.number(),
+      change24h: z.number(),
+      volume: z.string(),
+      hypeScore: z.number(),
+      hypeSummary: z.string().optional(),
+    })
+  ),
+  // Voice profile id; the user's saved voice when omitted
+  voice: z.string().max(32).optional(),
+  // Language of the script and the speech
+  language: z.enum(BRIEFING_LANGUAGES).optional().default("en"),
+});
+
+const quoteSchema = z.object({
+  marketId: z.string(),
+  direction: z.enum(["long", "short"]),
+  duration: z.enum(["30m", "1h", "3h"]),
+  amount: z.number().min(1),
+});
+
+// Alert rule conditions (see shared/alertRules.ts)
+const alertConditionSchema = z
+  .object({
+    metric: z.enum(ALERT_METRICS),
+    operator: z.enum(ALERT_OPERATORS),
+    value: z.number(),
+    sustainedMinutes: z.number().int().min(1).max(MAX_SUSTAINED_MINUTES).optional(),
+  })
+  .refine(condition => !condition.sustainedMinutes || !condition.operator.startsWith("crosses"), {
+    message: "sustainedMinutes only applies to above/below",
+  });
+
+const alertGroupSchema: z.ZodType<AlertConditionGroup> = z.lazy(() =>
+  z.object({
+    op: z.enum(["and", "or"]),
+    conditions: z.array(z.union([alertConditionSchema, alertGroupSchema])).min(1).max(10),
+  })
+);
+
+const alertRuleFields = z.object({
+  name: z.string().trim().min(1).max(64),
+  // Null applies the rule to every market
+  marketId: z.string().nullable(),
+  severity: z.enum(ALERT_SEVERITIES),
+  when: alertGroupSchema,
+  cooldownMinutes: z.number().int().min(1).max(24 * 60),
+  intensityMetric: z.enum(ALERT_METRICS),
+  message: z.string().trim().max(255).nullable(),
+});
+
+// Per user, so evaluating every rule on every tick stays cheap
+const MAX_ALERT_RULES = 50;
+const MAX_NOTIFICATION_CHANNELS = 10;
+const MAX_BRIEFING_SCHEDULES = 5;
+
+const voicePreferencesSchema = z.object({
+  voice: z.string().min(1).max(32),
+  model: z.enum(VOICE_MODELS),
+  speed: z.number().min(VOICE_SETTING_RANGES.speed.min).max(VOICE_SETTING_RANGES.speed.max),
+  stability: z.number().min(VOICE_SETTING_RANGES.stability.min).max(VOICE_SETTING_RANGES.stability.max),
+  similarity: z.number().min(VOICE_SETTING_RANGES.similarity.min).max(VOICE_SETTING_RANGES.similarity.max),
+});
+
+// Briefing schedules; defaults live on createSchedule so updates stay partial
+const briefingScheduleFields = z.object({
+  cadence: z.enum(["daily", "hourly"]),
+  hour: z.number().int().min(0).max(23),
+  minute: z.number().int().min(0).max(59),
+  timezone: z.string().max(64).refine(isValidTimeZone, { message: "Unknown time zone" }),
+  voice: z.string().min(1).max(32),
+  language: z.enum(BRIEFING_LANGUAGES),
+  watchlistId: z.number().int().nullable(),
+  enabled: z.boolean(),
+});
+
+async function findMarket(marketId: string) {
+  const id = parseMarketId(marketId);
+  const [row] = id ? await listMarkets({ marketId: id }) : [];
+  return row;
+}
+
+async function resolveMarket(marketId: string): Promise<number> {
+  const row = await findMarket(marketId);
+  if (!row) {
+    throw new TRPCError({ code: "NOT_FOUND", message: `Market ${marketId} not found` });
+  }
+  return row.market.id;
+}
+
+async function assertOwnWatchlist(userId: number, watchlistId: number | null | undefined) {
+  if (watchlistId === null || watchlistId === undefined) return;
+  if (!(await listWatchlists(userId)).some(list => list.id === watchlistId)) {
+    throw new TRPCError({ code: "NOT_FOUND", message: `Watchlist ${watchlistId} not found` });
+  }
+}
+
+// The voice and saved settings to speak a briefing with
+function resolveBriefingSpeech(userId: number | null, voice?: string) {
+  return resolveSpeech(userId, voice).catch(error => {
+    if (error instanceof UnknownVoiceError) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+    }
+    throw error;
+  });
+}
+
+async function resolveRuleMarket(marketId: string | null): Promise<number | null> {
+  return marketId === null ? null : resolveMarket(marketId);
+}
+
+// Apply a market edit to one of the user's watchlists
+async function editWatchlist(userId: number, id: number, edit: (marketIds: number[]) => number[]) {
+  const row = await updateWatchlistMarkets(userId, id, edit).catch(error => {
+    if (error instanceof WatchlistFullError) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+    }
+    throw error;
+  });
+  if (!row) {
+    throw new TRPCError({ code: "NOT_FOUND", message: `Watchlist ${id} not found` });
+  }
+  return toWatchlistView(row);
+}
+
 export const appRouter = router({
   system: systemRouter,
   auth: router({
@@ -34,74 +206,824 @@ export const appRouter = router({
     }),
   }),
 
-  // Trading Router
-  trading: router({
-    // Select a market for trading
-    selectMarket: publicProcedure
+  // Market Catalog Router
+  markets: router({
+    // Category tabs for the navigation bar
+    categories: publicProcedure.query(async () => {
+      const categories = await listMarketCategories();
+      return categories.map(c => ({ id: c.slug, label: c.label, icon: c.icon }));
+    }),
+
+    // All active markets with their latest snapshot and sparkline history
+    list: publicProcedure.query(async () => {
+      const rows = await listMarkets();
+      return rows.map(row => toMarketSummary(row.market, row.category, row.snapshots));
+    }),
+
+    get: publicProcedure
+      .input(z.object({ id: z.string() }))
+      .query(async ({ input }) => {
+        const marketId = parseMarketId(input.id);
+        const [row] = marketId ? await listMarkets({ marketId }) : [];
+        if (!row) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Market ${input.id} not found` });
+        }
+        return toMarketSummary(row.market, row.category, row.snapshots);
+      }),
+
+    byCategory: publicProcedure
+      .input(z.object({ category: z.string() }))
+      .query(async ({ input }) => {
+        const rows = await listMarkets({ categorySlug: input.category });
+        return rows.map(row => toMarketSummary(row.market, row.category, row.snapshots));
+      }),
+
+    search: publicProcedure
+      .input(z.object({ query: z.string().trim().min(1).max(100) }))
+      .query(async ({ input }) => {
+        const rows = await listMarkets({ search: input.query });
+        return rows.map(row => toMarketSummary(row.market, row.category, row.snapshots));
+      }),
+
+    // Live momentum, volume, hype and vibe ticks over SSE
+    // Event ids start with the last snapshot id sent ("1234", or "1234-v2"
+    // for a vibe tick after it), so a reconnecting client is replayed every
+    // snapshot it missed before live ticks resume
+    onTick: publicProcedure
+      .input(
+        z.object({
+          marketIds: z.array(z.string()).optional(),
+          lastEventId: z.string().nullish(),
+        }).optional()
+      )
+      .subscription(async function* ({ input, signal }) {
+        const wanted = input?.marketIds ? new Set(input.marketIds) : null;
+        // Listen before replaying so nothing published meanwhile is lost
+        const live = listenForTicks(signal);
+
+        let cursor = parseInt(input?.lastEventId ?? "", 10) || 0;
+        let vibeCount = 0;
+
+        if (cursor > 0) {
+          for (const snapshot of await listMarketSnapshotsAfter(cursor)) {
+            cursor = snapshot.id;
+            if (wanted && !wanted.has(String(snapshot.marketId))) continue;
+            yield tracked(String(cursor), toMarketTick(snapshot) as FeedTick);
+          }
+        }
+
+        for await (const tick of live) {
+          if (tick.type === "market") {
+            if (tick.snapshotId <= cursor) continue;
+            cursor = tick.snapshotId;
+            vibeCount = 0;
+          }
+          if (wanted && !wanted.has(tick.marketId)) continue;
+
+          const id = tick.type === "market" ? String(cursor) : `${cursor}-v${++vibeCount}`;
+          yield tracked(id, tick);
+        }
+      }),
+  }),
+
+  // Sentiment over time
+  vibe: router({
+    // Joy/anxiety and momentum per window, with streak and regime metrics
+    history: publicProcedure
       .input(
         z.object({
           marketId: z.string(),
-          topic: z.string(),
-          category: z.string(),
-          momentum: z.number(),
-          change24h: z.number(),
-          volume: z.string(),
-          hypeScore: z.number(),
+          range: z.enum(["1h", "6h", "24h", "7d"]).default("24h"),
+        })
+      )
+      .query(async ({ input }) => {
+        const marketId = parseMarketId(input.marketId);
+        if (!marketId) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Market ${input.marketId} not found` });
+        }
+
+        const now = Date.now();
+        const since = new Date(rangeStart(input.range, now));
+        const [vibes, snapshots] = await Promise.all([
+          listVibeSnapshots(marketId, since),
+          listMarketSnapshotsSince(marketId, since),
+        ]);
+        return buildVibeHistory(vibes, snapshots, input.range, now);
+      }),
+  }),
+
+  // Alert rules over momentum, change24h, hypeScore, joy and anxiety
+  alerts: router({
+    // Built-in rules behind the Volatility Trap and Hype Train badges
+    defaults: publicProcedure.query(() => DEFAULT_ALERT_RULES),
+
+    rules: protectedProcedure.query(async ({ ctx }) => {
+      const rows = await listAlertRulesForUser(ctx.user.id);
+      return rows.map(toAlertRuleView);
+    }),
+
+    createRule: protectedProcedure
+      .input(
+        alertRuleFields.extend({
+          marketId: alertRuleFields.shape.marketId.default(null),
+          severity: alertRuleFields.shape.severity.default("warning"),
+          cooldownMinutes: alertRuleFields.shape.cooldownMinutes.default(15),
+          message: alertRuleFields.shape.message.default(null),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        if ((await countAlertRulesForUser(ctx.user.id)) >= MAX_ALERT_RULES) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: `At most ${MAX_ALERT_RULES} alert rules per user` });
+        }
+
+        const row = await createAlertRule({
+          ...input,
+          userId: ctx.user.id,
+          marketId: await resolveRuleMarket(input.marketId),
+          message: input.message || null,
+        });
+        return toAlertRuleView(row);
+      }),
+
+    updateRule: protectedProcedure
+      .input(
+        z.object({
+          id: z.number().int(),
+          changes: alertRuleFields.extend({ enabled: z.boolean() }).partial(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { marketId, message, ...changes } = input.changes;
+        const row = await updateAlertRule(ctx.user.id, input.id, {
+          ...changes,
+          ...(marketId !== undefined && { marketId: await resolveRuleMarket(marketId) }),
+          ...(message !== undefined && { message: message || null }),
+        });
+        if (!row) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Alert rule ${input.id} not found` });
+        }
+        return toAlertRuleView(row);
+      }),
+
+    deleteRule: protectedProcedure
+      .input(z.object({ id: z.number().int() }))
+      .mutation(async ({ ctx, input }) => {
+        if (!(await deleteAlertRule(ctx.user.id, input.id))) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Alert rule ${input.id} not found` });
+        }
+        return { success: true } as const;
+      }),
+
+    // Alerts the user's rules fired, newest first
+    events: protectedProcedure
+      .input(
+        z.object({
+          limit: z.number().int().min(1).max(200).optional(),
+          beforeId: z.number().int().optional(),
+        }).optional()
+      )
+      .query(async ({ ctx, input }) => {
+        const events = await listAlertEventsForUser(ctx.user.id, input ?? {});
+        return events.map(event => ({
+          id: event.id,
+          ruleId: event.ruleId,
+          marketId: String(event.marketId),
+          severity: event.severity,
+          intensity: event.intensity,
+          message: event.message,
+          triggeredAt: event.triggeredAt.getTime(),
+        }));
+      }),
+  }),
+
+  // In-app inbox and alert delivery channels
+  notifications: router({
+    inbox: protectedProcedure
+      .input(
+        z.object({
+          limit: z.number().int().min(1).max(100).optional(),
+          beforeId: z.number().int().optional(),
+          unreadOnly: z.boolean().optional(),
+        }).optional()
+      )
+      .query(async ({ ctx, input }) => {
+        const rows = await listNotificationsForUser(ctx.user.id, input ?? {});
+        return rows.map(toNotificationView);
+      }),
+
+    unreadCount: protectedProcedure.query(async ({ ctx }) => ({
+      count: await countUnreadNotifications(ctx.user.id),
+    })),
+
+    // Without ids, marks the whole inbox read
+    markRead: protectedProcedure
+      .input(z.object({ ids: z.array(z.number().int()).max(100).optional() }).optional())
+      .mutation(async ({ ctx, input }) => ({
+        updated: await markNotificationsRead(ctx.user.id, input?.ids),
+      })),
+
+    channels: protectedProcedure.query(async ({ ctx }) => {
+      const rows = await listNotificationChannels(ctx.user.id);
+      return rows.map(toChannelView);
+    }),
+
+    // The webhook signing secret is only returned here and by rotateSecret
+    createChannel: protectedProcedure
+      .input(
+        z.discriminatedUnion("type", [
+          z.object({
+            type: z.literal("webhook"),
+            target: z.string().url().max(512).refine(
+              url => new URL(url).protocol === "https:" || (!ENV.isProduction && new URL(url).protocol === "http:"),
+              { message: "Webhook URL must use https" }
+            ),
+            minSeverity: z.enum(ALERT_SEVERITIES).default("info"),
+          }),
+          z.object({
+            type: z.literal("email"),
+            target: z.string().email().max(254),
+            minSeverity: z.enum(ALERT_SEVERITIES).default("warning"),
+          }),
+        ])
+      )
+      .mutation(async ({ ctx, input }) => {
+        if ((await listNotificationChannels(ctx.user.id)).length >= MAX_NOTIFICATION_CHANNELS) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: `At most ${MAX_NOTIFICATION_CHANNELS} channels per user` });
+        }
+        if (input.type === "webhook") {
+          await assertPublicWebhookTarget(input.target).catch(error => {
+            if (error instanceof UnsafeWebhookTargetError) {
+              throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+            }
+            throw new TRPCError({ code: "BAD_REQUEST", message: `Webhook host ${new URL(input.target).hostname} could not be resolved` });
+          });
+        }
+
+        const secret = input.type === "webhook" ? generateWebhookSecret() : null;
+        const row = await createNotificationChannel({ ...input, userId: ctx.user.id, secret });
+        return { ...toChannelView(row), secret };
+      }),
+
+    updateChannel: protectedProcedure
+      .input(
+        z.object({
+          id: z.number().int(),
+          enabled: z.boolean().optional(),
+          minSeverity: z.enum(ALERT_SEVERITIES).optional(),
         })
       )
+      .mutation(async ({ ctx, input }) => {
+        const { id, ...changes } = input;
+        const row = await updateNotificationChannel(ctx.user.id, id, changes);
+        if (!row) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Channel ${id} not found` });
+        }
+        return toChannelView(row);
+      }),
+
+    rotateSecret: protectedProcedure
+      .input(z.object({ id: z.number().int() }))
+      .mutation(async ({ ctx, input }) => {
+        const [existing] = (await listNotificationChannels(ctx.user.id)).filter(channel => channel.id === input.id);
+        if (!existing || existing.type !== "webhook") {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Webhook channel ${input.id} not found` });
+        }
+
+        const secret = generateWebhookSecret();
+        const row = await updateNotificationChannel(ctx.user.id, input.id, { secret });
+        return { ...toChannelView(row!), secret };
+      }),
+
+    deleteChannel: protectedProcedure
+      .input(z.object({ id: z.number().int() }))
+      .mutation(async ({ ctx, input }) => {
+        if (!(await deleteNotificationChannel(ctx.user.id, input.id))) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Channel ${input.id} not found` });
+        }
+        return { success: true } as const;
+      }),
+
+    // Recent delivery attempts, for debugging a webhook or mailbox
+    deliveries: protectedProcedure
+      .input(z.object({ limit: z.number().int().min(1).max(200).optional() }).optional())
+      .query(async ({ ctx, input }) => {
+        const rows = await listDeliveriesForUser(ctx.user.id, input?.limit);
+        return rows.map(row => ({
+          id: row.id,
+          notificationId: row.notificationId,
+          channelId: row.channelId,
+          status: row.status,
+          attempts: row.attempts,
+          responseCode: row.responseCode,
+          lastError: row.lastError,
+          nextAttemptAt: row.nextAttemptAt?.getTime() ?? null,
+          deliveredAt: row.deliveredAt?.getTime() ?? null,
+          createdAt: row.createdAt.getTime(),
+        }));
+      }),
+  }),
+
+  // Named, ordered lists of markets per user
+  watchlists: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const rows = await listWatchlists(ctx.user.id);
+      return rows.map(toWatchlistView);
+    }),
+
+    create: protectedProcedure
+      .input(
+        z.object({
+          name: z.string().trim().min(1).max(64),
+          marketIds: z.array(z.string()).max(MAX_WATCHLIST_MARKETS).default([]),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const existing = await listWatchlists(ctx.user.id);
+        if (existing.length >= MAX_WATCHLISTS) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: `At most ${MAX_WATCHLISTS} watchlists per user` });
+        }
+
+        const marketIds: number[] = [];
+        for (const marketId of input.marketIds) {
+          const id = await resolveMarket(marketId);
+          if (!marketIds.includes(id)) marketIds.push(id);
+        }
+        const row = await createWatchlist({
+          userId: ctx.user.id,
+          name: input.name,
+          position: Math.max(-1, ...existing.map(list => list.position)) + 1,
+          marketIds,
+        });
+        return toWatchlistView(row);
+      }),
+
+    rename: protectedProcedure
+      .input(z.object({ id: z.number().int(), name: z.string().trim().min(1).max(64) }))
+      .mutation(async ({ ctx, input }) => {
+        const row = await renameWatchlist(ctx.user.id, input.id, input.name);
+        if (!row) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Watchlist ${input.id} not found` });
+        }
+        return toWatchlistView(row);
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ id: z.number().int() }))
+      .mutation(async ({ ctx, input }) => {
+        if (!(await deleteWatchlist(ctx.user.id, input.id))) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Watchlist ${input.id} not found` });
+        }
+        return { success: true } as const;
+      }),
+
+    addMarket: protectedProcedure
+      .input(z.object({ id: z.number().int(), marketId: z.string() }))
+      .mutation(async ({ ctx, input }) => {
+        const marketId = await resolveMarket(input.marketId);
+        return editWatchlist(ctx.user.id, input.id, ids => addMarket(ids, marketId));
+      }),
+
+    removeMarket: protectedProcedure
+      .input(z.object({ id: z.number().int(), marketId: z.string() }))
+      .mutation(async ({ ctx, input }) => {
+        const marketId = parseMarketId(input.marketId) ?? 0;
+        return editWatchlist(ctx.user.id, input.id, ids => removeMarket(ids, marketId));
+      }),
+
+    // The market card star: without an id, uses the first list, creating one if needed
+    toggleMarket: protectedProcedure
+      .input(z.object({ marketId: z.string(), id: z.number().int().optional() }))
+      .mutation(async ({ ctx, input }) => {
+        const marketId = await resolveMarket(input.marketId);
+        let id = input.id;
+        if (id === undefined) {
+          const [first] = await listWatchlists(ctx.user.id);
+          id = first?.id ?? (await createWatchlist({ userId: ctx.user.id, name: DEFAULT_WATCHLIST_NAME, marketIds: [] })).id;
+        }
+
+        const watchlist = await editWatchlist(ctx.user.id, id, ids => toggleMarket(ids, marketId));
+        return { watchlist, watching: watchlist.marketIds.includes(String(marketId)) };
+      }),
+
+    reorderMarkets: protectedProcedure
+      .input(z.object({ id: z.number().int(), marketIds: z.array(z.string()).max(MAX_WATCHLIST_MARKETS) }))
+      .mutation(async ({ ctx, input }) => {
+        const order = input.marketIds.map(parseMarketId).filter((id): id is number => id !== null);
+        return editWatchlist(ctx.user.id, input.id, ids => applyOrder(ids, order));
+      }),
+
+    reorder: protectedProcedure
+      .input(z.object({ ids: z.array(z.number().int()).max(MAX_WATCHLISTS) }))
+      .mutation(async ({ ctx, input }) => {
+        await reorderWatchlists(ctx.user.id, Array.from(new Set(input.ids)));
+        const rows = await listWatchlists(ctx.user.id);
+        return rows.map(toWatchlistView);
+      }),
+  }),
+
+  // Archived audio briefings, for replay
+  briefings: router({
+    list: protectedProcedure
+      .input(
+        z.object({
+          limit: z.number().int().min(1).max(50).optional(),
+          beforeId: z.number().int().optional(),
+        }).optional()
+      )
+      .query(async ({ ctx, input }) => {
+        const rows = await listBriefingsForUser(ctx.user.id, input ?? {});
+        return rows.map(toBriefingSummary);
+      }),
+
+    // Signed URLs expire, so one is issued per replay
+    get: protectedProcedure
+      .input(z.object({ id: z.number().int() }))
+      .query(async ({ ctx, input }) => {
+        const row = await getBriefingForUser(ctx.user.id, input.id);
+        if (!row) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Briefing ${input.id} not found` });
+        }
+        return {
+          ...toBriefingSummary(row),
+          script: row.script,
+          markets: row.markets,
+          audioUrl: await briefingAudioUrl(row),
+        };
+      }),
+
+    schedules: protectedProcedure.query(async ({ ctx }) => {
+      const rows = await listBriefingSchedulesForUser(ctx.user.id);
+      return rows.map(toScheduleView);
+    }),
+
+    createSchedule: protectedProcedure
+      .input(
+        briefingScheduleFields.extend({
+          cadence: briefingScheduleFields.shape.cadence.default("daily"),
+          hour: briefingScheduleFields.shape.hour.default(8),
+          minute: briefingScheduleFields.shape.minute.default(0),
+          timezone: briefingScheduleFields.shape.timezone.default("UTC"),
+          voice: briefingScheduleFields.shape.voice.default(DEFAULT_VOICE),
+          language: briefingScheduleFields.shape.language.default("en"),
+          watchlistId: briefingScheduleFields.shape.watchlistId.default(null),
+          enabled: briefingScheduleFields.shape.enabled.default(true),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        if ((await listBriefingSchedulesForUser(ctx.user.id)).length >= MAX_BRIEFING_SCHEDULES) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: `At most ${MAX_BRIEFING_SCHEDULES} briefing schedules per user` });
+        }
+        await assertOwnWatchlist(ctx.user.id, input.watchlistId);
+        await resolveBriefingSpeech(ctx.user.id, input.voice);
+
+        const row = await createBriefingSchedule({
+          ...input,
+          userId: ctx.user.id,
+          nextRunAt: nextRunAt(input, Date.now()),
+        });
+        return toScheduleView(row);
+      }),
+
+    updateSchedule: protectedProcedure
+      .input(z.object({ id: z.number().int(), changes: briefingScheduleFields.partial() }))
+      .mutation(async ({ ctx, input }) => {
+        const [existing] = (await listBriefingSchedulesForUser(ctx.user.id)).filter(schedule => schedule.id === input.id);
+        if (!existing) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Schedule ${input.id} not found` });
+        }
+        await assertOwnWatchlist(ctx.user.id, input.changes.watchlistId);
+        if (input.changes.voice !== undefined) {
+          await resolveBriefingSpeech(ctx.user.id, input.changes.voice);
+        }
+
+        // Timing changes move the next run; so does re-enabling a stale schedule
+        const merged = { ...existing, ...input.changes };
+        const row = await updateBriefingSchedule(ctx.user.id, input.id, {
+          ...input.changes,
+          nextRunAt: nextRunAt(merged, Date.now()),
+        });
+        return toScheduleView(row!);
+      }),
+
+    deleteSchedule: protectedProcedure
+      .input(z.object({ id: z.number().int() }))
+      .mutation(async ({ ctx, input }) => {
+        if (!(await deleteBriefingSchedule(ctx.user.id, input.id))) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Schedule ${input.id} not found` });
+        }
+        return { success: true } as const;
+      }),
+
+    // Podcast feed of scheduled briefings; the URL is created on first request
+    feed: protectedProcedure.query(async ({ ctx }) => {
+      const feed = (await getPodcastFeedForUser(ctx.user.id)) ?? (await setPodcastFeedToken(ctx.user.id, generateFeedToken()));
+      return { url: podcastFeedUrl(requestOrigin(ctx.req), feed.token) };
+    }),
+
+    // New secret URL; apps subscribed to the old one stop receiving episodes
+    rotateFeed: protectedProcedure.mutation(async ({ ctx }) => {
+      const feed = await setPodcastFeedToken(ctx.user.id, generateFeedToken());
+      return { url: podcastFeedUrl(requestOrigin(ctx.req), feed.token) };
+    }),
+  }),
+
+  // Voice profiles and the user's saved voice settings
+  voices: router({
+    preferences: protectedProcedure.query(async ({ ctx }) => {
+      return toVoicePreferences(await getVoicePreferences(ctx.user.id));
+    }),
+
+    savePreferences: protectedProcedure
+      .input(voicePreferencesSchema)
+      .mutation(async ({ ctx, input }) => {
+        await resolveBriefingSpeech(ctx.user.id, input.voice);
+        return toVoicePreferences(await saveVoicePreferences(ctx.user.id, input));
+      }),
+
+    // Admin: every synced voice, including disabled ones
+    library: adminProcedure.query(async () => {
+      const rows = await listVoiceProfiles({ includeDisabled: true });
+      return rows.map(toVoiceProfileView);
+    }),
+
+    // Admin: copy the ElevenLabs account's voices into voice profiles
+    sync: adminProcedure.mutation(async () => {
+      try {
+        return await syncVoiceLibrary();
+      } catch (error) {
+        if (error instanceof RateLimitExceededError) {
+          throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: error.message });
+        }
+        console.error("[Voices] Sync failed:", error);
+        throw new TRPCError({
+          code: "BAD_GATEWAY",
+          message: `Voice sync failed: ${error instanceof Error ? error.message : "ElevenLabs unavailable"}`,
+        });
+      }
+    }),
+
+    // Admin: hide or show a synced voice in the pickers
+    setEnabled: adminProcedure
+      .input(z.object({ id: z.number().int(), enabled: z.boolean() }))
       .mutation(async ({ input }) => {
-        // Log the market selection
-        console.log(`[Trading] Market selected: ${input.topic} (${input.marketId})`);
-        
-        // Return confirmation with market details
+        if (!(await setVoiceProfileEnabled(input.id, input.enabled))) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Voice profile ${input.id} not found` });
+        }
+        return { success: true } as const;
+      }),
+  }),
+
+  // Trading Router
+  trading: router({
+    // Select a market for trading
+    selectMarket: publicProcedure
+      .input(z.object({ marketId: z.string() }))
+      .mutation(async ({ input }) => {
+        const row = await findMarket(input.marketId);
+        if (!row) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Market ${input.marketId} not found` });
+        }
+        const market = toMarketSummary(row.market, row.category, row.snapshots);
+        console.log(`[Trading] Market selected: ${market.topic} (${market.id})`);
+
         return {
           success: true,
-          message: `Market "${input.topic}" selected for trading`,
-          market: {
-            id: input.marketId,
-            topic: input.topic,
-            category: input.category,
-            momentum: input.momentum,
-            change24h: input.change24h,
-            volume: input.volume,
-            hypeScore: input.hypeScore,
-          },
+          message: `Market "${market.topic}" selected for trading`,
+          market,
           timestamp: Date.now(),
         };
       }),
 
+    // Live AMM quote for an order, without placing it
+    quote: publicProcedure
+      .input(quoteSchema)
+      .query(async ({ input }) => {
+        const marketId = await resolveMarket(input.marketId);
+        const pool = await getAmmPool(marketId, input.duration);
+        const quote = quoteTrade(pool, input.direction, input.amount);
+        return {
+          ...quote,
+          estimatedReturn: fromCents(estimateReturnCents(toCents(input.amount), quote.shares)),
+        };
+      }),
+
     // Place a trade on a selected market
-    placeTrade: publicProcedure
+    placeTrade: protectedProcedure
       .input(marketSelectionSchema)
-      .mutation(async ({ input }) => {
-        // Log the trade
-        console.log(`[Trading] Trade placed: ${input.direction.toUpperCase()} ${input.amount} USDC on ${input.topic} (${input.duration})`);
-        
-        // Calculate estimated return based on momentum and direction
-        const baseReturn = input.direction === "long" 
-          ? input.momentum * 0.01 
-          : (100 - input.momentum) * 0.01;
-        const estimatedReturn = input.amount * (1 + baseReturn);
-        
-        // Generate a mock trade ID
-        const tradeId = `TRD-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
-        
+      .mutation(async ({ ctx, input }) => {
+        const row = await findMarket(input.marketId);
+        const snapshot = row ? await getLatestMarketSnapshot(row.market.id) : undefined;
+        if (!row || !snapshot) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Market ${input.marketId} is not open for trading` });
+        }
+
+        // Enter at the server's latest reading, not the client's copy, and
+        // price shares against the pool as it stands inside the transaction
+        const now = Date.now();
+        const stakeCents = toCents(input.amount);
+        const { trade, created, quote } = await createTrade({
+          tradeRef: generateTradeRef(now),
+          userId: ctx.user.id,
+          marketId: row.market.id,
+          direction: input.direction,
+          duration: input.duration,
+          stakeCents,
+          entryMomentum: snapshot.momentum,
+          entrySnapshotId: snapshot.id,
+          idempotencyKey: input.idempotencyKey,
+          expiresAt: computeExpiry(input.duration, now),
+        }, pool => quoteTrade(pool, input.direction, input.amount, input.maxPrice)).catch(error => {
+          if (error instanceof InsufficientFundsError || error instanceof SlippageExceededError) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+          }
+          throw error;
+        });
+
+        if (created) {
+          console.log(`[Trading] Trade placed: ${trade.tradeRef} ${input.direction.toUpperCase()} ${input.amount} USDC on ${row.market.topic} (${input.duration})`);
+        } else {
+          console.log(`[Trading] Duplicate submission for ${trade.tradeRef} ignored`);
+        }
+
+        const view = toTradeView(trade, row.market.topic);
         return {
           success: true,
-          tradeId,
-          message: `Trade placed successfully`,
-          details: {
-            marketId: input.marketId,
-            topic: input.topic,
-            direction: input.direction,
-            duration: input.duration,
-            amount: input.amount,
-            estimatedReturn: Math.round(estimatedReturn * 100) / 100,
-            expiresAt: Date.now() + (input.duration === "30m" ? 30 * 60 * 1000 : input.duration === "1h" ? 60 * 60 * 1000 : 3 * 60 * 60 * 1000),
-          },
-          timestamp: Date.now(),
+          tradeId: view.tradeId,
+          duplicate: !created,
+          message: created ? `Trade placed successfully` : `Trade already placed`,
+          // Null for a duplicate; the stored fill is in details
+          quote,
+          details: view,
+          timestamp: view.createdAt,
         };
       }),
+
+    // Current user's trades, newest first
+    myTrades: protectedProcedure
+      .input(
+        z.object({
+          status: z.enum(["open", "settled", "cancelled"]).optional(),
+          limit: z.number().int().min(1).max(200).optional(),
+        }).optional()
+      )
+      .query(async ({ ctx, input }) => {
+        const rows = await listTradesForUser(ctx.user.id, input ?? {});
+        return rows.map(row => toTradeView(row.trade, row.topic ?? undefined));
+      }),
+
+    getTrade: protectedProcedure
+      .input(z.object({ tradeId: z.string() }))
+      .query(async ({ ctx, input }) => {
+        const row = await getTradeByRef(ctx.user.id, input.tradeId);
+        if (!row) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Trade ${input.tradeId} not found` });
+        }
+        return toTradeView(row.trade, row.topic ?? undefined);
+      }),
+
+    // Admin: replay a settlement from snapshot history for dispute review
+    auditSettlement: adminProcedure
+      .input(z.object({ tradeId: z.string() }))
+      .query(async ({ input }) => {
+        const row = await getTradeWithSettlement(input.tradeId);
+        if (!row?.settlement) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `No settlement for trade ${input.tradeId}` });
+        }
+
+        const { trade, settlement } = row;
+        const entry = await getMarketSnapshotById(trade.entrySnapshotId);
+        const window = entry
+          ? await listMarketSnapshotsBetween(trade.marketId, entry.capturedAt, trade.expiresAt)
+          : [];
+
+        return {
+          tradeId: trade.tradeRef,
+          stored: settlement,
+          ...replaySettlement(trade, settlement, entry ? [entry, ...window] : window),
+        };
+      }),
+  }),
+
+  // Signal Ingestion Router
+  signals: router({
+    // Newest ingested signals for the Oracle Feed, optionally only one market's
+    recent: publicProcedure
+      .input(z.object({
+        limit: z.number().int().min(1).max(100).optional(),
+        marketId: z.string().optional(),
+      }).optional())
+      .query(async ({ input }) => {
+        const limit = input?.limit ?? 20;
+        const now = Date.now();
+
+        if (input?.marketId !== undefined) {
+          const marketId = parseMarketId(input.marketId);
+          if (marketId === null) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid market id" });
+          }
+          const rows = await listSignalsForMarket(marketId, { limit });
+          return rows.map(row => ({ ...toSignalView(row.signal, now), matchConfidence: row.confidence }));
+        }
+
+        const rows = await listRecentSignals({ limit });
+        return rows.map(row => ({ ...toSignalView(row, now), matchConfidence: null }));
+      }),
+
+    // Per-source connector health and signal strength
+    sources: publicProcedure.query(async () => {
+      const now = Date.now();
+      const [cursors, counts] = await Promise.all([
+        listConnectorCursors(),
+        countSignalsBySource(new Date(now - 60 * 60 * 1000)),
+      ]);
+      return summarizeSources(createConnectors(), cursors, counts, now);
+    }),
+  }),
+
+  // Paper USDC Wallet Router
+  account: router({
+    balance: protectedProcedure.query(async ({ ctx }) => {
+      const balance = await getBalance(ctx.user.id);
+      return {
+        available: fromCents(balance.availableCents),
+        locked: fromCents(balance.lockedCents),
+        total: fromCents(balance.availableCents + balance.lockedCents),
+      };
+    }),
+
+    // Ledger entries on the user's accounts, newest first
+    history: protectedProcedure
+      .input(
+        z.object({
+          limit: z.number().int().min(1).max(200).optional(),
+          beforeId: z.number().int().optional(),
+        }).optional()
+      )
+      .query(async ({ ctx, input }) => {
+        const entries = await listLedgerEntriesForUser(ctx.user.id, input ?? {});
+        return entries.map(entry => ({
+          id: entry.id,
+          transactionId: entry.transactionId,
+          account: entry.account,
+          kind: entry.kind,
+          amount: fromCents(entry.amountCents),
+          tradeId: entry.tradeId,
+          createdAt: entry.createdAt.getTime(),
+        }));
+      }),
+
+    // Paper funds only - no real money moves
+    deposit: protectedProcedure
+      .input(z.object({ amount: z.number().min(fromCents(MIN_TRANSFER_CENTS)).max(fromCents(MAX_DEPOSIT_CENTS)) }))
+      .mutation(async ({ ctx, input }) => {
+        await applyLedgerTransaction(buildDeposit(ctx.user.id, toCents(input.amount)));
+        return { success: true, balance: fromCents((await getBalance(ctx.user.id)).availableCents) };
+      }),
+
+    withdraw: protectedProcedure
+      .input(z.object({ amount: z.number().min(fromCents(MIN_TRANSFER_CENTS)).max(fromCents(MAX_WITHDRAWAL_CENTS)) }))
+      .mutation(async ({ ctx, input }) => {
+        try {
+          await applyLedgerTransaction(buildWithdrawal(ctx.user.id, toCents(input.amount)));
+        } catch (error) {
+          if (error instanceof InsufficientFundsError) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+          }
+          throw error;
+        }
+        return { success: true, balance: fromCents((await getBalance(ctx.user.id)).availableCents) };
+      }),
+  }),
+
+  // Portfolio Router: open positions marked to momentum, settled history
+  portfolio: router({
+    openPositions: protectedProcedure.query(async ({ ctx }) => {
+      const rows = await listTradesForUser(ctx.user.id, { status: "open", limit: 200 });
+      const marks = await getLatestMarketSnapshots(rows.map(row => row.trade.marketId));
+      return rows.map(row =>
+        toOpenPosition(row.trade, row.topic ?? undefined, marks.get(row.trade.marketId)?.momentum)
+      );
+    }),
+
+    history: protectedProcedure
+      .input(z.object({ limit: z.number().int().min(1).max(200).optional() }).optional())
+      .query(async ({ ctx, input }) => {
+        const rows = await listSettledTradesForUser(ctx.user.id, input?.limit);
+        return rows.map(row => toSettledPosition(row.trade, row.topic ?? undefined, row.settlement));
+      }),
+
+    summary: protectedProcedure.query(async ({ ctx }) => {
+      const [openRows, settled] = await Promise.all([
+        listTradesForUser(ctx.user.id, { status: "open", limit: 200 }),
+        getSettlementTotals(ctx.user.id),
+      ]);
+      const marks = await getLatestMarketSnapshots(openRows.map(row => row.trade.marketId));
+
+      return summarizePortfolio(
+        openRows.map(row => toOpenPosition(row.trade, row.topic ?? undefined, marks.get(row.trade.marketId)?.momentum)),
+        settled
+      );
+    }),
   }),
 
   // AI Services Router
@@ -124,8 +1046,23 @@ export const appRouter = router({
         })
       )
       .mutation(async ({ input }) => {
-        const analysis = await analyzeSignal(input as RawSignal);
-        return analysis;
+        // A stored signal is analysed from its stored text, never the caller's,
+        // so the re-route below only follows what the signal actually says
+        const storedId = Number(input.id);
+        const stored = Number.isInteger(storedId) && storedId > 0 ? await getSignalById(storedId) : undefined;
+        const signal = stored ? toRawSignal(stored) : (input as RawSignal);
+
+        const report = await analyzeSignalsWithReport([signal], "interactive");
+        const { analysis, failureReason } = report.get(signal.id)!;
+
+        // Stored signals are re-routed with the extracted event and actors
+        if (stored && failureReason === null) {
+          await routeSignals([stored], new Map([[signal.id, analysis]])).catch(error => {
+            console.error("[Markets] Failed to re-route analysed signal:", error);
+          });
+        }
+
+        return { ...analysis, failureReason };
       }),
 
     // Gemini: Batch analyze signals (10 per API call for Free Tier efficiency)
@@ -150,11 +1087,12 @@ export const appRouter = router({
         })
       )
       .mutation(async ({ input }) => {
-        const results = await analyzeBatchSignals(input.signals as RawSignal[]);
-        // Convert Map to array of [id, analysis] pairs for JSON serialization
-        return Array.from(results.entries()).map(([id, analysis]) => ({
+        const results = await analyzeSignalsWithReport(input.signals as RawSignal[], "interactive");
+        // One entry per signal; failureReason says why an entry is a fallback
+        return Array.from(results.entries()).map(([id, result]) => ({
           signalId: id,
-          ...analysis,
+          ...result.analysis,
+          failureReason: result.failureReason,
         }));
       }),
 
@@ -188,6 +1126,43 @@ export const appRouter = router({
         return strategy;
       }),
 
+    // Gemini: Strategy for a market from its own matched signals
+    // Null when nothing has been routed to the market in the last day
+    marketStrategy: publicProcedure
+      .input(
+        z.object({
+          marketId: z.string(),
+          vibeData: z.object({
+            joy: z.number(),
+            anxiety: z.number(),
+          }).optional(),
+        })
+      )
+      .query(async ({ input }) => {
+        const marketId = parseMarketId(input.marketId);
+        const [row] = marketId ? await listMarkets({ marketId }) : [];
+        if (!row) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Market ${input.marketId} not found` });
+        }
+
+        const matched = await listSignalsForMarket(row.market.id, {
+          limit: 10,
+          since: new Date(Date.now() - 24 * 60 * 60 * 1000),
+        });
+        if (matched.length === 0) {
+          return { strategy: null, signalCount: 0 };
+        }
+
+        const summary = toMarketSummary(row.market, row.category, row.snapshots);
+        const strategy = await generateMarketStrategy(
+          summary.topic,
+          matched.map(match => toRawSignal(match.signal)),
+          summary.momentum,
+          input.vibeData
+        );
+        return { strategy, signalCount: matched.length };
+      }),
+
     // Gemini: Generate briefing text for ElevenLabs
     generateBriefingText: publicProcedure
       .input(
@@ -224,10 +1199,31 @@ export const appRouter = router({
       .input(
         z.object({
           hypeSummary: z.string(),
+          // Admins only: when set, the result is kept in the market's vibe
+          // history and pushed to live subscribers as a vibe tick, which
+          // can fire other users' alerts
+          marketId: z.string().optional(),
         })
       )
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        let marketId: number | null = null;
+        if (input.marketId !== undefined) {
+          if (ctx.user?.role !== "admin") {
+            throw new TRPCError({ code: "FORBIDDEN", message: "Only admins can record vibe readings" });
+          }
+          marketId = await resolveMarket(input.marketId);
+        }
+
         const result = await analyzeMarketVibe(input.hypeSummary);
+        if (marketId) {
+          await recordVibeSnapshot({
+            marketId,
+            joy: result.vibe.joy,
+            anxiety: result.vibe.anxiety,
+            confidence: result.vibe.confidence,
+            dominantEmotion: result.vibe.dominant_emotion.slice(0, 32),
+          });
+        }
         return result;
       }),
 
@@ -246,61 +1242,118 @@ export const appRouter = router({
         })
       )
       .mutation(async ({ input }) => {
-        const briefing = await generateAlphaBriefing(input.markets as MarketBriefing[]);
-        return briefing;
+        try {
+          return await generateAlphaBriefing(input.markets as MarketBriefing[]);
+        } catch (error) {
+          if (error instanceof RateLimitExceededError) {
+            throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: error.message });
+          }
+          throw error;
+        }
       }),
 
     // Live Hype Briefing: Gemini script + ElevenLabs voice
+    // Script only; the player streams the audio from streamUrl as it is
+    // synthesized (see server/services/briefingStream.ts)
+    prepareLiveHypeBriefing: publicProcedure
+      .input(liveBriefingSchema)
+      .mutation(async ({ ctx, input }) => {
+        const { voice, settings } = await resolveBriefingSpeech(ctx.user?.id ?? null, input.voice);
+
+        try {
+          const scriptResult = await generateLiveHypeBriefing(input.markets as MarketBriefingData[], input.language);
+          const streamUrl = createBriefingStream({
+            userId: ctx.user?.id ?? null,
+            script: scriptResult.script,
+            markets: input.markets.slice(0, 3),
+            voice: voice.id,
+            voiceId: voice.voiceId,
+            settings,
+            language: input.language,
+            wordCount: scriptResult.wordCount,
+            estimatedDuration: scriptResult.estimatedDuration,
+          });
+          return { streamUrl, ...scriptResult, voice: voice.id, language: input.language };
+        } catch (error: any) {
+          if (error instanceof RateLimitExceededError) {
+            throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: error.message });
+          }
+          console.error("[LiveHypeBriefing] Error:", error.message || error);
+          throw new Error(`Failed to generate briefing: ${error.message || 'Network error. Please try again.'}`);
+        }
+      }),
+
+    // Buffered path: script and the finished audio in one call
     generateLiveHypeBriefing: publicProcedure
-      .input(
-        z.object({
-          markets: z.array(
-            z.object({
-              topic: z.string(),
-              momentum: z.number(),
-              change24h: z.number(),
-              volume: z.string(),
-              hypeScore: z.number(),
-              hypeSummary: z.string().optional(),
-            })
-          ),
-          voice: z.enum(["bill", "charlotte", "rachel", "adam", "josh"]).optional().default("bill"),
-        })
-      )
-      .mutation(async ({ input }) => {
+      .input(liveBriefingSchema)
+      .mutation(async ({ ctx, input }) => {
         const startTime = Date.now();
+        const { voice, settings } = await resolveBriefingSpeech(ctx.user?.id ?? null, input.voice);
         
         try {
           // Step 1: Generate Wall Street-style script using Gemini
           console.log("[LiveHypeBriefing] Generating script with Gemini...");
-          const scriptResult = await generateLiveHypeBriefing(input.markets as MarketBriefingData[]);
+          const scriptResult = await generateLiveHypeBriefing(input.markets as MarketBriefingData[], input.language);
           
           // Step 2: Convert script to speech using ElevenLabs Flash v2.5
-          console.log(`[LiveHypeBriefing] Converting to speech with voice: ${input.voice}...`);
-          const audioResult = await generateAudioBriefing(scriptResult.script, input.voice as VoiceOption);
+          console.log(`[LiveHypeBriefing] Converting to speech with voice: ${voice.id}...`);
+          const audioResult = await generateAudioBriefing(scriptResult.script, voice, { language: input.language, settings });
+
+          // Step 3: Archive the audio and hand back a signed URL; without
+          // storage the briefing still plays from an inline data: URL
+          let briefingId: number | null = null;
+          let audioUrl = audioResult.audioUrl;
+          try {
+            const archived = await archiveBriefing({
+              userId: ctx.user?.id ?? null,
+              script: scriptResult.script,
+              markets: input.markets.slice(0, 3),
+              voice: audioResult.voice,
+              language: input.language,
+              model: audioResult.model,
+              wordCount: scriptResult.wordCount,
+              estimatedDuration: scriptResult.estimatedDuration,
+              audio: Buffer.from(audioResult.audioBase64, "base64"),
+            });
+            briefingId = archived.briefing.id;
+            audioUrl = archived.audioUrl;
+          } catch (error) {
+            console.warn("[LiveHypeBriefing] Archive failed, returning inline audio:", error instanceof Error ? error.message : error);
+          }
           
           const totalTime = Date.now() - startTime;
           console.log(`[LiveHypeBriefing] Complete in ${totalTime}ms`);
           
           return {
+            briefingId,
             script: scriptResult.script,
             wordCount: scriptResult.wordCount,
             estimatedDuration: scriptResult.estimatedDuration,
-            audioUrl: audioResult.audioUrl,
-            audioBase64: audioResult.audioBase64,
+            audioUrl,
             model: audioResult.model,
             voice: audioResult.voice,
+            language: input.language,
             generationTimeMs: totalTime,
           };
         } catch (error: any) {
+          if (error instanceof RateLimitExceededError) {
+            throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: error.message });
+          }
           console.error("[LiveHypeBriefing] Error:", error.message || error);
           throw new Error(`Failed to generate briefing: ${error.message || 'Network error. Please try again.'}`);
         }
       }),
 
-    // Get available voice options
-    getVoiceOptions: publicProcedure.query(() => {
-      return getVoiceOptions();
+    // Voices for the pickers, optionally only those suited to a language
+    getVoiceOptions: publicProcedure
+      .input(z.object({ language: z.enum(BRIEFING_LANGUAGES).optional() }).optional())
+      .query(({ input }) => {
+        return listVoiceOptions(input?.language);
+      }),
+
+    // Analysis cache hit rates since this process started
+    cacheStats: publicProcedure.query(() => {
+      return getAnalysisCache().stats();
     }),
   }),
 });
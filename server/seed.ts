@@ -0,0 +1,125 @@
+/**
+ * Seed the market catalog with the launch set of attention markets.
+ * Run with `pnpm db:seed` after `pnpm db:push`. Safe to re-run: existing
+ * categories and markets are matched by slug and keep their history; only
+ * their signal-matching aliases and keywords are refreshed.
+ */
+
+import "dotenv/config";
+import { eq } from "drizzle-orm";
+import { marketCategories, markets, marketSnapshots } from "../drizzle/schema";
+import { getDb } from "./db";
+
+const categories = [
+  { slug: "crypto", label: "CRYPTO", icon: "Activity", sortOrder: 1 },
+  { slug: "tech", label: "TECH", icon: "Code", sortOrder: 2 },
+  { slug: "culture", label: "CULTURE", icon: "Sparkles", sortOrder: 3 },
+];
+
+type SeedMarket = {
+  slug: string;
+  topic: string;
+  category: string;
+  momentum: number;
+  change24h: number;
+  volumeUsd: number;
+  participants: number;
+  hypeScore: number;
+  closesInMinutes: number;
+  trend: "up" | "down" | "volatile";
+  hypeSummary: string;
+};
+
+const seedMarkets: SeedMarket[] = [
+  { slug: "marty-supreme", topic: "Marty Supreme", category: "culture", momentum: 87, change24h: 23.4, volumeUsd: 847_000, participants: 12453, hypeScore: 92, closesInMinutes: 154, trend: "up", hypeSummary: "Marty Supreme is dominating social feeds with viral content and massive engagement." },
+  { slug: "openai-ipo-hype", topic: "OpenAI IPO Hype", category: "tech", momentum: 94, change24h: 45.2, volumeUsd: 1_200_000, participants: 34521, hypeScore: 98, closesInMinutes: 72, trend: "up", hypeSummary: "OpenAI IPO speculation reaches fever pitch as investors scramble for allocation." },
+  { slug: "github-shadcn-ui", topic: "GitHub Repo: shadcn/ui", category: "tech", momentum: 71, change24h: 12.8, volumeUsd: 234_000, participants: 8934, hypeScore: 76, closesInMinutes: 45, trend: "up", hypeSummary: "Developer community buzzing about shadcn/ui's latest release with new components." },
+  { slug: "bitcoin-etf-flows", topic: "Bitcoin ETF Flows", category: "crypto", momentum: 65, change24h: -8.3, volumeUsd: 2_100_000, participants: 45678, hypeScore: 58, closesInMinutes: 180, trend: "down", hypeSummary: "Bitcoin ETF outflows continue as institutional investors take profits amid uncertainty." },
+  { slug: "solana-memecoin-season", topic: "Solana Memecoin Season", category: "crypto", momentum: 82, change24h: 34.7, volumeUsd: 567_000, participants: 23456, hypeScore: 85, closesInMinutes: 105, trend: "up", hypeSummary: "Solana memecoins surge as retail traders pile into high-risk, high-reward plays." },
+  { slug: "apple-vision-pro-reviews", topic: "Apple Vision Pro Reviews", category: "tech", momentum: 43, change24h: -15.2, volumeUsd: 189_000, participants: 7823, hypeScore: 38, closesInMinutes: 135, trend: "down", hypeSummary: "Vision Pro reviews turn negative as users report comfort issues and limited app ecosystem." },
+  { slug: "taylor-swift-tour-impact", topic: "Taylor Swift Tour Impact", category: "culture", momentum: 78, change24h: 8.9, volumeUsd: 445_000, participants: 19234, hypeScore: 81, closesInMinutes: 30, trend: "volatile", hypeSummary: "Taylor Swift Eras Tour continues to break records and dominate cultural conversation." },
+  { slug: "ai-regulation-eu-vote", topic: "AI Regulation EU Vote", category: "tech", momentum: 56, change24h: 5.4, volumeUsd: 312_000, participants: 11234, hypeScore: 62, closesInMinutes: 270, trend: "volatile", hypeSummary: "EU AI Act vote approaches with mixed signals from industry and regulators." },
+  { slug: "nvidia-earnings-leak", topic: "NVIDIA Earnings Leak", category: "tech", momentum: 91, change24h: 67.3, volumeUsd: 1_800_000, participants: 28934, hypeScore: 95, closesInMinutes: 15, trend: "up", hypeSummary: "Rumored NVIDIA earnings beat sends momentum soaring as traders position for announcement." },
+  { slug: "elon-musk-tweet-storm", topic: "Elon Musk Tweet Storm", category: "culture", momentum: 88, change24h: 41.2, volumeUsd: 723_000, participants: 56789, hypeScore: 89, closesInMinutes: 60, trend: "up", hypeSummary: "Elon Musk's latest Twitter activity sparks market moves and meme coin rallies." },
+];
+
+// Terms the signal matcher looks for; aliases route a signal on their own
+const matchTerms: Record<string, { aliases: string[]; keywords: string[] }> = {
+  "marty-supreme": { aliases: ["Marty Supreme", "Timothée Chalamet", "Chalamet"], keywords: ["A24", "Josh Safdie", "ping pong", "trailer", "box office"] },
+  "openai-ipo-hype": { aliases: ["OpenAI", "Sam Altman", "ChatGPT", "GPT-5"], keywords: ["IPO", "valuation", "funding round", "shares", "listing", "investors"] },
+  "github-shadcn-ui": { aliases: ["shadcn/ui", "shadcn"], keywords: ["GitHub", "React", "Tailwind", "components", "Radix", "release"] },
+  "bitcoin-etf-flows": { aliases: ["Bitcoin ETF", "Bitcoin ETFs", "IBIT", "GBTC"], keywords: ["Bitcoin", "BTC", "ETF", "inflows", "outflows", "BlackRock", "Grayscale"] },
+  "solana-memecoin-season": { aliases: ["Solana", "SOL", "pump.fun", "BONK", "WIF"], keywords: ["memecoin", "memecoins", "meme coin", "degen", "airdrop"] },
+  "apple-vision-pro-reviews": { aliases: ["Vision Pro", "Apple Vision Pro", "visionOS"], keywords: ["Apple", "headset", "review", "reviews", "spatial computing"] },
+  "taylor-swift-tour-impact": { aliases: ["Taylor Swift", "Eras Tour", "Swifties"], keywords: ["tour", "concert", "tickets", "streaming", "records"] },
+  "ai-regulation-eu-vote": { aliases: ["EU AI Act", "AI Act"], keywords: ["regulation", "European Parliament", "Brussels", "vote", "EU", "lawmakers"] },
+  "nvidia-earnings-leak": { aliases: ["NVIDIA", "NVDA", "Jensen Huang"], keywords: ["earnings", "guidance", "data center", "GPU", "revenue", "beat"] },
+  "elon-musk-tweet-storm": { aliases: ["Elon Musk", "Musk", "Elon"], keywords: ["tweet", "tweets", "posted", "Tesla", "DOGE", "dogecoin"] },
+};
+
+// Deterministic history ending at the market's current momentum
+function buildHistory(market: SeedMarket, points = 20): number[] {
+  const slope = market.trend === "up" ? 1.5 : market.trend === "down" ? -1.5 : 0;
+  const history: number[] = [];
+  for (let i = points - 1; i >= 0; i--) {
+    const wobble = Math.sin(i * 1.7) * (market.trend === "volatile" ? 6 : 3);
+    history.push(Math.max(1, Math.min(100, market.momentum - slope * i + wobble)));
+  }
+  return history;
+}
+
+async function seed() {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("DATABASE_URL is required to seed the market catalog");
+  }
+
+  for (const category of categories) {
+    await db.insert(marketCategories).values(category).onDuplicateKeyUpdate({
+      set: { label: category.label },
+    });
+  }
+
+  const categoryRows = await db.select().from(marketCategories);
+  const categoryIds = new Map(categoryRows.map(c => [c.slug, c.id]));
+
+  for (const market of seedMarkets) {
+    const terms = matchTerms[market.slug] ?? { aliases: [], keywords: [] };
+    const existing = await db.select().from(markets).where(eq(markets.slug, market.slug)).limit(1);
+    if (existing.length > 0) {
+      await db.update(markets).set(terms).where(eq(markets.id, existing[0].id));
+      continue;
+    }
+
+    const [inserted] = await db.insert(markets).values({
+      slug: market.slug,
+      topic: market.topic,
+      categoryId: categoryIds.get(market.category)!,
+      hypeSummary: market.hypeSummary,
+      ...terms,
+      closesAt: new Date(Date.now() + market.closesInMinutes * 60_000),
+    }).$returningId();
+
+    const history = buildHistory(market);
+    const now = Date.now();
+    await db.insert(marketSnapshots).values(
+      history.map((momentum, i) => ({
+        marketId: inserted.id,
+        momentum,
+        change24h: market.change24h,
+        volumeUsd: market.volumeUsd,
+        participants: market.participants,
+        hypeScore: market.hypeScore,
+        capturedAt: new Date(now - (history.length - 1 - i) * 5 * 60_000),
+      }))
+    );
+    console.log(`[Seed] Added market: ${market.topic}`);
+  }
+}
+
+seed()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error("[Seed] Failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { SENTIMENT_EMOTIONS, analyzeMarketSentiment, analyzeSentiment, scoreSentiment } from "../shared/sentiment";
+
+/**
+ * Test the lexicon sentiment engine used when Hume is unavailable
+ */
+
+describe("Sentiment Engine", () => {
+  it("should give the same text the same vibe every time", () => {
+    const text = "NVIDIA earnings leak sends the stock soaring 🚀 but analysts warn of a bubble";
+
+    expect(analyzeSentiment(text)).toEqual(analyzeSentiment(text));
+  });
+
+  it("should read finance and crypto slang", () => {
+    const hype = analyzeSentiment("wagmi, this is going to the moon 🚀");
+    const fear = analyzeSentiment("rekt after the rug pull, total capitulation");
+
+    expect(hype.joy).toBeGreaterThan(75);
+    expect(hype.anxiety).toBe(0);
+    expect(hype.dominant_emotion).toBe("excitement");
+    expect(fear.anxiety).toBeGreaterThan(60);
+    expect(fear.joy).toBe(0);
+  });
+
+  it("should match the longest phrase once", () => {
+    expect(scoreSentiment("classic rug pull").hits).toBe(1);
+    expect(scoreSentiment("buy the dip").hits).toBe(1);
+  });
+
+  it("should flip negated terms toward the opposite emotion", () => {
+    const bullish = analyzeSentiment("analysts are bullish");
+    const notBullish = analyzeSentiment("analysts are not bullish");
+
+    expect(notBullish.joy).toBeLessThan(bullish.joy);
+    expect(notBullish.anxiety).toBeGreaterThan(bullish.anxiety);
+    expect(analyzeSentiment("no crash in sight").anxiety).toBe(0);
+  });
+
+  it("should scale with intensifiers, diminishers, caps and exclamations", () => {
+    const plain = analyzeSentiment("bearish").anxiety;
+
+    expect(analyzeSentiment("super bearish").anxiety).toBeGreaterThan(plain);
+    expect(analyzeSentiment("slightly bearish").anxiety).toBeLessThan(plain);
+    expect(analyzeSentiment("BEARISH").anxiety).toBeGreaterThan(plain);
+    expect(analyzeSentiment("bearish!!!").anxiety).toBeGreaterThan(plain);
+  });
+
+  it("should score emoji on their own", () => {
+    expect(analyzeSentiment("🚀🚀🔥").joy).toBeGreaterThan(70);
+    expect(analyzeSentiment("📉😱").anxiety).toBeGreaterThan(50);
+  });
+
+  it("should report every emotion and call featureless text neutral", () => {
+    const vibe = analyzeSentiment("The committee meets on Tuesday.");
+
+    expect(Object.keys(vibe.all_emotions)).toEqual([...SENTIMENT_EMOTIONS, "neutral"]);
+    expect(vibe).toMatchObject({ joy: 0, anxiety: 0, confidence: 20, dominant_emotion: "neutral" });
+    expect(vibe.all_emotions.neutral).toBe(100);
+  });
+
+  describe("market sentiment", () => {
+    it("should fall back to the price move when the text says nothing", () => {
+      const vibe = analyzeMarketSentiment({ text: "OpenAI IPO", change24h: 10, hypeScore: 50 });
+
+      // 40 + 10 × 1.2 + 50 × 0.3 = 67; "ipo" is one hit, so the text weighs 1/3
+      expect(vibe.joy).toBe(Math.round(analyzeSentiment("OpenAI IPO").joy / 3 + 67 * (2 / 3)));
+      expect(analyzeMarketSentiment({ text: "Quarterly update", change24h: 10, hypeScore: 50 }).joy).toBe(67);
+    });
+
+    it("should let strong text outweigh a calm price", () => {
+      const vibe = analyzeMarketSentiment({
+        text: "Panic selloff, exchange hacked, withdrawals frozen 😱",
+        change24h: 1,
+        hypeScore: 40,
+      });
+
+      expect(vibe.anxiety).toBeGreaterThan(75);
+    });
+  });
+});
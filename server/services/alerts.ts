@@ -0,0 +1,87 @@
+/**
+ * Alerts Service
+ * Shapes stored alert rules for the shared engine (shared/alertRules.ts)
+ * and keeps each market's metric history: one sample per market or vibe
+ * tick, carrying forward the latest value of every other metric.
+ */
+
+import type { AlertRule, MetricSample } from "@shared/alertRules";
+import type { AlertRuleRow, MarketSnapshot, VibeSnapshot } from "../../drizzle/schema";
+import type { FeedTick } from "./marketFeed";
+
+// Longest sustainedMinutes a rule may use, and so the history kept per market
+export const MAX_SUSTAINED_MINUTES = 24 * 60;
+export const ALERT_HISTORY_MS = MAX_SUSTAINED_MINUTES * 60 * 1000;
+
+export function toAlertRule(row: AlertRuleRow): AlertRule {
+  return {
+    id: String(row.id),
+    name: row.name,
+    kind: "custom",
+    severity: row.severity,
+    when: row.when,
+    cooldownMinutes: row.cooldownMinutes,
+    intensityMetric: row.intensityMetric,
+    message: row.message,
+  };
+}
+
+export function toAlertRuleView(row: AlertRuleRow) {
+  return {
+    ...toAlertRule(row),
+    id: row.id,
+    marketId: row.marketId === null ? null : String(row.marketId),
+    enabled: row.enabled,
+    createdAt: row.createdAt.getTime(),
+  };
+}
+
+function tickValues(tick: FeedTick): Omit<MetricSample, "at"> {
+  return tick.type === "market"
+    ? { momentum: tick.momentum, change24h: tick.change24h, hypeScore: tick.hypeScore }
+    : { joy: tick.joy, anxiety: tick.anxiety };
+}
+
+/**
+ * Append a tick to a market's history in place, dropping samples too old
+ * to matter
+ */
+export function appendTick(history: MetricSample[], tick: FeedTick): MetricSample[] {
+  const previous = history[history.length - 1];
+  history.push({ ...previous, ...tickValues(tick), at: tick.capturedAt });
+
+  const cutoff = tick.capturedAt - ALERT_HISTORY_MS;
+  while (history.length > 1 && history[0].at < cutoff) history.shift();
+  return history;
+}
+
+/**
+ * Rebuild a market's history from stored market and vibe snapshots
+ */
+export function historyFromSnapshots(
+  snapshots: Pick<MarketSnapshot, "momentum" | "change24h" | "hypeScore" | "capturedAt">[],
+  vibes: Pick<VibeSnapshot, "joy" | "anxiety" | "capturedAt">[]
+): MetricSample[] {
+  const ticks: FeedTick[] = [
+    ...snapshots.map(snapshot => ({
+      type: "market" as const,
+      snapshotId: 0,
+      marketId: "",
+      momentum: snapshot.momentum,
+      change24h: snapshot.change24h,
+      volume: "",
+      participants: 0,
+      hypeScore: snapshot.hypeScore,
+      capturedAt: snapshot.capturedAt.getTime(),
+    })),
+    ...vibes.map(vibe => ({
+      type: "vibe" as const,
+      marketId: "",
+      joy: vibe.joy,
+      anxiety: vibe.anxiety,
+      capturedAt: vibe.capturedAt.getTime(),
+    })),
+  ].sort((a, b) => a.capturedAt - b.capturedAt);
+
+  return ticks.reduce<MetricSample[]>(appendTick, []);
+}
@@ -0,0 +1,154 @@
+/**
+ * Automated Market Maker (LMSR)
+ * Prices LONG/SHORT shares for one market + contract duration from the
+ * outstanding share pools using Hanson's Logarithmic Market Scoring Rule.
+ * Shares leave the pool when their trade settles, so an expiry only ever
+ * prices against the contracts still open.
+ *
+ * Each share pays 1 USDC if its side wins at settlement.
+ *
+ *   cost C(qL, qS) = b * ln(e^(qL/b) + e^(qS/b))
+ *   price of LONG  = e^(qL/b) / (e^(qL/b) + e^(qS/b))      (SHORT = 1 - LONG)
+ *
+ * Buying x LONG shares costs C(qL + x, qS) - C(qL, qS). For a stake A the
+ * share count has a closed form:
+ *
+ *   x = b * ln(e^((C + A)/b) - e^(qS/b)) - qL
+ *
+ * `b` is the liquidity parameter: larger b means deeper pools and less
+ * price impact, with the house subsidising at most b * ln(2) per pool.
+ */
+
+import type { TradeDirection } from "./trading";
+
+// Default depth for a new pool, in shares; a 100 USDC order moves an even
+// pool by about 2%
+export const DEFAULT_LIQUIDITY = 5000;
+
+// Quotes moving the price by more than this get a price-impact warning
+export const PRICE_IMPACT_WARNING_THRESHOLD = 0.05;
+
+export interface PoolState {
+  longShares: number;
+  shortShares: number;
+  liquidity: number;
+}
+
+export interface AmmQuote {
+  direction: TradeDirection;
+  amount: number;
+  shares: number;
+  /** Marginal price of the side before the trade (0-1). */
+  spotPrice: number;
+  /** Average price paid per share. */
+  avgPrice: number;
+  /** Marginal price of the side after the trade. */
+  priceAfter: number;
+  /** (avgPrice - spotPrice) / spotPrice */
+  slippage: number;
+  /** (priceAfter - spotPrice) / spotPrice */
+  priceImpact: number;
+  /** Gross payout if the side wins (1 USDC per share). */
+  payoutIfWin: number;
+  warning: string | null;
+}
+
+export class SlippageExceededError extends Error {
+  constructor(
+    public maxPrice: number,
+    public avgPrice: number
+  ) {
+    super(`Price moved: ${avgPrice.toFixed(4)} per share exceeds your limit of ${maxPrice.toFixed(4)}`);
+    this.name = "SlippageExceededError";
+  }
+}
+
+export function emptyPool(liquidity: number = DEFAULT_LIQUIDITY): PoolState {
+  return { longShares: 0, shortShares: 0, liquidity };
+}
+
+// ln(e^a + e^b) without overflow
+function logSumExp(a: number, b: number): number {
+  const max = Math.max(a, b);
+  return max + Math.log(Math.exp(a - max) + Math.exp(b - max));
+}
+
+export function poolCost(pool: PoolState): number {
+  const b = pool.liquidity;
+  return b * logSumExp(pool.longShares / b, pool.shortShares / b);
+}
+
+export function spotPrice(pool: PoolState, direction: TradeDirection): number {
+  const b = pool.liquidity;
+  const own = direction === "long" ? pool.longShares : pool.shortShares;
+  const other = direction === "long" ? pool.shortShares : pool.longShares;
+  return 1 / (1 + Math.exp((other - own) / b));
+}
+
+/**
+ * Shares received for spending `amount` USDC on one side
+ */
+export function sharesForAmount(pool: PoolState, direction: TradeDirection, amount: number): number {
+  if (amount <= 0) return 0;
+
+  const b = pool.liquidity;
+  const own = direction === "long" ? pool.longShares : pool.shortShares;
+  const other = direction === "long" ? pool.shortShares : pool.longShares;
+
+  // ln(e^k - e^t) = k + ln(1 - e^(t - k)), with t < k because amount > 0
+  const k = (poolCost(pool) + amount) / b;
+  const t = other / b;
+  return b * (k + Math.log1p(-Math.exp(t - k))) - own;
+}
+
+export function applyTrade(pool: PoolState, direction: TradeDirection, shares: number): PoolState {
+  return direction === "long"
+    ? { ...pool, longShares: pool.longShares + shares }
+    : { ...pool, shortShares: pool.shortShares + shares };
+}
+
+/**
+ * Take a settled trade's shares back out of the pool
+ * Floored at zero so rounding drift never leaves a side negative.
+ */
+export function releaseShares(pool: PoolState, direction: TradeDirection, shares: number): PoolState {
+  return direction === "long"
+    ? { ...pool, longShares: Math.max(0, pool.longShares - shares) }
+    : { ...pool, shortShares: Math.max(0, pool.shortShares - shares) };
+}
+
+/**
+ * Price a purchase without changing the pool
+ * Pass `maxPrice` to reject the order if the average price per share would
+ * exceed what the user was quoted plus their tolerance.
+ */
+export function quoteTrade(
+  pool: PoolState,
+  direction: TradeDirection,
+  amount: number,
+  maxPrice?: number
+): AmmQuote {
+  const before = spotPrice(pool, direction);
+  const shares = sharesForAmount(pool, direction, amount);
+  const after = spotPrice(applyTrade(pool, direction, shares), direction);
+  const avgPrice = shares > 0 ? amount / shares : before;
+  if (maxPrice !== undefined && avgPrice > maxPrice) {
+    throw new SlippageExceededError(maxPrice, avgPrice);
+  }
+  const priceImpact = (after - before) / before;
+
+  return {
+    direction,
+    amount,
+    shares,
+    spotPrice: before,
+    avgPrice,
+    priceAfter: after,
+    slippage: (avgPrice - before) / before,
+    priceImpact,
+    payoutIfWin: shares,
+    warning: priceImpact > PRICE_IMPACT_WARNING_THRESHOLD
+      ? `High price impact: this order moves the ${direction.toUpperCase()} price by ${(priceImpact * 100).toFixed(1)}%`
+      : null,
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Briefing Archive
+ * Keeps every generated audio briefing: the MP3 goes to object storage,
+ * the script and inputs to the briefings table. Clients get a signed
+ * download URL instead of the audio itself.
+ */
+
+import { randomUUID } from "crypto";
+import type { BriefingLanguage } from "@shared/briefingLanguages";
+import type { Briefing, BriefingMarket } from "../../drizzle/schema";
+import { createBriefing } from "../db";
+import { storageGet, storagePut } from "../storage";
+
+export interface GeneratedBriefing {
+  userId: number | null;
+  script: string;
+  markets: BriefingMarket[];
+  voice: string;
+  language: BriefingLanguage;
+  model: string;
+  wordCount: number;
+  estimatedDuration: number;
+  audio: Buffer;
+  // The schedule that made it; null when someone pressed BRIEF
+  scheduleId?: number | null;
+}
+
+// Unguessable, and grouped by owner so a user's audio can be found in the bucket
+export function briefingStorageKey(userId: number | null): string {
+  return `briefings/${userId ?? "anonymous"}/${randomUUID()}.mp3`;
+}
+
+/**
+ * Store a briefing's audio and record it
+ * Returns the row and a signed URL for playback.
+ */
+export async function archiveBriefing(briefing: GeneratedBriefing): Promise<{ briefing: Briefing; audioUrl: string }> {
+  const { audio } = briefing;
+  const { key } = await storagePut(briefingStorageKey(briefing.userId), audio, "audio/mpeg");
+
+  const row = await createBriefing({
+    userId: briefing.userId,
+    storageKey: key,
+    script: briefing.script,
+    markets: briefing.markets,
+    voice: briefing.voice,
+    language: briefing.language,
+    model: briefing.model,
+    wordCount: briefing.wordCount,
+    estimatedDuration: briefing.estimatedDuration,
+    sizeBytes: audio.length,
+    scheduleId: briefing.scheduleId ?? null,
+  });
+
+  return { briefing: row, audioUrl: await briefingAudioUrl(row) };
+}
+
+export async function briefingAudioUrl(briefing: Pick<Briefing, "storageKey">): Promise<string> {
+  const { url } = await storageGet(briefing.storageKey);
+  return url;
+}
+
+// History menu entry; the script and a fresh audio URL come from briefings.get
+export function toBriefingSummary(briefing: Briefing) {
+  return {
+    id: briefing.id,
+    topics: briefing.markets.map(market => market.topic),
+    voice: briefing.voice,
+    language: briefing.language,
+    model: briefing.model,
+    wordCount: briefing.wordCount,
+    estimatedDuration: briefing.estimatedDuration,
+    createdAt: briefing.createdAt.getTime(),
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Briefing Schedules
+ * When a scheduled briefing runs next, in the schedule's own time zone,
+ * and which markets it covers. Pure; the briefing worker moves the data.
+ */
+
+import type { BriefingSchedule, Watchlist } from "../../drizzle/schema";
+import type { MarketSummary } from "./marketCatalog";
+
+export const BRIEFING_MARKETS = 3;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The zone's wall clock at an instant, as if it were UTC
+function wallClock(timezone: string, at: number): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+  }).formatToParts(new Date(at));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"));
+}
+
+// The instant a wall-clock time (expressed as UTC) occurs in the zone
+function fromWallClock(timezone: string, wall: number): number {
+  // The offset at the guess can differ from the offset at the answer
+  // around DST changes, so correct once more
+  let guess = wall - (wallClock(timezone, wall) - wall);
+  guess = wall - (wallClock(timezone, guess) - guess);
+  return guess;
+}
+
+/**
+ * First run strictly after `after`
+ */
+export function nextRunAt(
+  schedule: Pick<BriefingSchedule, "cadence" | "hour" | "minute" | "timezone">,
+  after: number
+): Date {
+  const wallNow = wallClock(schedule.timezone, after);
+  const day = wallNow - (wallNow % (24 * HOUR_MS));
+
+  if (schedule.cadence === "hourly") {
+    const hour = wallNow - (wallNow % HOUR_MS);
+    for (let i = 0; i <= 2; i++) {
+      const run = fromWallClock(schedule.timezone, hour + i * HOUR_MS + schedule.minute * MINUTE_MS);
+      if (run > after) return new Date(run);
+    }
+  } else {
+    for (let i = 0; i <= 2; i++) {
+      const run = fromWallClock(
+        schedule.timezone,
+        day + i * 24 * HOUR_MS + schedule.hour * HOUR_MS + schedule.minute * MINUTE_MS
+      );
+      if (run > after) return new Date(run);
+    }
+  }
+
+  // Unreachable for valid zones; never schedule in the past
+  return new Date(after + HOUR_MS);
+}
+
+/**
+ * Markets a scheduled briefing covers: the top by momentum, from the
+ * schedule's watchlist when it has one
+ */
+export function selectBriefingMarkets(
+  markets: MarketSummary[],
+  watchlist: Pick<Watchlist, "marketIds"> | null
+): MarketSummary[] {
+  const pool = watchlist ? markets.filter(market => watchlist.marketIds.includes(Number(market.id))) : markets;
+  return [...pool].sort((a, b) => b.momentum - a.momentum).slice(0, BRIEFING_MARKETS);
+}
+
+export function toScheduleView(schedule: BriefingSchedule) {
+  return {
+    id: schedule.id,
+    cadence: schedule.cadence,
+    hour: schedule.hour,
+    minute: schedule.minute,
+    timezone: schedule.timezone,
+    voice: schedule.voice,
+    language: schedule.language,
+    watchlistId: schedule.watchlistId,
+    enabled: schedule.enabled,
+    lastRunAt: schedule.lastRunAt?.getTime() ?? null,
+    nextRunAt: schedule.nextRunAt.getTime(),
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Briefing Stream
+ * Streams a briefing's speech to the browser as ElevenLabs produces it.
+ *
+ * ai.prepareLiveHypeBriefing writes the script and registers it here
+ * under a single-use id; the player then fetches
+ * GET /api/briefings/stream/:id, which proxies ElevenLabs' streaming
+ * endpoint chunk by chunk. If streaming cannot start, the route falls back
+ * to the buffered textToSpeech path and sends the whole MP3 at once. Either
+ * way the finished audio is archived like any other briefing.
+ *
+ * Pending scripts are kept in memory, so behind a load balancer the
+ * stream request needs the same sticky session as the tRPC call.
+ */
+
+import { randomUUID } from "crypto";
+import type { BriefingLanguage } from "@shared/briefingLanguages";
+import type { VoiceSettings } from "@shared/voiceSettings";
+import type { Express, Request, Response } from "express";
+import type { BriefingMarket } from "../../drizzle/schema";
+import { RateLimitExceededError } from "../rateLimit";
+import { archiveBriefing } from "./briefingArchive";
+import { streamTextToSpeech, textToSpeech } from "./elevenlabs";
+
+// Unclaimed streams are dropped after this long
+export const STREAM_TTL_MS = 2 * 60 * 1000;
+
+export const STREAM_MODE_HEADER = "X-Audio-Mode";
+
+export interface PendingBriefing {
+  userId: number | null;
+  script: string;
+  markets: BriefingMarket[];
+  /** Voice profile id, archived with the briefing. */
+  voice: string;
+  voiceId: string;
+  settings: VoiceSettings;
+  language: BriefingLanguage;
+  wordCount: number;
+  estimatedDuration: number;
+}
+
+const pending = new Map<string, PendingBriefing & { expiresAt: number }>();
+
+/**
+ * Register a script for streaming
+ * Returns the URL the player fetches the audio from.
+ */
+export function createBriefingStream(briefing: PendingBriefing, now: number = Date.now()): string {
+  for (const [id, entry] of Array.from(pending)) {
+    if (entry.expiresAt <= now) pending.delete(id);
+  }
+
+  const id = randomUUID();
+  pending.set(id, { ...briefing, expiresAt: now + STREAM_TTL_MS });
+  return `/api/briefings/stream/${id}`;
+}
+
+// Single use: a second fetch of the same id is a 404
+export function takeBriefingStream(id: string, now: number = Date.now()): PendingBriefing | null {
+  const entry = pending.get(id);
+  pending.delete(id);
+  if (!entry || entry.expiresAt <= now) return null;
+  const { expiresAt: _expiresAt, ...briefing } = entry;
+  return briefing;
+}
+
+export function clearBriefingStreams() {
+  pending.clear();
+}
+
+// Write a chunk, waiting for the socket to drain when the client is slow
+async function writeChunk(res: Response, chunk: Uint8Array): Promise<void> {
+  if (!res.write(chunk)) {
+    await new Promise<void>(resolve => {
+      const done = () => {
+        res.off("drain", done);
+        res.off("close", done);
+        resolve();
+      };
+      res.once("drain", done);
+      res.once("close", done);
+    });
+  }
+}
+
+function archive(briefing: PendingBriefing, chunks: Uint8Array[], model: string) {
+  // Anonymous briefings have no archive or podcast feed to be played from
+  if (briefing.userId === null) return;
+
+  const { voiceId: _voiceId, settings: _settings, ...archived } = briefing;
+  archiveBriefing({
+    ...archived,
+    model,
+    audio: Buffer.concat(chunks),
+  }).catch(error => {
+    console.warn("[BriefingStream] Archive failed:", error instanceof Error ? error.message : error);
+  });
+}
+
+export async function handleBriefingStream(req: Request, res: Response) {
+  const briefing = takeBriefingStream(req.params.id);
+  if (!briefing) {
+    res.status(404).json({ error: "Briefing stream not found or already played" });
+    return;
+  }
+
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const { voiceId, settings, language } = briefing;
+  const chunks: Uint8Array[] = [];
+
+  try {
+    const { stream, contentType, model } = await streamTextToSpeech(briefing.script, voiceId, controller.signal, {
+      language,
+      settings,
+    });
+    res.status(200).set({
+      "Content-Type": contentType,
+      "Cache-Control": "no-store",
+      [STREAM_MODE_HEADER]: "stream",
+    });
+    res.flushHeaders();
+
+    const reader = stream.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      await writeChunk(res, value);
+    }
+    res.end();
+    archive(briefing, chunks, model);
+    return;
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    // Audio already reached the player; it has to retry from the start
+    if (res.headersSent) {
+      console.error("[BriefingStream] Stream interrupted:", error instanceof Error ? error.message : error);
+      res.destroy();
+      return;
+    }
+    if (error instanceof RateLimitExceededError) {
+      res.status(429).json({ error: error.message });
+      return;
+    }
+    console.warn("[BriefingStream] Streaming failed, falling back to buffered audio:", error instanceof Error ? error.message : error);
+  }
+
+  try {
+    // The failed stream already charged the character quota for this script
+    const { audioBase64, contentType, model } = await textToSpeech(briefing.script, voiceId, {
+      language,
+      settings,
+      quotaCharged: true,
+    });
+    const audio = Buffer.from(audioBase64, "base64");
+    res.status(200).set({
+      "Content-Type": contentType,
+      "Content-Length": String(audio.length),
+      "Cache-Control": "no-store",
+      [STREAM_MODE_HEADER]: "buffered",
+    });
+    res.end(audio);
+    archive(briefing, [audio], model);
+  } catch (error) {
+    if (error instanceof RateLimitExceededError) {
+      res.status(429).json({ error: error.message });
+      return;
+    }
+    console.error("[BriefingStream] Buffered fallback failed:", error);
+    res.status(502).json({ error: "Audio generation failed. Please try again." });
+  }
+}
+
+export function registerBriefingStreamRoutes(app: Express) {
+  app.get("/api/briefings/stream/:id", handleBriefingStream);
+}
@@ -2,42 +2,39 @@
  * ElevenLabs Service for Audio Narrative
  * Generates briefing audio summaries of top markets
  * Optimized for ultra-low latency using Flash v2.5 model
- * Default voice: Bill (pMsXg8qnD5Ets9xZ9T2o)
+ * Default voice: Bill (pMsXg8qnD5Ets9xZ9T2o); every voice and the user's
+ * settings come from server/services/voiceProfiles.ts
  * Includes retry logic for network failures
+ * Every request is charged to the ElevenLabs rate limit budget, including
+ * the characters it will consume from the monthly quota
  */
 
+import type { BriefingLanguage } from "@shared/briefingLanguages";
+import { DEFAULT_VOICE_SETTINGS, type VoiceModel, type VoiceSettings } from "@shared/voiceSettings";
 import { ENV } from "../_core/env";
+import { estimateSpeech } from "../analysis";
+import { RateLimitExceededError, getRateLimiter, type Priority } from "../rateLimit";
 
 const ELEVENLABS_API_URL = "https://api.elevenlabs.io/v1";
 
-// Voice options
-const VOICES = {
-  // Bill - Deep, authoritative male voice (default)
-  BILL: "6EW6z8IiJRtePnNUNPKW",
-  // Charlotte - Professional female news anchor
-  CHARLOTTE: "XB0fDUnXU5powFXDhCwa",
-  // Rachel - Warm professional female voice
-  RACHEL: "21m00Tcm4TlvDq8ikWAM",
-  // Adam - Deep male voice
-  ADAM: "pNInz6obpgDQGcFmaJgB",
-  // Josh - Young professional male
-  JOSH: "TxGEqnHWrfWFTfGW9XjX",
-};
-
-// Default to Bill voice
-const DEFAULT_VOICE_ID = VOICES.BILL;
+// Bill - Deep, authoritative male voice (default)
+const DEFAULT_VOICE_ID = "6EW6z8IiJRtePnNUNPKW";
 
 // Model - Flash v2.5 for sub-second latency
-const MODELS = {
+// Both models speak every language in BRIEFING_LANGUAGES and accept
+// language_code to pin the spoken language
+const MODELS: Record<VoiceModel, string> = {
   // Flash v2.5 - Ultra-low latency (~75% faster), optimized for real-time applications
-  FLASH: "eleven_flash_v2_5",
+  flash: "eleven_flash_v2_5",
   // Turbo v2.5 - Low latency with better quality
-  TURBO: "eleven_turbo_v2_5",
+  turbo: "eleven_turbo_v2_5",
 };
 
 // Retry configuration
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 1000;
+// Longest wait for a streamed response's headers, then between its chunks
+const STREAM_IDLE_TIMEOUT_MS = 30_000;
 
 export interface MarketBriefing {
   topic: string;
@@ -56,7 +53,33 @@ export interface AudioBriefingResult {
   latencyMs: number;
 }
 
-export type VoiceOption = "bill" | "charlotte" | "rachel" | "adam" | "josh";
+// A voice profile resolved to its ElevenLabs voice
+export interface VoiceTarget {
+  id: string;
+  voiceId: string;
+}
+
+export const DEFAULT_VOICE: VoiceTarget = { id: "bill", voiceId: DEFAULT_VOICE_ID };
+
+export interface SpeechOptions {
+  language?: BriefingLanguage;
+  settings?: VoiceSettings;
+  /** The text's characters were already charged by an earlier attempt (e.g. a failed stream). */
+  quotaCharged?: boolean;
+  /** Rate-limit lane; scheduled briefings run in the background lane. Defaults to "interactive". */
+  priority?: Priority;
+}
+
+// A voice in the ElevenLabs account, as GET /v1/voices lists it
+export interface ElevenLabsVoice {
+  voice_id: string;
+  name: string;
+  category?: string;
+  description?: string | null;
+  labels?: Record<string, string>;
+  preview_url?: string | null;
+  verified_languages?: Array<{ language: string }>;
+}
 
 /**
  * Sleep helper for retry delays
@@ -84,20 +107,6 @@ function stripJSON(text: string): string {
   return cleaned;
 }
 
-/**
- * Get voice ID from voice name
- */
-function getVoiceId(voice: VoiceOption): string {
-  const voiceMap: Record<VoiceOption, string> = {
-    bill: VOICES.BILL,
-    charlotte: VOICES.CHARLOTTE,
-    rachel: VOICES.RACHEL,
-    adam: VOICES.ADAM,
-    josh: VOICES.JOSH,
-  };
-  return voiceMap[voice] || DEFAULT_VOICE_ID;
-}
-
 /**
  * Generate a 30-second script for top markets briefing
  * Optimized for brevity to reduce generation time
@@ -121,32 +130,48 @@ export function generateBriefingScript(markets: MarketBriefing[]): string {
   return [intro, ...marketSegments, outro].join(" ");
 }
 
+function ttsRequestBody(cleanText: string, modelId: string, language: BriefingLanguage, settings: VoiceSettings) {
+  return {
+    text: cleanText,
+    model_id: modelId,
+    language_code: language,
+    voice_settings: {
+      stability: settings.stability,
+      similarity_boost: settings.similarity,
+      style: 0.3,
+      use_speaker_boost: true,
+      speed: settings.speed,
+    },
+    // Maximum latency optimization for real-time streaming
+    optimize_streaming_latency: 4,
+  };
+}
+
 /**
  * Convert text to speech using ElevenLabs API with retry logic
- * Uses Flash v2.5 model for sub-second latency
+ * Uses the Flash v2.5 model for sub-second latency unless Turbo was chosen
  * Strips JSON formatting before sending
  */
 export async function textToSpeech(
   text: string,
   voiceId: string = DEFAULT_VOICE_ID,
-  useFlash: boolean = true,
+  speech: SpeechOptions = {},
   retryCount: number = 0
 ): Promise<{ audioBase64: string; contentType: string; model: string; latencyMs: number }> {
   const startTime = Date.now();
+  const { language = "en", settings = DEFAULT_VOICE_SETTINGS, quotaCharged = false, priority = "interactive" } = speech;
   
   // Strip JSON formatting and brackets - send only clean plain text
   const cleanText = stripJSON(text);
   
-  // Always use Flash v2.5 for sub-second latency
-  const modelId = MODELS.FLASH;
-
-  // Voice settings
-  const voiceSettings = {
-    stability: 0.40,
-    similarity_boost: 0.60,
-    style: 0.3,
-    use_speaker_boost: true,
-  };
+  const modelId = MODELS[settings.model];
+
+  // Retries and fallbacks are new requests, but the quota is only charged for characters once
+  await getRateLimiter().acquire(
+    "elevenlabs",
+    { requests: 1, characters: retryCount === 0 && !quotaCharged ? cleanText.length : 0 },
+    priority
+  );
 
   try {
     console.log(`[ElevenLabs] Starting TTS with model: ${modelId}, voice: ${voiceId}${retryCount > 0 ? ` (retry ${retryCount})` : ''}`);
@@ -162,13 +187,7 @@ export async function textToSpeech(
         "Content-Type": "application/json",
         Accept: "audio/mpeg",
       },
-      body: JSON.stringify({
-        text: cleanText,
-        model_id: modelId,
-        voice_settings: voiceSettings,
-        // Maximum latency optimization for real-time streaming
-        optimize_streaming_latency: 4,
-      }),
+      body: JSON.stringify(ttsRequestBody(cleanText, modelId, language, settings)),
       signal: controller.signal,
     });
     
@@ -206,7 +225,7 @@ export async function textToSpeech(
     if (isNetworkError && retryCount < MAX_RETRIES) {
       console.log(`[ElevenLabs] Network error, retrying in ${RETRY_DELAY_MS}ms... (attempt ${retryCount + 1}/${MAX_RETRIES})`);
       await sleep(RETRY_DELAY_MS * (retryCount + 1)); // Exponential backoff
-      return textToSpeech(text, voiceId, useFlash, retryCount + 1);
+      return textToSpeech(text, voiceId, speech, retryCount + 1);
     }
     
     console.error("[ElevenLabs] Error generating speech:", error);
@@ -214,6 +233,75 @@ export async function textToSpeech(
   }
 }
 
+/**
+ * Start streaming speech from ElevenLabs' streaming endpoint
+ * Resolves once the response headers arrive, so the first MP3 chunks can
+ * be forwarded while the rest is still being synthesized. The timeout
+ * covers the wait for the headers and then each gap between chunks, not
+ * the whole body, so long briefings are not cut off. There are no
+ * retries: callers fall back to textToSpeech instead.
+ */
+export async function streamTextToSpeech(
+  text: string,
+  voiceId: string = DEFAULT_VOICE_ID,
+  signal?: AbortSignal,
+  speech: SpeechOptions = {}
+): Promise<{ stream: ReadableStream<Uint8Array>; contentType: string; model: string }> {
+  const { language = "en", settings = DEFAULT_VOICE_SETTINGS, priority = "interactive" } = speech;
+  const cleanText = stripJSON(text);
+  const modelId = MODELS[settings.model];
+
+  await getRateLimiter().acquire("elevenlabs", { requests: 1, characters: cleanText.length }, priority);
+
+  const idle = new AbortController();
+  let timer = setTimeout(() => idle.abort(new Error("ElevenLabs stream timed out")), STREAM_IDLE_TIMEOUT_MS);
+  const restartTimer = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => idle.abort(new Error("ElevenLabs stream timed out")), STREAM_IDLE_TIMEOUT_MS);
+  };
+  signal?.addEventListener("abort", () => clearTimeout(timer), { once: true });
+
+  console.log(`[ElevenLabs] Starting streaming TTS with model: ${modelId}, voice: ${voiceId}`);
+  let response: Response;
+  try {
+    response = await fetch(`${ELEVENLABS_API_URL}/text-to-speech/${voiceId}/stream`, {
+      method: "POST",
+      headers: {
+        "xi-api-key": ENV.elevenLabsApiKey,
+        "Content-Type": "application/json",
+        Accept: "audio/mpeg",
+      },
+      body: JSON.stringify(ttsRequestBody(cleanText, modelId, language, settings)),
+      signal: signal ? AbortSignal.any([signal, idle.signal]) : idle.signal,
+    });
+  } catch (error) {
+    clearTimeout(timer);
+    throw error;
+  }
+
+  if (!response.ok || !response.body) {
+    clearTimeout(timer);
+    const errorText = await response.text().catch(() => "");
+    console.error("[ElevenLabs] Streaming API error:", errorText);
+    throw new Error(`ElevenLabs API error: ${response.status}`);
+  }
+
+  restartTimer();
+  const stream = response.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        restartTimer();
+        controller.enqueue(chunk);
+      },
+      flush() {
+        clearTimeout(timer);
+      },
+    })
+  );
+
+  return { stream, contentType: "audio/mpeg", model: modelId };
+}
+
 /**
  * Generate briefing with Wall Street-style delivery
  * Uses Gemini-generated script and Bill voice
@@ -221,18 +309,17 @@ export async function textToSpeech(
  */
 export async function generateLiveHypeBriefing(
   script: string,
-  voice: VoiceOption = "bill"
+  voice: VoiceTarget = DEFAULT_VOICE,
+  speech: SpeechOptions = {}
 ): Promise<AudioBriefingResult> {
   const startTime = Date.now();
-  const voiceId = getVoiceId(voice);
 
   try {
     // Convert to speech using Flash model for instant playback
-    const { audioBase64, model, latencyMs } = await textToSpeech(script, voiceId, true);
+    const { audioBase64, model, latencyMs } = await textToSpeech(script, voice.voiceId, speech);
 
-    // Calculate duration based on word count (~150 words per minute for professional narration)
-    const wordCount = script.split(/\s+/).length;
-    const estimatedDuration = Math.round((wordCount / 150) * 60);
+    // Calculate duration at a professional narrator's pace for the language
+    const { estimatedDuration } = estimateSpeech(script, speech.language);
 
     const totalTime = Date.now() - startTime;
     console.log(`[ElevenLabs] Generated briefing in ${totalTime}ms (TTS: ${latencyMs}ms) using ${model}`);
@@ -243,10 +330,11 @@ export async function generateLiveHypeBriefing(
       duration: estimatedDuration,
       script,
       model,
-      voice,
+      voice: voice.id,
       latencyMs: totalTime,
     };
   } catch (error) {
+    if (error instanceof RateLimitExceededError) throw error;
     console.error("[ElevenLabs] Failed to generate briefing:", error);
     throw new Error("Audio generation failed. Please try again.");
   }
@@ -258,17 +346,16 @@ export async function generateLiveHypeBriefing(
  */
 export async function generateAlphaBriefing(
   markets: MarketBriefing[],
-  voice: VoiceOption = "bill"
+  voice: VoiceTarget = DEFAULT_VOICE
 ): Promise<AudioBriefingResult> {
   const startTime = Date.now();
-  const voiceId = getVoiceId(voice);
 
   // Generate the script (optimized for brevity)
   const script = generateBriefingScript(markets);
 
   try {
     // Convert to speech using Flash model
-    const { audioBase64, model, latencyMs } = await textToSpeech(script, voiceId, true);
+    const { audioBase64, model, latencyMs } = await textToSpeech(script, voice.voiceId);
 
     // Estimate duration (roughly 150 words per minute for professional narration)
     const wordCount = script.split(/\s+/).length;
@@ -283,24 +370,36 @@ export async function generateAlphaBriefing(
       duration: estimatedDuration,
       script,
       model,
-      voice,
+      voice: voice.id,
       latencyMs: totalTime,
     };
   } catch (error) {
+    if (error instanceof RateLimitExceededError) throw error;
     console.error("[ElevenLabs] Failed to generate briefing:", error);
     throw new Error("Audio generation failed. Please try again.");
   }
 }
 
 /**
- * Get list of available voice options for the UI
+ * List the voices in the ElevenLabs account
+ * Premade voices plus any added from the Voice Library; synced into voice
+ * profiles by server/services/voiceProfiles.ts.
  */
-export function getVoiceOptions(): Array<{ id: VoiceOption; name: string; description: string }> {
-  return [
-    { id: "bill", name: "Bill", description: "Deep, authoritative male voice - Default" },
-    { id: "charlotte", name: "Charlotte", description: "Professional female news anchor" },
-    { id: "rachel", name: "Rachel", description: "Warm, professional female voice" },
-    { id: "adam", name: "Adam", description: "Deep, commanding male voice" },
-    { id: "josh", name: "Josh", description: "Young, energetic male voice" },
-  ];
+export async function listAccountVoices(): Promise<ElevenLabsVoice[]> {
+  if (!ENV.elevenLabsApiKey) {
+    throw new Error("ELEVENLABS_API_KEY is not configured");
+  }
+
+  await getRateLimiter().acquire("elevenlabs", { requests: 1 }, "interactive");
+
+  const response = await fetch(`${ELEVENLABS_API_URL}/voices`, {
+    headers: { "xi-api-key": ENV.elevenLabsApiKey },
+    signal: AbortSignal.timeout(30_000),
+  });
+  if (!response.ok) {
+    throw new Error(`ElevenLabs API error: ${response.status}`);
+  }
+
+  const body = (await response.json()) as { voices?: ElevenLabsVoice[] };
+  return body.voices ?? [];
 }
@@ -1,219 +1,144 @@
 /**
- * Gemini AI Service for Data Pipeline
- * Optimized for Free Tier limits (15 RPM):
- * - Batches up to 10 signals per API call
+ * AI Analysis Service for Data Pipeline
+ * Entry points for signal analysis, strategy and briefings. The work is done
+ * by the configured AnalysisProvider (Gemini direct, invokeLLM or offline,
+ * see server/analysis); this layer adds what every backend needs:
+ * - Batches signals up to the provider's batch size
  * - Combined Filter + Strategist output
- * - Rate limiting with request queue
- * - Wall Street-style Live Hype Briefing generation
+ * - Rate limiting of remote providers against their budgets (see
+ *   server/rateLimit); ingestion batches run in the background lane
+ * - Cache of validated results keyed by content hash (see server/cache),
+ *   so repeated headlines and summaries do not spend quota
+ * - Schema validation of every structured reply, with one repair round
+ *   for the items that failed and a reason for any that still fail
+ * - Fallbacks when a provider call fails
  */
 
-import { ENV } from "../_core/env";
-
-// Combined Filter + Strategist output
-export interface SignalAnalysis {
-  core_event: string;
-  main_actors: string[];
-  hype_summary: string;
-  is_bot_noise: boolean;
-  confidence: number;
-  // Strategist fields
-  recommended_duration: "30M" | "1H" | "3H";
-  rationale: string;
+import type { BriefingLanguage } from "@shared/briefingLanguages";
+import {
+  PROMPT_VERSION,
+  briefOffline,
+  estimateSpeech,
+  getAnalysisProvider,
+  validateBatch,
+  validateStrategy,
+  type MarketBriefingData,
+  type MarketStrategy,
+  type RawSignal,
+  type RepairRequest,
+  type SignalAnalysis,
+  type StrategyRequest,
+  type AnalysisProvider,
+} from "../analysis";
+import { buildBatchPrompt, buildBriefingPrompt, buildStrategyPrompt } from "../analysis/prompts";
+import { cacheKey, getAnalysisCache } from "../cache";
+import { estimateTokens, getRateLimiter, type Priority } from "../rateLimit";
+
+export type { MarketBriefingData, MarketStrategy, RawSignal, SignalAnalysis } from "../analysis";
+
+// Model tokens reserved for each reply, matching the providers' output caps
+const RESPONSE_TOKENS = { batch: 2048, strategy: 512, briefing: 400 };
+
+// Remote providers draw on their rate limit budget first; offline runs directly
+function runProvider<T>(
+  provider: AnalysisProvider,
+  priority: Priority,
+  prompt: string,
+  responseTokens: number,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (!provider.remote || provider.id === "offline") return fn();
+  const usage = { requests: 1, tokens: estimateTokens(prompt, responseTokens) };
+  return getRateLimiter().schedule(provider.id, usage, priority, fn);
 }
 
-export interface RawSignal {
-  id: string;
-  source: "twitter" | "reddit" | "hackernews" | "news";
-  content: string;
-  timestamp: number;
-  engagement?: {
-    likes?: number;
-    retweets?: number;
-    comments?: number;
-  };
-}
+// Repair prompts sent for invalid output before giving up on an item
+export const MAX_REPAIR_ATTEMPTS = 1;
 
-// Market data for briefing generation
-export interface MarketBriefingData {
-  topic: string;
-  momentum: number;
-  change24h: number;
-  volume: string;
-  hypeScore: number;
-  hypeSummary?: string;
+export interface AnalyzedSignal {
+  analysis: SignalAnalysis;
+  /** Why no valid analysis was obtained; the analysis is then a fallback. */
+  failureReason: string | null;
 }
 
-// Rate limiting: 15 RPM = 1 request per 4 seconds
-const MIN_REQUEST_INTERVAL_MS = 4000;
-let lastRequestTime = 0;
-const requestQueue: Array<() => Promise<void>> = [];
-let isProcessingQueue = false;
-
-async function processQueue() {
-  if (isProcessingQueue || requestQueue.length === 0) return;
-  isProcessingQueue = true;
-
-  while (requestQueue.length > 0) {
-    const now = Date.now();
-    const timeSinceLastRequest = now - lastRequestTime;
-    
-    if (timeSinceLastRequest < MIN_REQUEST_INTERVAL_MS) {
-      await new Promise(resolve => setTimeout(resolve, MIN_REQUEST_INTERVAL_MS - timeSinceLastRequest));
-    }
-    
-    const request = requestQueue.shift();
-    if (request) {
-      lastRequestTime = Date.now();
-      await request();
-    }
-  }
+// Batch analyze signals, one provider call per batch plus repairs
+export async function analyzeSignalsWithReport(
+  signals: RawSignal[],
+  priority: Priority = "background"
+): Promise<Map<string, AnalyzedSignal>> {
+  const analyses = new Map<string, SignalAnalysis>();
+  const failures = new Map<string, string>();
+
+  if (signals.length === 0) return new Map();
+
+  const provider = getAnalysisProvider();
+  const cache = getAnalysisCache();
+  const version = `${PROMPT_VERSION}:${provider.id}`;
+  const keys = new Map(signals.map(signal => [signal.id, cacheKey("signal", version, signal.content)]));
+
+  const cached = await cache.getMany<SignalAnalysis>("signal", Array.from(keys.values()));
+  signals.forEach(signal => {
+    const hit = cached.get(keys.get(signal.id)!);
+    if (hit) analyses.set(signal.id, hit);
+  });
+  const uncached = signals.filter(signal => !analyses.has(signal.id));
+  const fresh: Array<[string, SignalAnalysis]> = [];
 
-  isProcessingQueue = false;
-}
+  for (let i = 0; i < uncached.length; i += provider.maxBatchSize) {
+    let pending = uncached.slice(i, i + provider.maxBatchSize);
+    let repair: RepairRequest | undefined;
 
-function queueRequest<T>(fn: () => Promise<T>): Promise<T> {
-  return new Promise((resolve, reject) => {
-    requestQueue.push(async () => {
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS && pending.length > 0; attempt++) {
+      let text: string;
       try {
-        const result = await fn();
-        resolve(result);
+        const batch = pending;
+        const request = repair;
+        const prompt = buildBatchPrompt(batch, request);
+        text = await runProvider(provider, priority, prompt, RESPONSE_TOKENS.batch, () => provider.analyzeBatch(batch, request));
       } catch (error) {
-        reject(error);
+        console.error(`[Analysis] ${provider.id} batch analysis error:`, error);
+        const reason = `Provider error: ${error instanceof Error ? error.message : String(error)}`;
+        pending.forEach(signal => failures.set(signal.id, reason));
+        break;
       }
-    });
-    processQueue();
-  });
-}
-
-const GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent";
-
-const BATCH_SYSTEM_PROMPT = `You are a financial signal analyst and strategist for "Attention Index" trading platform.
-Analyze social signals and provide BOTH data extraction AND trading strategy recommendations.
-
-For EACH signal in the batch, output:
-1. core_event: The main event being discussed
-2. main_actors: Key people/companies involved (array)
-3. hype_summary: Brief sentiment summary (max 50 words)
-4. is_bot_noise: Boolean - true if spam/bot content
-5. confidence: 0-100 score for analysis quality
-6. recommended_duration: Trading window - "30M" (high volatility), "1H" (moderate), or "3H" (stable trend)
-7. rationale: Brief reason for duration recommendation (max 30 words)
-
-STRATEGY RULES:
-- 30M: Use for breaking news, viral moments, high engagement spikes
-- 1H: Use for developing stories, moderate momentum
-- 3H: Use for established trends, stable sentiment
-
-To maintain 90% accuracy:
-- Ignore bot/spam content (repetitive, suspicious patterns)
-- Focus on genuine engagement signals
-- Be conservative with confidence scores
-
-Respond with a JSON array, one object per signal in the same order as input.`;
-
-// Wall Street-style briefing prompt
-const WALL_STREET_BRIEFING_PROMPT = `You are a senior Wall Street market analyst delivering a live audio briefing for "Attention Index" - a platform that trades momentum on viral topics and cultural moments.
-
-Write a punchy, urgent, 45-second market update script (approximately 120-140 words) in the style of CNBC's Fast Money or Bloomberg's Market Wrap.
-
-TONE REQUIREMENTS:
-- Professional but energetic - like a trader who just spotted alpha
-- Data-driven with specific numbers
-- Urgent and time-sensitive language
-- Use financial jargon naturally (momentum, velocity, positioning, flows)
-- Short, punchy sentences for impact
-- Create FOMO without being unprofessional
-
-STRUCTURE:
-1. HOOK (5 sec): Attention-grabbing opening about the hottest market
-2. TOP 3 BREAKDOWN (30 sec): Cover each market with momentum %, direction, and key insight
-3. ALPHA CALL (8 sec): One specific actionable insight or pattern you're seeing
-4. CLOSE (2 sec): Sign-off with urgency
-
-STYLE EXAMPLES:
-- "Attention is SURGING on OpenAI IPO Hype - up 45% in the last hour alone."
-- "Smart money is rotating into tech narratives. We're seeing massive velocity spikes."
-- "If you're not positioned in this move, you're leaving alpha on the table."
-
-Output ONLY the script text, no JSON or formatting.`;
-
-// Batch analyze up to 10 signals in a single API call
-export async function analyzeBatchSignals(signals: RawSignal[]): Promise<Map<string, SignalAnalysis>> {
-  const results = new Map<string, SignalAnalysis>();
-  
-  if (signals.length === 0) return results;
 
-  // Batch size of 10 to stay efficient within Free Tier
-  const BATCH_SIZE = 10;
-  
-  for (let i = 0; i < signals.length; i += BATCH_SIZE) {
-    const batch = signals.slice(i, i + BATCH_SIZE);
-    
-    const batchPrompt = batch.map((signal, idx) => 
-      `Signal ${idx + 1} (${signal.source}):
-Content: "${signal.content.slice(0, 500)}"
-${signal.engagement ? `Engagement: likes=${signal.engagement.likes || 0}, comments=${signal.engagement.comments || 0}` : ""}`
-    ).join("\n\n");
-
-    const fullPrompt = `${BATCH_SYSTEM_PROMPT}
-
-Analyze these ${batch.length} signals:
-
-${batchPrompt}
-
-Respond with a JSON array of ${batch.length} analysis objects.`;
-
-    try {
-      const analyses = await queueRequest(async () => {
-        const response = await fetch(`${GEMINI_API_URL}?key=${ENV.geminiApiKey}`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            contents: [{ role: "user", parts: [{ text: fullPrompt }] }],
-            generationConfig: {
-              temperature: 0.2,
-              topK: 40,
-              topP: 0.95,
-              maxOutputTokens: 2048,
-              responseMimeType: "application/json",
-            },
-          }),
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error("[Gemini] Batch API error:", errorText);
-          throw new Error(`Gemini API error: ${response.status}`);
-        }
-
-        const data = await response.json();
-        const textContent = data.candidates?.[0]?.content?.parts?.[0]?.text;
-
-        if (!textContent) {
-          throw new Error("No content in Gemini batch response");
-        }
-
-        return JSON.parse(textContent) as SignalAnalysis[];
+      const result = validateBatch(pending, text);
+      result.analyses.forEach((analysis, id) => {
+        analyses.set(id, analysis);
+        failures.delete(id);
+        fresh.push([keys.get(id)!, analysis]);
       });
+      result.failures.forEach((reason, id) => failures.set(id, reason));
 
-      // Map results back to signal IDs
-      batch.forEach((signal, idx) => {
-        if (analyses[idx]) {
-          results.set(signal.id, analyses[idx]);
-        } else {
-          results.set(signal.id, createFallbackAnalysis(signal));
-        }
-      });
-    } catch (error) {
-      console.error("[Gemini] Batch analysis error:", error);
-      // Fallback for entire batch on error
-      batch.forEach(signal => {
-        results.set(signal.id, createFallbackAnalysis(signal));
-      });
+      pending = pending.filter(signal => result.failures.has(signal.id));
+      repair = {
+        previousOutput: text,
+        problems: pending.map(signal => `signal ${signal.id}: ${result.failures.get(signal.id)}`),
+      };
     }
   }
 
-  return results;
+  await cache.setMany("signal", fresh);
+
+  if (failures.size > 0) {
+    console.warn(`[Analysis] ${failures.size} of ${signals.length} signal analyses could not be validated`);
+  }
+
+  return new Map(signals.map(signal => {
+    const analysis = analyses.get(signal.id);
+    return [signal.id, analysis
+      ? { analysis, failureReason: null }
+      : { analysis: createFallbackAnalysis(signal), failureReason: failures.get(signal.id) ?? "Not analyzed" }];
+  }));
+}
+
+// Batch analyze signals; failed items get a zero-confidence fallback
+export async function analyzeBatchSignals(
+  signals: RawSignal[],
+  priority: Priority = "background"
+): Promise<Map<string, SignalAnalysis>> {
+  const report = await analyzeSignalsWithReport(signals, priority);
+  return new Map(Array.from(report, ([id, result]) => [id, result.analysis]));
 }
 
 function createFallbackAnalysis(signal: RawSignal): SignalAnalysis {
@@ -230,7 +155,7 @@ function createFallbackAnalysis(signal: RawSignal): SignalAnalysis {
 
 // Single signal analysis (uses batch internally for consistency)
 export async function analyzeSignal(signal: RawSignal): Promise<SignalAnalysis> {
-  const results = await analyzeBatchSignals([signal]);
+  const results = await analyzeBatchSignals([signal], "interactive");
   return results.get(signal.id) || createFallbackAnalysis(signal);
 }
 
@@ -239,191 +164,101 @@ export async function analyzeMultipleSignals(signals: RawSignal[]): Promise<Map<
   return analyzeBatchSignals(signals);
 }
 
+const DEFAULT_STRATEGY: MarketStrategy = {
+  summary: "Strategy analysis pending...",
+  momentum: "stable",
+  recommended_duration: "1H",
+  rationale: "Default recommendation while analysis loads",
+  risk_level: "medium",
+};
+
+// Validated strategy from the provider with one repair round, or null
+async function requestStrategy(provider: AnalysisProvider, request: StrategyRequest): Promise<MarketStrategy | null> {
+  let repair: RepairRequest | undefined;
+  let reason = "";
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    try {
+      const previous = repair;
+      const prompt = buildStrategyPrompt(request, previous);
+      const text = await runProvider(provider, "interactive", prompt, RESPONSE_TOKENS.strategy, () =>
+        provider.generateStrategy(request, previous)
+      );
+      const result = validateStrategy(text);
+      if (result.ok) return result.strategy;
+
+      reason = result.reason;
+      repair = { previousOutput: text, problems: [reason] };
+    } catch (error) {
+      reason = `Provider error: ${error instanceof Error ? error.message : String(error)}`;
+      break;
+    }
+  }
+
+  console.error(`[Analysis] ${provider.id} strategy generation failed: ${reason}`);
+  return null;
+}
+
 // Generate market summary with strategist recommendation
 export async function generateMarketStrategy(
   topic: string,
   recentSignals: RawSignal[],
   currentMomentum: number,
   vibeData?: { joy: number; anxiety: number }
-): Promise<{
-  summary: string;
-  momentum: "rising" | "falling" | "stable";
-  recommended_duration: "30M" | "1H" | "3H";
-  rationale: string;
-  risk_level: "low" | "medium" | "high";
-}> {
-  const signalTexts = recentSignals.slice(0, 5).map((s) => `- ${s.content.slice(0, 200)}`).join("\n");
-
-  const prompt = `Analyze market "${topic}" and provide trading strategy:
-
-Recent signals:
-${signalTexts}
-
-Current momentum: ${currentMomentum}%
-${vibeData ? `Vibe analysis: JOY=${vibeData.joy}%, ANX=${vibeData.anxiety}%` : ""}
-
-Provide:
-1. summary: 2-3 sentence market overview
-2. momentum: "rising", "falling", or "stable"
-3. recommended_duration: "30M", "1H", or "3H"
-4. rationale: Why this duration (max 40 words)
-5. risk_level: "low", "medium", or "high"
-
-JSON response only.`;
-
-  try {
-    return await queueRequest(async () => {
-      const response = await fetch(`${GEMINI_API_URL}?key=${ENV.geminiApiKey}`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          contents: [{ role: "user", parts: [{ text: prompt }] }],
-          generationConfig: {
-            temperature: 0.3,
-            maxOutputTokens: 512,
-            responseMimeType: "application/json",
-          },
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Gemini API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const textContent = data.candidates?.[0]?.content?.parts?.[0]?.text;
-
-      if (!textContent) {
-        throw new Error("No content in Gemini response");
-      }
+): Promise<MarketStrategy> {
+  const provider = getAnalysisProvider();
+  const request: StrategyRequest = { topic, signals: recentSignals, currentMomentum, vibeData };
+
+  // What the prompt is built from; momentum and vibe are rounded so small moves still hit
+  const key = cacheKey("strategy", `${PROMPT_VERSION}:${provider.id}`, JSON.stringify({
+    topic,
+    signals: recentSignals.slice(0, 5).map(signal => signal.content.slice(0, 200)),
+    momentum: Math.round(currentMomentum),
+    vibe: vibeData && [Math.round(vibeData.joy), Math.round(vibeData.anxiety)],
+  }));
 
-      return JSON.parse(textContent);
-    });
-  } catch (error) {
-    console.error("[Gemini] Strategy generation error:", error);
-    return {
-      summary: "Strategy analysis pending...",
-      momentum: "stable",
-      recommended_duration: "1H",
-      rationale: "Default recommendation while analysis loads",
-      risk_level: "medium",
-    };
-  }
+  const strategy = await getAnalysisCache().wrap("strategy", key, () => requestStrategy(provider, request), result => result !== null);
+  return strategy ?? DEFAULT_STRATEGY;
 }
 
 /**
  * Generate Wall Street-style Live Hype Briefing
- * Creates a punchy, 45-second market update script for voice synthesis
+ * Creates a punchy, 45-second market update script for voice synthesis,
+ * written in the requested language
  */
-export async function generateLiveHypeBriefing(markets: MarketBriefingData[]): Promise<{
+export async function generateLiveHypeBriefing(
+  markets: MarketBriefingData[],
+  language: BriefingLanguage = "en",
+  priority: Priority = "interactive"
+): Promise<{
   script: string;
   wordCount: number;
   estimatedDuration: number;
 }> {
   const topMarkets = markets.slice(0, 3);
-  
-  const marketsData = topMarkets.map((m, i) => 
-    `MARKET ${i + 1}: ${m.topic}
-- Momentum: ${m.momentum}%
-- 24h Change: ${m.change24h >= 0 ? '+' : ''}${m.change24h.toFixed(1)}%
-- Volume: ${m.volume}
-- Hype Score: ${m.hypeScore}/100
-${m.hypeSummary ? `- Context: ${m.hypeSummary}` : ''}`
-  ).join('\n\n');
-
-  const prompt = `${WALL_STREET_BRIEFING_PROMPT}
-
-TOP 3 TRENDING MARKETS RIGHT NOW:
-
-${marketsData}
-
-Write the 45-second briefing script now:`;
+  const provider = getAnalysisProvider();
 
+  let script: string;
   try {
-    const script = await queueRequest(async () => {
-      const response = await fetch(`${GEMINI_API_URL}?key=${ENV.geminiApiKey}`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          contents: [{ role: "user", parts: [{ text: prompt }] }],
-          generationConfig: {
-            temperature: 0.7, // Higher for more creative/punchy output
-            topK: 40,
-            topP: 0.95,
-            maxOutputTokens: 400,
-          },
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("[Gemini] Briefing API error:", errorText);
-        throw new Error(`Gemini API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const textContent = data.candidates?.[0]?.content?.parts?.[0]?.text;
-
-      if (!textContent) {
-        throw new Error("No content in Gemini briefing response");
-      }
-
-      return textContent.trim();
-    });
-
-    const wordCount = script.split(/\s+/).length;
-    // Professional narration: ~150 words per minute
-    const estimatedDuration = Math.round((wordCount / 150) * 60);
-
-    console.log(`[Gemini] Generated briefing: ${wordCount} words, ~${estimatedDuration}s`);
-
-    return {
-      script,
-      wordCount,
-      estimatedDuration,
-    };
+    script = await runProvider(provider, priority, buildBriefingPrompt(topMarkets, language), RESPONSE_TOKENS.briefing, () =>
+      provider.generateBriefing(topMarkets, language)
+    );
   } catch (error) {
-    console.error("[Gemini] Live briefing generation error:", error);
-    
+    console.error(`[Analysis] ${provider.id} live briefing generation error:`, error);
     // Fallback script using actual market data
-    const fallbackScript = generateFallbackBriefing(topMarkets);
-    const wordCount = fallbackScript.split(/\s+/).length;
-    
-    return {
-      script: fallbackScript,
-      wordCount,
-      estimatedDuration: Math.round((wordCount / 150) * 60),
-    };
+    script = briefOffline(topMarkets, language);
   }
-}
 
-/**
- * Generate a fallback briefing when API is unavailable
- */
-function generateFallbackBriefing(markets: MarketBriefingData[]): string {
-  if (markets.length === 0) {
-    return "This is your Attention Index live briefing. Markets are currently being analyzed. Check back shortly for the latest momentum plays. Trade smart.";
-  }
+  // At a professional narrator's pace (~150 words per minute in English)
+  const { wordCount, estimatedDuration } = estimateSpeech(script, language);
 
-  const top = markets[0];
-  const second = markets[1];
-  const third = markets[2];
+  console.log(`[Analysis] Generated ${language} briefing: ${wordCount} words, ~${estimatedDuration}s`);
 
-  let script = `This is your Attention Index live briefing. `;
-  
-  script += `Leading the momentum board right now: ${top.topic}, surging ${top.change24h >= 0 ? 'up' : 'down'} ${Math.abs(top.change24h).toFixed(0)} percent with a hype score of ${top.hypeScore}. `;
-  
-  if (second) {
-    script += `In second position, ${second.topic} showing ${second.momentum} percent momentum. `;
-  }
-  
-  if (third) {
-    script += `And rounding out the top three, ${third.topic} at ${third.momentum} percent. `;
-  }
-  
-  script += `That's your alpha update. Position accordingly and trade smart.`;
-  
-  return script;
+  return {
+    script,
+    wordCount,
+    estimatedDuration,
+  };
 }
 
 // Legacy briefing function - now uses Wall Street style
@@ -436,7 +271,7 @@ export async function generateBriefingText(markets: Array<{ topic: string; momen
     hypeScore: m.momentum,
     hypeSummary: m.hype_summary,
   }));
-  
+
   const result = await generateLiveHypeBriefing(briefingData);
   return result.script;
 }
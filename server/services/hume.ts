@@ -1,11 +1,17 @@
 /**
  * Hume AI Service for Vibe Analysis
- * Uses Expression Measurement API to calculate:
+ * Uses Expression Measurement batch jobs (see humeBatch.ts) to calculate:
  * - Joy (Excitement) score for momentum pump detection
  * - Anxiety (Risk) score for volatility alerts
  */
 
+import { getVibeAlert, type AlertKind } from "@shared/alertRules";
+import { analyzeSentiment } from "@shared/sentiment";
 import { ENV } from "../_core/env";
+import { cacheKey, getAnalysisCache } from "../cache";
+import { getRateLimiter, type Priority } from "../rateLimit";
+import { createHumeBatchClient } from "./humeBatch";
+import { emotionsToVibe } from "./humeEmotions";
 
 export interface VibeAnalysis {
   joy: number; // 0-100, excitement/positive momentum
@@ -16,183 +22,76 @@ export interface VibeAnalysis {
 }
 
 export interface VibeAlert {
-  type: "volatility_alert" | "momentum_pump" | null;
+  type: Exclude<AlertKind, "custom"> | null;
   intensity: number;
   message: string;
 }
 
-const HUME_API_URL = "https://api.hume.ai/v0/batch/jobs";
+// Part of the vibe cache key: bump when the job request or emotion mapping changes
+const VIBE_PROMPT_VERSION = "2";
+
+function vibeCacheKey(text: string): string {
+  return cacheKey("vibe", `${VIBE_PROMPT_VERSION}:hume`, text);
+}
+
+/**
+ * Analyze text sentiment with Hume's language model
+ * Runs a batch job and maps the emotion scores to joy/anxiety (see
+ * humeEmotions.ts). Hume results are cached by content; without a key, or
+ * when the job fails, the local keyword analysis answers and is not cached.
+ */
+export async function analyzeTextVibe(text: string, priority: Priority = "interactive"): Promise<VibeAnalysis> {
+  const [vibe] = await analyzeTextVibes([text], priority);
+  return vibe;
+}
 
 /**
- * Analyze text sentiment using Hume AI's language model
- * Since Hume's Expression Measurement is primarily for audio/video,
- * we'll use their language endpoint for text analysis
+ * Analyze many texts in a single Hume batch job, skipping cached ones
  */
-export async function analyzeTextVibe(text: string): Promise<VibeAnalysis> {
-  try {
-    // Use Hume's language model for text analysis
-    const response = await fetch("https://api.hume.ai/v0/evi/chat", {
-      method: "POST",
-      headers: {
-        "X-Hume-Api-Key": ENV.humeApiKey,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        messages: [
-          {
-            role: "user",
-            content: `Analyze the emotional content of this text and provide scores from 0-100 for joy/excitement and anxiety/fear. Text: "${text}"`,
-          },
-        ],
-      }),
+export async function analyzeTextVibes(texts: string[], priority: Priority = "background"): Promise<VibeAnalysis[]> {
+  const cache = getAnalysisCache();
+  const keys = texts.map(vibeCacheKey);
+  const cached = await cache.getMany<VibeAnalysis>("vibe", keys);
+
+  const uncached = Array.from(new Set(texts.filter((_, i) => !cached.has(keys[i]))));
+  const fresh = new Map<string, VibeAnalysis>();
+
+  if (uncached.length > 0 && ENV.humeApiKey) {
+    const client = createHumeBatchClient({
+      apiKey: ENV.humeApiKey,
+      baseUrl: ENV.humeBaseUrl || undefined,
+      // Submit, every poll and the predictions fetch are all Hume requests
+      beforeRequest: () => getRateLimiter().acquire("hume", { requests: 1 }, priority),
     });
 
-    // If the EVI endpoint isn't available, use a simpler sentiment analysis approach
-    if (!response.ok) {
-      // Fallback to keyword-based analysis with some randomization for demo
-      return analyzeTextVibeLocal(text);
+    try {
+      const results = await client.analyzeTexts(uncached);
+      results.forEach((emotions, i) => fresh.set(uncached[i], emotionsToVibe(emotions)));
+      await cache.setMany("vibe", Array.from(fresh, ([text, vibe]) => [vibeCacheKey(text), vibe] as [string, VibeAnalysis]));
+    } catch (error) {
+      console.error("[Hume] Error analyzing vibe:", error);
     }
-
-    const data = await response.json();
-    return parseHumeResponse(data);
-  } catch (error) {
-    console.error("[Hume] Error analyzing vibe:", error);
-    // Fallback to local analysis
-    return analyzeTextVibeLocal(text);
   }
+
+  return texts.map((text, i) => cached.get(keys[i]) ?? fresh.get(text) ?? analyzeTextVibeLocal(text));
 }
 
 /**
- * Local text analysis fallback using keyword patterns
- * This provides realistic-looking scores based on text sentiment
+ * Local text analysis fallback using the lexicon sentiment engine
+ * Deterministic, so the same text always gets the same vibe
  */
 function analyzeTextVibeLocal(text: string): VibeAnalysis {
-  const lowerText = text.toLowerCase();
-
-  // Positive/excitement keywords
-  const positiveKeywords = [
-    "moon",
-    "pump",
-    "bullish",
-    "breaking",
-    "huge",
-    "massive",
-    "rocket",
-    "surge",
-    "soar",
-    "boom",
-    "exciting",
-    "amazing",
-    "incredible",
-    "ipo",
-    "launch",
-    "announce",
-    "breakthrough",
-    "revolutionary",
-    "viral",
-    "trending",
-  ];
-
-  // Negative/anxiety keywords
-  const negativeKeywords = [
-    "crash",
-    "dump",
-    "bearish",
-    "warning",
-    "risk",
-    "fear",
-    "concern",
-    "drop",
-    "fall",
-    "decline",
-    "worry",
-    "uncertain",
-    "volatile",
-    "danger",
-    "collapse",
-    "panic",
-    "sell",
-    "loss",
-    "scam",
-    "fraud",
-  ];
-
-  // Count keyword matches
-  let positiveCount = 0;
-  let negativeCount = 0;
-
-  positiveKeywords.forEach((kw) => {
-    if (lowerText.includes(kw)) positiveCount++;
-  });
-
-  negativeKeywords.forEach((kw) => {
-    if (lowerText.includes(kw)) negativeCount++;
-  });
-
-  // Calculate base scores with some variance
-  const baseJoy = Math.min(100, 30 + positiveCount * 15 + Math.random() * 20);
-  const baseAnxiety = Math.min(100, 20 + negativeCount * 15 + Math.random() * 15);
-
-  // Normalize if both are high
-  const total = baseJoy + baseAnxiety;
-  const joy = total > 150 ? (baseJoy / total) * 130 : baseJoy;
-  const anxiety = total > 150 ? (baseAnxiety / total) * 130 : baseAnxiety;
-
-  // Determine dominant emotion
-  let dominant_emotion = "neutral";
-  if (joy > anxiety + 20) dominant_emotion = "excitement";
-  else if (anxiety > joy + 20) dominant_emotion = "fear";
-  else if (joy > 60 && anxiety > 40) dominant_emotion = "anticipation";
-
-  return {
-    joy: Math.round(joy),
-    anxiety: Math.round(anxiety),
-    confidence: Math.round(60 + Math.random() * 30),
-    dominant_emotion,
-    all_emotions: {
-      joy: Math.round(joy),
-      anxiety: Math.round(anxiety),
-      anticipation: Math.round((joy + anxiety) / 2),
-      surprise: Math.round(Math.random() * 40 + 20),
-      neutral: Math.round(100 - (joy + anxiety) / 2),
-    },
-  };
-}
-
-function parseHumeResponse(data: any): VibeAnalysis {
-  try {
-    // Parse Hume's response format
-    const emotions = data.emotions || {};
-    return {
-      joy: Math.round((emotions.joy || 0.5) * 100),
-      anxiety: Math.round((emotions.anxiety || 0.3) * 100),
-      confidence: Math.round((data.confidence || 0.7) * 100),
-      dominant_emotion: data.dominant_emotion || "neutral",
-      all_emotions: emotions,
-    };
-  } catch {
-    return analyzeTextVibeLocal("");
-  }
+  return analyzeSentiment(text);
 }
 
 /**
  * Generate alert based on vibe analysis
+ * Uses the built-in rules in shared/alertRules.ts, the same ones market cards show
  */
 export function generateVibeAlert(vibe: VibeAnalysis): VibeAlert {
-  if (vibe.anxiety > 70) {
-    return {
-      type: "volatility_alert",
-      intensity: vibe.anxiety,
-      message: `High volatility detected (${vibe.anxiety}% anxiety). Exercise caution.`,
-    };
-  }
-
-  if (vibe.joy > 70) {
-    return {
-      type: "momentum_pump",
-      intensity: vibe.joy,
-      message: `Strong momentum detected (${vibe.joy}% excitement). Potential pump incoming.`,
-    };
+  const alert = getVibeAlert(vibe.joy, vibe.anxiety);
+  if (alert && alert.kind !== "custom") {
+    return { type: alert.kind, intensity: alert.intensity, message: alert.message };
   }
 
   return {
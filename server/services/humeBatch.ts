@@ -0,0 +1,146 @@
+/**
+ * Hume Expression Measurement batch client
+ * Text goes through batch jobs: submit every text in one language-model
+ * job, poll the job until Hume reports it COMPLETED, then fetch the
+ * predictions. Hume returns one prediction group per input text, in
+ * submission order, each with per-passage scores on its emotions.
+ */
+
+import { averageEmotions, type HumeEmotion } from "./humeEmotions";
+
+export const DEFAULT_HUME_BASE_URL = "https://api.hume.ai";
+
+export class HumeJobError extends Error {
+  constructor(
+    message: string,
+    public jobId?: string
+  ) {
+    super(message);
+    this.name = "HumeJobError";
+  }
+}
+
+export interface HumeBatchOptions {
+  apiKey: string;
+  baseUrl?: string;
+  fetchImpl?: typeof fetch;
+  /** Called before every HTTP request, e.g. to take from a rate limit budget. */
+  beforeRequest?: () => Promise<void>;
+  /** First poll delay; doubles up to maxPollIntervalMs. */
+  pollIntervalMs?: number;
+  maxPollIntervalMs?: number;
+  /** Give up on a job that has not completed by then. */
+  timeoutMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+export interface HumeBatchClient {
+  submitTextJob(texts: string[]): Promise<string>;
+  waitForJob(jobId: string): Promise<void>;
+  getPredictions(jobId: string, expected: number): Promise<HumeEmotion[][]>;
+  /** Emotions per text, averaged over its passages, in input order. */
+  analyzeTexts(texts: string[]): Promise<HumeEmotion[][]>;
+}
+
+type JobStatus = "QUEUED" | "IN_PROGRESS" | "COMPLETED" | "FAILED";
+
+export function createHumeBatchClient({
+  apiKey,
+  baseUrl = DEFAULT_HUME_BASE_URL,
+  fetchImpl = fetch,
+  beforeRequest = async () => {},
+  pollIntervalMs = 1000,
+  maxPollIntervalMs = 5000,
+  timeoutMs = 60_000,
+  sleep = ms => new Promise(resolve => setTimeout(resolve, ms)),
+  now = Date.now,
+}: HumeBatchOptions): HumeBatchClient {
+  const jobsUrl = `${baseUrl.replace(/\/+$/, "")}/v0/batch/jobs`;
+
+  async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+    await beforeRequest();
+    const response = await fetchImpl(url, {
+      ...init,
+      headers: { "X-Hume-Api-Key": apiKey, "Content-Type": "application/json", ...init.headers },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("[Hume] API error:", errorText);
+      throw new HumeJobError(`Hume API error: ${response.status}`);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  async function submitTextJob(texts: string[]): Promise<string> {
+    const { job_id } = await request<{ job_id?: string }>(jobsUrl, {
+      method: "POST",
+      body: JSON.stringify({
+        models: { language: { granularity: "passage" } },
+        text: texts,
+      }),
+    });
+
+    if (!job_id) throw new HumeJobError("Hume did not return a job id");
+    return job_id;
+  }
+
+  async function waitForJob(jobId: string): Promise<void> {
+    const deadline = now() + timeoutMs;
+    let delay = pollIntervalMs;
+
+    while (true) {
+      const job = await request<{ state?: { status?: JobStatus; message?: string } }>(`${jobsUrl}/${jobId}`);
+      const status = job.state?.status;
+
+      if (status === "COMPLETED") return;
+      if (status === "FAILED") {
+        throw new HumeJobError(`Hume job failed: ${job.state?.message ?? "no reason given"}`, jobId);
+      }
+      if (now() + delay > deadline) {
+        throw new HumeJobError(`Hume job did not complete within ${timeoutMs}ms`, jobId);
+      }
+
+      await sleep(delay);
+      delay = Math.min(delay * 2, maxPollIntervalMs);
+    }
+  }
+
+  async function getPredictions(jobId: string, expected: number): Promise<HumeEmotion[][]> {
+    const sources = await request<any[]>(`${jobsUrl}/${jobId}/predictions`);
+
+    // One entry per input text, whether Hume groups them by source or not
+    const perText: HumeEmotion[][][] = [];
+    for (const source of sources ?? []) {
+      for (const file of source.results?.predictions ?? []) {
+        const passages: HumeEmotion[][] = [];
+        for (const group of file.models?.language?.grouped_predictions ?? []) {
+          for (const passage of group.predictions ?? []) {
+            passages.push(passage.emotions ?? []);
+          }
+        }
+        perText.push(passages);
+      }
+    }
+
+    if (perText.length !== expected) {
+      throw new HumeJobError(`Expected predictions for ${expected} texts, got ${perText.length}`, jobId);
+    }
+    return perText.map(averageEmotions);
+  }
+
+  return {
+    submitTextJob,
+    waitForJob,
+    getPredictions,
+
+    async analyzeTexts(texts) {
+      if (texts.length === 0) return [];
+
+      const jobId = await submitTextJob(texts);
+      await waitForJob(jobId);
+      return getPredictions(jobId, texts.length);
+    },
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Hume emotion → vibe mapping
+ * Hume's language model scores every passage on its 48 core emotions (plus
+ * a handful that only the language model emits) in [0, 1]. The vibe keeps
+ * two axes:
+ *
+ * - joy: how strongly the text reads as excitement or positive momentum
+ * - anxiety: how strongly it reads as fear, risk or distress
+ *
+ * Each axis is the strongest weighted emotion on it, max(weight × score)
+ * × 100, not a sum: texts carry small scores on dozens of emotions, and
+ * summing them would push every headline toward the middle. Weights are
+ * 1.0 for emotions that mean the axis outright (Excitement, Fear), lower
+ * for ones that only lean that way (Interest, Doubt). Emotions with no
+ * market reading (Boredom, Nostalgia, Tiredness, ...) count for neither.
+ */
+
+import type { VibeAnalysis } from "./hume";
+
+export interface HumeEmotion {
+  name: string;
+  score: number;
+}
+
+/** Hume's 48 core emotions, as named in API responses. */
+export const HUME_EMOTIONS = [
+  "Admiration", "Adoration", "Aesthetic Appreciation", "Amusement", "Anger", "Anxiety",
+  "Awe", "Awkwardness", "Boredom", "Calmness", "Concentration", "Confusion",
+  "Contemplation", "Contempt", "Contentment", "Craving", "Desire", "Determination",
+  "Disappointment", "Disgust", "Distress", "Doubt", "Ecstasy", "Embarrassment",
+  "Empathic Pain", "Entrancement", "Envy", "Excitement", "Fear", "Guilt",
+  "Horror", "Interest", "Joy", "Love", "Nostalgia", "Pain",
+  "Pride", "Realization", "Relief", "Romance", "Sadness", "Satisfaction",
+  "Shame", "Surprise (negative)", "Surprise (positive)", "Sympathy", "Tiredness", "Triumph",
+] as const;
+
+export const JOY_WEIGHTS: Record<string, number> = {
+  Excitement: 1.0,
+  Ecstasy: 1.0,
+  Joy: 1.0,
+  Enthusiasm: 1.0, // language model only
+  Triumph: 0.9,
+  "Surprise (positive)": 0.7,
+  Awe: 0.6,
+  Amusement: 0.6,
+  Pride: 0.6,
+  Satisfaction: 0.6,
+  Admiration: 0.5,
+  Desire: 0.5,
+  Determination: 0.5,
+  Interest: 0.5,
+  Craving: 0.4,
+  Contentment: 0.4,
+  Entrancement: 0.4,
+  Relief: 0.4,
+  Adoration: 0.3,
+  Love: 0.3,
+  Realization: 0.3,
+  Gratitude: 0.3, // language model only
+  "Aesthetic Appreciation": 0.2,
+};
+
+export const ANXIETY_WEIGHTS: Record<string, number> = {
+  Anxiety: 1.0,
+  Fear: 1.0,
+  Horror: 0.9,
+  Distress: 0.9,
+  "Surprise (negative)": 0.7,
+  Doubt: 0.6,
+  Anger: 0.5,
+  Disappointment: 0.5,
+  Pain: 0.5,
+  Confusion: 0.4,
+  Disgust: 0.4,
+  "Empathic Pain": 0.4,
+  Sadness: 0.4,
+  Annoyance: 0.4, // language model only
+  Disapproval: 0.4, // language model only
+  Awkwardness: 0.3,
+  Contempt: 0.3,
+  Embarrassment: 0.3,
+  Envy: 0.3,
+  Guilt: 0.3,
+  Shame: 0.3,
+};
+
+function axisScore(emotions: HumeEmotion[], weights: Record<string, number>): number {
+  return emotions.reduce((strongest, emotion) => Math.max(strongest, (weights[emotion.name] ?? 0) * emotion.score), 0);
+}
+
+// Average each emotion over the passages of one text
+export function averageEmotions(passages: HumeEmotion[][]): HumeEmotion[] {
+  const totals = new Map<string, number>();
+  for (const passage of passages) {
+    for (const emotion of passage) {
+      totals.set(emotion.name, (totals.get(emotion.name) ?? 0) + emotion.score);
+    }
+  }
+  return Array.from(totals, ([name, total]) => ({ name, score: total / Math.max(1, passages.length) }));
+}
+
+export function emotionsToVibe(emotions: HumeEmotion[]): VibeAnalysis {
+  const strongest = emotions.reduce<HumeEmotion | null>(
+    (top, emotion) => (!top || emotion.score > top.score ? emotion : top),
+    null
+  );
+
+  return {
+    joy: Math.round(axisScore(emotions, JOY_WEIGHTS) * 100),
+    anxiety: Math.round(axisScore(emotions, ANXIETY_WEIGHTS) * 100),
+    // How clearly the text expresses anything at all
+    confidence: Math.round((strongest?.score ?? 0) * 100),
+    dominant_emotion: strongest ? strongest.name.toLowerCase() : "neutral",
+    all_emotions: Object.fromEntries(emotions.map(emotion => [emotion.name, Math.round(emotion.score * 100)])),
+  };
+}
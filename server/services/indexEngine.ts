@@ -0,0 +1,179 @@
+/**
+ * Momentum Index Engine
+ * Turns a market's raw social signals into the momentum, velocity and hype
+ * score readings stored on market snapshots. Pure: the same signals and
+ * clock always produce the same index.
+ *
+ * Formulas (engine version 1), for a reading taken at time t:
+ *
+ *   engagement weight  w_i = s(source) * (1 + ln(1 + likes + 2*retweets + 3*comments))
+ *   time decay         d_i = 0.5 ^ ((t - t_i) / halfLife)
+ *
+ *   current volume     V_now  = sum of w_i over signals in (t - window, t]
+ *   previous volume    V_prev = sum of w_i over signals in (t - 2*window, t - window]
+ *
+ *   momentum  = 100 * (V_now + k) / (V_now + V_prev + 2k)           in [0, 100]
+ *   velocity  = (V_now - V_prev) / window-in-hours                 weighted signals/hour per hour
+ *   hypeScore = round(100 * (1 - e^(-A / hypeScale)))  with  A = sum of w_i * d_i over all t_i <= t
+ *
+ * Momentum is 50 when attention is flat, above 50 when the latest window
+ * out-draws the one before it and below 50 when it fades; k smooths thin
+ * markets towards 50. Hype score measures absolute, recency-weighted buzz
+ * and saturates towards 100.
+ *
+ * Signals Gemini flags as bot noise are dropped before any of this, as are
+ * signals stamped after t.
+ */
+
+import type { InsertMarketSnapshot, MarketSnapshot } from "../../drizzle/schema";
+import type { RawSignal, SignalAnalysis } from "./gemini";
+
+export const INDEX_ENGINE_VERSION = 1;
+
+export interface IndexEngineOptions {
+  /** Length of the current and previous volume windows (ms). */
+  windowMs: number;
+  /** Half-life of a signal's contribution to hype (ms). */
+  halfLifeMs: number;
+  /** Smoothing added to both windows so thin markets sit near 50. */
+  momentumSmoothing: number;
+  /** Decayed attention that maps to a hype score of ~63. */
+  hypeScale: number;
+  /** Per-source credibility multipliers. */
+  sourceWeights: Record<RawSignal["source"], number>;
+}
+
+export const DEFAULT_INDEX_OPTIONS: IndexEngineOptions = {
+  windowMs: 60 * 60 * 1000,
+  halfLifeMs: 30 * 60 * 1000,
+  momentumSmoothing: 5,
+  hypeScale: 50,
+  sourceWeights: {
+    news: 1.5,
+    hackernews: 1.2,
+    reddit: 1.0,
+    twitter: 0.8,
+  },
+};
+
+export interface MarketIndex {
+  momentum: number;
+  velocity: number;
+  hypeScore: number;
+  /** Engagement-weighted volume of the current window. */
+  currentVolume: number;
+  /** Engagement-weighted volume of the window before it. */
+  previousVolume: number;
+  signalCount: number;
+  droppedCount: number;
+  computedAt: number;
+  engineVersion: number;
+}
+
+/**
+ * Engagement weight of a single signal
+ */
+export function signalWeight(
+  signal: RawSignal,
+  sourceWeights: IndexEngineOptions["sourceWeights"] = DEFAULT_INDEX_OPTIONS.sourceWeights
+): number {
+  const likes = signal.engagement?.likes ?? 0;
+  const retweets = signal.engagement?.retweets ?? 0;
+  const comments = signal.engagement?.comments ?? 0;
+  const interactions = Math.max(0, likes + 2 * retweets + 3 * comments);
+  return (sourceWeights[signal.source] ?? 1) * (1 + Math.log1p(interactions));
+}
+
+/**
+ * Drop signals Gemini flagged as bot noise; unanalysed signals are kept
+ */
+export function filterBotNoise(
+  signals: RawSignal[],
+  analyses?: Map<string, Pick<SignalAnalysis, "is_bot_noise">>
+): RawSignal[] {
+  if (!analyses) return signals;
+  return signals.filter(signal => !analyses.get(signal.id)?.is_bot_noise);
+}
+
+/**
+ * Compute a market's index from its signals as of `now`
+ */
+export function computeMarketIndex(
+  signals: RawSignal[],
+  options: {
+    now?: number;
+    analyses?: Map<string, Pick<SignalAnalysis, "is_bot_noise">>;
+    config?: Partial<IndexEngineOptions>;
+  } = {}
+): MarketIndex {
+  const now = options.now ?? Date.now();
+  const config = { ...DEFAULT_INDEX_OPTIONS, ...options.config };
+
+  const kept = filterBotNoise(signals, options.analyses).filter(s => s.timestamp <= now);
+
+  let currentVolume = 0;
+  let previousVolume = 0;
+  let attention = 0;
+
+  for (const signal of kept) {
+    const weight = signalWeight(signal, config.sourceWeights);
+    const age = now - signal.timestamp;
+
+    if (age < config.windowMs) {
+      currentVolume += weight;
+    } else if (age < 2 * config.windowMs) {
+      previousVolume += weight;
+    }
+    attention += weight * Math.pow(0.5, age / config.halfLifeMs);
+  }
+
+  const k = config.momentumSmoothing;
+  const momentum = (100 * (currentVolume + k)) / (currentVolume + previousVolume + 2 * k);
+  const velocity = (currentVolume - previousVolume) / (config.windowMs / (60 * 60 * 1000));
+  const hypeScore = Math.round(100 * (1 - Math.exp(-attention / config.hypeScale)));
+
+  return {
+    momentum: round(momentum, 2),
+    velocity: round(velocity, 2),
+    hypeScore,
+    currentVolume: round(currentVolume, 2),
+    previousVolume: round(previousVolume, 2),
+    signalCount: kept.length,
+    droppedCount: signals.length - kept.length,
+    computedAt: now,
+    engineVersion: INDEX_ENGINE_VERSION,
+  };
+}
+
+/**
+ * The market snapshot for a fresh index reading
+ * Traded volume and participants come from trading rather than signals, so
+ * they carry over from the latest snapshot. change24h is the percent move
+ * in momentum since the last reading at least a day old, or carries over
+ * while the market has no reading that old.
+ */
+export function toIndexSnapshot(
+  marketId: number,
+  index: MarketIndex,
+  latest: Pick<MarketSnapshot, "change24h" | "volumeUsd" | "participants"> | undefined,
+  dayAgo: Pick<MarketSnapshot, "momentum"> | undefined
+): InsertMarketSnapshot {
+  const change24h = dayAgo && dayAgo.momentum > 0
+    ? round(((index.momentum - dayAgo.momentum) / dayAgo.momentum) * 100, 2)
+    : latest?.change24h ?? 0;
+
+  return {
+    marketId,
+    momentum: index.momentum,
+    change24h,
+    volumeUsd: latest?.volumeUsd ?? 0,
+    participants: latest?.participants ?? 0,
+    hypeScore: index.hypeScore,
+    capturedAt: new Date(index.computedAt),
+  };
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,91 @@
+/**
+ * Market Catalog
+ * Shapes persisted markets and their snapshot history into the
+ * summary objects rendered by the Ticker Wall.
+ */
+
+import { SPARKLINE_POINTS } from "@shared/const";
+import type { Market, MarketCategory, MarketSnapshot } from "../../drizzle/schema";
+
+export interface MarketSummary {
+  id: string;
+  slug: string;
+  topic: string;
+  category: string;
+  categorySlug: string;
+  momentum: number;
+  change24h: number;
+  volume: string;
+  participants: number;
+  sparklineData: number[];
+  hypeScore: number;
+  timeRemaining?: string;
+  hypeSummary?: string;
+  updatedAt: number | null;
+}
+
+/**
+ * Format a USD notional into the compact "$847K" / "$1.2M" style used on cards
+ */
+export function formatVolume(volumeUsd: number): string {
+  if (volumeUsd >= 1_000_000) {
+    return `$${(volumeUsd / 1_000_000).toFixed(1)}M`;
+  }
+  if (volumeUsd >= 1_000) {
+    return `$${Math.round(volumeUsd / 1_000)}K`;
+  }
+  return `$${Math.round(volumeUsd)}`;
+}
+
+/**
+ * Format the time left until a market window closes, e.g. "2h 34m" or "45m"
+ */
+export function formatTimeRemaining(closesAt: Date | null, now: number = Date.now()): string | undefined {
+  if (!closesAt) return undefined;
+
+  const remainingMinutes = Math.max(0, Math.floor((closesAt.getTime() - now) / 60_000));
+  const hours = Math.floor(remainingMinutes / 60);
+  const minutes = remainingMinutes % 60;
+
+  if (hours === 0) return `${minutes}m`;
+  return `${hours}h ${minutes.toString().padStart(2, "0")}m`;
+}
+
+/**
+ * Build a market summary from its catalog row and snapshot history
+ * Snapshots may arrive in any order; the newest one is treated as current.
+ */
+export function toMarketSummary(
+  market: Market,
+  category: MarketCategory,
+  snapshots: MarketSnapshot[],
+  now: number = Date.now()
+): MarketSummary {
+  const ordered = [...snapshots].sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+  const latest = ordered[ordered.length - 1];
+
+  return {
+    id: String(market.id),
+    slug: market.slug,
+    topic: market.topic,
+    category: category.label,
+    categorySlug: category.slug,
+    momentum: latest ? Math.round(latest.momentum) : 0,
+    change24h: latest ? Math.round(latest.change24h * 10) / 10 : 0,
+    volume: formatVolume(latest?.volumeUsd ?? 0),
+    participants: latest?.participants ?? 0,
+    sparklineData: ordered.slice(-SPARKLINE_POINTS).map(s => s.momentum),
+    hypeScore: latest?.hypeScore ?? 0,
+    timeRemaining: formatTimeRemaining(market.closesAt, now),
+    hypeSummary: market.hypeSummary ?? undefined,
+    updatedAt: latest ? latest.capturedAt.getTime() : null,
+  };
+}
+
+/**
+ * Parse a client-facing market id back into the numeric primary key
+ */
+export function parseMarketId(id: string): number | null {
+  const parsed = Number(id);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
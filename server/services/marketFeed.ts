@@ -0,0 +1,74 @@
+/**
+ * Market Feed
+ * In-process pub/sub for live market ticks. Recording a snapshot publishes
+ * a market tick and vibe analyses publish vibe ticks; the markets.onTick
+ * subscription fans them out to every connected client over SSE.
+ */
+
+import { EventEmitter, on } from "events";
+import type { MarketSnapshot } from "../../drizzle/schema";
+import { formatVolume } from "./marketCatalog";
+
+export interface MarketTick {
+  type: "market";
+  /** Snapshot id; used as the SSE event id so reconnects can resume. */
+  snapshotId: number;
+  marketId: string;
+  momentum: number;
+  change24h: number;
+  volume: string;
+  participants: number;
+  hypeScore: number;
+  capturedAt: number;
+}
+
+export interface VibeTick {
+  type: "vibe";
+  marketId: string;
+  joy: number;
+  anxiety: number;
+  capturedAt: number;
+}
+
+export type FeedTick = MarketTick | VibeTick;
+
+const emitter = new EventEmitter();
+// One listener per open subscription
+emitter.setMaxListeners(0);
+
+export function toMarketTick(snapshot: MarketSnapshot): MarketTick {
+  return {
+    type: "market",
+    snapshotId: snapshot.id,
+    marketId: String(snapshot.marketId),
+    momentum: snapshot.momentum,
+    change24h: snapshot.change24h,
+    volume: formatVolume(snapshot.volumeUsd),
+    participants: snapshot.participants,
+    hypeScore: snapshot.hypeScore,
+    capturedAt: snapshot.capturedAt.getTime(),
+  };
+}
+
+export function publishTick(tick: FeedTick): void {
+  emitter.emit("tick", tick);
+}
+
+/**
+ * Iterate ticks as they are published until the signal aborts
+ * Listening starts immediately, so ticks published while the caller is
+ * still replaying history are buffered rather than lost.
+ */
+export function listenForTicks(signal?: AbortSignal): AsyncGenerator<FeedTick> {
+  const events = on(emitter, "tick", { signal });
+
+  return (async function* () {
+    try {
+      for await (const [tick] of events) {
+        yield tick as FeedTick;
+      }
+    } catch (error) {
+      if ((error as Error)?.name !== "AbortError") throw error;
+    }
+  })();
+}
@@ -0,0 +1,33 @@
+/**
+ * Notification Views
+ * Shapes inbox rows and notification channels for the client.
+ */
+
+import type { Notification, NotificationChannel } from "../../drizzle/schema";
+
+export function toNotificationView(notification: Notification) {
+  return {
+    id: notification.id,
+    severity: notification.severity,
+    title: notification.title,
+    body: notification.body,
+    marketId: notification.marketId === null ? null : String(notification.marketId),
+    read: notification.readAt !== null,
+    createdAt: notification.createdAt.getTime(),
+  };
+}
+
+export type NotificationView = ReturnType<typeof toNotificationView>;
+
+// Secrets are never listed; the hint tells channels apart
+export function toChannelView(channel: NotificationChannel) {
+  return {
+    id: channel.id,
+    type: channel.type,
+    target: channel.target,
+    minSeverity: channel.minSeverity,
+    enabled: channel.enabled,
+    secretHint: channel.secret ? `…${channel.secret.slice(-4)}` : null,
+    createdAt: channel.createdAt.getTime(),
+  };
+}
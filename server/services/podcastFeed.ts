@@ -0,0 +1,123 @@
+/**
+ * Podcast Feed
+ * Each user's scheduled briefings as a podcast RSS feed, so any podcast
+ * app can subscribe to the morning rundown. Podcast apps can't log in, so
+ * the feed and its episodes are addressed by a secret per-user token:
+ *
+ *   GET /api/podcast/:token/feed.xml
+ *   GET /api/podcast/:token/episodes/:id.mp3  → 302 to a signed storage URL
+ */
+
+import { randomBytes } from "crypto";
+import type { Express, Request, Response } from "express";
+import type { Briefing } from "../../drizzle/schema";
+import { getBriefingForUser, getPodcastFeedByToken, listScheduledBriefingsForUser } from "../db";
+import { briefingAudioUrl } from "./briefingArchive";
+
+const FEED_TITLE = "Attention Index Morning Bell";
+const FEED_DESCRIPTION = "Scheduled audio rundowns of the markets with the most momentum.";
+
+export function generateFeedToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+// Absolute origin of the request, honouring the proxy's protocol
+export function requestOrigin(req: Pick<Request, "protocol" | "headers">): string {
+  const forwarded = req.headers["x-forwarded-proto"];
+  const proto = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0].trim() || req.protocol;
+  return `${proto}://${req.headers.host}`;
+}
+
+export function podcastFeedUrl(origin: string, token: string): string {
+  return `${origin}/api/podcast/${token}/feed.xml`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function episodeTitle(briefing: Briefing): string {
+  const date = briefing.createdAt.toLocaleString("en-US", {
+    timeZone: "UTC",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+  return `${date} UTC: ${briefing.markets.map(market => market.topic).join(", ")}`;
+}
+
+// Newest first; a feed declares one language, so the newest episode's
+export function buildPodcastFeed(origin: string, token: string, episodes: Briefing[]): string {
+  const items = episodes.map(briefing => `    <item>
+      <title>${escapeXml(episodeTitle(briefing))}</title>
+      <description>${escapeXml(briefing.script)}</description>
+      <guid isPermaLink="false">attention-index-briefing-${briefing.id}</guid>
+      <pubDate>${briefing.createdAt.toUTCString()}</pubDate>
+      <enclosure url="${escapeXml(`${origin}/api/podcast/${token}/episodes/${briefing.id}.mp3`)}" length="${briefing.sizeBytes}" type="audio/mpeg"/>
+      <itunes:duration>${briefing.estimatedDuration}</itunes:duration>
+      <itunes:explicit>false</itunes:explicit>
+    </item>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${FEED_TITLE}</title>
+    <link>${escapeXml(origin)}</link>
+    <description>${FEED_DESCRIPTION}</description>
+    <language>${episodes[0]?.language ?? "en"}</language>
+    <atom:link href="${escapeXml(podcastFeedUrl(origin, token))}" rel="self" type="application/rss+xml"/>
+    <itunes:author>Attention Index</itunes:author>
+    <itunes:summary>${FEED_DESCRIPTION}</itunes:summary>
+    <itunes:explicit>false</itunes:explicit>
+    <itunes:block>yes</itunes:block>
+${items.join("\n")}
+  </channel>
+</rss>
+`;
+}
+
+async function handleFeed(req: Request, res: Response) {
+  const feed = await getPodcastFeedByToken(req.params.token);
+  if (!feed) {
+    res.status(404).json({ error: "Feed not found" });
+    return;
+  }
+
+  const episodes = await listScheduledBriefingsForUser(feed.userId);
+  res
+    .status(200)
+    .set({ "Content-Type": "application/rss+xml; charset=utf-8", "Cache-Control": "private, max-age=300" })
+    .send(buildPodcastFeed(requestOrigin(req), feed.token, episodes));
+}
+
+// Signed URLs expire, so enclosures point here and are redirected per download
+async function handleEpisode(req: Request, res: Response) {
+  const feed = await getPodcastFeedByToken(req.params.token);
+  const id = Number(req.params.id);
+  const briefing = feed && Number.isInteger(id) ? await getBriefingForUser(feed.userId, id) : undefined;
+  if (!briefing) {
+    res.status(404).json({ error: "Episode not found" });
+    return;
+  }
+
+  res.redirect(302, await briefingAudioUrl(briefing));
+}
+
+export function registerPodcastRoutes(app: Express) {
+  const wrap = (handler: (req: Request, res: Response) => Promise<void>) => (req: Request, res: Response) => {
+    handler(req, res).catch(error => {
+      console.error("[Podcast] Request failed:", error);
+      if (!res.headersSent) res.status(500).json({ error: "Podcast feed unavailable" });
+    });
+  };
+
+  app.get("/api/podcast/:token/feed.xml", wrap(handleFeed));
+  app.get("/api/podcast/:token/episodes/:id.mp3", wrap(handleEpisode));
+}
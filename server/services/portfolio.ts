@@ -0,0 +1,77 @@
+/**
+ * Portfolio Service
+ * Marks open positions against current momentum and rolls up P&L.
+ * Uses the settlement engine so an open position's mark is exactly what
+ * it would pay if it settled at the current reading.
+ */
+
+import { fromCents } from "@shared/money";
+import type { Settlement, Trade } from "../../drizzle/schema";
+import { computeSettlement } from "./settlement";
+import { toTradeView } from "./trading";
+
+/**
+ * Value an open trade as if it settled at the given momentum
+ */
+export function markToMomentum(trade: Trade, currentMomentum: number) {
+  const result = computeSettlement(trade, currentMomentum);
+  return {
+    currentMomentum,
+    markOutcome: result.outcome,
+    markValue: fromCents(result.netPayoutCents),
+    unrealizedPnl: fromCents(result.netPayoutCents - trade.stakeCents),
+  };
+}
+
+export function toOpenPosition(trade: Trade, topic: string | undefined, currentMomentum: number | undefined) {
+  // Without a fresh reading the position is marked flat at entry
+  return {
+    ...toTradeView(trade, topic),
+    ...markToMomentum(trade, currentMomentum ?? trade.entryMomentum),
+  };
+}
+
+export function toSettledPosition(trade: Trade, topic: string | undefined, settlement: Settlement) {
+  return {
+    ...toTradeView(trade, topic),
+    outcome: settlement.outcome,
+    exitMomentum: settlement.exitMomentum,
+    payout: fromCents(settlement.netPayoutCents),
+    vig: fromCents(settlement.vigCents),
+    realizedPnl: fromCents(settlement.netPayoutCents - settlement.stakeCents),
+  };
+}
+
+export type OpenPosition = ReturnType<typeof toOpenPosition>;
+export type SettledPosition = ReturnType<typeof toSettledPosition>;
+
+/**
+ * Lifetime settlement totals, aggregated in SQL so the header covers every
+ * settled trade rather than the most recent page
+ */
+export interface SettlementTotals {
+  settledCount: number;
+  wins: number;
+  losses: number;
+  realizedPnlCents: number;
+}
+
+/**
+ * Totals for the portfolio header
+ */
+export function summarizePortfolio(
+  open: Pick<OpenPosition, "amount" | "unrealizedPnl">[],
+  settled: SettlementTotals
+) {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const decided = settled.wins + settled.losses;
+
+  return {
+    openCount: open.length,
+    openExposure: round(open.reduce((total, p) => total + p.amount, 0)),
+    unrealizedPnl: round(open.reduce((total, p) => total + p.unrealizedPnl, 0)),
+    settledCount: settled.settledCount,
+    realizedPnl: fromCents(settled.realizedPnlCents),
+    winRate: decided > 0 ? Math.round((settled.wins / decided) * 100) : null,
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Settlement Engine
+ * Resolves expired momentum contracts from the snapshot history.
+ *
+ * Rules (engine version 2):
+ * - Entry is the snapshot the trade was priced against (trades.entrySnapshotId)
+ * - Exit is the last snapshot captured at or before expiresAt
+ * - LONG wins when exit momentum > entry, SHORT wins when exit < entry,
+ *   equal momentum is a push and the stake is refunded
+ * - A win pays 1 USDC per AMM share held; the 2% vig is taken from the
+ *   profit only. Trades from before the AMM (no shares, engine version 1)
+ *   were bought at even odds and pay 2x the stake.
+ *
+ * Everything here is pure so a disputed settlement can be replayed from
+ * the stored snapshots and compared with what was paid.
+ */
+
+import type { MarketSnapshot, Settlement, Trade } from "../../drizzle/schema";
+
+export const SETTLEMENT_ENGINE_VERSION = 2;
+
+// The "2% VIG" advertised on the Ticker Wall
+export const SETTLEMENT_VIG = 0.02;
+
+export type SettlementOutcome = "win" | "loss" | "push";
+
+export interface SettlementResult {
+  outcome: SettlementOutcome;
+  grossPayoutCents: number;
+  vigCents: number;
+  netPayoutCents: number;
+}
+
+type SettleableTrade = Pick<Trade, "direction" | "stakeCents" | "entryMomentum" | "shares">;
+
+/**
+ * Pick the exit reading: the newest snapshot captured at or before expiry
+ * Ties on capturedAt are broken by id so replays always pick the same row.
+ */
+export function selectExitSnapshot(
+  snapshots: MarketSnapshot[],
+  expiresAt: Date
+): MarketSnapshot | undefined {
+  const cutoff = expiresAt.getTime();
+  let exit: MarketSnapshot | undefined;
+
+  for (const snapshot of snapshots) {
+    const capturedAt = snapshot.capturedAt.getTime();
+    if (capturedAt > cutoff) continue;
+    if (
+      !exit ||
+      capturedAt > exit.capturedAt.getTime() ||
+      (capturedAt === exit.capturedAt.getTime() && snapshot.id > exit.id)
+    ) {
+      exit = snapshot;
+    }
+  }
+
+  return exit;
+}
+
+/**
+ * Decide whether the trade called the momentum move correctly
+ */
+export function resolveOutcome(
+  direction: Trade["direction"],
+  entryMomentum: number,
+  exitMomentum: number
+): SettlementOutcome {
+  if (exitMomentum === entryMomentum) return "push";
+  const rose = exitMomentum > entryMomentum;
+  return (direction === "long") === rose ? "win" : "loss";
+}
+
+/**
+ * Compute the payout for a trade given the exit momentum
+ */
+export function computeSettlement(trade: SettleableTrade, exitMomentum: number): SettlementResult {
+  const outcome = resolveOutcome(trade.direction, trade.entryMomentum, exitMomentum);
+
+  if (outcome === "push") {
+    return {
+      outcome,
+      grossPayoutCents: trade.stakeCents,
+      vigCents: 0,
+      netPayoutCents: trade.stakeCents,
+    };
+  }
+
+  if (outcome === "loss") {
+    return { outcome, grossPayoutCents: 0, vigCents: 0, netPayoutCents: 0 };
+  }
+
+  const grossPayoutCents = trade.shares != null
+    ? Math.round(trade.shares * 100)
+    : trade.stakeCents * 2;
+
+  return { outcome, ...winPayout(trade.stakeCents, grossPayoutCents) };
+}
+
+/**
+ * Split a winning gross payout into vig and net
+ */
+export function winPayout(stakeCents: number, grossPayoutCents: number) {
+  const profitCents = Math.max(0, grossPayoutCents - stakeCents);
+  const vigCents = Math.round(profitCents * SETTLEMENT_VIG);
+  return {
+    grossPayoutCents,
+    vigCents,
+    netPayoutCents: grossPayoutCents - vigCents,
+  };
+}
+
+/**
+ * Recompute a stored settlement and report any field that differs
+ */
+export function replaySettlement(
+  trade: Trade,
+  stored: Settlement,
+  snapshots: MarketSnapshot[]
+) {
+  const exit = selectExitSnapshot(snapshots, trade.expiresAt);
+  const replayed = exit ? computeSettlement(trade, exit.momentum) : null;
+
+  const mismatches: string[] = [];
+  if (!exit) {
+    mismatches.push("exitSnapshot");
+  } else {
+    if (exit.id !== stored.exitSnapshotId) mismatches.push("exitSnapshotId");
+    if (exit.momentum !== stored.exitMomentum) mismatches.push("exitMomentum");
+  }
+  if (trade.entrySnapshotId !== stored.entrySnapshotId) mismatches.push("entrySnapshotId");
+  if (replayed) {
+    if (replayed.outcome !== stored.outcome) mismatches.push("outcome");
+    if (replayed.grossPayoutCents !== stored.grossPayoutCents) mismatches.push("grossPayoutCents");
+    if (replayed.vigCents !== stored.vigCents) mismatches.push("vigCents");
+    if (replayed.netPayoutCents !== stored.netPayoutCents) mismatches.push("netPayoutCents");
+  }
+
+  return {
+    exitSnapshotId: exit?.id ?? null,
+    exitMomentum: exit?.momentum ?? null,
+    replayed,
+    engineVersion: SETTLEMENT_ENGINE_VERSION,
+    storedEngineVersion: stored.engineVersion,
+    matches: mismatches.length === 0,
+    mismatches,
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Signal Feed
+ * Shapes stored signals and connector health for the Oracle Feed.
+ */
+
+import type { ConnectorCursor, Signal } from "../../drizzle/schema";
+import type { SignalConnector, SignalSource } from "../connectors/types";
+import type { RawSignal } from "./gemini";
+
+export type SourceStatus = "live" | "delayed" | "offline";
+
+export const SOURCE_LABELS: Record<SignalSource, string> = {
+  twitter: "X / Twitter",
+  reddit: "Reddit",
+  hackernews: "Hacker News",
+  news: "News Feeds",
+};
+
+// Signals per hour at which a source's strength reads ~63%
+const STRENGTH_SCALE = 20;
+
+export function toSignalView(signal: Signal, now: number = Date.now()) {
+  const interactions = signal.likes + signal.retweets + signal.comments;
+  const ageMinutes = Math.max(1, (now - signal.publishedAt.getTime()) / 60_000);
+
+  return {
+    id: String(signal.id),
+    externalId: signal.externalId,
+    source: signal.source,
+    content: signal.content,
+    title: signal.title,
+    url: signal.url,
+    author: signal.author,
+    engagement: { likes: signal.likes, retweets: signal.retweets, comments: signal.comments },
+    /** Interactions per minute since publication. */
+    velocity: Math.round(interactions / ageMinutes),
+    publishedAt: signal.publishedAt.getTime(),
+  };
+}
+
+export type SignalView = ReturnType<typeof toSignalView>;
+
+/**
+ * A stored signal in the shape Gemini and the index engine take
+ * Keyed by the row id so analyses map back to the stored signal.
+ */
+export function toRawSignal(signal: Signal): RawSignal {
+  return {
+    id: String(signal.id),
+    source: signal.source,
+    content: signal.title && !signal.content.startsWith(signal.title)
+      ? `${signal.title} — ${signal.content}`
+      : signal.content,
+    timestamp: signal.publishedAt.getTime(),
+    engagement: { likes: signal.likes, retweets: signal.retweets, comments: signal.comments },
+  };
+}
+
+/**
+ * Health of one connector from its last run
+ * Live within two poll intervals of a success, delayed within ten,
+ * otherwise (or when the latest run failed) offline.
+ */
+export function connectorStatus(
+  connector: Pick<SignalConnector, "pollIntervalMs">,
+  cursor: ConnectorCursor | undefined,
+  now: number
+): SourceStatus {
+  const lastSuccess = cursor?.lastSuccessAt?.getTime();
+  if (!lastSuccess) return "offline";
+  if (cursor?.lastRunAt && cursor.lastRunAt.getTime() > lastSuccess) return "offline";
+
+  const age = now - lastSuccess;
+  if (age <= 2 * connector.pollIntervalMs) return "live";
+  if (age <= 10 * connector.pollIntervalMs) return "delayed";
+  return "offline";
+}
+
+/**
+ * Roll connectors up into one row per source for the feed header
+ */
+export function summarizeSources(
+  connectors: Pick<SignalConnector, "id" | "source" | "pollIntervalMs">[],
+  cursors: ConnectorCursor[],
+  signalsLastHour: Partial<Record<SignalSource, number>>,
+  now: number = Date.now()
+) {
+  const byId = new Map(cursors.map(cursor => [cursor.connectorId, cursor]));
+  const rank: Record<SourceStatus, number> = { live: 2, delayed: 1, offline: 0 };
+
+  return (Object.keys(SOURCE_LABELS) as SignalSource[]).map(source => {
+    const members = connectors.filter(c => c.source === source);
+    let status: SourceStatus = "offline";
+    let lastUpdate: number | null = null;
+
+    for (const connector of members) {
+      const cursor = byId.get(connector.id);
+      const memberStatus = connectorStatus(connector, cursor, now);
+      if (rank[memberStatus] > rank[status]) status = memberStatus;
+
+      const success = cursor?.lastSuccessAt?.getTime();
+      if (success && (!lastUpdate || success > lastUpdate)) lastUpdate = success;
+    }
+
+    const count = signalsLastHour[source] ?? 0;
+    return {
+      id: source,
+      name: SOURCE_LABELS[source],
+      enabled: members.length > 0,
+      status,
+      lastUpdate,
+      signalStrength: Math.round(100 * (1 - Math.exp(-count / STRENGTH_SCALE))),
+    };
+  });
+}
@@ -0,0 +1,136 @@
+/**
+ * Signal-to-Market Matcher
+ * Routes each signal to zero or more markets by looking for the market's
+ * aliases and keywords in the signal text and, once Gemini has analysed
+ * it, in the extracted core_event and main_actors.
+ *
+ * Every hit is a piece of evidence with a fixed weight; a market's match
+ * confidence combines them as independent evidence:
+ *
+ *   confidence = 1 - product of (1 - w) over hits
+ *
+ *   alias in text             0.6     keyword in text         0.25
+ *   alias among main_actors   0.7     alias in core_event     0.5
+ *   keyword in core_event     0.2
+ *
+ * so one alias mention routes a signal, while bare keywords need three.
+ * Terms match whole words after the same normalisation used for dedup.
+ */
+
+import type { Market } from "../../drizzle/schema";
+import { normalizeContent } from "../connectors/dedup";
+import type { SignalAnalysis } from "./gemini";
+
+export const MIN_MATCH_CONFIDENCE = 0.5;
+
+const WEIGHTS = {
+  textAlias: 0.6,
+  textKeyword: 0.25,
+  actorAlias: 0.7,
+  eventAlias: 0.5,
+  eventKeyword: 0.2,
+};
+
+export interface MarketTopic {
+  marketId: number;
+  topic: string;
+  aliases: string[];
+  keywords: string[];
+}
+
+export interface MatchableSignal {
+  content: string;
+  title?: string | null;
+}
+
+export type MatchAnalysis = Pick<SignalAnalysis, "core_event" | "main_actors" | "is_bot_noise">;
+
+export interface SignalMatch {
+  marketId: number;
+  confidence: number;
+  matchedTerms: string[];
+}
+
+export function toMarketTopic(market: Pick<Market, "id" | "topic" | "aliases" | "keywords">): MarketTopic {
+  return {
+    marketId: market.id,
+    topic: market.topic,
+    aliases: market.aliases ?? [],
+    keywords: market.keywords ?? [],
+  };
+}
+
+// Pad with spaces so includes() only matches whole words
+function padded(text: string): string {
+  return ` ${normalizeContent(text)} `;
+}
+
+function mentions(haystack: string, term: string): boolean {
+  const needle = normalizeContent(term);
+  return needle.length > 0 && haystack.includes(` ${needle} `);
+}
+
+/**
+ * Score one signal against one market; null below MIN_MATCH_CONFIDENCE
+ */
+export function scoreMatch(
+  signal: MatchableSignal,
+  market: MarketTopic,
+  analysis?: MatchAnalysis
+): SignalMatch | null {
+  const text = padded([signal.title, signal.content].filter(Boolean).join(" "));
+  const aliases = [market.topic, ...market.aliases];
+  const weights: number[] = [];
+  const matchedTerms = new Set<string>();
+
+  const hit = (weight: number, term: string) => {
+    weights.push(weight);
+    matchedTerms.add(term);
+  };
+
+  for (const alias of aliases) {
+    if (mentions(text, alias)) hit(WEIGHTS.textAlias, alias);
+  }
+  for (const keyword of market.keywords) {
+    if (mentions(text, keyword)) hit(WEIGHTS.textKeyword, keyword);
+  }
+
+  if (analysis) {
+    const event = padded(analysis.core_event);
+    const actors = analysis.main_actors.map(padded);
+
+    for (const alias of aliases) {
+      if (actors.some(actor => mentions(actor, alias))) hit(WEIGHTS.actorAlias, alias);
+      if (mentions(event, alias)) hit(WEIGHTS.eventAlias, alias);
+    }
+    for (const keyword of market.keywords) {
+      if (mentions(event, keyword)) hit(WEIGHTS.eventKeyword, keyword);
+    }
+  }
+
+  const confidence = 1 - weights.reduce((miss, weight) => miss * (1 - weight), 1);
+  if (confidence < MIN_MATCH_CONFIDENCE) return null;
+
+  return {
+    marketId: market.marketId,
+    confidence: Math.round(confidence * 1000) / 1000,
+    matchedTerms: Array.from(matchedTerms),
+  };
+}
+
+/**
+ * All markets a signal belongs to, most confident first
+ * Signals Gemini flags as bot noise are not routed anywhere.
+ */
+export function matchSignal(
+  signal: MatchableSignal,
+  markets: MarketTopic[],
+  analysis?: MatchAnalysis
+): SignalMatch[] {
+  if (analysis?.is_bot_noise) return [];
+
+  return markets
+    .map(market => scoreMatch(signal, market, analysis))
+    .filter((match): match is SignalMatch => match !== null)
+    .sort((a, b) => b.confidence - a.confidence);
+}
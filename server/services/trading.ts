@@ -0,0 +1,64 @@
+/**
+ * Trading Service
+ * Pure helpers for momentum contracts: expiry windows, return estimates
+ * and the public trade reference format. Pricing lives in the AMM.
+ */
+
+import { nanoid } from "nanoid";
+import { fromCents } from "@shared/money";
+import type { Trade } from "../../drizzle/schema";
+import { winPayout } from "./settlement";
+
+export type ContractDuration = "30m" | "1h" | "3h";
+export type TradeDirection = "long" | "short";
+
+export const CONTRACT_DURATION_MS: Record<ContractDuration, number> = {
+  "30m": 30 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "3h": 3 * 60 * 60 * 1000,
+};
+
+/**
+ * When a contract opened at `from` expires
+ */
+export function computeExpiry(duration: ContractDuration, from: number = Date.now()): Date {
+  return new Date(from + CONTRACT_DURATION_MS[duration]);
+}
+
+/**
+ * Net payout in cents if the trade wins, after the vig
+ */
+export function estimateReturnCents(stakeCents: number, shares: number): number {
+  return winPayout(stakeCents, Math.round(shares * 100)).netPayoutCents;
+}
+
+/**
+ * Generate a public trade reference, e.g. "TRD-M0X1Y2-AB12CD34"
+ */
+export function generateTradeRef(now: number = Date.now()): string {
+  return `TRD-${now.toString(36).toUpperCase()}-${nanoid(8).toUpperCase()}`;
+}
+
+/**
+ * API shape for a persisted trade
+ */
+export function toTradeView(trade: Trade, topic?: string) {
+  return {
+    tradeId: trade.tradeRef,
+    marketId: String(trade.marketId),
+    topic,
+    direction: trade.direction,
+    duration: trade.duration,
+    amount: fromCents(trade.stakeCents),
+    entryMomentum: trade.entryMomentum,
+    shares: trade.shares,
+    entryPrice: trade.entryPrice,
+    estimatedReturn: fromCents(trade.estimatedReturnCents),
+    status: trade.status,
+    expiresAt: trade.expiresAt.getTime(),
+    settledAt: trade.settledAt?.getTime() ?? null,
+    createdAt: trade.createdAt.getTime(),
+  };
+}
+
+export type TradeView = ReturnType<typeof toTradeView>;
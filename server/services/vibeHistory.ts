@@ -0,0 +1,220 @@
+/**
+ * Vibe History Service
+ * Buckets a market's vibe readings and momentum snapshots into fixed
+ * windows for vibe.history, and derives trend metrics from the windows:
+ * consecutive rises/falls on each axis and shifts between sentiment
+ * regimes. Windows are aligned to multiples of their length, so the same
+ * reading always lands in the same window between requests.
+ */
+
+import type { MarketSnapshot, VibeSnapshot } from "../../drizzle/schema";
+import type { VibeAnalysis } from "./hume";
+
+export type VibeRange = "1h" | "6h" | "24h" | "7d";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const VIBE_RANGES: Record<VibeRange, { durationMs: number; windowMs: number }> = {
+  "1h": { durationMs: HOUR_MS, windowMs: 5 * MINUTE_MS },
+  "6h": { durationMs: 6 * HOUR_MS, windowMs: 30 * MINUTE_MS },
+  "24h": { durationMs: 24 * HOUR_MS, windowMs: HOUR_MS },
+  "7d": { durationMs: 7 * 24 * HOUR_MS, windowMs: 6 * HOUR_MS },
+};
+
+// Streaks shorter than this are noise and not reported
+export const STREAK_THRESHOLD = 3;
+// Moves smaller than this many points count as flat and end a streak
+const MIN_MOVE = 1;
+// An axis at or above this dominates the window's regime
+const REGIME_THRESHOLD = 60;
+
+export type VibeRegime = "euphoria" | "fear" | "frenzy" | "calm";
+
+export interface VibeHistoryPoint {
+  /** Window start, epoch ms */
+  t: number;
+  joy: number | null;
+  anxiety: number | null;
+  /** Last momentum reading in the window */
+  momentum: number | null;
+  /** Texts behind the window's vibe */
+  samples: number;
+  regime: VibeRegime | null;
+}
+
+export interface AxisTrend {
+  latest: number | null;
+  /** Change over the whole range, first reading to last */
+  change: number;
+  direction: "rising" | "falling" | "flat";
+  /** Consecutive windows moving in `direction`, counting the latest */
+  streak: number;
+}
+
+export interface VibeHistoryMetrics {
+  joy: AxisTrend;
+  anxiety: AxisTrend;
+  regime: VibeRegime | null;
+  regimeShift: { from: VibeRegime; to: VibeRegime; at: number } | null;
+  /** Human-readable notes, e.g. "Anxiety rising for 3 consecutive windows" */
+  messages: string[];
+}
+
+export interface VibeHistory {
+  range: VibeRange;
+  windowMs: number;
+  points: VibeHistoryPoint[];
+  metrics: VibeHistoryMetrics;
+}
+
+type VibeReading = Pick<VibeSnapshot, "joy" | "anxiety" | "sampleSize" | "capturedAt">;
+type MomentumReading = Pick<MarketSnapshot, "momentum" | "capturedAt">;
+
+/**
+ * Combine the vibes of several texts into one market reading
+ * Joy and anxiety are confidence-weighted so clear texts outweigh
+ * featureless ones; the dominant emotion is the one with the most weight.
+ */
+export function aggregateVibes(vibes: VibeAnalysis[]) {
+  if (vibes.length === 0) return null;
+
+  let totalWeight = 0;
+  let joy = 0;
+  let anxiety = 0;
+  const emotionWeight = new Map<string, number>();
+
+  for (const vibe of vibes) {
+    const weight = Math.max(vibe.confidence, 1);
+    totalWeight += weight;
+    joy += vibe.joy * weight;
+    anxiety += vibe.anxiety * weight;
+    emotionWeight.set(vibe.dominant_emotion, (emotionWeight.get(vibe.dominant_emotion) ?? 0) + weight);
+  }
+
+  const [dominantEmotion] = Array.from(emotionWeight).reduce((top, entry) => (entry[1] > top[1] ? entry : top));
+
+  return {
+    joy: Math.round(joy / totalWeight),
+    anxiety: Math.round(anxiety / totalWeight),
+    confidence: Math.round(vibes.reduce((sum, vibe) => sum + vibe.confidence, 0) / vibes.length),
+    dominantEmotion: dominantEmotion.slice(0, 32),
+    sampleSize: vibes.length,
+  };
+}
+
+export function classifyRegime(joy: number, anxiety: number): VibeRegime {
+  const euphoric = joy >= REGIME_THRESHOLD;
+  const fearful = anxiety >= REGIME_THRESHOLD;
+  if (euphoric && fearful) return "frenzy";
+  if (euphoric) return "euphoria";
+  if (fearful) return "fear";
+  return "calm";
+}
+
+/**
+ * First window start of a range ending at `now`
+ */
+export function rangeStart(range: VibeRange, now: number): number {
+  const { durationMs, windowMs } = VIBE_RANGES[range];
+  return Math.floor(now / windowMs) * windowMs + windowMs - durationMs;
+}
+
+function axisTrend(values: number[]): AxisTrend {
+  if (values.length === 0) return { latest: null, change: 0, direction: "flat", streak: 0 };
+
+  const latest = values[values.length - 1];
+  let direction: AxisTrend["direction"] = "flat";
+  let streak = 0;
+
+  for (let i = values.length - 1; i > 0; i--) {
+    const move = values[i] - values[i - 1];
+    const step = move >= MIN_MOVE ? "rising" : move <= -MIN_MOVE ? "falling" : "flat";
+    if (step === "flat") break;
+    if (streak > 0 && step !== direction) break;
+    direction = step;
+    streak++;
+  }
+
+  return { latest, change: latest - values[0], direction, streak };
+}
+
+function trendMessage(label: string, trend: AxisTrend): string | null {
+  if (trend.direction === "flat" || trend.streak < STREAK_THRESHOLD) return null;
+  return `${label} ${trend.direction} for ${trend.streak} consecutive windows`;
+}
+
+export function buildVibeHistory(
+  vibes: VibeReading[],
+  snapshots: MomentumReading[],
+  range: VibeRange,
+  now: number = Date.now()
+): VibeHistory {
+  const { durationMs, windowMs } = VIBE_RANGES[range];
+  const start = rangeStart(range, now);
+  const count = durationMs / windowMs;
+  const windowOf = (at: Date) => Math.floor((at.getTime() - start) / windowMs);
+
+  const sums = Array.from({ length: count }, () => ({ joy: 0, anxiety: 0, samples: 0 }));
+  for (const vibe of vibes) {
+    const index = windowOf(vibe.capturedAt);
+    if (index < 0 || index >= count) continue;
+    // Readings are weighted by the texts behind them
+    const weight = Math.max(vibe.sampleSize, 1);
+    sums[index].joy += vibe.joy * weight;
+    sums[index].anxiety += vibe.anxiety * weight;
+    sums[index].samples += weight;
+  }
+
+  const momentum: Array<number | null> = new Array(count).fill(null);
+  for (const snapshot of snapshots) {
+    const index = windowOf(snapshot.capturedAt);
+    // Snapshots arrive oldest first, so the last one wins
+    if (index >= 0 && index < count) momentum[index] = snapshot.momentum;
+  }
+
+  const points: VibeHistoryPoint[] = sums.map((sum, index) => {
+    const joy = sum.samples > 0 ? Math.round(sum.joy / sum.samples) : null;
+    const anxiety = sum.samples > 0 ? Math.round(sum.anxiety / sum.samples) : null;
+    return {
+      t: start + index * windowMs,
+      joy,
+      anxiety,
+      momentum: momentum[index],
+      samples: sum.samples,
+      regime: joy !== null && anxiety !== null ? classifyRegime(joy, anxiety) : null,
+    };
+  });
+
+  return { range, windowMs, points, metrics: deriveMetrics(points) };
+}
+
+/**
+ * Trends over the windows that have a vibe reading; empty windows are
+ * skipped rather than breaking a streak
+ */
+export function deriveMetrics(points: VibeHistoryPoint[]): VibeHistoryMetrics {
+  const readings = points.filter(point => point.joy !== null && point.anxiety !== null);
+  const joy = axisTrend(readings.map(point => point.joy!));
+  const anxiety = axisTrend(readings.map(point => point.anxiety!));
+
+  let regimeShift: VibeHistoryMetrics["regimeShift"] = null;
+  for (let i = readings.length - 1; i > 0; i--) {
+    const from = readings[i - 1].regime!;
+    const to = readings[i].regime!;
+    if (from !== to) {
+      regimeShift = { from, to, at: readings[i].t };
+      break;
+    }
+  }
+
+  const regime = readings.length > 0 ? readings[readings.length - 1].regime : null;
+  const messages = [trendMessage("Anxiety", anxiety), trendMessage("Joy", joy)].filter(
+    (message): message is string => message !== null
+  );
+  if (regimeShift) {
+    messages.push(`Regime shift: ${regimeShift.from} → ${regimeShift.to}`);
+  }
+
+  return { joy, anxiety, regime, regimeShift, messages };
+}
@@ -0,0 +1,166 @@
+/**
+ * Voice Profiles
+ * The one list of voices the app offers: five built-in ElevenLabs voices
+ * plus the voices an admin has synced from the ElevenLabs account and left
+ * enabled. ai.getVoiceOptions, the BRIEF button and the schedule dialog
+ * all read it, and every briefing resolves its voice and the user's saved
+ * settings here before speaking.
+ */
+
+import { BRIEFING_LANGUAGES, type BriefingLanguage } from "@shared/briefingLanguages";
+import { DEFAULT_VOICE, DEFAULT_VOICE_SETTINGS, type VoicePreferences, type VoiceSettings } from "@shared/voiceSettings";
+import type { InsertVoiceProfile, VoicePreference, VoiceProfile } from "../../drizzle/schema";
+import { getVoicePreferences, getVoiceProfile, listVoiceProfiles, syncVoiceProfiles } from "../db";
+import { listAccountVoices, type ElevenLabsVoice, type VoiceTarget } from "./elevenlabs";
+
+interface BuiltinVoice extends VoiceTarget {
+  name: string;
+  description: string;
+}
+
+const BUILTIN_VOICES: BuiltinVoice[] = [
+  { id: "bill", voiceId: "6EW6z8IiJRtePnNUNPKW", name: "Bill", description: "Deep, authoritative male voice - Default" },
+  { id: "charlotte", voiceId: "XB0fDUnXU5powFXDhCwa", name: "Charlotte", description: "Professional female news anchor" },
+  { id: "rachel", voiceId: "21m00Tcm4TlvDq8ikWAM", name: "Rachel", description: "Warm, professional female voice" },
+  { id: "adam", voiceId: "pNInz6obpgDQGcFmaJgB", name: "Adam", description: "Deep, commanding male voice" },
+  { id: "josh", voiceId: "TxGEqnHWrfWFTfGW9XjX", name: "Josh", description: "Young, energetic male voice" },
+];
+
+export class UnknownVoiceError extends Error {
+  constructor(voice: string) {
+    super(`Unknown voice "${voice}"`);
+    this.name = "UnknownVoiceError";
+  }
+}
+
+export interface VoiceOptionView {
+  id: string;
+  name: string;
+  description: string;
+  source: "builtin" | "library";
+  /** Briefing languages the voice is verified for; empty when unknown. */
+  languages: BriefingLanguage[];
+  previewUrl: string | null;
+}
+
+function builtinView(voice: BuiltinVoice): VoiceOptionView {
+  return {
+    id: voice.id,
+    name: voice.name,
+    description: voice.description,
+    source: "builtin",
+    // Premade voices speak every language Flash v2.5 does
+    languages: [...BRIEFING_LANGUAGES],
+    previewUrl: null,
+  };
+}
+
+function libraryView(profile: VoiceProfile): VoiceOptionView {
+  return {
+    id: profile.voiceId,
+    name: profile.name,
+    description: profile.description,
+    source: "library",
+    languages: profile.languages,
+    previewUrl: profile.previewUrl,
+  };
+}
+
+/**
+ * Voices for the pickers, built-in first
+ * With a language, voices verified for other languages are left out.
+ */
+export async function listVoiceOptions(language?: BriefingLanguage): Promise<VoiceOptionView[]> {
+  const voices = [...BUILTIN_VOICES.map(builtinView), ...(await listVoiceProfiles()).map(libraryView)];
+  if (!language) return voices;
+  return voices.filter(voice => voice.languages.length === 0 || voice.languages.includes(language));
+}
+
+// Admin view of every synced voice, including disabled ones
+export function toVoiceProfileView(profile: VoiceProfile) {
+  return {
+    ...libraryView(profile),
+    profileId: profile.id,
+    category: profile.category,
+    enabled: profile.enabled,
+    syncedAt: profile.syncedAt.getTime(),
+  };
+}
+
+export async function resolveVoice(id: string): Promise<VoiceTarget> {
+  const builtin = BUILTIN_VOICES.find(voice => voice.id === id);
+  if (builtin) return { id: builtin.id, voiceId: builtin.voiceId };
+
+  const profile = await getVoiceProfile(id);
+  if (!profile?.enabled) throw new UnknownVoiceError(id);
+  return { id: profile.voiceId, voiceId: profile.voiceId };
+}
+
+export function toVoicePreferences(row: VoicePreference | undefined): VoicePreferences {
+  if (!row) return { voice: DEFAULT_VOICE, ...DEFAULT_VOICE_SETTINGS };
+  return {
+    voice: row.voice,
+    model: row.model,
+    speed: row.speed,
+    stability: row.stability,
+    similarity: row.similarity,
+  };
+}
+
+/**
+ * The voice and settings a briefing is spoken with
+ * An explicitly requested voice must exist; a saved voice that has since
+ * been removed falls back to the default.
+ */
+export async function resolveSpeech(
+  userId: number | null,
+  requested?: string
+): Promise<{ voice: VoiceTarget; settings: VoiceSettings }> {
+  const { voice: saved, ...settings } = toVoicePreferences(userId === null ? undefined : await getVoicePreferences(userId));
+  if (requested) {
+    return { voice: await resolveVoice(requested), settings };
+  }
+
+  try {
+    return { voice: await resolveVoice(saved), settings };
+  } catch (error) {
+    if (!(error instanceof UnknownVoiceError)) throw error;
+    return { voice: await resolveVoice(DEFAULT_VOICE), settings };
+  }
+}
+
+function voiceDescription(voice: ElevenLabsVoice): string {
+  if (voice.description) return voice.description.slice(0, 255);
+  const labels = voice.labels ?? {};
+  const parts = [labels.description, labels.accent, labels.gender, labels.age, labels.use_case].filter(Boolean);
+  return parts.join(", ").slice(0, 255);
+}
+
+// The briefing languages a voice is verified for, from its language labels
+function voiceLanguages(voice: ElevenLabsVoice): BriefingLanguage[] {
+  const tags = [...(voice.verified_languages ?? []).map(entry => entry.language), voice.labels?.language];
+  return BRIEFING_LANGUAGES.filter(language => tags.some(tag => tag?.toLowerCase().split(/[-_]/)[0] === language));
+}
+
+export function toVoiceProfile(voice: ElevenLabsVoice): Omit<InsertVoiceProfile, "id" | "enabled" | "syncedAt" | "createdAt"> {
+  return {
+    voiceId: voice.voice_id,
+    name: voice.name.slice(0, 64),
+    description: voiceDescription(voice),
+    category: (voice.category ?? "premade").slice(0, 32),
+    languages: voiceLanguages(voice),
+    previewUrl: voice.preview_url?.slice(0, 512) ?? null,
+  };
+}
+
+/**
+ * Copy the ElevenLabs account's voices into voice profiles
+ * The built-in voices are already offered, so they are skipped.
+ */
+export async function syncVoiceLibrary(): Promise<{ synced: number; removed: number }> {
+  const builtinIds = new Set(BUILTIN_VOICES.map(voice => voice.voiceId));
+  const voices = (await listAccountVoices()).filter(voice => !builtinIds.has(voice.voice_id));
+  const result = await syncVoiceProfiles(voices.map(toVoiceProfile));
+  console.log(`[Voices] Synced ${result.synced} voice(s), removed ${result.removed}`);
+  return result;
+}
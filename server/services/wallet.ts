@@ -0,0 +1,142 @@
+/**
+ * Wallet Service
+ * Builds balanced double-entry postings for every movement of paper USDC.
+ * The database layer writes these entries and the matching balance deltas
+ * in one transaction; nothing else is allowed to change a balance.
+ */
+
+import { nanoid } from "nanoid";
+import type { InsertLedgerEntry } from "../../drizzle/schema";
+import type { SettlementResult } from "./settlement";
+
+// Cap on a single paper deposit or withdrawal
+export const MAX_DEPOSIT_CENTS = 100_000_00;
+export const MAX_WITHDRAWAL_CENTS = MAX_DEPOSIT_CENTS;
+// Smallest amount that survives rounding to cents
+export const MIN_TRANSFER_CENTS = 1;
+
+export type LedgerAccount = InsertLedgerEntry["account"];
+export type LedgerKind = InsertLedgerEntry["kind"];
+
+export interface Posting {
+  userId: number | null;
+  account: LedgerAccount;
+  amountCents: number;
+  kind: LedgerKind;
+  tradeId?: number;
+}
+
+export interface LedgerTransaction {
+  transactionId: string;
+  postings: Posting[];
+}
+
+export class InsufficientFundsError extends Error {
+  constructor(
+    public requiredCents: number,
+    public availableCents: number
+  ) {
+    super(`Insufficient balance: ${(requiredCents / 100).toFixed(2)} USDC required, ${(availableCents / 100).toFixed(2)} USDC available`);
+    this.name = "InsufficientFundsError";
+  }
+}
+
+export class UnbalancedTransactionError extends Error {
+  constructor(public imbalanceCents: number) {
+    super(`Ledger transaction does not balance (off by ${imbalanceCents} cents)`);
+    this.name = "UnbalancedTransactionError";
+  }
+}
+
+export class EmptyTransactionError extends Error {
+  constructor(public transactionId: string) {
+    super(`Ledger transaction ${transactionId} has no non-zero postings`);
+    this.name = "EmptyTransactionError";
+  }
+}
+
+function transaction(postings: Posting[]): LedgerTransaction {
+  const nonZero = postings.filter(p => p.amountCents !== 0);
+  assertBalanced(nonZero);
+  return { transactionId: `TX-${nanoid(16)}`, postings: nonZero };
+}
+
+/**
+ * Every transaction must net to zero across all accounts
+ */
+export function assertBalanced(postings: Posting[]): void {
+  const sum = postings.reduce((total, p) => total + p.amountCents, 0);
+  if (sum !== 0) {
+    throw new UnbalancedTransactionError(sum);
+  }
+}
+
+/**
+ * Net change to a user's available and locked balances from a transaction
+ */
+export function balanceDelta(postings: Posting[], userId: number) {
+  let availableCents = 0;
+  let lockedCents = 0;
+  for (const p of postings) {
+    if (p.userId !== userId) continue;
+    if (p.account === "available") availableCents += p.amountCents;
+    if (p.account === "locked") lockedCents += p.amountCents;
+  }
+  return { availableCents, lockedCents };
+}
+
+export function buildDeposit(userId: number, amountCents: number): LedgerTransaction {
+  return transaction([
+    { userId: null, account: "external", amountCents: -amountCents, kind: "deposit" },
+    { userId, account: "available", amountCents, kind: "deposit" },
+  ]);
+}
+
+export function buildWithdrawal(userId: number, amountCents: number): LedgerTransaction {
+  return transaction([
+    { userId, account: "available", amountCents: -amountCents, kind: "withdrawal" },
+    { userId: null, account: "external", amountCents, kind: "withdrawal" },
+  ]);
+}
+
+/**
+ * Move the stake from available funds into margin while the trade is open
+ */
+export function buildMarginLock(userId: number, tradeId: number, stakeCents: number): LedgerTransaction {
+  return transaction([
+    { userId, account: "available", amountCents: -stakeCents, kind: "margin_lock", tradeId },
+    { userId, account: "locked", amountCents: stakeCents, kind: "margin_lock", tradeId },
+  ]);
+}
+
+/**
+ * Release the margin and pay out a settled trade
+ * - push: margin returns to available
+ * - loss: margin goes to the house
+ * - win: margin returns, the house pays the profit, the user pays the vig
+ */
+export function buildSettlementPostings(
+  userId: number,
+  tradeId: number,
+  stakeCents: number,
+  result: SettlementResult
+): LedgerTransaction {
+  const release: Posting = { userId, account: "locked", amountCents: -stakeCents, kind: "margin_release", tradeId };
+
+  if (result.outcome === "loss") {
+    return transaction([
+      release,
+      { userId: null, account: "house", amountCents: stakeCents, kind: "stake_loss", tradeId },
+    ]);
+  }
+
+  const profitCents = result.grossPayoutCents - stakeCents;
+  return transaction([
+    release,
+    { userId, account: "available", amountCents: stakeCents, kind: "margin_release", tradeId },
+    { userId: null, account: "house", amountCents: -profitCents, kind: "payout", tradeId },
+    { userId, account: "available", amountCents: profitCents, kind: "payout", tradeId },
+    { userId, account: "available", amountCents: -result.vigCents, kind: "vig", tradeId },
+    { userId: null, account: "house", amountCents: result.vigCents, kind: "vig", tradeId },
+  ]);
+}
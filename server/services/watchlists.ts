@@ -0,0 +1,55 @@
+/**
+ * Watchlists Service
+ * List edits as pure functions over a list's market ids, so the router
+ * can apply them under the row lock in updateWatchlistMarkets.
+ */
+
+import type { Watchlist } from "../../drizzle/schema";
+
+export const MAX_WATCHLISTS = 20;
+export const MAX_WATCHLIST_MARKETS = 50;
+
+// Created on the first star when the user has no list yet
+export const DEFAULT_WATCHLIST_NAME = "Favorites";
+
+export class WatchlistFullError extends Error {
+  constructor() {
+    super(`A watchlist holds at most ${MAX_WATCHLIST_MARKETS} markets`);
+    this.name = "WatchlistFullError";
+  }
+}
+
+export function toWatchlistView(row: Watchlist) {
+  return {
+    id: row.id,
+    name: row.name,
+    position: row.position,
+    marketIds: row.marketIds.map(String),
+  };
+}
+
+export type WatchlistView = ReturnType<typeof toWatchlistView>;
+
+export function addMarket(marketIds: number[], marketId: number): number[] {
+  if (marketIds.includes(marketId)) return marketIds;
+  if (marketIds.length >= MAX_WATCHLIST_MARKETS) throw new WatchlistFullError();
+  return [...marketIds, marketId];
+}
+
+export function removeMarket(marketIds: number[], marketId: number): number[] {
+  return marketIds.filter(id => id !== marketId);
+}
+
+export function toggleMarket(marketIds: number[], marketId: number): number[] {
+  return marketIds.includes(marketId) ? removeMarket(marketIds, marketId) : addMarket(marketIds, marketId);
+}
+
+/**
+ * Put a list's markets in the requested order
+ * Ids no longer on the list are dropped and ones added since the client
+ * loaded it keep their place at the end, so a stale reorder loses nothing.
+ */
+export function applyOrder(marketIds: number[], order: number[]): number[] {
+  const ordered = Array.from(new Set(order)).filter(id => marketIds.includes(id));
+  return [...ordered, ...marketIds.filter(id => !ordered.includes(id))];
+}
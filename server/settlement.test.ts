@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import type { MarketSnapshot, Settlement, Trade } from "../drizzle/schema";
+import {
+  SETTLEMENT_ENGINE_VERSION,
+  computeSettlement,
+  replaySettlement,
+  resolveOutcome,
+  selectExitSnapshot,
+} from "./services/settlement";
+
+/**
+ * Test the settlement engine
+ * Payouts must be deterministic and replayable from snapshot history
+ */
+
+const expiresAt = new Date("2026-01-01T12:00:00Z");
+
+function snapshot(id: number, momentum: number, capturedAt: string): MarketSnapshot {
+  return {
+    id,
+    marketId: 1,
+    momentum,
+    change24h: 0,
+    volumeUsd: 0,
+    participants: 0,
+    hypeScore: 50,
+    capturedAt: new Date(capturedAt),
+  };
+}
+
+function trade(overrides: Partial<Trade> = {}): Trade {
+  return {
+    id: 1,
+    tradeRef: "TRD-TEST",
+    userId: 1,
+    marketId: 1,
+    direction: "long",
+    duration: "1h",
+    stakeCents: 10_000,
+    entryMomentum: 80,
+    entrySnapshotId: 10,
+    estimatedReturnCents: 19_800,
+    shares: null,
+    entryPrice: null,
+    status: "open",
+    idempotencyKey: "test-key-1",
+    expiresAt,
+    settledAt: null,
+    createdAt: new Date("2026-01-01T11:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("Settlement Engine", () => {
+  describe("resolveOutcome", () => {
+    it("should pay longs when momentum rises and shorts when it falls", () => {
+      expect(resolveOutcome("long", 80, 85)).toBe("win");
+      expect(resolveOutcome("long", 80, 75)).toBe("loss");
+      expect(resolveOutcome("short", 80, 75)).toBe("win");
+      expect(resolveOutcome("short", 80, 85)).toBe("loss");
+    });
+
+    it("should treat unchanged momentum as a push", () => {
+      expect(resolveOutcome("long", 80, 80)).toBe("push");
+      expect(resolveOutcome("short", 80, 80)).toBe("push");
+    });
+  });
+
+  describe("computeSettlement", () => {
+    it("should take the 2% vig from the profit of a pre-AMM win", () => {
+      const result = computeSettlement(trade(), 90);
+
+      expect(result.outcome).toBe("win");
+      expect(result.grossPayoutCents).toBe(20_000);
+      expect(result.vigCents).toBe(200);
+      expect(result.netPayoutCents).toBe(19_800);
+    });
+
+    it("should pay 1 USDC per share on an AMM win", () => {
+      const result = computeSettlement(trade({ shares: 250, entryPrice: 0.4 }), 90);
+
+      expect(result.grossPayoutCents).toBe(25_000);
+      expect(result.vigCents).toBe(300);
+      expect(result.netPayoutCents).toBe(24_700);
+    });
+
+    it("should pay nothing on a loss", () => {
+      const result = computeSettlement(trade(), 70);
+
+      expect(result).toEqual({ outcome: "loss", grossPayoutCents: 0, vigCents: 0, netPayoutCents: 0 });
+    });
+
+    it("should refund the stake on a push without vig", () => {
+      const result = computeSettlement(trade(), 80);
+
+      expect(result.netPayoutCents).toBe(10_000);
+      expect(result.vigCents).toBe(0);
+    });
+  });
+
+  describe("selectExitSnapshot", () => {
+    it("should pick the last snapshot at or before expiry", () => {
+      const exit = selectExitSnapshot(
+        [
+          snapshot(11, 82, "2026-01-01T11:30:00Z"),
+          snapshot(13, 99, "2026-01-01T12:00:01Z"),
+          snapshot(12, 85, "2026-01-01T12:00:00Z"),
+        ],
+        expiresAt
+      );
+
+      expect(exit?.id).toBe(12);
+    });
+
+    it("should break capture-time ties by id regardless of input order", () => {
+      const a = snapshot(21, 70, "2026-01-01T11:59:00Z");
+      const b = snapshot(22, 90, "2026-01-01T11:59:00Z");
+
+      expect(selectExitSnapshot([a, b], expiresAt)?.id).toBe(22);
+      expect(selectExitSnapshot([b, a], expiresAt)?.id).toBe(22);
+    });
+
+    it("should return undefined when nothing was captured before expiry", () => {
+      expect(selectExitSnapshot([snapshot(30, 50, "2026-01-01T13:00:00Z")], expiresAt)).toBeUndefined();
+    });
+  });
+
+  describe("replaySettlement", () => {
+    const history = [
+      snapshot(10, 80, "2026-01-01T11:00:00Z"),
+      snapshot(11, 88, "2026-01-01T11:45:00Z"),
+    ];
+
+    const stored: Settlement = {
+      id: 1,
+      tradeId: 1,
+      userId: 1,
+      entrySnapshotId: 10,
+      exitSnapshotId: 11,
+      entryMomentum: 80,
+      exitMomentum: 88,
+      outcome: "win",
+      stakeCents: 10_000,
+      grossPayoutCents: 20_000,
+      vigCents: 200,
+      netPayoutCents: 19_800,
+      engineVersion: SETTLEMENT_ENGINE_VERSION,
+      settledAt: new Date(),
+    };
+
+    it("should confirm a settlement that matches the history", () => {
+      const audit = replaySettlement(trade(), stored, history);
+
+      expect(audit.matches).toBe(true);
+      expect(audit.mismatches).toEqual([]);
+    });
+
+    it("should flag fields that differ from the replay", () => {
+      const audit = replaySettlement(trade(), { ...stored, outcome: "loss", netPayoutCents: 0 }, history);
+
+      expect(audit.matches).toBe(false);
+      expect(audit.mismatches).toEqual(["outcome", "netPayoutCents"]);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { MIN_MATCH_CONFIDENCE, matchSignal, scoreMatch, toMarketTopic, type MarketTopic } from "./services/signalMatcher";
+
+/**
+ * Test signal-to-market matching
+ * Aliases route on their own, keywords only in numbers, and Gemini's
+ * extracted event and actors add confidence
+ */
+
+const openai: MarketTopic = {
+  marketId: 2,
+  topic: "OpenAI IPO Hype",
+  aliases: ["OpenAI", "Sam Altman"],
+  keywords: ["IPO", "valuation", "investors"],
+};
+
+const bitcoin: MarketTopic = {
+  marketId: 4,
+  topic: "Bitcoin ETF Flows",
+  aliases: ["Bitcoin ETF", "IBIT"],
+  keywords: ["Bitcoin", "inflows", "outflows"],
+};
+
+const shadcn: MarketTopic = {
+  marketId: 3,
+  topic: "GitHub Repo: shadcn/ui",
+  aliases: ["shadcn/ui"],
+  keywords: [],
+};
+
+const markets = [openai, bitcoin, shadcn];
+
+const analysis = (core_event: string, main_actors: string[] = []) => ({
+  core_event,
+  main_actors,
+  is_bot_noise: false,
+});
+
+describe("Signal Matcher", () => {
+  it("should route a signal on a single alias mention", () => {
+    const matches = matchSignal({ content: "OpenAI announces GPT-5 with new reasoning" }, markets);
+
+    expect(matches).toEqual([{ marketId: 2, confidence: 0.6, matchedTerms: ["OpenAI"] }]);
+  });
+
+  it("should combine evidence and route to several markets", () => {
+    const matches = matchSignal(
+      { content: "Sam Altman says OpenAI has no IPO plans while Bitcoin ETF outflows continue" },
+      markets
+    );
+
+    expect(matches.map(m => m.marketId)).toEqual([2, 4]);
+    // 1 - (0.4 * 0.4 * 0.75)
+    expect(matches[0].confidence).toBe(0.88);
+    expect(matches[0].matchedTerms).toEqual(["OpenAI", "Sam Altman", "IPO"]);
+  });
+
+  it("should need three keywords without an alias", () => {
+    expect(scoreMatch({ content: "IPO valuation chatter" }, openai)).toBeNull();
+    expect(scoreMatch({ content: "IPO valuation excites investors" }, openai)?.confidence)
+      .toBeGreaterThanOrEqual(MIN_MATCH_CONFIDENCE);
+  });
+
+  it("should match whole words after normalisation only", () => {
+    expect(scoreMatch({ content: "New shadcn ui release" }, shadcn)).not.toBeNull();
+    expect(scoreMatch({ content: "SHADCN/UI v2 is out!" }, shadcn)).not.toBeNull();
+    expect(scoreMatch({ content: "openaissance of the web" }, openai)).toBeNull();
+  });
+
+  it("should read the title as well as the content", () => {
+    expect(scoreMatch({ title: "IBIT sees record day", content: "Flows surged" }, bitcoin)).not.toBeNull();
+  });
+
+  it("should route on Gemini's extracted actors when the text is oblique", () => {
+    const signal = { content: "The ChatGPT maker is reportedly talking to banks" };
+
+    expect(matchSignal(signal, markets)).toEqual([]);
+
+    const [match] = matchSignal(signal, markets, analysis("ChatGPT maker prepares IPO", ["OpenAI"]));
+    // 1 - (0.3 * 0.8)
+    expect(match).toEqual({ marketId: 2, confidence: 0.76, matchedTerms: ["OpenAI", "IPO"] });
+  });
+
+  it("should not route bot noise anywhere", () => {
+    const matches = matchSignal({ content: "OpenAI airdrop!!! claim now" }, markets, {
+      ...analysis("Spam"),
+      is_bot_noise: true,
+    });
+
+    expect(matches).toEqual([]);
+  });
+
+  it("should treat missing alias and keyword lists as empty", () => {
+    const topic = toMarketTopic({ id: 9, topic: "Marty Supreme", aliases: null, keywords: null });
+
+    expect(topic).toEqual({ marketId: 9, topic: "Marty Supreme", aliases: [], keywords: [] });
+    expect(scoreMatch({ content: "Marty Supreme trailer drops" }, topic)?.matchedTerms).toEqual(["Marty Supreme"]);
+  });
+});
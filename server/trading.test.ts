@@ -1,10 +1,26 @@
-import { describe, expect, it } from "vitest";
-import { appRouter } from "./routers";
+import { beforeEach, describe, expect, it, vi } from "vitest";
 import type { TrpcContext } from "./_core/context";
+import type { Market, MarketCategory, Trade } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  createTrade: vi.fn(),
+  getAmmPool: vi.fn(),
+  getLatestMarketSnapshot: vi.fn(),
+  getTradeByRef: vi.fn(),
+  listMarkets: vi.fn(),
+  listTradesForUser: vi.fn(),
+}));
+
+import { createTrade, getAmmPool, getLatestMarketSnapshot, listMarkets, type NewTrade } from "./db";
+import { appRouter } from "./routers";
+import { applyTrade, emptyPool, type AmmQuote, type PoolState } from "./services/amm";
+import { estimateReturnCents } from "./services/trading";
+import { InsufficientFundsError } from "./services/wallet";
 
 /**
  * Test trading endpoints
  * These tests validate the market selection and trade placement functionality
+ * The database layer is mocked with in-memory trade and AMM pool stores
  */
 
 function createMockContext(): TrpcContext {
@@ -20,74 +36,147 @@ function createMockContext(): TrpcContext {
   };
 }
 
+function createAuthContext(): TrpcContext {
+  return {
+    ...createMockContext(),
+    user: {
+      id: 1,
+      openId: "sample-user",
+      email: "sample@example.com",
+      name: "Sample User",
+      loginMethod: "manus",
+      role: "user",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+  };
+}
+
+const category: MarketCategory = {
+  id: 1,
+  slug: "tech",
+  label: "TECH",
+  icon: "Code",
+  sortOrder: 1,
+  createdAt: new Date(),
+};
+
+const catalog: Record<number, string> = { 1: "OpenAI IPO Hype", 2: "Bitcoin ETF Flows", 3: "Test Market" };
+
+function market(id: number): Market {
+  return {
+    id,
+    slug: `market-${id}`,
+    topic: catalog[id],
+    categoryId: 1,
+    hypeSummary: null,
+    aliases: null,
+    keywords: null,
+    status: "active",
+    closesAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+let storedTrades: Trade[] = [];
+let pools = new Map<string, PoolState>();
+let idCounter = 0;
+let keyCounter = 0;
+const nextKey = () => `test-key-${++keyCounter}`;
+
+beforeEach(() => {
+  storedTrades = [];
+  pools = new Map();
+  vi.mocked(listMarkets).mockImplementation(async ({ marketId } = {}) =>
+    marketId && catalog[marketId] ? [{ market: market(marketId), category, snapshots: [] }] : []
+  );
+  vi.mocked(getAmmPool).mockImplementation(async (marketId, duration) =>
+    pools.get(`${marketId}:${duration}`) ?? emptyPool()
+  );
+  vi.mocked(getLatestMarketSnapshot).mockImplementation(async marketId => ({
+    id: 100 + marketId,
+    marketId,
+    momentum: marketId === 2 ? 65 : 94,
+    change24h: 0,
+    volumeUsd: 0,
+    participants: 0,
+    hypeScore: 50,
+    capturedAt: new Date(),
+  }));
+  vi.mocked(createTrade).mockImplementation(async (trade: NewTrade, priceTrade: (pool: PoolState) => AmmQuote) => {
+    const existing = storedTrades.find(
+      t => t.userId === trade.userId && t.idempotencyKey === trade.idempotencyKey
+    );
+    if (existing) return { trade: existing, created: false, quote: null };
+
+    const poolKey = `${trade.marketId}:${trade.duration}`;
+    const pool = pools.get(poolKey) ?? emptyPool();
+    const quote = priceTrade(pool);
+    pools.set(poolKey, applyTrade(pool, trade.direction, quote.shares));
+
+    const stored = {
+      ...trade,
+      shares: quote.shares,
+      entryPrice: quote.avgPrice,
+      estimatedReturnCents: estimateReturnCents(trade.stakeCents, quote.shares),
+      id: ++idCounter,
+      status: "open",
+      settledAt: null,
+      createdAt: new Date(),
+    } as Trade;
+    storedTrades.push(stored);
+    return { trade: stored, created: true, quote };
+  });
+});
+
 describe("Trading Endpoints", () => {
   describe("trading.selectMarket", () => {
-    it("should successfully select a market", async () => {
-      const ctx = createMockContext();
-      const caller = appRouter.createCaller(ctx);
+    it("should return the stored market, not the client's copy", async () => {
+      const caller = appRouter.createCaller(createMockContext());
 
-      const result = await caller.trading.selectMarket({
-        marketId: "test-market-1",
-        topic: "OpenAI IPO Hype",
-        category: "Tech",
-        momentum: 94,
-        change24h: 45.2,
-        volume: "$1.2M",
-        hypeScore: 98,
-      });
+      const result = await caller.trading.selectMarket({ marketId: "2" });
 
       expect(result.success).toBe(true);
-      expect(result.message).toContain("OpenAI IPO Hype");
-      expect(result.market.id).toBe("test-market-1");
-      expect(result.market.topic).toBe("OpenAI IPO Hype");
-      expect(result.timestamp).toBeDefined();
+      expect(result.message).toContain("Bitcoin ETF Flows");
+      expect(result.market).toMatchObject({ id: "2", topic: "Bitcoin ETF Flows", category: "TECH" });
       expect(result.timestamp).toBeGreaterThan(0);
     });
 
-    it("should return correct market details", async () => {
-      const ctx = createMockContext();
-      const caller = appRouter.createCaller(ctx);
-
-      const input = {
-        marketId: "market-123",
-        topic: "Bitcoin ETF Flows",
-        category: "Crypto",
-        momentum: 65,
-        change24h: -8.3,
-        volume: "$2.1M",
-        hypeScore: 58,
-      };
-
-      const result = await caller.trading.selectMarket(input);
+    it("should reject unknown markets", async () => {
+      const caller = appRouter.createCaller(createMockContext());
 
-      expect(result.market).toEqual({
-        id: input.marketId,
-        topic: input.topic,
-        category: input.category,
-        momentum: input.momentum,
-        change24h: input.change24h,
-        volume: input.volume,
-        hypeScore: input.hypeScore,
-      });
+      await expect(caller.trading.selectMarket({ marketId: "404" })).rejects.toMatchObject({ code: "NOT_FOUND" });
     });
   });
 
   describe("trading.placeTrade", () => {
-    it("should successfully place a long trade", async () => {
+    it("should require authentication", async () => {
       const ctx = createMockContext();
       const caller = appRouter.createCaller(ctx);
 
+      await expect(
+        caller.trading.placeTrade({
+          marketId: "1",
+          direction: "long",
+          duration: "1h",
+          amount: 100,
+          idempotencyKey: nextKey(),
+        })
+      ).rejects.toThrow();
+    });
+
+    it("should successfully place a long trade", async () => {
+      const ctx = createAuthContext();
+      const caller = appRouter.createCaller(ctx);
+
       const result = await caller.trading.placeTrade({
-        marketId: "test-market-1",
-        topic: "OpenAI IPO Hype",
-        category: "Tech",
-        momentum: 94,
-        change24h: 45.2,
-        volume: "$1.2M",
-        hypeScore: 98,
+        marketId: "1",
         direction: "long",
         duration: "1h",
         amount: 100,
+        idempotencyKey: nextKey(),
       });
 
       expect(result.success).toBe(true);
@@ -96,24 +185,99 @@ describe("Trading Endpoints", () => {
       expect(result.details.direction).toBe("long");
       expect(result.details.duration).toBe("1h");
       expect(result.details.amount).toBe(100);
+      expect(result.details.status).toBe("open");
       expect(result.details.estimatedReturn).toBeGreaterThan(0);
     });
 
+    it("should enter at the momentum of the server snapshot", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      const result = await caller.trading.placeTrade({
+        marketId: "1",
+        direction: "long",
+        duration: "1h",
+        amount: 100,
+        idempotencyKey: nextKey(),
+      });
+
+      expect(result.details.entryMomentum).toBe(94);
+      expect(storedTrades[0].entrySnapshotId).toBe(101);
+    });
+
+    it("should label the trade with the market's stored topic", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      const result = await caller.trading.placeTrade({
+        marketId: "2",
+        // Extra client fields are ignored
+        topic: "Something Else",
+        direction: "long",
+        duration: "1h",
+        amount: 10,
+        idempotencyKey: nextKey(),
+      } as Parameters<typeof caller.trading.placeTrade>[0]);
+
+      expect(result.details.topic).toBe("Bitcoin ETF Flows");
+    });
+
+    it("should return the original trade for a repeated idempotency key", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+      const input = {
+        marketId: "1",
+        direction: "long" as const,
+        duration: "1h" as const,
+        amount: 100,
+        idempotencyKey: nextKey(),
+      };
+
+      const first = await caller.trading.placeTrade(input);
+      const second = await caller.trading.placeTrade(input);
+
+      expect(second.tradeId).toBe(first.tradeId);
+      expect(second.duplicate).toBe(true);
+      expect(storedTrades).toHaveLength(1);
+    });
+
+    it("should reject trades the user cannot afford", async () => {
+      vi.mocked(createTrade).mockRejectedValueOnce(new InsufficientFundsError(100_000, 2_500));
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.trading.placeTrade({
+          marketId: "1",
+          direction: "long",
+          duration: "1h",
+          amount: 1000,
+          idempotencyKey: nextKey(),
+        })
+      ).rejects.toThrow("Insufficient balance");
+    });
+
+    it("should reject markets without a price", async () => {
+      vi.mocked(getLatestMarketSnapshot).mockResolvedValue(undefined);
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.trading.placeTrade({
+          marketId: "1",
+          direction: "long",
+          duration: "1h",
+          amount: 10,
+          idempotencyKey: nextKey(),
+        })
+      ).rejects.toThrow("not open for trading");
+    });
+
     it("should successfully place a short trade", async () => {
-      const ctx = createMockContext();
+      const ctx = createAuthContext();
       const caller = appRouter.createCaller(ctx);
 
       const result = await caller.trading.placeTrade({
-        marketId: "test-market-2",
-        topic: "Bitcoin ETF Flows",
-        category: "Crypto",
-        momentum: 65,
-        change24h: -8.3,
-        volume: "$2.1M",
-        hypeScore: 58,
+        marketId: "2",
         direction: "short",
         duration: "30m",
         amount: 50,
+        idempotencyKey: nextKey(),
       });
 
       expect(result.success).toBe(true);
@@ -122,36 +286,107 @@ describe("Trading Endpoints", () => {
       expect(result.details.amount).toBe(50);
     });
 
+    it("should return the AMM fill and move the price for the next trade", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+      const input = {
+        marketId: "1",
+        direction: "long" as const,
+        duration: "1h" as const,
+        amount: 100,
+      };
+
+      const first = await caller.trading.placeTrade({ ...input, idempotencyKey: nextKey() });
+      const second = await caller.trading.placeTrade({ ...input, idempotencyKey: nextKey() });
+
+      expect(first.quote?.spotPrice).toBeCloseTo(0.5);
+      expect(first.details.shares).toBeCloseTo(first.quote!.shares);
+      expect(second.quote!.spotPrice).toBeGreaterThan(first.quote!.spotPrice);
+      expect(second.quote!.shares).toBeLessThan(first.quote!.shares);
+    });
+
+    it("should reject a fill above the user's max price", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(
+        caller.trading.placeTrade({
+          marketId: "1",
+          direction: "long",
+          duration: "1h",
+          amount: 100,
+          idempotencyKey: nextKey(),
+          maxPrice: 0.5,
+        })
+      ).rejects.toThrow("Price moved");
+      expect(storedTrades).toHaveLength(0);
+    });
+
     it("should calculate correct expiration time for different durations", async () => {
-      const ctx = createMockContext();
+      const ctx = createAuthContext();
       const caller = appRouter.createCaller(ctx);
 
       const baseInput = {
-        marketId: "test-market",
-        topic: "Test Market",
-        category: "Tech",
-        momentum: 50,
-        change24h: 0,
-        volume: "$100K",
-        hypeScore: 50,
+        marketId: "3",
         direction: "long" as const,
         amount: 100,
       };
 
       // Test 30m duration
-      const result30m = await caller.trading.placeTrade({ ...baseInput, duration: "30m" });
+      const result30m = await caller.trading.placeTrade({ ...baseInput, duration: "30m", idempotencyKey: nextKey() });
       const expectedExpiry30m = result30m.timestamp + 30 * 60 * 1000;
       expect(result30m.details.expiresAt).toBeCloseTo(expectedExpiry30m, -3);
 
       // Test 1h duration
-      const result1h = await caller.trading.placeTrade({ ...baseInput, duration: "1h" });
+      const result1h = await caller.trading.placeTrade({ ...baseInput, duration: "1h", idempotencyKey: nextKey() });
       const expectedExpiry1h = result1h.timestamp + 60 * 60 * 1000;
       expect(result1h.details.expiresAt).toBeCloseTo(expectedExpiry1h, -3);
 
       // Test 3h duration
-      const result3h = await caller.trading.placeTrade({ ...baseInput, duration: "3h" });
+      const result3h = await caller.trading.placeTrade({ ...baseInput, duration: "3h", idempotencyKey: nextKey() });
       const expectedExpiry3h = result3h.timestamp + 3 * 60 * 60 * 1000;
       expect(result3h.details.expiresAt).toBeCloseTo(expectedExpiry3h, -3);
     });
   });
+
+  describe("trading.quote", () => {
+    it("should quote an even pool at 0.5 without placing a trade", async () => {
+      const caller = appRouter.createCaller(createMockContext());
+
+      const quote = await caller.trading.quote({ marketId: "1", direction: "short", duration: "3h", amount: 10 });
+
+      expect(quote.spotPrice).toBeCloseTo(0.5);
+      expect(quote.shares).toBeCloseTo(20, 0);
+      expect(quote.estimatedReturn).toBeGreaterThan(10);
+      expect(quote.warning).toBeNull();
+      expect(storedTrades).toHaveLength(0);
+    });
+
+    it("should reject unknown markets", async () => {
+      vi.mocked(getAmmPool).mockClear();
+      const caller = appRouter.createCaller(createMockContext());
+
+      await expect(
+        caller.trading.quote({ marketId: "404", direction: "long", duration: "1h", amount: 10 })
+      ).rejects.toMatchObject({ code: "NOT_FOUND" });
+      expect(getAmmPool).not.toHaveBeenCalled();
+    });
+
+    it("should warn when an order has a large price impact", async () => {
+      const caller = appRouter.createCaller(createMockContext());
+
+      const quote = await caller.trading.quote({ marketId: "1", direction: "long", duration: "1h", amount: 1000 });
+
+      expect(quote.priceImpact).toBeGreaterThan(0.05);
+      expect(quote.warning).toContain("price impact");
+    });
+  });
+
+  describe("account transfers", () => {
+    it("should reject amounts that round to zero cents or exceed the cap", async () => {
+      const caller = appRouter.createCaller(createAuthContext());
+
+      await expect(caller.account.deposit({ amount: 0.004 })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      await expect(caller.account.withdraw({ amount: 0.004 })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      await expect(caller.account.withdraw({ amount: 100_000.01 })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    });
+  });
 });
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  VIBE_RANGES,
+  aggregateVibes,
+  buildVibeHistory,
+  classifyRegime,
+  rangeStart,
+} from "./services/vibeHistory";
+
+/**
+ * Test vibe history windowing and the trend metrics derived from it
+ */
+
+const HOUR = 60 * 60 * 1000;
+// 12:20 on some day, so 1h windows are not aligned to now
+const NOW = Date.UTC(2026, 0, 15, 12, 20);
+
+function vibe(joy: number, anxiety: number, hoursAgo: number, sampleSize = 1) {
+  return { joy, anxiety, sampleSize, capturedAt: new Date(NOW - hoursAgo * HOUR) };
+}
+
+describe("Vibe History", () => {
+  it("should align windows so the last one contains now", () => {
+    const start = rangeStart("24h", NOW);
+    const history = buildVibeHistory([], [], "24h", NOW);
+
+    expect(history.points).toHaveLength(24);
+    expect(history.points[0].t).toBe(start);
+    expect(history.points[23].t).toBe(Date.UTC(2026, 0, 15, 12));
+    expect(VIBE_RANGES["7d"].durationMs / VIBE_RANGES["7d"].windowMs).toBe(28);
+  });
+
+  it("should average readings per window by sample size and keep the last momentum", () => {
+    const history = buildVibeHistory(
+      [vibe(80, 10, 0.1, 3), vibe(40, 30, 0.05, 1), vibe(99, 99, 30)],
+      [
+        { momentum: 70, capturedAt: new Date(NOW - 0.3 * HOUR) },
+        { momentum: 75, capturedAt: new Date(NOW - 0.1 * HOUR) },
+      ],
+      "24h",
+      NOW
+    );
+
+    const last = history.points[23];
+    expect(last).toMatchObject({ joy: 70, anxiety: 15, momentum: 75, samples: 4, regime: "euphoria" });
+    // The 30h-old reading is outside the range
+    expect(history.points.filter(point => point.joy !== null)).toHaveLength(1);
+  });
+
+  it("should report anxiety rising for consecutive windows", () => {
+    const history = buildVibeHistory(
+      [vibe(50, 20, 4), vibe(50, 30, 3), vibe(45, 40, 2), vibe(40, 55, 0)],
+      [],
+      "24h",
+      NOW
+    );
+
+    // The empty window an hour ago does not break the streak
+    expect(history.metrics.anxiety).toEqual({ latest: 55, change: 35, direction: "rising", streak: 3 });
+    expect(history.metrics.joy).toMatchObject({ direction: "falling", streak: 2 });
+    expect(history.metrics.messages).toEqual(["Anxiety rising for 3 consecutive windows"]);
+  });
+
+  it("should detect the latest regime shift", () => {
+    const history = buildVibeHistory(
+      [vibe(30, 20, 3), vibe(75, 20, 2), vibe(70, 72, 1), vibe(70, 71, 0)],
+      [],
+      "24h",
+      NOW
+    );
+
+    expect(history.metrics.regime).toBe("frenzy");
+    expect(history.metrics.regimeShift).toEqual({
+      from: "euphoria",
+      to: "frenzy",
+      at: history.points[22].t,
+    });
+    expect(history.metrics.messages).toContain("Regime shift: euphoria → frenzy");
+  });
+
+  it("should stay quiet without readings or with flat moves", () => {
+    expect(buildVibeHistory([], [], "1h", NOW).metrics).toEqual({
+      joy: { latest: null, change: 0, direction: "flat", streak: 0 },
+      anxiety: { latest: null, change: 0, direction: "flat", streak: 0 },
+      regime: null,
+      regimeShift: null,
+      messages: [],
+    });
+    const flat = buildVibeHistory([vibe(50, 50, 2), vibe(50, 50, 1), vibe(50, 50, 0)], [], "24h", NOW);
+    expect(flat.metrics.anxiety.streak).toBe(0);
+    expect(classifyRegime(59, 59)).toBe("calm");
+  });
+
+  it("should aggregate text vibes weighted by confidence", () => {
+    const reading = aggregateVibes([
+      { joy: 90, anxiety: 10, confidence: 90, dominant_emotion: "excitement", all_emotions: {} },
+      { joy: 0, anxiety: 60, confidence: 30, dominant_emotion: "fear", all_emotions: {} },
+    ]);
+
+    expect(reading).toEqual({ joy: 68, anxiety: 23, confidence: 60, dominantEmotion: "excitement", sampleSize: 2 });
+    expect(aggregateVibes([])).toBeNull();
+  });
+});
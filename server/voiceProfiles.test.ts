@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { TrpcContext } from "./_core/context";
+import type { VoicePreference, VoiceProfile } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+
+vi.mock("./db", () => ({
+  getVoicePreferences: vi.fn(),
+  getVoiceProfile: vi.fn(),
+  listVoiceProfiles: vi.fn(async () => []),
+  saveVoicePreferences: vi.fn(),
+  syncVoiceProfiles: vi.fn(async (profiles: unknown[]) => ({ synced: profiles.length, removed: 0 })),
+}));
+
+import { getVoicePreferences, getVoiceProfile, listVoiceProfiles, saveVoicePreferences, syncVoiceProfiles } from "./db";
+import { appRouter } from "./routers";
+import { listVoiceOptions, resolveSpeech, syncVoiceLibrary, toVoiceProfile } from "./services/voiceProfiles";
+
+const profile = (overrides: Partial<VoiceProfile> = {}): VoiceProfile => ({
+  id: 1,
+  voiceId: "lib-es",
+  name: "Lucía",
+  description: "Calm Castilian narrator",
+  category: "professional",
+  languages: ["es"],
+  previewUrl: null,
+  enabled: true,
+  syncedAt: new Date(),
+  createdAt: new Date(),
+  ...overrides,
+});
+
+const preferences: VoicePreference = {
+  id: 1,
+  userId: 3,
+  voice: "lib-gone",
+  model: "turbo",
+  speed: 1.1,
+  stability: 0.5,
+  similarity: 0.7,
+  updatedAt: new Date(),
+};
+
+function callerFor(role: "user" | "admin") {
+  return appRouter.createCaller({
+    user: {
+      id: 3,
+      openId: "sample-user",
+      email: "sample@example.com",
+      name: "Sample User",
+      loginMethod: "manus",
+      role,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: () => {} } as TrpcContext["res"],
+  });
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("Voice profiles", () => {
+  it("should map ElevenLabs language labels onto briefing languages", () => {
+    const synced = toVoiceProfile({
+      voice_id: "abc",
+      name: "Hans",
+      category: "cloned",
+      labels: { accent: "german", gender: "male" },
+      verified_languages: [{ language: "de" }, { language: "ja-JP" }, { language: "fr" }],
+    });
+
+    expect(synced).toMatchObject({ voiceId: "abc", category: "cloned", languages: ["de", "ja"], previewUrl: null });
+    expect(synced.description).toBe("german, male");
+  });
+
+  it("should offer built-in voices plus library voices for the language", async () => {
+    vi.mocked(listVoiceProfiles).mockResolvedValue([profile(), profile({ id: 2, voiceId: "lib-any", languages: [] })]);
+
+    const spanish = await listVoiceOptions("es");
+    expect(spanish.map(voice => voice.id)).toEqual(["bill", "charlotte", "rachel", "adam", "josh", "lib-es", "lib-any"]);
+
+    const german = await listVoiceOptions("de");
+    expect(german.map(voice => voice.id)).not.toContain("lib-es");
+    expect(german.map(voice => voice.id)).toContain("lib-any");
+  });
+
+  it("should keep saved settings but fall back from a removed saved voice", async () => {
+    vi.mocked(getVoicePreferences).mockResolvedValue(preferences);
+    vi.mocked(getVoiceProfile).mockResolvedValue(undefined);
+
+    const speech = await resolveSpeech(3);
+    expect(speech.voice).toEqual({ id: "bill", voiceId: "6EW6z8IiJRtePnNUNPKW" });
+    expect(speech.settings).toEqual({ model: "turbo", speed: 1.1, stability: 0.5, similarity: 0.7 });
+
+    // A voice asked for by name must exist
+    await expect(resolveSpeech(3, "lib-gone")).rejects.toThrow('Unknown voice "lib-gone"');
+  });
+
+  it("should sync account voices except the built-in ones", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const apiKey = ENV.elevenLabsApiKey;
+    ENV.elevenLabsApiKey = "test-key";
+    const fetchMock = vi.fn(async () =>
+      Response.json({
+        voices: [
+          { voice_id: "6EW6z8IiJRtePnNUNPKW", name: "Bill", category: "premade" },
+          { voice_id: "lib-ja", name: "Haruka", category: "professional", labels: { language: "ja" } },
+        ],
+      })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    try {
+      expect(await syncVoiceLibrary()).toEqual({ synced: 1, removed: 0 });
+    } finally {
+      ENV.elevenLabsApiKey = apiKey;
+    }
+
+    expect(vi.mocked(syncVoiceProfiles).mock.calls[0][0]).toEqual([
+      expect.objectContaining({ voiceId: "lib-ja", name: "Haruka", languages: ["ja"] }),
+    ]);
+  });
+
+  describe("voices router", () => {
+    it("should keep the library sync to admins", async () => {
+      await expect(callerFor("user").voices.sync()).rejects.toMatchObject({ code: "FORBIDDEN" });
+      expect(syncVoiceProfiles).not.toHaveBeenCalled();
+    });
+
+    it("should reject preferences naming an unknown voice", async () => {
+      vi.mocked(getVoiceProfile).mockResolvedValue(profile({ voiceId: "lib-off", enabled: false }));
+
+      await expect(
+        callerFor("user").voices.savePreferences({ voice: "lib-off", model: "flash", speed: 1, stability: 0.4, similarity: 0.6 })
+      ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      expect(saveVoicePreferences).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  UnbalancedTransactionError,
+  assertBalanced,
+  balanceDelta,
+  buildDeposit,
+  buildMarginLock,
+  buildSettlementPostings,
+  buildWithdrawal,
+} from "./services/wallet";
+import { computeSettlement } from "./services/settlement";
+
+/**
+ * Test double-entry wallet postings
+ * Every transaction must sum to zero and move the right balances
+ */
+
+const USER = 7;
+const TRADE = 42;
+
+function sum(postings: { amountCents: number }[]) {
+  return postings.reduce((total, p) => total + p.amountCents, 0);
+}
+
+describe("Wallet Postings", () => {
+  it("should reject unbalanced transactions", () => {
+    expect(() =>
+      assertBalanced([{ userId: USER, account: "available", amountCents: 100, kind: "deposit" }])
+    ).toThrow(UnbalancedTransactionError);
+  });
+
+  it("should credit available funds on deposit and debit them on withdrawal", () => {
+    const deposit = buildDeposit(USER, 50_000);
+    const withdrawal = buildWithdrawal(USER, 20_000);
+
+    expect(sum(deposit.postings)).toBe(0);
+    expect(balanceDelta(deposit.postings, USER)).toEqual({ availableCents: 50_000, lockedCents: 0 });
+    expect(balanceDelta(withdrawal.postings, USER)).toEqual({ availableCents: -20_000, lockedCents: 0 });
+    expect(deposit.transactionId).not.toBe(withdrawal.transactionId);
+  });
+
+  it("should move the stake into margin when a trade opens", () => {
+    const lock = buildMarginLock(USER, TRADE, 10_000);
+
+    expect(balanceDelta(lock.postings, USER)).toEqual({ availableCents: -10_000, lockedCents: 10_000 });
+    expect(lock.postings.every(p => p.tradeId === TRADE)).toBe(true);
+  });
+
+  describe("settlement postings", () => {
+    const trade = { direction: "long" as const, stakeCents: 10_000, entryMomentum: 80, shares: null };
+
+    it("should return stake plus profit minus vig on a win", () => {
+      const result = computeSettlement(trade, 90);
+      const tx = buildSettlementPostings(USER, TRADE, trade.stakeCents, result);
+
+      expect(sum(tx.postings)).toBe(0);
+      expect(balanceDelta(tx.postings, USER)).toEqual({ availableCents: 19_800, lockedCents: -10_000 });
+      const houseNet = sum(tx.postings.filter(p => p.account === "house"));
+      expect(houseNet).toBe(-9_800);
+    });
+
+    it("should send the margin to the house on a loss", () => {
+      const result = computeSettlement(trade, 70);
+      const tx = buildSettlementPostings(USER, TRADE, trade.stakeCents, result);
+
+      expect(balanceDelta(tx.postings, USER)).toEqual({ availableCents: 0, lockedCents: -10_000 });
+      expect(sum(tx.postings.filter(p => p.account === "house"))).toBe(10_000);
+    });
+
+    it("should release the margin untouched on a push", () => {
+      const result = computeSettlement(trade, 80);
+      const tx = buildSettlementPostings(USER, TRADE, trade.stakeCents, result);
+
+      expect(balanceDelta(tx.postings, USER)).toEqual({ availableCents: 10_000, lockedCents: -10_000 });
+      expect(tx.postings.some(p => p.account === "house")).toBe(false);
+    });
+  });
+});
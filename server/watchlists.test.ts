@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TrpcContext } from "./_core/context";
+import type { Watchlist } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  createWatchlist: vi.fn(),
+  listMarkets: vi.fn(),
+  listWatchlists: vi.fn(),
+  updateWatchlistMarkets: vi.fn(),
+}));
+
+import { createWatchlist, listMarkets, listWatchlists, updateWatchlistMarkets } from "./db";
+import { appRouter } from "./routers";
+import {
+  MAX_WATCHLIST_MARKETS,
+  WatchlistFullError,
+  addMarket,
+  applyOrder,
+  toggleMarket,
+} from "./services/watchlists";
+
+const watchlist = (overrides: Partial<Watchlist> = {}): Watchlist => ({
+  id: 4,
+  userId: 3,
+  name: "Favorites",
+  position: 0,
+  marketIds: [1, 2],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe("Watchlists", () => {
+  describe("list edits", () => {
+    it("should toggle markets and cap list size", () => {
+      expect(toggleMarket([1, 2], 3)).toEqual([1, 2, 3]);
+      expect(toggleMarket([1, 2, 3], 2)).toEqual([1, 3]);
+      expect(addMarket([1, 2], 2)).toEqual([1, 2]);
+
+      const full = Array.from({ length: MAX_WATCHLIST_MARKETS }, (_, i) => i + 1);
+      expect(() => addMarket(full, 999)).toThrow(WatchlistFullError);
+    });
+
+    it("should apply a stale order without losing markets", () => {
+      // 9 was removed and 4 added since the client loaded the list
+      expect(applyOrder([1, 2, 3, 4], [3, 9, 1, 2, 3])).toEqual([3, 1, 2, 4]);
+    });
+  });
+
+  describe("watchlists router", () => {
+    const caller = appRouter.createCaller({
+      user: {
+        id: 3,
+        openId: "sample-user",
+        email: "sample@example.com",
+        name: "Sample User",
+        loginMethod: "manus",
+        role: "user",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        lastSignedIn: new Date(),
+      },
+      req: { protocol: "https", headers: {} } as TrpcContext["req"],
+      res: { clearCookie: () => {} } as TrpcContext["res"],
+    });
+
+    beforeEach(() => {
+      vi.mocked(listMarkets).mockImplementation(async ({ marketId } = {}) =>
+        marketId === 7 ? [{ market: { id: 7 } } as never] : []
+      );
+      // Run the edit against a stored list like the locked update would
+      vi.mocked(updateWatchlistMarkets).mockImplementation(async (_userId, id, edit) => {
+        const row = watchlist({ id });
+        return { ...row, marketIds: edit(row.marketIds) };
+      });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      vi.mocked(createWatchlist).mockReset();
+    });
+
+    it("should create Favorites on the first star", async () => {
+      vi.mocked(listWatchlists).mockResolvedValue([]);
+      vi.mocked(createWatchlist).mockResolvedValue(watchlist({ id: 9, marketIds: [] }));
+
+      const result = await caller.watchlists.toggleMarket({ marketId: "7" });
+
+      expect(createWatchlist).toHaveBeenCalledWith({ userId: 3, name: "Favorites", marketIds: [] });
+      expect(updateWatchlistMarkets).toHaveBeenCalledWith(3, 9, expect.any(Function));
+      expect(result.watching).toBe(true);
+      expect(result.watchlist.marketIds).toEqual(["1", "2", "7"]);
+    });
+
+    it("should reject unknown markets and lists that are not the user's", async () => {
+      await expect(caller.watchlists.addMarket({ id: 4, marketId: "8" })).rejects.toThrow("Market 8 not found");
+
+      vi.mocked(updateWatchlistMarkets).mockResolvedValue(undefined);
+      await expect(caller.watchlists.addMarket({ id: 5, marketId: "7" })).rejects.toThrow("Watchlist 5 not found");
+    });
+
+    it("should append new lists after the last position", async () => {
+      vi.mocked(listWatchlists).mockResolvedValue([watchlist({ position: 0 }), watchlist({ id: 5, position: 3 })]);
+      vi.mocked(createWatchlist).mockImplementation(async row => watchlist({ ...row, id: 6 }));
+
+      const created = await caller.watchlists.create({ name: "  Degen plays ", marketIds: ["7", "7"] });
+
+      expect(createWatchlist).toHaveBeenCalledWith({ userId: 3, name: "Degen plays", position: 4, marketIds: [7] });
+      expect(created).toEqual({ id: 6, name: "Degen plays", position: 4, marketIds: ["7"] });
+    });
+
+    it("should report a full list as a bad request", async () => {
+      vi.mocked(updateWatchlistMarkets).mockRejectedValue(new WatchlistFullError());
+
+      await expect(caller.watchlists.addMarket({ id: 4, marketId: "7" })).rejects.toMatchObject({
+        code: "BAD_REQUEST",
+      });
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Alert Worker
+ * Evaluates users' alert rules on every live market and vibe tick and
+ * records the alerts that fire. Rule logic lives in shared/alertRules.ts;
+ * this file only moves data.
+ *
+ * A market's history is rebuilt from stored snapshots the first time it
+ * ticks, so sustained conditions survive a restart, and cooldowns are
+ * seeded from the last recorded event of each rule. Fired alerts go to
+ * their owners' inboxes and notification channels.
+ */
+
+import { evaluateRules, type MetricSample } from "@shared/alertRules";
+import {
+  getLastAlertTimes,
+  listEnabledAlertRules,
+  listMarketSnapshotsSince,
+  listMarketTopics,
+  listVibeSnapshots,
+  recordAlertEvents,
+} from "../db";
+import type { AlertRuleRow } from "../../drizzle/schema";
+import { notifyUsers } from "../notifications";
+import { ALERT_HISTORY_MS, appendTick, historyFromSnapshots, toAlertRule } from "../services/alerts";
+import { parseMarketId } from "../services/marketCatalog";
+import { listenForTicks, type FeedTick } from "../services/marketFeed";
+
+// Pick up new and edited rules within this long
+const RULES_REFRESH_MS = 60_000;
+
+const histories = new Map<number, MetricSample[]>();
+// `${ruleId}:${marketId}` → when the rule last fired on the market
+const lastFired = new Map<string, number>();
+let rules: AlertRuleRow[] = [];
+const topics = new Map<number, string>();
+let rulesLoadedAt = -Infinity;
+let controller: AbortController | null = null;
+
+async function loadRules(now: number): Promise<void> {
+  if (now - rulesLoadedAt < RULES_REFRESH_MS) return;
+  rulesLoadedAt = now;
+  rules = await listEnabledAlertRules();
+  for (const market of await listMarketTopics()) {
+    topics.set(market.id, market.topic);
+  }
+
+  for (const event of await getLastAlertTimes(rules.map(rule => rule.id))) {
+    const key = `${event.ruleId}:${event.marketId}`;
+    lastFired.set(key, Math.max(lastFired.get(key) ?? 0, event.triggeredAt.getTime()));
+  }
+}
+
+async function historyFor(marketId: number, tick: FeedTick): Promise<MetricSample[]> {
+  let history = histories.get(marketId);
+  if (!history) {
+    const since = new Date(tick.capturedAt - ALERT_HISTORY_MS);
+    const [snapshots, vibes] = await Promise.all([
+      listMarketSnapshotsSince(marketId, since),
+      listVibeSnapshots(marketId, since),
+    ]);
+    // The tick itself is usually stored already; it is appended below
+    history = historyFromSnapshots(
+      snapshots.filter(snapshot => snapshot.capturedAt.getTime() < tick.capturedAt),
+      vibes.filter(vibe => vibe.capturedAt.getTime() < tick.capturedAt)
+    );
+    histories.set(marketId, history);
+  }
+  return appendTick(history, tick);
+}
+
+/**
+ * Evaluate every rule that applies to the tick's market
+ * Returns the number of alerts recorded.
+ */
+export async function handleTick(tick: FeedTick): Promise<number> {
+  const marketId = parseMarketId(tick.marketId);
+  if (!marketId) return 0;
+
+  await loadRules(tick.capturedAt);
+  const history = await historyFor(marketId, tick);
+
+  const applicable = rules.filter(rule => rule.marketId === null || rule.marketId === marketId);
+  if (applicable.length === 0) return 0;
+
+  const cooldowns = new Map(
+    applicable.flatMap(rule => {
+      const last = lastFired.get(`${rule.id}:${marketId}`);
+      return last === undefined ? [] : [[String(rule.id), last] as const];
+    })
+  );
+  const alerts = evaluateRules(applicable.map(toAlertRule), history, cooldowns, tick.capturedAt);
+  if (alerts.length === 0) return 0;
+
+  const byId = new Map(applicable.map(rule => [String(rule.id), rule]));
+  const eventIds = await recordAlertEvents(alerts.map(alert => ({
+    ruleId: Number(alert.ruleId),
+    userId: byId.get(alert.ruleId)!.userId,
+    marketId,
+    severity: alert.severity,
+    intensity: alert.intensity,
+    message: alert.message.slice(0, 512),
+    triggeredAt: new Date(alert.triggeredAt),
+  })));
+  for (const alert of alerts) {
+    lastFired.set(`${alert.ruleId}:${marketId}`, alert.triggeredAt);
+  }
+
+  // The events are recorded either way; a lost notification is only logged
+  const topic = topics.get(marketId) ?? `Market ${marketId}`;
+  await notifyUsers(alerts.map((alert, index) => ({
+    userId: byId.get(alert.ruleId)!.userId,
+    severity: alert.severity,
+    title: `${alert.name}: ${topic}`,
+    body: alert.message,
+    marketId,
+    alertEventId: eventIds[index] ?? null,
+  }))).catch(error => console.error("[Alerts] Failed to notify:", error));
+
+  console.log(`[Alerts] Market ${marketId}: ${alerts.map(alert => alert.name).join(", ")}`);
+  return alerts.length;
+}
+
+export function startAlertWorker() {
+  if (controller) return;
+  controller = new AbortController();
+  const ticks = listenForTicks(controller.signal);
+
+  void (async () => {
+    // One tick at a time, so a market's history and cooldowns stay ordered
+    for await (const tick of ticks) {
+      try {
+        await handleTick(tick);
+      } catch (error) {
+        console.error("[Alerts] Failed to evaluate tick:", error);
+      }
+    }
+  })();
+
+  console.log("[Alerts] Worker started");
+}
+
+export function stopAlertWorker() {
+  controller?.abort();
+  controller = null;
+  histories.clear();
+  lastFired.clear();
+  topics.clear();
+  rules = [];
+  rulesLoadedAt = -Infinity;
+}
@@ -0,0 +1,131 @@
+/**
+ * Briefing Worker
+ * Builds each user's scheduled briefings ("morning bell") from the
+ * current top markets and archives them for their podcast feed. Timing
+ * and market selection live in services/briefingSchedule.ts; this file
+ * only moves data.
+ */
+
+import { DEFAULT_VOICE } from "@shared/voiceSettings";
+import { claimBriefingSchedule, listDueBriefingSchedules, listMarkets, listWatchlists } from "../db";
+import type { BriefingSchedule } from "../../drizzle/schema";
+import { archiveBriefing } from "../services/briefingArchive";
+import { nextRunAt, selectBriefingMarkets } from "../services/briefingSchedule";
+import { generateLiveHypeBriefing as generateAudioBriefing } from "../services/elevenlabs";
+import { generateLiveHypeBriefing } from "../services/gemini";
+import { toMarketSummary } from "../services/marketCatalog";
+import { UnknownVoiceError, resolveSpeech } from "../services/voiceProfiles";
+
+const BRIEFING_INTERVAL_MS = 60_000;
+
+let timer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+async function runSchedule(schedule: BriefingSchedule): Promise<boolean> {
+  const watchlist = schedule.watchlistId === null
+    ? null
+    : (await listWatchlists(schedule.userId)).find(list => list.id === schedule.watchlistId) ?? null;
+  if (schedule.watchlistId !== null && !watchlist) {
+    console.warn(`[Briefings] Schedule ${schedule.id}: watchlist ${schedule.watchlistId} is gone, skipping`);
+    return false;
+  }
+
+  const rows = await listMarkets();
+  const markets = selectBriefingMarkets(
+    rows.map(row => toMarketSummary(row.market, row.category, row.snapshots)),
+    watchlist
+  ).map(market => ({
+    topic: market.topic,
+    momentum: market.momentum,
+    change24h: market.change24h,
+    volume: market.volume,
+    hypeScore: market.hypeScore,
+    hypeSummary: market.hypeSummary ?? `${market.topic} is trending with ${market.momentum}% momentum.`,
+  }));
+  if (markets.length === 0) {
+    console.warn(`[Briefings] Schedule ${schedule.id}: no markets to cover, skipping`);
+    return false;
+  }
+
+  // Spoken with the owner's current voice settings
+  const { voice, settings } = await resolveSpeech(schedule.userId, schedule.voice).catch(error => {
+    if (!(error instanceof UnknownVoiceError)) throw error;
+    console.warn(`[Briefings] Schedule ${schedule.id}: voice ${schedule.voice} is gone, using ${DEFAULT_VOICE}`);
+    return resolveSpeech(schedule.userId, DEFAULT_VOICE);
+  });
+
+  // Nobody is waiting on a scheduled briefing; leave the interactive quota to BRIEF clicks
+  const script = await generateLiveHypeBriefing(markets, schedule.language, "background");
+  const audio = await generateAudioBriefing(script.script, voice, {
+    language: schedule.language,
+    settings,
+    priority: "background",
+  });
+  await archiveBriefing({
+    userId: schedule.userId,
+    scheduleId: schedule.id,
+    script: script.script,
+    markets,
+    voice: audio.voice,
+    language: schedule.language,
+    model: audio.model,
+    wordCount: script.wordCount,
+    estimatedDuration: script.estimatedDuration,
+    audio: Buffer.from(audio.audioBase64, "base64"),
+  });
+  return true;
+}
+
+/**
+ * Run every schedule that is due
+ * Each run is claimed by moving the schedule to its next time first, so a
+ * failed briefing is skipped rather than retried every minute.
+ * Returns the number of briefings made.
+ */
+export async function runDueBriefings(now: number = Date.now()): Promise<number> {
+  const due = await listDueBriefingSchedules(new Date(now));
+  let made = 0;
+
+  for (const schedule of due) {
+    const next = nextRunAt(schedule, now);
+    if (!(await claimBriefingSchedule(schedule.id, schedule.nextRunAt, next, new Date(now)))) continue;
+
+    try {
+      if (await runSchedule(schedule)) made++;
+    } catch (error) {
+      console.error(`[Briefings] Schedule ${schedule.id} failed:`, error);
+    }
+  }
+
+  if (made > 0) {
+    console.log(`[Briefings] Made ${made} scheduled briefing(s)`);
+  }
+  return made;
+}
+
+export function startBriefingWorker(intervalMs: number = BRIEFING_INTERVAL_MS) {
+  if (timer) return;
+
+  timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow batch
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await runDueBriefings();
+    } catch (error) {
+      console.error("[Briefings] Scheduler run failed:", error);
+    } finally {
+      isRunning = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  console.log(`[Briefings] Worker started (every ${intervalMs / 1000}s)`);
+}
+
+export function stopBriefingWorker() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Signal Ingestion Worker
+ * Runs every connector on its own schedule, resuming from its persisted
+ * cursor and storing new signals deduplicated by content hash. A failing
+ * connector records its error and keeps its cursor; the others carry on.
+ *
+ * Newly stored signals are then routed to markets: analysed in batches by
+ * the configured analysis provider and matched against each market's
+ * aliases and keywords. Each market that gained matches gets a fresh
+ * momentum index over its recent signals, recorded as a market snapshot
+ * (which publishes the tick that drives sparklines, settlement and alerts),
+ * and a vibe reading over its new signals for vibe.history.
+ */
+
+import {
+  getConnectorCursor,
+  getLatestMarketSnapshot,
+  getMarketSnapshotAsOf,
+  insertSignals,
+  listMarketTopics,
+  listSignalsByHash,
+  listSignalsForMarket,
+  recordMarketSnapshot,
+  recordVibeSnapshot,
+  saveConnectorCursor,
+  saveSignalMatches,
+} from "../db";
+import {
+  createConnectors,
+  createDefaultConnectorFetch,
+  dedupeSignals,
+  type ConnectorFetch,
+  type IngestedSignal,
+  type SignalConnector,
+} from "../connectors";
+import type { InsertSignal, InsertSignalMarketMatch, Signal } from "../../drizzle/schema";
+import { analyzeBatchSignals } from "../services/gemini";
+import { analyzeTextVibes } from "../services/hume";
+import { computeMarketIndex, toIndexSnapshot } from "../services/indexEngine";
+import { aggregateVibes } from "../services/vibeHistory";
+import { toRawSignal } from "../services/signalFeed";
+import { matchSignal, toMarketTopic, type MatchAnalysis } from "../services/signalMatcher";
+
+// Hype decays with a 30-minute half-life, so older signals no longer register
+const INDEX_LOOKBACK_MS = 6 * 60 * 60 * 1000;
+const INDEX_SIGNAL_LIMIT = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const timers = new Map<string, NodeJS.Timeout>();
+const running = new Set<string>();
+
+export function toInsertSignal(
+  connectorId: string,
+  signal: IngestedSignal & { contentHash: string }
+): InsertSignal {
+  return {
+    externalId: signal.id.slice(0, 255),
+    connectorId,
+    source: signal.source,
+    content: signal.content,
+    title: signal.title ?? null,
+    url: signal.url?.slice(0, 1024) ?? null,
+    author: signal.author?.slice(0, 128) ?? null,
+    likes: signal.engagement?.likes ?? 0,
+    retweets: signal.engagement?.retweets ?? 0,
+    comments: signal.engagement?.comments ?? 0,
+    contentHash: signal.contentHash,
+    publishedAt: new Date(signal.timestamp),
+  };
+}
+
+async function matchRows(rows: Signal[], analyses?: Map<string, MatchAnalysis>): Promise<InsertSignalMarketMatch[]> {
+  if (rows.length === 0) return [];
+  const topics = (await listMarketTopics()).map(toMarketTopic);
+  if (topics.length === 0) return [];
+
+  return rows.flatMap(row =>
+    matchSignal(row, topics, analyses?.get(String(row.id))).map(match => ({
+      signalId: row.id,
+      marketId: match.marketId,
+      confidence: match.confidence,
+      matchedTerms: match.matchedTerms,
+      publishedAt: row.publishedAt,
+    }))
+  );
+}
+
+/**
+ * Match stored signals to markets and record the matches
+ * Returns the number of (signal, market) matches recorded.
+ */
+export async function routeSignals(rows: Signal[], analyses?: Map<string, MatchAnalysis>): Promise<number> {
+  const matches = await matchRows(rows, analyses);
+  await saveSignalMatches(matches);
+  return matches.length;
+}
+
+/**
+ * Record one vibe reading per market from the signals just matched to it
+ * Texts go to Hume as a single background job, deduplicated across markets.
+ */
+async function recordMarketVibes(rows: Signal[], matches: InsertSignalMarketMatch[]): Promise<void> {
+  const content = new Map(rows.map(row => [row.id, row.content]));
+  const texts = Array.from(new Set(matches.map(match => content.get(match.signalId)!)));
+  if (texts.length === 0) return;
+
+  const vibes = await analyzeTextVibes(texts, "background");
+  const vibeByText = new Map(texts.map((text, index) => [text, vibes[index]]));
+
+  const byMarket = new Map<number, Set<string>>();
+  for (const match of matches) {
+    const marketTexts = byMarket.get(match.marketId) ?? new Set<string>();
+    marketTexts.add(content.get(match.signalId)!);
+    byMarket.set(match.marketId, marketTexts);
+  }
+
+  for (const [marketId, marketTexts] of Array.from(byMarket)) {
+    const reading = aggregateVibes(Array.from(marketTexts, text => vibeByText.get(text)!));
+    if (reading) await recordVibeSnapshot({ marketId, ...reading });
+  }
+}
+
+/**
+ * Recompute the index of every market that gained matches and snapshot it
+ */
+async function recordMarketIndexes(
+  matches: InsertSignalMarketMatch[],
+  analyses: Map<string, MatchAnalysis> | undefined,
+  now: number
+): Promise<void> {
+  const marketIds = Array.from(new Set(matches.map(match => match.marketId)));
+
+  for (const marketId of marketIds) {
+    const [recent, latest, dayAgo] = await Promise.all([
+      listSignalsForMarket(marketId, { since: new Date(now - INDEX_LOOKBACK_MS), limit: INDEX_SIGNAL_LIMIT }),
+      getLatestMarketSnapshot(marketId),
+      getMarketSnapshotAsOf(marketId, new Date(now - DAY_MS)),
+    ]);
+    const index = computeMarketIndex(recent.map(row => toRawSignal(row.signal)), { now, analyses });
+    await recordMarketSnapshot(toIndexSnapshot(marketId, index, latest, dayAgo));
+  }
+}
+
+async function routeNewSignals(connectorId: string, hashes: string[], now: number): Promise<void> {
+  let rows: Signal[];
+  let matches: InsertSignalMarketMatch[];
+  let analyses: Map<string, MatchAnalysis> | undefined;
+  try {
+    rows = (await listSignalsByHash(hashes)).filter(row => row.connectorId === connectorId);
+    analyses = await analyzeBatchSignals(rows.map(toRawSignal));
+    matches = await matchRows(rows, analyses);
+    await saveSignalMatches(matches);
+    if (matches.length > 0) {
+      console.log(`[Ingestion] ${connectorId}: ${matches.length} market matches`);
+    }
+  } catch (error) {
+    // Routing is best-effort; the signals are stored either way
+    console.error(`[Ingestion] ${connectorId} routing failed:`, error);
+    return;
+  }
+
+  try {
+    await recordMarketIndexes(matches, analyses, now);
+  } catch (error) {
+    console.error(`[Ingestion] ${connectorId} index snapshot failed:`, error);
+  }
+
+  try {
+    await recordMarketVibes(rows, matches);
+  } catch (error) {
+    console.error(`[Ingestion] ${connectorId} vibe snapshot failed:`, error);
+  }
+}
+
+/**
+ * Poll one connector once and persist its signals and cursor
+ */
+export async function runConnector(
+  connector: SignalConnector,
+  fetch: ConnectorFetch,
+  now: number = Date.now()
+): Promise<{ fetched: number; stored: number }> {
+  const state = await getConnectorCursor(connector.id);
+  const runAt = new Date(now);
+
+  try {
+    const result = await connector.poll(state?.cursor ?? null, { fetch, now });
+    const unique = dedupeSignals(result.signals);
+    const stored = await insertSignals(unique.map(signal => toInsertSignal(connector.id, signal)));
+
+    await saveConnectorCursor({
+      connectorId: connector.id,
+      cursor: result.cursor ?? state?.cursor ?? null,
+      lastRunAt: runAt,
+      lastSuccessAt: runAt,
+      lastSignalCount: stored,
+      lastError: null,
+    });
+
+    if (stored > 0) {
+      console.log(`[Ingestion] ${connector.id}: ${stored} new signals (${result.signals.length} fetched)`);
+      await routeNewSignals(connector.id, unique.map(signal => signal.contentHash), now);
+    }
+    return { fetched: result.signals.length, stored };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Ingestion] ${connector.id} failed:`, message);
+    await saveConnectorCursor({
+      connectorId: connector.id,
+      cursor: state?.cursor ?? null,
+      lastRunAt: runAt,
+      lastError: message.slice(0, 1000),
+    });
+    return { fetched: 0, stored: 0 };
+  }
+}
+
+export function startIngestionWorker(
+  connectors: SignalConnector[] = createConnectors(),
+  fetch: ConnectorFetch = createDefaultConnectorFetch()
+) {
+  const seen = new Set<string>();
+  for (const connector of connectors) {
+    // Two connectors sharing an id would share a cursor; run only the first
+    if (seen.has(connector.id)) {
+      console.warn(`[Ingestion] Duplicate connector id ${connector.id}; skipping`);
+      continue;
+    }
+    seen.add(connector.id);
+    if (timers.has(connector.id)) continue;
+
+    const tick = async () => {
+      // Skip a tick rather than overlap a slow poll
+      if (running.has(connector.id)) return;
+      running.add(connector.id);
+      try {
+        await runConnector(connector, fetch);
+      } catch (error) {
+        console.error(`[Ingestion] ${connector.id} tick failed:`, error);
+      } finally {
+        running.delete(connector.id);
+      }
+    };
+
+    const timer = setInterval(tick, connector.pollIntervalMs);
+    timer.unref();
+    timers.set(connector.id, timer);
+    void tick();
+  }
+
+  console.log(`[Ingestion] Worker started (${connectors.map(c => c.id).join(", ")})`);
+}
+
+export function stopIngestionWorker() {
+  timers.forEach(timer => clearInterval(timer));
+  timers.clear();
+}
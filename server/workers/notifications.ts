@@ -0,0 +1,98 @@
+/**
+ * Notification Worker
+ * Delivers queued notifications to webhooks and email, retrying failures
+ * with backoff. Delivery rules live in server/notifications; this file
+ * only moves data.
+ */
+
+import { ENV } from "../_core/env";
+import { claimDelivery, finishDeliveryAttempt, listDueDeliveries } from "../db";
+import { MAX_DELIVERY_ATTEMPTS, deliver, retryDelayMs, type DeliveryDeps, type DeliveryOutcome } from "../notifications";
+
+const DELIVERY_INTERVAL_MS = 5_000;
+
+// A claimed attempt that never reports back is retried after this long
+const DELIVERY_LEASE_MS = 2 * 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+/**
+ * Attempt every due delivery once
+ * Returns the number delivered.
+ */
+export async function processDueDeliveries(
+  now: number = Date.now(),
+  deps: Pick<DeliveryDeps, "fetchImpl" | "lookupImpl"> = {}
+): Promise<number> {
+  const due = await listDueDeliveries(new Date(now));
+  let delivered = 0;
+
+  for (const { delivery, notification, channel } of due) {
+    if (!(await claimDelivery(delivery.id, delivery.attempts, new Date(now + DELIVERY_LEASE_MS)))) continue;
+    const attempts = delivery.attempts + 1;
+
+    let outcome: DeliveryOutcome;
+    if (!channel || !channel.enabled) {
+      outcome = { ok: false, responseCode: null, retryable: false, error: "Channel was removed or disabled" };
+    } else {
+      try {
+        outcome = await deliver(channel, notification, delivery.id, {
+          smtpUrl: ENV.smtpUrl,
+          smtpFrom: ENV.smtpFrom,
+          fetchImpl: deps.fetchImpl,
+          lookupImpl: deps.lookupImpl,
+          now,
+        });
+      } catch (error) {
+        outcome = { ok: false, responseCode: null, retryable: true, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+
+    const retry = !outcome.ok && outcome.retryable && attempts < MAX_DELIVERY_ATTEMPTS;
+    await finishDeliveryAttempt(delivery.id, {
+      status: outcome.ok ? "delivered" : retry ? "pending" : "failed",
+      responseCode: outcome.responseCode,
+      lastError: outcome.error?.slice(0, 512) ?? null,
+      nextAttemptAt: retry ? new Date(now + retryDelayMs(attempts)) : null,
+      deliveredAt: outcome.ok ? new Date(now) : null,
+    });
+
+    if (outcome.ok) {
+      delivered++;
+    } else {
+      console.warn(
+        `[Notifications] Delivery ${delivery.id} attempt ${attempts} failed${retry ? ", will retry" : ""}: ${outcome.error}`
+      );
+    }
+  }
+
+  return delivered;
+}
+
+export function startNotificationWorker(intervalMs: number = DELIVERY_INTERVAL_MS) {
+  if (timer) return;
+
+  timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow batch
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await processDueDeliveries();
+    } catch (error) {
+      console.error("[Notifications] Delivery run failed:", error);
+    } finally {
+      isRunning = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  console.log(`[Notifications] Worker started (every ${intervalMs / 1000}s)`);
+}
+
+export function stopNotificationWorker() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
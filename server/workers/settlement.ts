@@ -0,0 +1,105 @@
+/**
+ * Settlement Worker
+ * Periodically resolves open trades whose contract window has expired.
+ * Payout rules live in services/settlement.ts; this file only moves data.
+ */
+
+import {
+  getMarketSnapshotById,
+  listDueTrades,
+  listMarketSnapshotsBetween,
+  recordSettlement,
+} from "../db";
+import {
+  SETTLEMENT_ENGINE_VERSION,
+  computeSettlement,
+  selectExitSnapshot,
+} from "../services/settlement";
+import type { Trade } from "../../drizzle/schema";
+
+const SETTLEMENT_INTERVAL_MS = 15_000;
+
+// Wait this long past expiry so snapshots captured just before it have landed
+const SETTLEMENT_GRACE_MS = 30_000;
+
+let timer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+async function settleTrade(trade: Trade): Promise<boolean> {
+  const entry = await getMarketSnapshotById(trade.entrySnapshotId);
+  if (!entry) {
+    console.error(`[Settlement] Entry snapshot ${trade.entrySnapshotId} missing for ${trade.tradeRef}`);
+    return false;
+  }
+
+  const window = await listMarketSnapshotsBetween(trade.marketId, entry.capturedAt, trade.expiresAt);
+  // The entry reading is always a valid exit if nothing newer was captured
+  const exit = selectExitSnapshot([entry, ...window], trade.expiresAt) ?? entry;
+  const result = computeSettlement(trade, exit.momentum);
+
+  const settled = await recordSettlement({
+    tradeId: trade.id,
+    userId: trade.userId,
+    entrySnapshotId: entry.id,
+    exitSnapshotId: exit.id,
+    entryMomentum: trade.entryMomentum,
+    exitMomentum: exit.momentum,
+    outcome: result.outcome,
+    stakeCents: trade.stakeCents,
+    grossPayoutCents: result.grossPayoutCents,
+    vigCents: result.vigCents,
+    netPayoutCents: result.netPayoutCents,
+    engineVersion: SETTLEMENT_ENGINE_VERSION,
+  });
+
+  if (settled) {
+    console.log(
+      `[Settlement] ${trade.tradeRef} ${result.outcome.toUpperCase()}: ${trade.entryMomentum} -> ${exit.momentum}, paid ${result.netPayoutCents}c`
+    );
+  }
+  return settled;
+}
+
+/**
+ * Settle every trade that expired before now - grace period
+ */
+export async function settleDueTrades(now: number = Date.now()): Promise<number> {
+  const due = await listDueTrades(new Date(now - SETTLEMENT_GRACE_MS));
+  let settledCount = 0;
+
+  for (const trade of due) {
+    try {
+      if (await settleTrade(trade)) settledCount++;
+    } catch (error) {
+      console.error(`[Settlement] Failed to settle ${trade.tradeRef}:`, error);
+    }
+  }
+
+  return settledCount;
+}
+
+export function startSettlementWorker(intervalMs: number = SETTLEMENT_INTERVAL_MS) {
+  if (timer) return;
+
+  timer = setInterval(async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await settleDueTrades();
+    } catch (error) {
+      console.error("[Settlement] Worker tick failed:", error);
+    } finally {
+      isRunning = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  console.log(`[Settlement] Worker started (every ${intervalMs / 1000}s)`);
+}
+
+export function stopSettlementWorker() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
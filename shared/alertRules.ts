@@ -0,0 +1,191 @@
+/**
+ * Alert rules engine
+ * One evaluator for every alert in the app: the built-in Volatility Trap
+ * and Hype Train badges on market cards, the server's vibe alerts and
+ * user-defined rules evaluated on live ticks (server/workers/alerts.ts).
+ *
+ * A rule is a tree of conditions joined with and/or. Each condition
+ * compares one metric of a market against a threshold:
+ * - above / below: the latest reading is strictly past the threshold; with
+ *   sustainedMinutes, every reading for at least that long has been.
+ * - crosses_above / crosses_below: the latest reading is past the
+ *   threshold and the one before it was not.
+ *
+ * Readings are a market's metric history, oldest first, each carrying the
+ * latest known value of every metric. A rule that fired stays quiet for
+ * its cooldown, tracked by the caller per rule (and per market).
+ */
+
+export const ALERT_METRICS = ["momentum", "change24h", "hypeScore", "joy", "anxiety"] as const;
+export const ALERT_OPERATORS = ["above", "below", "crosses_above", "crosses_below"] as const;
+export const ALERT_SEVERITIES = ["info", "warning", "critical"] as const;
+
+export type AlertMetric = (typeof ALERT_METRICS)[number];
+export type AlertOperator = (typeof ALERT_OPERATORS)[number];
+export type AlertSeverity = (typeof ALERT_SEVERITIES)[number];
+export type AlertKind = "volatility_trap" | "hype_train" | "custom";
+
+export interface AlertCondition {
+  metric: AlertMetric;
+  operator: AlertOperator;
+  value: number;
+  /** above/below only: how long the condition must have held */
+  sustainedMinutes?: number;
+}
+
+export interface AlertConditionGroup {
+  op: "and" | "or";
+  conditions: Array<AlertCondition | AlertConditionGroup>;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  kind: AlertKind;
+  severity: AlertSeverity;
+  when: AlertConditionGroup;
+  cooldownMinutes: number;
+  /** Metric whose latest value is reported as the alert's intensity */
+  intensityMetric: AlertMetric;
+  /** "{intensity}" is replaced; without a message the conditions are described */
+  message?: string | null;
+}
+
+export interface Alert {
+  ruleId: string;
+  kind: AlertKind;
+  name: string;
+  severity: AlertSeverity;
+  intensity: number;
+  message: string;
+  triggeredAt: number;
+}
+
+export type MetricSample = { at: number } & Partial<Record<AlertMetric, number>>;
+
+const MINUTE_MS = 60 * 1000;
+
+// The only place these thresholds live
+export const VOLATILITY_TRAP_THRESHOLD = 75; // ANX > 75%
+export const HYPE_TRAIN_THRESHOLD = 80; // JOY > 80%
+
+/** Built-in rules, in priority order: the risk warning wins. */
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: "volatility_trap",
+    name: "Volatility Trap",
+    kind: "volatility_trap",
+    severity: "critical",
+    when: { op: "and", conditions: [{ metric: "anxiety", operator: "above", value: VOLATILITY_TRAP_THRESHOLD }] },
+    cooldownMinutes: 15,
+    intensityMetric: "anxiety",
+    message: "High volatility detected ({intensity}% anxiety). Exercise caution.",
+  },
+  {
+    id: "hype_train",
+    name: "Hype Train",
+    kind: "hype_train",
+    severity: "warning",
+    when: { op: "and", conditions: [{ metric: "joy", operator: "above", value: HYPE_TRAIN_THRESHOLD }] },
+    cooldownMinutes: 15,
+    intensityMetric: "joy",
+    message: "Strong momentum detected ({intensity}% excitement). Potential pump incoming.",
+  },
+];
+
+function isGroup(node: AlertCondition | AlertConditionGroup): node is AlertConditionGroup {
+  return "conditions" in node;
+}
+
+function isPast(operator: AlertOperator, value: number, threshold: number): boolean {
+  return operator === "above" || operator === "crosses_above" ? value > threshold : value < threshold;
+}
+
+function evaluateCondition(condition: AlertCondition, history: MetricSample[], now: number): boolean {
+  const readings = history.filter(sample => sample[condition.metric] !== undefined);
+  if (readings.length === 0) return false;
+
+  const latest = readings[readings.length - 1][condition.metric]!;
+  if (!isPast(condition.operator, latest, condition.value)) return false;
+
+  if (condition.operator === "crosses_above" || condition.operator === "crosses_below") {
+    const previous = readings[readings.length - 2]?.[condition.metric];
+    return previous !== undefined && !isPast(condition.operator, previous, condition.value);
+  }
+
+  if (!condition.sustainedMinutes) return true;
+
+  // Start of the unbroken run of readings that satisfy the condition
+  let since = readings[readings.length - 1].at;
+  for (let i = readings.length - 1; i >= 0; i--) {
+    if (!isPast(condition.operator, readings[i][condition.metric]!, condition.value)) break;
+    since = readings[i].at;
+  }
+  return now - since >= condition.sustainedMinutes * MINUTE_MS;
+}
+
+export function evaluateGroup(group: AlertConditionGroup, history: MetricSample[], now: number): boolean {
+  const results = group.conditions.map(node =>
+    isGroup(node) ? evaluateGroup(node, history, now) : evaluateCondition(node, history, now)
+  );
+  return group.op === "and" ? results.every(Boolean) : results.some(Boolean);
+}
+
+function describeCondition(condition: AlertCondition): string {
+  const operator = condition.operator.replace("_", " ");
+  const sustained = condition.sustainedMinutes ? ` for ${condition.sustainedMinutes}m` : "";
+  return `${condition.metric} ${operator} ${condition.value}${sustained}`;
+}
+
+/**
+ * Plain-text form of a condition tree, e.g.
+ * "anxiety above 60 for 10m and (joy crosses below 40 or momentum below 20)"
+ */
+export function describeGroup(group: AlertConditionGroup, nested = false): string {
+  const text = group.conditions
+    .map(node => (isGroup(node) ? describeGroup(node, true) : describeCondition(node)))
+    .join(` ${group.op} `);
+  return nested && group.conditions.length > 1 ? `(${text})` : text;
+}
+
+/**
+ * Rules that fire on this history, in rule order
+ * lastFiredAt maps rule id → when it last fired, for cooldowns.
+ */
+export function evaluateRules(
+  rules: AlertRule[],
+  history: MetricSample[],
+  lastFiredAt: ReadonlyMap<string, number> = new Map(),
+  now: number = history[history.length - 1]?.at ?? Date.now()
+): Alert[] {
+  const alerts: Alert[] = [];
+  const latest = history[history.length - 1];
+
+  for (const rule of rules) {
+    const last = lastFiredAt.get(rule.id);
+    if (last !== undefined && now - last < rule.cooldownMinutes * MINUTE_MS) continue;
+    if (!evaluateGroup(rule.when, history, now)) continue;
+
+    const intensity = Math.round(latest?.[rule.intensityMetric] ?? 0);
+    alerts.push({
+      ruleId: rule.id,
+      kind: rule.kind,
+      name: rule.name,
+      severity: rule.severity,
+      intensity,
+      message: rule.message
+        ? rule.message.split("{intensity}").join(String(intensity))
+        : `${rule.name}: ${describeGroup(rule.when)}`,
+      triggeredAt: now,
+    });
+  }
+  return alerts;
+}
+
+/**
+ * The built-in alert for a single vibe reading, if any
+ */
+export function getVibeAlert(joy: number, anxiety: number): Alert | null {
+  const [alert] = evaluateRules(DEFAULT_ALERT_RULES, [{ at: 0, joy, anxiety }], new Map(), 0);
+  return alert ?? null;
+}
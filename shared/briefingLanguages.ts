@@ -0,0 +1,17 @@
+/**
+ * Languages the audio briefing can be written and spoken in
+ */
+
+export const BRIEFING_LANGUAGES = ["en", "es", "de", "ja"] as const;
+
+export type BriefingLanguage = (typeof BRIEFING_LANGUAGES)[number];
+
+export const DEFAULT_BRIEFING_LANGUAGE: BriefingLanguage = "en";
+
+// Each language's own name, for pickers
+export const BRIEFING_LANGUAGE_NAMES: Record<BriefingLanguage, string> = {
+  en: "English",
+  es: "Español",
+  de: "Deutsch",
+  ja: "日本語",
+};
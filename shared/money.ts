@@ -0,0 +1,8 @@
+/**
+ * USDC amounts are stored as integer cents server-side.
+ * These helpers convert at the API boundary.
+ */
+
+export const toCents = (amount: number): number => Math.round(amount * 100);
+
+export const fromCents = (cents: number): number => cents / 100;
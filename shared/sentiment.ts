@@ -0,0 +1,364 @@
+/**
+ * Deterministic lexicon sentiment engine
+ * Scores text offline, so vibes stay stable when Hume is unavailable and
+ * the same text always gets the same JOY/ANX. Used by the server's vibe
+ * fallback and by the dashboard's market vibes.
+ *
+ * Scoring:
+ * - Each lexicon hit (word, slang phrase or emoji) adds its weights to one
+ *   or more emotions.
+ * - Modifiers scale a hit: an intensifier within the two tokens before it
+ *   ×1.5 ("super bullish"), a diminisher ×0.5 ("slightly bearish"), ALL
+ *   CAPS ×1.5 ("CRASH"), and each "!" in the text +10% (up to three).
+ * - A negation within the three tokens before a hit ("not bullish", "no
+ *   crash") moves half its weight to the opposite emotion instead.
+ * - An emotion's intensity is 1 − e^(−total), so evidence saturates
+ *   rather than overflowing.
+ * - joy and anxiety are the strongest weighted emotion on each axis, the
+ *   same rule the Hume mapping uses (server/services/humeEmotions.ts).
+ */
+
+export const SENTIMENT_EMOTIONS = [
+  "excitement", "joy", "trust", "anticipation", "surprise",
+  "fear", "anxiety", "anger", "sadness", "disgust",
+] as const;
+
+export type SentimentEmotion = (typeof SENTIMENT_EMOTIONS)[number];
+
+type EmotionWeights = Partial<Record<SentimentEmotion, number>>;
+
+export interface SentimentAnalysis {
+  joy: number; // 0-100
+  anxiety: number; // 0-100
+  confidence: number; // 0-100, grows with the number of lexicon hits
+  dominant_emotion: string;
+  /** Every SENTIMENT_EMOTIONS entry plus neutral, 0-100. */
+  all_emotions: Record<string, number>;
+}
+
+export const LEXICON: Record<string, EmotionWeights> = {
+  // Bullish slang and news
+  moon: { excitement: 0.9, anticipation: 0.5 },
+  mooning: { excitement: 0.9, anticipation: 0.5 },
+  "to the moon": { excitement: 1.0, anticipation: 0.6 },
+  pump: { excitement: 0.7 },
+  pumping: { excitement: 0.7 },
+  bullish: { anticipation: 0.7, trust: 0.4 },
+  bull: { anticipation: 0.4 },
+  rally: { excitement: 0.6, joy: 0.4 },
+  surge: { excitement: 0.8 },
+  surging: { excitement: 0.8 },
+  soar: { excitement: 0.8 },
+  soaring: { excitement: 0.8 },
+  skyrocket: { excitement: 0.9 },
+  skyrocketing: { excitement: 0.9 },
+  breakout: { anticipation: 0.6, excitement: 0.5 },
+  ath: { joy: 0.7, excitement: 0.6 },
+  "all time high": { joy: 0.7, excitement: 0.6 },
+  lambo: { excitement: 0.6 },
+  hodl: { trust: 0.6 },
+  "diamond hands": { trust: 0.8 },
+  wagmi: { trust: 0.6, joy: 0.5 },
+  "buy the dip": { trust: 0.5, anticipation: 0.4 },
+  "short squeeze": { excitement: 0.7, surprise: 0.5 },
+  gains: { joy: 0.6 },
+  profit: { joy: 0.5 },
+  profits: { joy: 0.5 },
+  green: { joy: 0.3 },
+  rocket: { excitement: 0.7 },
+  breakthrough: { excitement: 0.6, anticipation: 0.4 },
+  revolutionary: { excitement: 0.6 },
+  launch: { anticipation: 0.5 },
+  launches: { anticipation: 0.5 },
+  announce: { anticipation: 0.4, surprise: 0.3 },
+  announces: { anticipation: 0.4, surprise: 0.3 },
+  ipo: { anticipation: 0.6 },
+  beat: { joy: 0.5, surprise: 0.3 },
+  beats: { joy: 0.5, surprise: 0.3 },
+  record: { joy: 0.4, excitement: 0.4 },
+  win: { joy: 0.6 },
+  wins: { joy: 0.6 },
+  approved: { joy: 0.5, trust: 0.5 },
+  approval: { joy: 0.5, trust: 0.5 },
+  partnership: { trust: 0.5, anticipation: 0.3 },
+  adoption: { trust: 0.5 },
+  upgrade: { anticipation: 0.4, joy: 0.3 },
+  viral: { excitement: 0.5, surprise: 0.3 },
+  trending: { excitement: 0.3 },
+  undervalued: { anticipation: 0.4 },
+  amazing: { joy: 0.6, surprise: 0.4 },
+  incredible: { joy: 0.6, surprise: 0.4 },
+  exciting: { excitement: 0.8 },
+  excited: { excitement: 0.8 },
+  love: { joy: 0.6 },
+  stable: { trust: 0.4 },
+  steady: { trust: 0.4 },
+
+  // Bearish slang and news
+  crash: { fear: 0.9 },
+  crashing: { fear: 0.9 },
+  dump: { anxiety: 0.7 },
+  dumping: { anxiety: 0.7 },
+  bearish: { anxiety: 0.7 },
+  bear: { anxiety: 0.3 },
+  rekt: { sadness: 0.7, fear: 0.4 },
+  rug: { anger: 0.6, fear: 0.5 },
+  rugged: { anger: 0.7, fear: 0.6 },
+  "rug pull": { anger: 0.7, fear: 0.6 },
+  scam: { anger: 0.6, disgust: 0.6 },
+  fraud: { anger: 0.7, disgust: 0.5 },
+  hack: { fear: 0.8 },
+  hacked: { fear: 0.8 },
+  exploit: { fear: 0.8 },
+  liquidated: { fear: 0.8, sadness: 0.4 },
+  liquidation: { fear: 0.8, sadness: 0.4 },
+  fud: { anxiety: 0.6 },
+  panic: { fear: 1.0 },
+  selloff: { anxiety: 0.8 },
+  "sell off": { anxiety: 0.8 },
+  plunge: { fear: 0.8 },
+  plunging: { fear: 0.8 },
+  tank: { fear: 0.7 },
+  tanking: { fear: 0.7 },
+  collapse: { fear: 0.9 },
+  bankrupt: { fear: 0.8, sadness: 0.5 },
+  bankruptcy: { fear: 0.8, sadness: 0.5 },
+  insolvent: { fear: 0.8, sadness: 0.5 },
+  lawsuit: { anxiety: 0.6 },
+  sued: { anxiety: 0.6 },
+  investigation: { anxiety: 0.5 },
+  ban: { anxiety: 0.6, anger: 0.3 },
+  banned: { anxiety: 0.6, anger: 0.3 },
+  delay: { anxiety: 0.4, sadness: 0.3 },
+  delayed: { anxiety: 0.4, sadness: 0.3 },
+  miss: { sadness: 0.5 },
+  missed: { sadness: 0.5 },
+  layoffs: { sadness: 0.6, anxiety: 0.5 },
+  warning: { anxiety: 0.6 },
+  risk: { anxiety: 0.5 },
+  risky: { anxiety: 0.5 },
+  fear: { fear: 0.8 },
+  worried: { anxiety: 0.6 },
+  worry: { anxiety: 0.6 },
+  concern: { anxiety: 0.5 },
+  concerns: { anxiety: 0.5 },
+  uncertain: { anxiety: 0.6 },
+  uncertainty: { anxiety: 0.6 },
+  volatile: { anxiety: 0.6, surprise: 0.3 },
+  volatility: { anxiety: 0.6, surprise: 0.3 },
+  "paper hands": { disgust: 0.4, anxiety: 0.3 },
+  ngmi: { sadness: 0.6 },
+  bagholder: { sadness: 0.5 },
+  bagholders: { sadness: 0.5 },
+  red: { anxiety: 0.3 },
+  loss: { sadness: 0.6 },
+  losses: { sadness: 0.6 },
+  drop: { anxiety: 0.5 },
+  drops: { anxiety: 0.5 },
+  fall: { anxiety: 0.4 },
+  falls: { anxiety: 0.4 },
+  decline: { anxiety: 0.4 },
+  leak: { surprise: 0.6, anxiety: 0.4 },
+  leaked: { surprise: 0.6, anxiety: 0.4 },
+  capitulation: { fear: 0.7, sadness: 0.6 },
+  recession: { fear: 0.7 },
+  bubble: { anxiety: 0.6 },
+  overvalued: { anxiety: 0.5 },
+  shock: { surprise: 0.8, fear: 0.3 },
+  shocking: { surprise: 0.8, fear: 0.3 },
+
+  // Emoji
+  "🚀": { excitement: 0.8, anticipation: 0.4 },
+  "🌕": { excitement: 0.6 },
+  "🔥": { excitement: 0.6 },
+  "📈": { anticipation: 0.5, joy: 0.3 },
+  "💎": { trust: 0.6 },
+  "🙌": { joy: 0.4 },
+  "🎉": { joy: 0.8 },
+  "💰": { joy: 0.5 },
+  "🤑": { excitement: 0.6 },
+  "🐂": { anticipation: 0.4 },
+  "😂": { joy: 0.4 },
+  "📉": { anxiety: 0.6, sadness: 0.3 },
+  "🐻": { anxiety: 0.4 },
+  "💀": { fear: 0.5 },
+  "😱": { fear: 0.9 },
+  "😭": { sadness: 0.7 },
+  "🩸": { fear: 0.6 },
+  "🤡": { disgust: 0.5 },
+  "🚨": { anxiety: 0.7, surprise: 0.4 },
+  "⚠": { anxiety: 0.7 },
+};
+
+const NEGATIONS = new Set([
+  "not", "no", "never", "without", "nobody", "nothing", "neither", "nor", "hardly",
+  "isn't", "isnt", "aren't", "arent", "wasn't", "wasnt", "don't", "dont", "doesn't", "doesnt",
+  "didn't", "didnt", "won't", "wont", "can't", "cant", "ain't", "aint",
+]);
+
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.5, super: 1.5, extremely: 1.5, insanely: 1.5, absolutely: 1.5,
+  really: 1.3, so: 1.3, massive: 1.5, huge: 1.5, mega: 1.5, totally: 1.3,
+  slightly: 0.5, somewhat: 0.5, kinda: 0.5, mildly: 0.5, little: 0.5, bit: 0.5,
+};
+
+const CAPS_MULTIPLIER = 1.5;
+const EXCLAMATION_BOOST = 0.1;
+const NEGATION_WINDOW = 3;
+const INTENSIFIER_WINDOW = 2;
+const LONGEST_PHRASE = 3;
+
+// Where a negated emotion's weight goes instead
+const OPPOSITE: Record<SentimentEmotion, SentimentEmotion> = {
+  excitement: "anxiety",
+  joy: "sadness",
+  trust: "anxiety",
+  anticipation: "anxiety",
+  surprise: "surprise",
+  fear: "trust",
+  anxiety: "trust",
+  anger: "trust",
+  sadness: "joy",
+  disgust: "trust",
+};
+
+const JOY_AXIS: EmotionWeights = { excitement: 1.0, joy: 1.0, anticipation: 0.7, trust: 0.5, surprise: 0.4 };
+const ANXIETY_AXIS: EmotionWeights = { fear: 1.0, anxiety: 1.0, anger: 0.6, sadness: 0.6, disgust: 0.5, surprise: 0.2 };
+
+// Words (with $tickers, #tags and apostrophes) or single emoji
+const TOKEN = new RegExp("[\\p{L}\\p{N}$#'’]+|\\p{Extended_Pictographic}", "gu");
+
+interface Token {
+  text: string;
+  lower: string;
+  caps: boolean;
+}
+
+function tokenize(text: string): Token[] {
+  return (text.match(TOKEN) ?? []).map(raw => {
+    const cleaned = raw.replace(/’/g, "'").replace(/^[$#]+/, "");
+    return {
+      text: cleaned,
+      lower: cleaned.toLowerCase(),
+      caps: cleaned.length >= 2 && /[A-Z]/.test(cleaned) && cleaned === cleaned.toUpperCase(),
+    };
+  });
+}
+
+export interface SentimentScores {
+  /** Intensity per emotion in [0, 1). */
+  emotions: Record<SentimentEmotion, number>;
+  /** Lexicon entries found, after phrase matching. */
+  hits: number;
+}
+
+export function scoreSentiment(text: string): SentimentScores {
+  const tokens = tokenize(text);
+  const totals = Object.fromEntries(SENTIMENT_EMOTIONS.map(emotion => [emotion, 0])) as Record<SentimentEmotion, number>;
+  const exclamations = Math.min(3, (text.match(/!/g) ?? []).length);
+  const boost = 1 + exclamations * EXCLAMATION_BOOST;
+  let hits = 0;
+
+  for (let i = 0; i < tokens.length; ) {
+    // Longest phrase starting here wins: "rug pull" before "rug"
+    let length = Math.min(LONGEST_PHRASE, tokens.length - i);
+    let weights: EmotionWeights | undefined;
+    for (; length > 0; length--) {
+      weights = LEXICON[tokens.slice(i, i + length).map(token => token.lower).join(" ")];
+      if (weights) break;
+    }
+    if (!weights) {
+      i++;
+      continue;
+    }
+
+    const before = tokens.slice(Math.max(0, i - NEGATION_WINDOW), i).map(token => token.lower);
+    const negated = before.some(word => NEGATIONS.has(word));
+    const intensity = tokens
+      .slice(Math.max(0, i - INTENSIFIER_WINDOW), i)
+      .reduce((product, token) => product * (INTENSIFIERS[token.lower] ?? 1), 1);
+    const caps = tokens.slice(i, i + length).some(token => token.caps) ? CAPS_MULTIPLIER : 1;
+    const scale = intensity * caps * boost;
+
+    for (const [emotion, weight] of Object.entries(weights) as Array<[SentimentEmotion, number]>) {
+      if (negated) {
+        totals[OPPOSITE[emotion]] += weight * scale * 0.5;
+      } else {
+        totals[emotion] += weight * scale;
+      }
+    }
+    hits++;
+    i += length;
+  }
+
+  const emotions = Object.fromEntries(
+    SENTIMENT_EMOTIONS.map(emotion => [emotion, 1 - Math.exp(-totals[emotion])])
+  ) as Record<SentimentEmotion, number>;
+
+  return { emotions, hits };
+}
+
+function axis(emotions: Record<SentimentEmotion, number>, weights: EmotionWeights): number {
+  return Math.max(
+    0,
+    ...(Object.entries(weights) as Array<[SentimentEmotion, number]>).map(([emotion, weight]) => emotions[emotion] * weight)
+  );
+}
+
+function toAnalysis({ emotions, hits }: SentimentScores): SentimentAnalysis {
+  const joy = axis(emotions, JOY_AXIS);
+  const anxiety = axis(emotions, ANXIETY_AXIS);
+
+  const [dominant, strongest] = SENTIMENT_EMOTIONS
+    .map(emotion => [emotion, emotions[emotion]] as const)
+    .reduce((top, entry) => (entry[1] > top[1] ? entry : top));
+
+  return {
+    joy: Math.round(joy * 100),
+    anxiety: Math.round(anxiety * 100),
+    confidence: Math.round(20 + 75 * (1 - Math.exp(-hits / 3))),
+    dominant_emotion: strongest >= 0.15 ? dominant : "neutral",
+    all_emotions: {
+      ...Object.fromEntries(SENTIMENT_EMOTIONS.map(emotion => [emotion, Math.round(emotions[emotion] * 100)])),
+      neutral: Math.round((1 - Math.max(joy, anxiety)) * 100),
+    },
+  };
+}
+
+export function analyzeSentiment(text: string): SentimentAnalysis {
+  return toAnalysis(scoreSentiment(text));
+}
+
+export interface MarketMood {
+  text: string;
+  change24h: number;
+  hypeScore: number;
+}
+
+/**
+ * Vibe for a market card: the text's sentiment, leaning on the price move
+ * when the text says little. Text weight grows with lexicon hits (none →
+ * price only, three or more → mostly text).
+ */
+export function analyzeMarketSentiment({ text, change24h, hypeScore }: MarketMood): SentimentAnalysis {
+  const scores = scoreSentiment(text);
+  const sentiment = toAnalysis(scores);
+
+  // Price-derived baseline: gains and hype lift joy, losses lift anxiety
+  const priceJoy = change24h >= 0
+    ? Math.min(100, 40 + change24h * 1.2 + hypeScore * 0.3)
+    : Math.max(10, 30 - Math.abs(change24h) * 0.5);
+  const priceAnxiety = change24h < 0
+    ? Math.min(100, 30 + Math.abs(change24h) * 2)
+    : Math.max(10, 20 + Math.abs(change24h) * 0.3);
+
+  const textWeight = Math.min(0.8, scores.hits / 3);
+  const blend = (fromText: number, fromPrice: number) =>
+    Math.round(fromText * textWeight + fromPrice * (1 - textWeight));
+
+  return {
+    ...sentiment,
+    joy: blend(sentiment.joy, priceJoy),
+    anxiety: blend(sentiment.anxiety, priceAnxiety),
+  };
+}
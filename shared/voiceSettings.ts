@@ -0,0 +1,37 @@
+/**
+ * Voice settings a user can save for their briefings
+ * Ranges follow ElevenLabs' voice_settings; the server rejects values
+ * outside them.
+ */
+
+export const VOICE_MODELS = ["flash", "turbo"] as const;
+
+export type VoiceModel = (typeof VOICE_MODELS)[number];
+
+export interface VoiceSettings {
+  /** Flash v2.5 answers fastest; Turbo v2.5 trades a little latency for quality. */
+  model: VoiceModel;
+  speed: number;
+  stability: number;
+  similarity: number;
+}
+
+export interface VoicePreferences extends VoiceSettings {
+  /** Voice profile id, e.g. "bill" or a synced library voice. */
+  voice: string;
+}
+
+export const VOICE_SETTING_RANGES = {
+  speed: { min: 0.7, max: 1.2, step: 0.05 },
+  stability: { min: 0, max: 1, step: 0.05 },
+  similarity: { min: 0, max: 1, step: 0.05 },
+} as const;
+
+export const DEFAULT_VOICE = "bill";
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  model: "flash",
+  speed: 1,
+  stability: 0.4,
+  similarity: 0.6,
+};